@@ -7,6 +7,7 @@
  * - /admin : Admin portal (protected)
  * - /login : Login page
  * - /gif/:id : Individual GIF page (for sharing)
+ * - /leaderboard : Sauce Sense leaderboard - PUBLIC
  */
 
 import React, { useState, useEffect } from 'react';
@@ -14,6 +15,7 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import { User } from 'firebase/auth';
 import { initAuthListener } from './services/authService';
 import { ensureUserProfile, UserProfile } from './services/userProfileService';
+import { startOfflineSync } from './services/offlineFavorites';
 
 // Pages
 import HomePage from './pages/HomePage';
@@ -23,8 +25,11 @@ import LoginPage from './pages/LoginPage';
 // Lazy-loaded pages
 const AdminPortal = React.lazy(() => import('./pages/admin/AdminPortal'));
 const SauceBox = React.lazy(() => import('./pages/SauceBox'));
+const SharedCollection = React.lazy(() => import('./pages/SharedCollection'));
+const JoinInvite = React.lazy(() => import('./pages/JoinInvite'));
 const LogoPreview = React.lazy(() => import('./pages/LogoPreview'));
 const GifPage = React.lazy(() => import('./pages/GifPage'));
+const Leaderboard = React.lazy(() => import('./pages/Leaderboard'));
 
 const App: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
@@ -59,6 +64,12 @@ const App: React.FC = () => {
     return () => unsubscribe();
   }, []);
 
+  // Replay favorites toggled while offline, now and on every reconnect
+  useEffect(() => {
+    if (!user) return;
+    return startOfflineSync(user.uid);
+  }, [user?.uid]);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-[#0a0a0b] flex items-center justify-center">
@@ -100,6 +111,12 @@ const App: React.FC = () => {
             element={isAuthenticated ? <SauceBox /> : <Navigate to="/login" replace />}
           />
 
+          {/* Public Sauce Box collection - PUBLIC (read-only link) */}
+          <Route path="/saucebox/c/:collectionId" element={<SharedCollection />} />
+
+          {/* Collection / team invite links - signs in on the page, then joins */}
+          <Route path="/saucebox/join/:kind/:targetId/:token" element={<JoinInvite />} />
+
           {/* Admin Portal - Protected (requires auth + admin role) */}
           <Route
             path="/admin/*"
@@ -123,6 +140,9 @@ const App: React.FC = () => {
           {/* Individual GIF Page - PUBLIC (for link sharing) */}
           <Route path="/gif/:id" element={<GifPage />} />
 
+          {/* Sauce Sense Leaderboard - PUBLIC */}
+          <Route path="/leaderboard" element={<Leaderboard />} />
+
           {/* Catch-all redirect */}
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
@@ -1,6 +1,6 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useEffect } from "react";
 import { Link as LinkIcon, Loader2 } from "lucide-react";
-import { generateAnimation, extractKeyFrame } from "../services/veoService";
+import { generateAnimation, extractKeyFrame, videoToGif, revokeGifResult, VideoGifResult } from "../services/veoService";
 
 interface UploadedMedia {
     id: string;
@@ -19,6 +19,15 @@ export default function AnimateTab() {
     const [error, setError] = useState<string | null>(null);
     const [urlInput, setUrlInput] = useState("");
     const [isLoadingUrl, setIsLoadingUrl] = useState(false);
+    const [gifResult, setGifResult] = useState<VideoGifResult | null>(null);
+    const [isConverting, setIsConverting] = useState(false);
+    const [gifFps, setGifFps] = useState(12);
+    const [includeWebp, setIncludeWebp] = useState(false);
+
+    // Free the previous conversion's object URLs when it's replaced or the tab unmounts
+    useEffect(() => () => {
+        if (gifResult) revokeGifResult(gifResult);
+    }, [gifResult]);
 
     const handleFileUpload = useCallback(
         async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -137,6 +146,7 @@ export default function AnimateTab() {
         setIsGenerating(true);
         setError(null);
         setResult(null);
+        setGifResult(null);
         setProgress("Preparing reference images...");
 
         try {
@@ -172,6 +182,28 @@ export default function AnimateTab() {
         link.click();
     };
 
+    const handleConvertToGif = async () => {
+        if (!result) return;
+        setIsConverting(true);
+        setError(null);
+        try {
+            const converted = await videoToGif(result, setProgress, { fps: gifFps, includeWebp });
+            setGifResult(converted);
+        } catch (err: any) {
+            setError(err.message || "Failed to convert video to GIF");
+        } finally {
+            setIsConverting(false);
+            setProgress("");
+        }
+    };
+
+    const downloadFile = (url: string, extension: string) => {
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = `stickify-animation-${Date.now()}.${extension}`;
+        link.click();
+    };
+
     return (
         <div className="p-6 space-y-6">
             {/* Header */}
@@ -354,6 +386,72 @@ export default function AnimateTab() {
                             ⬇️ Download MP4
                         </button>
                     </div>
+
+                    {/* GIF Conversion */}
+                    <div className="mt-6 pt-6 border-t border-emerald-200">
+                        <div className="flex flex-wrap items-center justify-center gap-4 mb-4 text-sm text-emerald-800">
+                            <label className="flex items-center gap-2">
+                                Frame rate
+                                <select
+                                    value={gifFps}
+                                    onChange={(e) => setGifFps(Number(e.target.value))}
+                                    className="px-2 py-1 rounded-lg border border-emerald-200 bg-white"
+                                >
+                                    {[8, 10, 12, 15, 20].map((fps) => (
+                                        <option key={fps} value={fps}>{fps} fps</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="flex items-center gap-2">
+                                <input
+                                    type="checkbox"
+                                    checked={includeWebp}
+                                    onChange={(e) => setIncludeWebp(e.target.checked)}
+                                />
+                                Also make animated WebP
+                            </label>
+                        </div>
+
+                        {gifResult ? (
+                            <div className="text-center">
+                                <img
+                                    src={gifResult.gifUrl}
+                                    alt="Animated GIF"
+                                    className="max-w-xs mx-auto rounded-xl"
+                                />
+                                <p className="text-xs text-emerald-700 mt-2">
+                                    {gifResult.width}×{gifResult.height} · {gifResult.frameCount} frames · {(gifResult.gifBlob.size / 1024).toFixed(0)} KB
+                                </p>
+                                <div className="flex gap-4 mt-4 justify-center">
+                                    <button
+                                        onClick={() => downloadFile(gifResult.gifUrl, "gif")}
+                                        className="px-6 py-3 bg-emerald-500 text-white rounded-xl font-semibold hover:bg-emerald-600 transition-colors"
+                                    >
+                                        ⬇️ Download GIF
+                                    </button>
+                                    {gifResult.webpUrl && (
+                                        <button
+                                            onClick={() => downloadFile(gifResult.webpUrl!, "webp")}
+                                            className="px-6 py-3 bg-white text-emerald-700 border border-emerald-300 rounded-xl font-semibold hover:bg-emerald-50 transition-colors"
+                                        >
+                                            ⬇️ Download WebP
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        ) : (
+                            <div className="flex justify-center">
+                                <button
+                                    onClick={handleConvertToGif}
+                                    disabled={isConverting}
+                                    className="px-6 py-3 bg-gradient-to-r from-emerald-500 to-green-500 text-white rounded-xl font-semibold hover:shadow-lg transition-all disabled:opacity-50 flex items-center gap-2"
+                                >
+                                    {isConverting && <Loader2 className="w-4 h-4 animate-spin" />}
+                                    {isConverting ? "Converting..." : "🎞️ Convert to GIF"}
+                                </button>
+                            </div>
+                        )}
+                    </div>
                 </div>
             )}
 
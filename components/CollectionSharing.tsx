@@ -0,0 +1,511 @@
+/**
+ * Collection Sharing - Sauce Box sharing UI
+ *
+ * - ShareCollectionModal: visibility (public link), team ownership, member permissions, invite links
+ * - TeamsModal: create teams, manage members and team invite links, leave
+ * - CollectionActivityFeed: who added/removed what in a shared collection
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+    X, Globe, Lock, Link2, Copy, Check, Trash2, Loader2, Users, UserMinus, Plus, LogOut,
+    FolderPlus, FolderMinus, UserPlus, Share2
+} from 'lucide-react';
+import {
+    updateCollectionSharing,
+    createInvite,
+    getInvites,
+    revokeInvite,
+    inviteUrl,
+    publicCollectionUrl,
+    getCollectionActivity,
+    createTeam,
+    updateTeamMembers,
+    leaveTeam,
+    SauceCollection,
+    SauceTeam,
+    CollectionInvite,
+    CollectionActivity,
+    InviteKind,
+    MemberRole,
+    TeamRole
+} from '../services/favoritesService';
+
+const errorMessage = (error: unknown, fallback: string): string =>
+    error instanceof Error && error.message ? error.message : fallback;
+
+const timeAgo = (date?: Date): string => {
+    if (!date) return 'just now';
+    const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes}m ago`;
+    if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+    return date.toLocaleDateString();
+};
+
+export function ModalShell({ title, onClose, children }: { title: string; onClose: () => void; children: React.ReactNode }) {
+    return (
+        <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                className="w-full max-w-lg max-h-[85vh] overflow-y-auto bg-[#121214] border border-white/10 rounded-3xl p-5 space-y-5 text-white"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between">
+                    <h2 className="font-bold text-lg">{title}</h2>
+                    <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+                {children}
+            </div>
+        </div>
+    );
+}
+
+function CopyButton({ text }: { text: string }) {
+    const [copied, setCopied] = useState(false);
+    return (
+        <button
+            onClick={async () => {
+                await navigator.clipboard.writeText(text);
+                setCopied(true);
+                setTimeout(() => setCopied(false), 1500);
+            }}
+            className="p-2 bg-white/10 rounded-lg hover:bg-white/20 transition-all"
+            title="Copy link"
+        >
+            {copied ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+        </button>
+    );
+}
+
+// =============================================================================
+// INVITE LINKS
+// =============================================================================
+
+interface InviteLinksProps {
+    kind: InviteKind;
+    targetId: string;
+    userId: string;
+    roles: { id: MemberRole | 'member'; label: string }[];
+}
+
+function InviteLinks({ kind, targetId, userId, roles }: InviteLinksProps) {
+    const [invites, setInvites] = useState<CollectionInvite[]>([]);
+    const [role, setRole] = useState(roles[0].id);
+    const [creating, setCreating] = useState(false);
+
+    useEffect(() => {
+        getInvites(kind, targetId)
+            .then(setInvites)
+            .catch(error => console.error('Failed to load invites:', error));
+    }, [kind, targetId]);
+
+    const handleCreate = async () => {
+        setCreating(true);
+        try {
+            const invite = await createInvite(kind, targetId, userId, role);
+            setInvites([...invites, invite]);
+        } catch (error) {
+            console.error('Failed to create invite:', error);
+            alert(errorMessage(error, 'Failed to create invite link.'));
+        } finally {
+            setCreating(false);
+        }
+    };
+
+    const handleRevoke = async (token: string) => {
+        try {
+            await revokeInvite(kind, targetId, token);
+            setInvites(invites.filter(i => i.token !== token));
+        } catch (error) {
+            console.error('Failed to revoke invite:', error);
+            alert('Failed to revoke invite link.');
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center gap-2">
+                {roles.length > 1 && (
+                    <select
+                        value={role}
+                        onChange={(e) => setRole(e.target.value as MemberRole)}
+                        className="px-3 py-2 bg-transparent border border-white/10 rounded-xl text-sm"
+                    >
+                        {roles.map(r => (
+                            <option key={r.id} value={r.id} className="bg-[#121214]">{r.label}</option>
+                        ))}
+                    </select>
+                )}
+                <button
+                    onClick={handleCreate}
+                    disabled={creating}
+                    className="flex-1 flex items-center justify-center gap-2 py-2 bg-white/10 rounded-xl text-sm font-semibold hover:bg-white/20 disabled:opacity-50 transition-all"
+                >
+                    {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+                    Create invite link
+                </button>
+            </div>
+            {invites.map(invite => (
+                <div key={invite.token} className="flex items-center gap-2 p-2 bg-white/5 rounded-xl text-xs">
+                    <span className="flex-1 truncate text-slate-400">
+                        {roles.find(r => r.id === invite.role)?.label || invite.role}
+                        {invite.expiresAt && ` · expires ${invite.expiresAt.toLocaleDateString()}`}
+                    </span>
+                    <CopyButton text={inviteUrl(kind, targetId, invite.token)} />
+                    <button
+                        onClick={() => handleRevoke(invite.token)}
+                        className="p-2 bg-white/10 rounded-lg text-slate-400 hover:text-red-400 transition-all"
+                        title="Revoke link"
+                    >
+                        <Trash2 className="w-4 h-4" />
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+// =============================================================================
+// SHARE COLLECTION
+// =============================================================================
+
+interface ShareCollectionModalProps {
+    collection: SauceCollection;
+    teams: SauceTeam[];
+    userId: string;
+    onClose: () => void;
+    onChanged: () => void;
+}
+
+export function ShareCollectionModal({ collection, teams, userId, onClose, onChanged }: ShareCollectionModalProps) {
+    const [saving, setSaving] = useState(false);
+
+    const apply = async (changes: Parameters<typeof updateCollectionSharing>[1]) => {
+        setSaving(true);
+        try {
+            await updateCollectionSharing(collection.id, changes);
+            onChanged();
+        } catch (error) {
+            console.error('Failed to update sharing:', error);
+            alert(errorMessage(error, 'Failed to update sharing.'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const memberIds = Object.keys(collection.members);
+
+    return (
+        <ModalShell title={`Share "${collection.name}"`} onClose={onClose}>
+            {/* Visibility */}
+            <section className="space-y-2">
+                <h3 className="text-xs text-slate-500 uppercase tracking-wider">Link access</h3>
+                <div className="grid grid-cols-2 gap-2">
+                    {(['private', 'public'] as const).map(visibility => (
+                        <button
+                            key={visibility}
+                            onClick={() => visibility !== collection.visibility && apply({ visibility })}
+                            disabled={saving}
+                            className={`flex items-center gap-2 p-3 rounded-xl text-sm text-left transition-all ${collection.visibility === visibility
+                                ? 'bg-red-500/15 border border-red-500/50'
+                                : 'bg-white/5 border border-white/10 hover:bg-white/10'
+                                }`}
+                        >
+                            {visibility === 'public' ? <Globe className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+                            <span>
+                                <span className="block font-semibold capitalize">{visibility}</span>
+                                <span className="block text-[11px] text-slate-500">
+                                    {visibility === 'public' ? 'Anyone with the link can view' : 'Only members'}
+                                </span>
+                            </span>
+                        </button>
+                    ))}
+                </div>
+                {collection.visibility === 'public' && (
+                    <div className="flex items-center gap-2 p-2 bg-white/5 rounded-xl text-xs">
+                        <span className="flex-1 truncate text-slate-400">{publicCollectionUrl(collection.id)}</span>
+                        <CopyButton text={publicCollectionUrl(collection.id)} />
+                    </div>
+                )}
+            </section>
+
+            {/* Team ownership */}
+            <section className="space-y-2">
+                <h3 className="text-xs text-slate-500 uppercase tracking-wider">Owned by</h3>
+                <select
+                    value={collection.teamId || ''}
+                    disabled={saving}
+                    onChange={(e) => apply({ teamId: e.target.value || null })}
+                    className="w-full px-3 py-2.5 bg-transparent border border-white/10 rounded-xl text-sm"
+                >
+                    <option value="" className="bg-[#121214]">
+                        {collection.ownerId === userId ? 'Just me' : 'Its creator'}
+                    </option>
+                    {teams.map(team => (
+                        <option key={team.id} value={team.id} className="bg-[#121214]">Team: {team.name}</option>
+                    ))}
+                </select>
+                {collection.teamId && (
+                    <p className="text-[11px] text-slate-500">Everyone on the team can add GIFs; team admins manage sharing.</p>
+                )}
+            </section>
+
+            {/* Members */}
+            <section className="space-y-2">
+                <h3 className="text-xs text-slate-500 uppercase tracking-wider">Members</h3>
+                {memberIds.length === 0 ? (
+                    <p className="text-sm text-slate-500">No one else yet - send an invite link.</p>
+                ) : memberIds.map(memberId => (
+                    <div key={memberId} className="flex items-center gap-2 p-2 bg-white/5 rounded-xl text-sm">
+                        <span className="flex-1 truncate">{collection.memberNames[memberId] || 'Member'}</span>
+                        <select
+                            value={collection.members[memberId]}
+                            disabled={saving}
+                            onChange={(e) => apply({ members: { [memberId]: e.target.value as MemberRole } })}
+                            className="px-2 py-1 bg-transparent border border-white/10 rounded-lg text-xs"
+                        >
+                            <option value="editor" className="bg-[#121214]">Can add & remove</option>
+                            <option value="viewer" className="bg-[#121214]">Can view</option>
+                        </select>
+                        <button
+                            onClick={() => apply({ members: { [memberId]: null } })}
+                            disabled={saving}
+                            className="p-1.5 text-slate-400 hover:text-red-400 transition-colors"
+                            title="Remove member"
+                        >
+                            <UserMinus className="w-4 h-4" />
+                        </button>
+                    </div>
+                ))}
+            </section>
+
+            {/* Invites */}
+            <section className="space-y-2">
+                <h3 className="text-xs text-slate-500 uppercase tracking-wider">Invite links</h3>
+                <InviteLinks
+                    kind="collection"
+                    targetId={collection.id}
+                    userId={userId}
+                    roles={[{ id: 'editor', label: 'Joins as editor' }, { id: 'viewer', label: 'Joins as viewer' }]}
+                />
+            </section>
+        </ModalShell>
+    );
+}
+
+// =============================================================================
+// TEAMS
+// =============================================================================
+
+interface TeamsModalProps {
+    teams: SauceTeam[];
+    userId: string;
+    onClose: () => void;
+    onChanged: () => void;
+}
+
+export function TeamsModal({ teams, userId, onClose, onChanged }: TeamsModalProps) {
+    const [name, setName] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [expandedId, setExpandedId] = useState<string | null>(teams[0]?.id || null);
+
+    const run = async (action: () => Promise<unknown>, fallback: string) => {
+        setBusy(true);
+        try {
+            await action();
+            onChanged();
+        } catch (error) {
+            console.error(fallback, error);
+            alert(errorMessage(error, fallback));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleCreate = () => run(async () => {
+        const team = await createTeam(userId, name);
+        setName('');
+        setExpandedId(team.id);
+    }, 'Failed to create team.');
+
+    return (
+        <ModalShell title="Teams" onClose={onClose}>
+            <p className="text-sm text-slate-400">
+                Teams own collections together - everyone on the team can add to them.
+            </p>
+
+            <div className="flex items-center gap-2">
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="New team name"
+                    maxLength={60}
+                    className="flex-1 px-3 py-2.5 bg-white/5 border border-white/10 rounded-xl text-sm placeholder-slate-500 focus:outline-none focus:border-red-500/50"
+                />
+                <button
+                    onClick={handleCreate}
+                    disabled={busy || !name.trim()}
+                    className="flex items-center gap-1.5 px-4 py-2.5 bg-red-600 rounded-xl text-sm font-bold hover:bg-red-500 disabled:opacity-40 transition-all"
+                >
+                    <Plus className="w-4 h-4" />
+                    Create
+                </button>
+            </div>
+
+            {teams.map(team => {
+                const isAdmin = team.members[userId] === 'admin';
+                const expanded = expandedId === team.id;
+                return (
+                    <div key={team.id} className="bg-white/5 border border-white/10 rounded-2xl">
+                        <button
+                            onClick={() => setExpandedId(expanded ? null : team.id)}
+                            className="w-full flex items-center gap-2 p-3 text-left"
+                        >
+                            <Users className="w-4 h-4 text-slate-400" />
+                            <span className="flex-1 font-semibold">{team.name}</span>
+                            <span className="text-xs text-slate-500">
+                                {Object.keys(team.members).length} members · {team.collectionIds.length} collections
+                            </span>
+                        </button>
+                        {expanded && (
+                            <div className="px-3 pb-3 space-y-3">
+                                {Object.entries(team.members).map(([memberId, role]) => (
+                                    <div key={memberId} className="flex items-center gap-2 text-sm">
+                                        <span className="flex-1 truncate">
+                                            {team.memberNames[memberId] || 'Member'}
+                                            {memberId === userId && <span className="text-slate-500"> (you)</span>}
+                                        </span>
+                                        {isAdmin && memberId !== team.ownerId && memberId !== userId ? (
+                                            <>
+                                                <select
+                                                    value={role}
+                                                    disabled={busy}
+                                                    onChange={(e) => run(
+                                                        () => updateTeamMembers(team.id, { [memberId]: e.target.value as TeamRole }),
+                                                        'Failed to update team.'
+                                                    )}
+                                                    className="px-2 py-1 bg-transparent border border-white/10 rounded-lg text-xs"
+                                                >
+                                                    <option value="admin" className="bg-[#121214]">Admin</option>
+                                                    <option value="member" className="bg-[#121214]">Member</option>
+                                                </select>
+                                                <button
+                                                    onClick={() => confirm(`Remove ${team.memberNames[memberId] || 'this member'} from ${team.name}?`)
+                                                        && run(() => updateTeamMembers(team.id, { [memberId]: null }), 'Failed to remove member.')}
+                                                    disabled={busy}
+                                                    className="p-1.5 text-slate-400 hover:text-red-400 transition-colors"
+                                                    title="Remove from team"
+                                                >
+                                                    <UserMinus className="w-4 h-4" />
+                                                </button>
+                                            </>
+                                        ) : (
+                                            <span className="text-xs text-slate-500 capitalize">
+                                                {memberId === team.ownerId ? 'Owner' : role}
+                                            </span>
+                                        )}
+                                    </div>
+                                ))}
+
+                                {isAdmin && (
+                                    <InviteLinks
+                                        kind="team"
+                                        targetId={team.id}
+                                        userId={userId}
+                                        roles={[{ id: 'member', label: 'Joins as member' }]}
+                                    />
+                                )}
+
+                                {team.ownerId !== userId && (
+                                    <button
+                                        onClick={() => confirm(`Leave ${team.name}?`)
+                                            && run(() => leaveTeam(team.id, userId), 'Failed to leave team.')}
+                                        disabled={busy}
+                                        className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-red-400 transition-colors"
+                                    >
+                                        <LogOut className="w-3.5 h-3.5" />
+                                        Leave team
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </ModalShell>
+    );
+}
+
+// =============================================================================
+// ACTIVITY
+// =============================================================================
+
+const ACTIVITY_ICONS: Record<CollectionActivity['type'], React.ComponentType<{ className?: string }>> = {
+    added: FolderPlus,
+    removed: FolderMinus,
+    joined: UserPlus,
+    left: LogOut,
+    shared: Share2,
+};
+
+function describeActivity(entry: CollectionActivity): string {
+    switch (entry.type) {
+        case 'added': return `added ${entry.gifTitle || 'a GIF'}`;
+        case 'removed': return `removed ${entry.gifTitle || 'a GIF'}`;
+        case 'joined': return 'joined';
+        case 'left': return 'left';
+        default: return entry.detail || 'changed sharing';
+    }
+}
+
+/**
+ * Recent activity for a collection; `refreshKey` reloads it after local changes
+ */
+export function CollectionActivityFeed({ collectionId, refreshKey }: { collectionId: string; refreshKey: number }) {
+    const [entries, setEntries] = useState<CollectionActivity[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        setLoading(true);
+        getCollectionActivity(collectionId)
+            .then(setEntries)
+            .catch(error => console.error('Failed to load activity:', error))
+            .finally(() => setLoading(false));
+    }, [collectionId, refreshKey]);
+
+    if (loading) {
+        return (
+            <div className="flex justify-center py-6">
+                <Loader2 className="w-5 h-5 text-red-500 animate-spin" />
+            </div>
+        );
+    }
+
+    if (entries.length === 0) {
+        return <p className="py-6 text-center text-sm text-slate-500">No activity yet.</p>;
+    }
+
+    return (
+        <ul className="space-y-2">
+            {entries.map(entry => {
+                const Icon = ACTIVITY_ICONS[entry.type] || Share2;
+                return (
+                    <li key={entry.id} className="flex items-center gap-3 text-sm">
+                        <Icon className="w-4 h-4 shrink-0 text-slate-500" />
+                        {entry.gifThumbnail && (
+                            <img src={entry.gifThumbnail} alt="" className="w-8 h-8 rounded-lg object-cover shrink-0" />
+                        )}
+                        <span className="flex-1 min-w-0 truncate">
+                            <span className="font-semibold">{entry.actorName}</span>{' '}
+                            <span className="text-slate-400">{describeActivity(entry)}</span>
+                        </span>
+                        <span className="text-xs text-slate-600 shrink-0">{timeAgo(entry.createdAt)}</span>
+                    </li>
+                );
+            })}
+        </ul>
+    );
+}
@@ -1,43 +1,58 @@
 /**
  * Meme Editor - Premium GIF meme creator with frame scrubber and draggable text
  * Matches the Saucy HomePage aesthetic with glassmorphism and vibrant design
+ *
+ * The editor works on a MemeDocument: each text layer is a timeline caption that
+ * shows over a frame range, can pop/fade/type/shake in and out, and can be keyframed
+ * to move. Previews and exports all render through memeEngine, so what you see is
+ * exactly what GifCreator would produce, and documents can be saved as drafts.
  */
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import {
     X, Download, Loader2, Play, Pause, SkipBack, SkipForward,
     Type, Palette, Move, Plus, Trash2, Sparkles, Image as ImageIcon,
-    ChevronLeft, ChevronRight
+    ChevronLeft, ChevronRight, Clock, Diamond, Film, Save, FolderOpen, Upload, AlertCircle
 } from 'lucide-react';
+import { interpolateKeyframes, getCaptionFonts, CAPTION_EFFECTS } from '../services/captionOverlayService';
+import {
+    loadMemeFrames,
+    createMemeDocument,
+    createMemeLayer,
+    fitDocumentToFrames,
+    renderMemeFrame,
+    exportMemePng,
+    exportMemeGif,
+    documentToTimeline,
+    preloadDocumentFonts,
+    hasLayerText,
+    defaultFontSize,
+    strokeForSize,
+    MemeDocument,
+    MemeFrames,
+    MemeLayer
+} from '../services/memeEngine';
+import { saveMemeDocument, getMemeDocuments } from '../services/memeDocumentService';
+import {
+    getFontOptions,
+    getFontStatus,
+    loadFont,
+    onFontsChanged,
+    loadCustomFonts,
+    uploadCustomFont,
+    deleteCustomFont,
+    FontOption
+} from '../services/fontRegistry';
+import { getBrandClaim } from '../services/userProfileService';
+import { getCurrentUser } from '../services/authService';
 
 interface MemeEditorProps {
     gifUrl: string;
+    document?: MemeDocument;    // Re-open a saved meme instead of starting fresh
     onClose: () => void;
 }
 
-interface TextOverlay {
-    id: string;
-    text: string;
-    x: number;
-    y: number;
-    fontSize: number;
-    fontFamily: string;
-    color: string;
-}
-
-interface GifFrame {
-    imageData: string;
-    delay: number;
-}
-
-const FONT_OPTIONS = [
-    { id: 'impact', name: 'Impact', family: 'Impact, sans-serif', preview: 'Aa' },
-    { id: 'arial-black', name: 'Arial Black', family: '"Arial Black", sans-serif', preview: 'Aa' },
-    { id: 'comic', name: 'Comic Sans', family: '"Comic Sans MS", cursive', preview: 'Aa' },
-    { id: 'bebas', name: 'Bebas Neue', family: '"Bebas Neue", sans-serif', preview: 'AA' },
-    { id: 'roboto', name: 'Roboto', family: '"Roboto", sans-serif', preview: 'Aa' },
-    { id: 'oswald', name: 'Oswald', family: '"Oswald", sans-serif', preview: 'Aa' },
-];
+const MAX_LAYERS = 5;
 
 const COLOR_PRESETS = [
     { name: 'White', color: '#ffffff' },
@@ -50,21 +65,25 @@ const COLOR_PRESETS = [
     { name: 'Black', color: '#000000' },
 ];
 
-export default function MemeEditor({ gifUrl, onClose }: MemeEditorProps) {
-    // Frame extraction state
-    const [frames, setFrames] = useState<GifFrame[]>([]);
+// Where a layer sits on a frame: keyframed path if it has one, else its fixed anchor
+const getLayerAnchor = (layer: MemeLayer, frame: number) =>
+    interpolateKeyframes(layer.keyframes || [], frame) || layer.anchor || { x: 50, y: 50 };
+
+export default function MemeEditor({ gifUrl, document: initialDocument, onClose }: MemeEditorProps) {
+    // Source frames and the document being edited
+    const [sourceUrl, setSourceUrl] = useState(initialDocument?.source.url || gifUrl);
+    const [decoded, setDecoded] = useState<MemeFrames | null>(null);
+    const [meme, setMeme] = useState<MemeDocument | null>(null);
     const [currentFrameIndex, setCurrentFrameIndex] = useState(0);
     const [isExtracting, setIsExtracting] = useState(true);
     const [extractionError, setExtractionError] = useState<string | null>(null);
+    const pendingDocumentRef = useRef<MemeDocument | undefined>(initialDocument);
 
     // Playback state
     const [isPlaying, setIsPlaying] = useState(false);
     const playIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
-    // Text overlay state
-    const [textOverlays, setTextOverlays] = useState<TextOverlay[]>([
-        { id: '1', text: '', x: 50, y: 15, fontSize: 36, fontFamily: 'Impact, sans-serif', color: '#ffffff' },
-    ]);
+    // Selected layer
     const [selectedOverlay, setSelectedOverlay] = useState<string>('1');
 
     // Dragging state
@@ -72,67 +91,80 @@ export default function MemeEditor({ gifUrl, onClose }: MemeEditorProps) {
     const dragOffsetRef = useRef<{ x: number; y: number } | null>(null);
 
     // UI state
-    const [activeTab, setActiveTab] = useState<'text' | 'style' | 'position'>('text');
+    const [activeTab, setActiveTab] = useState<'text' | 'style' | 'timing'>('text');
     const [processing, setProcessing] = useState(false);
+    const [exportStatus, setExportStatus] = useState<string | null>(null);
     const [showCustomColor, setShowCustomColor] = useState(false);
 
+    // Drafts
+    const [showDrafts, setShowDrafts] = useState(false);
+    const [drafts, setDrafts] = useState<MemeDocument[]>([]);
+    const [saving, setSaving] = useState(false);
+    const user = getCurrentUser();
+
+    // Fonts - the preview re-renders as web fonts finish loading
+    const [fontOptions, setFontOptions] = useState<FontOption[]>(getFontOptions());
+    const [fontsVersion, setFontsVersion] = useState(0);
+    const [isBrand, setIsBrand] = useState(false);
+    const [uploadingFont, setUploadingFont] = useState(false);
+    const fontInputRef = useRef<HTMLInputElement>(null);
+
     const previewRef = useRef<HTMLDivElement>(null);
-    const canvasRef = useRef<HTMLCanvasElement>(null);
 
-    // Extract frames from GIF using canvas
-    useEffect(() => {
-        const extractFrames = async () => {
-            setIsExtracting(true);
-            setExtractionError(null);
-
-            try {
-                // Create an image to load the GIF
-                const img = new window.Image();
-                img.crossOrigin = 'anonymous';
-
-                await new Promise<void>((resolve, reject) => {
-                    img.onload = () => resolve();
-                    img.onerror = () => reject(new Error('Failed to load GIF'));
-                    img.src = gifUrl;
-                });
-
-                // For now, use the static image as a single "frame"
-                // Real GIF frame extraction would require a library like gif.js or omggif
-                const canvas = document.createElement('canvas');
-                canvas.width = img.naturalWidth || 400;
-                canvas.height = img.naturalHeight || 400;
-                const ctx = canvas.getContext('2d');
-
-                if (ctx) {
-                    ctx.drawImage(img, 0, 0);
-                    const frameData = canvas.toDataURL('image/png');
-
-                    // Create multiple "frames" by slightly adjusting - this simulates frame selection
-                    // In production, you'd use a proper GIF parsing library
-                    const simulatedFrames: GifFrame[] = [];
-                    for (let i = 0; i < 10; i++) {
-                        simulatedFrames.push({
-                            imageData: frameData,
-                            delay: 100
-                        });
-                    }
-
-                    setFrames(simulatedFrames);
-                    setCurrentFrameIndex(0);
-                }
-            } catch (error) {
-                console.error('Frame extraction error:', error);
-                setExtractionError('Could not extract frames. Using static image.');
+    const frames = decoded?.frames || [];
+    const textOverlays = meme?.layers || [];
+
+    useEffect(() => onFontsChanged(() => {
+        setFontOptions(getFontOptions());
+        setFontsVersion(v => v + 1);
+    }), []);
 
-                // Fallback: just use the GIF URL directly
-                setFrames([{ imageData: gifUrl, delay: 100 }]);
-            } finally {
-                setIsExtracting(false);
+    // Brand accounts get their uploaded fonts alongside the built-ins
+    useEffect(() => {
+        if (!user) return;
+        getBrandClaim().then(brand => {
+            setIsBrand(brand);
+            if (brand) {
+                loadCustomFonts(user.uid).catch(error => console.error('Failed to load custom fonts:', error));
             }
-        };
+        });
+    }, [user?.uid]);
 
-        extractFrames();
-    }, [gifUrl]);
+    // Decode the source, then either restore the document being opened or start a new one
+    useEffect(() => {
+        let cancelled = false;
+        setIsExtracting(true);
+        setExtractionError(null);
+
+        loadMemeFrames(sourceUrl)
+            .then(loaded => {
+                if (cancelled) return;
+
+                const pending = pendingDocumentRef.current;
+                pendingDocumentRef.current = undefined;
+
+                const firstLayer = createMemeLayer('1', loaded.frames.length, { fontSize: defaultFontSize(loaded.height) });
+                const next = pending
+                    ? fitDocumentToFrames(pending, loaded)
+                    : createMemeDocument(sourceUrl, loaded, [firstLayer]);
+                if (next.layers.length === 0) next.layers = [firstLayer];
+
+                preloadDocumentFonts(next);
+                setDecoded(loaded);
+                setMeme(next);
+                setSelectedOverlay(next.layers[0].id);
+                setCurrentFrameIndex(0);
+            })
+            .catch(error => {
+                console.error('Frame extraction error:', error);
+                if (!cancelled) setExtractionError('Could not load this GIF for editing.');
+            })
+            .finally(() => {
+                if (!cancelled) setIsExtracting(false);
+            });
+
+        return () => { cancelled = true; };
+    }, [sourceUrl]);
 
     // Playback control
     useEffect(() => {
@@ -156,29 +188,57 @@ export default function MemeEditor({ gifUrl, onClose }: MemeEditorProps) {
         setCurrentFrameIndex(Math.max(0, Math.min(frames.length - 1, index)));
     };
 
-    // Text overlay management
+    // Layer management
     const getSelectedOverlay = () => textOverlays.find(o => o.id === selectedOverlay);
 
-    const updateSelectedOverlay = (updates: Partial<TextOverlay>) => {
-        setTextOverlays(prev =>
-            prev.map(o => (o.id === selectedOverlay ? { ...o, ...updates } : o))
-        );
+    const updateLayers = (update: (layers: MemeLayer[]) => MemeLayer[]) => {
+        setMeme(prev => prev && { ...prev, layers: update(prev.layers) });
+    };
+
+    const updateSelectedOverlay = (updates: Partial<MemeLayer>) => {
+        updateLayers(layers => layers.map(o => (o.id === selectedOverlay ? { ...o, ...updates } : o)));
     };
 
     const addTextLayer = () => {
-        if (textOverlays.length >= 5) return;
+        if (!decoded || textOverlays.length >= MAX_LAYERS) return;
         const newId = String(Date.now());
-        setTextOverlays(prev => [
-            ...prev,
-            { id: newId, text: '', x: 50, y: 85, fontSize: 36, fontFamily: 'Impact, sans-serif', color: '#ffffff' }
+        updateLayers(layers => [
+            ...layers,
+            createMemeLayer(newId, frames.length, { anchor: { x: 50, y: 85 }, fontSize: defaultFontSize(decoded.height) })
         ]);
         setSelectedOverlay(newId);
     };
 
     const removeSelectedOverlay = () => {
         if (textOverlays.length <= 1) return;
-        setTextOverlays(prev => prev.filter(o => o.id !== selectedOverlay));
-        setSelectedOverlay(textOverlays[0]?.id || '1');
+        const remaining = textOverlays.filter(o => o.id !== selectedOverlay);
+        updateLayers(() => remaining);
+        setSelectedOverlay(remaining[0].id);
+    };
+
+    // Timeline editing for the selected layer
+    const setLayerRange = (startFrame: number, endFrame: number) => {
+        const lastFrame = Math.max(0, frames.length - 1);
+        const start = Math.max(0, Math.min(startFrame, lastFrame));
+        updateSelectedOverlay({ startFrame: start, endFrame: Math.max(start, Math.min(endFrame, lastFrame)) });
+    };
+
+    const setKeyframeHere = (layer: MemeLayer, x: number, y: number) => {
+        updateSelectedOverlay({
+            keyframes: [...(layer.keyframes || []).filter(k => k.frame !== currentFrameIndex), { frame: currentFrameIndex, x, y }]
+                .sort((a, b) => a.frame - b.frame)
+        });
+    };
+
+    // Keyframed layers record drags as a keyframe on the current frame
+    const moveSelectedOverlay = (x: number, y: number) => {
+        const layer = getSelectedOverlay();
+        if (!layer) return;
+        if (layer.keyframes?.length) {
+            setKeyframeHere(layer, x, y);
+        } else {
+            updateSelectedOverlay({ anchor: { x, y } });
+        }
     };
 
     // Dragging handlers
@@ -192,9 +252,10 @@ export default function MemeEditor({ gifUrl, onClose }: MemeEditorProps) {
             const rect = previewRef.current.getBoundingClientRect();
             const clickX = ((e.clientX - rect.left) / rect.width) * 100;
             const clickY = ((e.clientY - rect.top) / rect.height) * 100;
+            const anchor = getLayerAnchor(overlay, currentFrameIndex);
             dragOffsetRef.current = {
-                x: clickX - overlay.x,
-                y: clickY - overlay.y
+                x: clickX - anchor.x,
+                y: clickY - anchor.y
             };
         }
     };
@@ -206,10 +267,10 @@ export default function MemeEditor({ gifUrl, onClose }: MemeEditorProps) {
         const x = ((e.clientX - rect.left) / rect.width) * 100 - dragOffsetRef.current.x;
         const y = ((e.clientY - rect.top) / rect.height) * 100 - dragOffsetRef.current.y;
 
-        updateSelectedOverlay({
-            x: Math.max(5, Math.min(95, x)),
-            y: Math.max(5, Math.min(95, y))
-        });
+        moveSelectedOverlay(
+            Math.max(5, Math.min(95, x)),
+            Math.max(5, Math.min(95, y))
+        );
     };
 
     const handleMouseUp = () => {
@@ -217,68 +278,130 @@ export default function MemeEditor({ gifUrl, onClose }: MemeEditorProps) {
         dragOffsetRef.current = null;
     };
 
-    // Export meme
+    // The preview is the engine's own render, so exports match it pixel for pixel
+    const previewUrl = useMemo(
+        () => (meme && decoded ? renderMemeFrame(meme, decoded, currentFrameIndex) : null),
+        [meme, decoded, currentFrameIndex, fontsVersion]
+    );
+
+    // Exports wait for every font in use; show why the buttons are held
+    const fontsPending = useMemo(() => {
+        if (!meme) return false;
+        return getCaptionFonts(documentToTimeline(meme)).some(({ family }) => getFontStatus(family) === 'loading');
+    }, [meme, fontsVersion]);
+
+    const downloadUrl = (url: string, filename: string) => {
+        const link = document.createElement('a');
+        link.download = filename;
+        link.href = url;
+        link.click();
+    };
+
+    // Export the current frame as a PNG
     const handleExport = async () => {
+        if (!meme || !decoded) return;
         setProcessing(true);
         try {
-            const canvas = canvasRef.current;
-            if (!canvas || frames.length === 0) throw new Error('No canvas');
-
-            const img = new window.Image();
-            img.crossOrigin = 'anonymous';
+            downloadUrl(await exportMemePng(meme, decoded, currentFrameIndex), 'saucy-meme.png');
+        } catch (e) {
+            console.error('Export failed:', e);
+            alert(e instanceof Error ? e.message : 'Failed to export meme. Please try again.');
+        } finally {
+            setProcessing(false);
+        }
+    };
 
-            await new Promise<void>((resolve, reject) => {
-                img.onload = () => resolve();
-                img.onerror = reject;
-                img.src = frames[currentFrameIndex].imageData;
+    // Export every frame with the caption timeline as an animated GIF
+    const handleExportGif = async () => {
+        if (!meme || !decoded) return;
+        setProcessing(true);
+        try {
+            const result = await exportMemeGif(meme, decoded, (status, percent) => {
+                setExportStatus(`${status} ${Math.round(percent)}%`);
             });
+            downloadUrl(result.url, 'saucy-meme.gif');
+        } catch (e) {
+            console.error('GIF export failed:', e);
+            alert(e instanceof Error ? e.message : 'Failed to export GIF. Please try again.');
+        } finally {
+            setProcessing(false);
+            setExportStatus(null);
+        }
+    };
 
-            canvas.width = img.naturalWidth || 500;
-            canvas.height = img.naturalHeight || 500;
-            const ctx = canvas.getContext('2d');
-            if (!ctx) throw new Error('No context');
-
-            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-
-            // Draw text overlays
-            textOverlays.forEach(overlay => {
-                if (!overlay.text) return;
-
-                const x = (overlay.x / 100) * canvas.width;
-                const y = (overlay.y / 100) * canvas.height;
+    // Brand fonts
+    const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !user) return;
 
-                ctx.fillStyle = overlay.color;
-                ctx.strokeStyle = 'black';
-                ctx.lineWidth = Math.max(3, overlay.fontSize / 6);
-                ctx.textAlign = 'center';
-                ctx.font = `bold ${overlay.fontSize * 1.5}px ${overlay.fontFamily}`;
-                ctx.textBaseline = 'middle';
+        setUploadingFont(true);
+        try {
+            const font = await uploadCustomFont(user.uid, file);
+            updateSelectedOverlay({ fontFamily: font.family });
+        } catch (error) {
+            console.error('Font upload failed:', error);
+            alert(error instanceof Error ? error.message : 'Failed to upload font.');
+        } finally {
+            setUploadingFont(false);
+        }
+    };
 
-                ctx.strokeText(overlay.text.toUpperCase(), x, y);
-                ctx.fillText(overlay.text.toUpperCase(), x, y);
-            });
+    const handleDeleteFont = async (font: FontOption) => {
+        if (!user || !confirm(`Delete the font "${font.name}"?`)) return;
+        try {
+            await deleteCustomFont(user.uid, font.id);
+        } catch (error) {
+            console.error('Failed to delete font:', error);
+            alert('Failed to delete font.');
+        }
+    };
 
-            const dataUrl = canvas.toDataURL('image/png', 1.0);
-            const link = document.createElement('a');
-            link.download = 'saucy-meme.png';
-            link.href = dataUrl;
-            link.click();
+    // Drafts
+    const handleSaveDraft = async () => {
+        if (!user || !meme) return;
+        setSaving(true);
+        try {
+            const id = await saveMemeDocument(user.uid, meme);
+            setMeme(prev => prev && { ...prev, id });
+            setExportStatus('Draft saved');
+            setTimeout(() => setExportStatus(null), 2000);
         } catch (e) {
-            console.error('Export failed:', e);
-            alert('Failed to export meme. Please try again.');
+            console.error('Failed to save draft:', e);
+            alert('Failed to save draft. Please try again.');
         } finally {
-            setProcessing(false);
+            setSaving(false);
+        }
+    };
+
+    const toggleDrafts = async () => {
+        if (!user) return;
+        const opening = !showDrafts;
+        setShowDrafts(opening);
+        if (opening) {
+            setDrafts(await getMemeDocuments(user.uid));
+        }
+    };
+
+    const openDraft = (draft: MemeDocument) => {
+        setShowDrafts(false);
+        setIsPlaying(false);
+        if (decoded && draft.source.url === sourceUrl) {
+            const restored = fitDocumentToFrames(draft, decoded);
+            preloadDocumentFonts(restored);
+            setMeme(restored);
+            setSelectedOverlay(restored.layers[0]?.id || '1');
+            setCurrentFrameIndex(0);
+            return;
         }
+        pendingDocumentRef.current = draft;
+        setSourceUrl(draft.source.url);
     };
 
     const selected = getSelectedOverlay();
-    const currentFrame = frames[currentFrameIndex];
 
     return (
         <div className="fixed inset-0 z-[60] bg-black/90 backdrop-blur-xl flex items-center justify-center p-4">
-            {/* Hidden canvas for export */}
-            <canvas ref={canvasRef} className="hidden" />
-
             <div className="w-full max-w-6xl h-[90vh] flex flex-col lg:flex-row gap-4">
 
                 {/* Left Panel - Preview */}
@@ -297,17 +420,58 @@ export default function MemeEditor({ gifUrl, onClose }: MemeEditorProps) {
                                 <p className="text-white/50 text-xs">Create your sauce</p>
                             </div>
                         </div>
-                        <button
-                            onClick={onClose}
-                            className="p-2 hover:bg-white/10 rounded-xl transition-colors"
-                        >
-                            <X className="w-5 h-5 text-white/70" />
-                        </button>
+                        <div className="relative flex items-center gap-1">
+                            {user && (
+                                <>
+                                    <button
+                                        onClick={handleSaveDraft}
+                                        disabled={saving || !meme || !hasLayerText(meme)}
+                                        className="p-2 hover:bg-white/10 rounded-xl transition-colors disabled:opacity-30"
+                                        title="Save draft"
+                                    >
+                                        {saving ? <Loader2 className="w-5 h-5 text-white/70 animate-spin" /> : <Save className="w-5 h-5 text-white/70" />}
+                                    </button>
+                                    <button
+                                        onClick={toggleDrafts}
+                                        className={`p-2 rounded-xl transition-colors ${showDrafts ? 'bg-white/10' : 'hover:bg-white/10'}`}
+                                        title="Open a draft"
+                                    >
+                                        <FolderOpen className="w-5 h-5 text-white/70" />
+                                    </button>
+                                </>
+                            )}
+                            <button
+                                onClick={onClose}
+                                className="p-2 hover:bg-white/10 rounded-xl transition-colors"
+                            >
+                                <X className="w-5 h-5 text-white/70" />
+                            </button>
+
+                            {/* Saved drafts */}
+                            {showDrafts && (
+                                <div className="absolute right-0 top-full mt-2 w-72 max-h-80 overflow-y-auto z-30 bg-[#1a1a2e] border border-white/10 rounded-2xl shadow-2xl p-2">
+                                    {drafts.length === 0 ? (
+                                        <p className="p-4 text-center text-xs text-white/40">No saved drafts yet</p>
+                                    ) : drafts.map(draft => (
+                                        <button
+                                            key={draft.id}
+                                            onClick={() => openDraft(draft)}
+                                            className={`w-full text-left px-3 py-2 rounded-xl transition-colors ${draft.id === meme?.id ? 'bg-red-500/20' : 'hover:bg-white/5'}`}
+                                        >
+                                            <span className="block text-sm text-white truncate">{draft.title || 'Untitled meme'}</span>
+                                            <span className="block text-[10px] text-white/40">
+                                                {draft.layers.length} layer{draft.layers.length === 1 ? '' : 's'}
+                                                {draft.updatedAt && ` · ${draft.updatedAt.toLocaleDateString()}`}
+                                            </span>
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
                     </div>
 
                     {/* Preview Area */}
                     <div
-                        ref={previewRef}
                         className={`flex-1 flex items-center justify-center p-6 relative ${isDragging ? 'cursor-grabbing' : ''}`}
                         onMouseMove={handleMouseMove}
                         onMouseUp={handleMouseUp}
@@ -318,55 +482,45 @@ export default function MemeEditor({ gifUrl, onClose }: MemeEditorProps) {
                                 <Loader2 className="w-10 h-10 text-red-500 animate-spin" />
                                 <p className="text-white/60">Loading GIF...</p>
                             </div>
-                        ) : currentFrame ? (
-                            <div className="relative max-w-full max-h-full">
-                                {/* The frame image */}
+                        ) : extractionError ? (
+                            <div className="text-white/50">{extractionError}</div>
+                        ) : previewUrl ? (
+                            <div ref={previewRef} className="relative max-w-full max-h-full">
+                                {/* The rendered frame */}
                                 <img
-                                    src={isPlaying ? gifUrl : currentFrame.imageData}
+                                    src={previewUrl}
                                     alt="Meme preview"
                                     className="max-w-full max-h-[50vh] rounded-2xl shadow-2xl shadow-red-500/20"
                                     draggable={false}
                                 />
 
-                                {/* Text overlays */}
-                                {textOverlays.map(overlay => (
-                                    <div
-                                        key={overlay.id}
-                                        className={`absolute cursor-grab select-none transition-all ${overlay.id === selectedOverlay ? 'z-20' : 'z-10'
-                                            } ${isDragging && overlay.id === selectedOverlay ? 'cursor-grabbing' : ''}`}
-                                        style={{
-                                            left: `${overlay.x}%`,
-                                            top: `${overlay.y}%`,
-                                            transform: 'translate(-50%, -50%)',
-                                        }}
-                                        onMouseDown={(e) => handleMouseDown(e, overlay.id)}
-                                    >
-                                        {/* Text content */}
-                                        {overlay.text && (
-                                            <div
-                                                style={{
-                                                    fontSize: `${overlay.fontSize * 0.7}px`,
-                                                    fontFamily: overlay.fontFamily,
-                                                    color: overlay.color,
-                                                    fontWeight: 'bold',
-                                                    textTransform: 'uppercase',
-                                                    textShadow: '-2px -2px 0 #000, 2px -2px 0 #000, -2px 2px 0 #000, 2px 2px 0 #000',
-                                                    whiteSpace: 'nowrap',
-                                                }}
-                                            >
-                                                {overlay.text}
-                                            </div>
-                                        )}
-
-                                        {/* Drag handle */}
-                                        <div className={`absolute -top-3 left-1/2 -translate-x-1/2 px-2 py-1 rounded-full text-[10px] font-bold transition-all ${overlay.id === selectedOverlay
-                                            ? 'bg-red-500 text-white shadow-lg shadow-red-500/50'
-                                            : 'bg-black/50 text-white/50 hover:bg-red-500/50'
-                                            }`}>
-                                            {overlay.text ? <Move className="w-3 h-3" /> : `T${textOverlays.indexOf(overlay) + 1}`}
+                                {/* Drag handles - the text itself is drawn into the frame by the engine */}
+                                {textOverlays.map((overlay, idx) => {
+                                    const anchor = getLayerAnchor(overlay, currentFrameIndex);
+                                    const inRange = currentFrameIndex >= overlay.startFrame && currentFrameIndex <= overlay.endFrame;
+
+                                    // Off-range layers stay grabbable only while selected, as a ghost
+                                    if (!inRange && overlay.id !== selectedOverlay) return null;
+
+                                    return (
+                                        <div
+                                            key={overlay.id}
+                                            className={`absolute cursor-grab select-none px-2 py-1 rounded-full text-[10px] font-bold ${isDragging ? '' : 'transition-all'} ${overlay.id === selectedOverlay
+                                                ? 'z-20 bg-red-500 text-white shadow-lg shadow-red-500/50'
+                                                : 'z-10 bg-black/50 text-white/50 hover:bg-red-500/50'
+                                                } ${isDragging && overlay.id === selectedOverlay ? 'cursor-grabbing' : ''}`}
+                                            style={{
+                                                left: `${anchor.x}%`,
+                                                top: `${anchor.y}%`,
+                                                transform: 'translate(-50%, -50%)',
+                                                opacity: inRange ? 1 : 0.3,
+                                            }}
+                                            onMouseDown={(e) => handleMouseDown(e, overlay.id)}
+                                        >
+                                            {overlay.text ? <Move className="w-3 h-3" /> : `T${idx + 1}`}
                                         </div>
-                                    </div>
-                                ))}
+                                    );
+                                })}
                             </div>
                         ) : (
                             <div className="text-white/50">No image loaded</div>
@@ -411,6 +565,34 @@ export default function MemeEditor({ gifUrl, onClose }: MemeEditorProps) {
                                         [&::-webkit-slider-thumb]:shadow-lg [&::-webkit-slider-thumb]:shadow-red-500/50
                                         disabled:opacity-50"
                                 />
+                                {/* Layer ranges */}
+                                {frames.length > 1 && (
+                                    <div className="mt-2 space-y-1">
+                                        {textOverlays.map(overlay => (
+                                            <button
+                                                key={overlay.id}
+                                                onClick={() => setSelectedOverlay(overlay.id)}
+                                                className="relative block w-full h-1.5 bg-white/5 rounded-full"
+                                                title={overlay.text || 'Empty layer'}
+                                            >
+                                                <span
+                                                    className={`absolute inset-y-0 rounded-full ${overlay.id === selectedOverlay ? 'bg-red-500' : 'bg-white/30'}`}
+                                                    style={{
+                                                        left: `${(overlay.startFrame / frames.length) * 100}%`,
+                                                        width: `${((overlay.endFrame - overlay.startFrame + 1) / frames.length) * 100}%`
+                                                    }}
+                                                />
+                                                {(overlay.keyframes || []).map(k => (
+                                                    <Diamond
+                                                        key={k.frame}
+                                                        className="absolute top-1/2 w-2 h-2 -translate-x-1/2 -translate-y-1/2 text-yellow-300 fill-yellow-300"
+                                                        style={{ left: `${((k.frame + 0.5) / frames.length) * 100}%` }}
+                                                    />
+                                                ))}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
                                 <div className="flex justify-between text-xs text-white/40 mt-1">
                                     <span>Frame {currentFrameIndex + 1}</span>
                                     <span>{frames.length} frames</span>
@@ -442,7 +624,7 @@ export default function MemeEditor({ gifUrl, onClose }: MemeEditorProps) {
                             <h3 className="text-white font-semibold text-sm">Text Layers</h3>
                             <button
                                 onClick={addTextLayer}
-                                disabled={textOverlays.length >= 5}
+                                disabled={textOverlays.length >= MAX_LAYERS}
                                 className="flex items-center gap-1 px-2 py-1 text-xs text-red-400 hover:text-red-300 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
                             >
                                 <Plus className="w-3 h-3" /> Add
@@ -470,6 +652,7 @@ export default function MemeEditor({ gifUrl, onClose }: MemeEditorProps) {
                         {[
                             { id: 'text', label: 'Text', icon: Type },
                             { id: 'style', label: 'Style', icon: Palette },
+                            { id: 'timing', label: 'Timing', icon: Clock },
                         ].map(tab => (
                             <button
                                 key={tab.id}
@@ -505,25 +688,71 @@ export default function MemeEditor({ gifUrl, onClose }: MemeEditorProps) {
                                 <div>
                                     <label className="block text-white/60 text-xs mb-2 uppercase tracking-wider">Font</label>
                                     <div className="grid grid-cols-2 gap-2">
-                                        {FONT_OPTIONS.map(font => (
+                                        {fontOptions.map(font => {
+                                            const status = getFontStatus(font.family);
+                                            return (
+                                                <button
+                                                    key={font.id}
+                                                    onClick={() => {
+                                                        updateSelectedOverlay({ fontFamily: font.family });
+                                                        loadFont(font.family).catch(() => undefined);
+                                                    }}
+                                                    className={`relative p-3 rounded-xl text-left transition-all ${selected.fontFamily === font.family
+                                                        ? 'bg-gradient-to-r from-red-500/20 to-red-500/20 border border-red-500/50'
+                                                        : 'bg-white/5 border border-white/10 hover:bg-white/10'
+                                                        }`}
+                                                >
+                                                    <span
+                                                        className="text-white text-lg font-bold block"
+                                                        style={{ fontFamily: font.family }}
+                                                    >
+                                                        {font.preview}
+                                                    </span>
+                                                    <span className="text-white/40 text-[10px] block truncate">{font.name}</span>
+                                                    {status === 'loading' && (
+                                                        <Loader2 className="absolute top-2 right-2 w-3 h-3 text-white/40 animate-spin" />
+                                                    )}
+                                                    {status === 'error' && (
+                                                        <AlertCircle className="absolute top-2 right-2 w-3 h-3 text-red-400" title="Failed to load - click to retry" />
+                                                    )}
+                                                    {font.custom && user && (
+                                                        <span
+                                                            role="button"
+                                                            onClick={(e) => {
+                                                                e.stopPropagation();
+                                                                handleDeleteFont(font);
+                                                            }}
+                                                            className="absolute bottom-2 right-2 text-white/30 hover:text-red-400"
+                                                            title="Delete font"
+                                                        >
+                                                            <Trash2 className="w-3 h-3" />
+                                                        </span>
+                                                    )}
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+
+                                    {/* Brand fonts */}
+                                    {isBrand && (
+                                        <>
+                                            <input
+                                                ref={fontInputRef}
+                                                type="file"
+                                                accept=".ttf,.otf,.woff2,font/ttf,font/otf,font/woff2"
+                                                onChange={handleFontUpload}
+                                                className="hidden"
+                                            />
                                             <button
-                                                key={font.id}
-                                                onClick={() => updateSelectedOverlay({ fontFamily: font.family })}
-                                                className={`p-3 rounded-xl text-left transition-all ${selected.fontFamily === font.family
-                                                    ? 'bg-gradient-to-r from-red-500/20 to-red-500/20 border border-red-500/50'
-                                                    : 'bg-white/5 border border-white/10 hover:bg-white/10'
-                                                    }`}
+                                                onClick={() => fontInputRef.current?.click()}
+                                                disabled={uploadingFont}
+                                                className="mt-2 w-full flex items-center justify-center gap-2 py-2 bg-white/5 border border-dashed border-white/20 rounded-xl text-xs text-white/60 hover:bg-white/10 disabled:opacity-50 transition-all"
                                             >
-                                                <span
-                                                    className="text-white text-lg font-bold block"
-                                                    style={{ fontFamily: font.family }}
-                                                >
-                                                    {font.preview}
-                                                </span>
-                                                <span className="text-white/40 text-[10px]">{font.name}</span>
+                                                {uploadingFont ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+                                                Upload brand font (TTF, OTF, WOFF2)
                                             </button>
-                                        ))}
-                                    </div>
+                                        </>
+                                    )}
                                 </div>
                             </>
                         )}
@@ -538,10 +767,13 @@ export default function MemeEditor({ gifUrl, onClose }: MemeEditorProps) {
                                     </div>
                                     <input
                                         type="range"
-                                        min={16}
-                                        max={72}
+                                        min={12}
+                                        max={decoded ? Math.max(72, Math.round(decoded.height / 3)) : 72}
                                         value={selected.fontSize}
-                                        onChange={(e) => updateSelectedOverlay({ fontSize: parseInt(e.target.value) })}
+                                        onChange={(e) => {
+                                            const fontSize = parseInt(e.target.value);
+                                            updateSelectedOverlay({ fontSize, strokeWidth: strokeForSize(fontSize) });
+                                        }}
                                         className="w-full h-2 bg-white/10 rounded-full appearance-none cursor-pointer
                                             [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-5 [&::-webkit-slider-thumb]:h-5 
                                             [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-gradient-to-r 
@@ -557,8 +789,8 @@ export default function MemeEditor({ gifUrl, onClose }: MemeEditorProps) {
                                         {COLOR_PRESETS.map(preset => (
                                             <button
                                                 key={preset.color}
-                                                onClick={() => updateSelectedOverlay({ color: preset.color })}
-                                                className={`aspect-square rounded-xl transition-all ${selected.color === preset.color
+                                                onClick={() => updateSelectedOverlay({ textColor: preset.color })}
+                                                className={`aspect-square rounded-xl transition-all ${selected.textColor === preset.color
                                                     ? 'ring-2 ring-red-500 ring-offset-2 ring-offset-[#1a1a2e] scale-110'
                                                     : 'hover:scale-105'
                                                     }`}
@@ -572,8 +804,8 @@ export default function MemeEditor({ gifUrl, onClose }: MemeEditorProps) {
                                     <div className="mt-3 flex items-center gap-2">
                                         <input
                                             type="color"
-                                            value={selected.color}
-                                            onChange={(e) => updateSelectedOverlay({ color: e.target.value })}
+                                            value={selected.textColor || '#ffffff'}
+                                            onChange={(e) => updateSelectedOverlay({ textColor: e.target.value })}
                                             className="w-10 h-10 rounded-lg cursor-pointer border-0 bg-transparent"
                                         />
                                         <span className="text-white/40 text-xs">Custom color</span>
@@ -592,13 +824,106 @@ export default function MemeEditor({ gifUrl, onClose }: MemeEditorProps) {
                                 )}
                             </>
                         )}
+
+                        {activeTab === 'timing' && selected && (
+                            <>
+                                {/* Frame Range */}
+                                <div>
+                                    <div className="flex justify-between mb-2">
+                                        <label className="text-white/60 text-xs uppercase tracking-wider">Shows On</label>
+                                        <span className="text-red-400 text-xs font-mono">
+                                            {selected.startFrame + 1}–{selected.endFrame + 1}
+                                        </span>
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-2">
+                                        <button
+                                            onClick={() => setLayerRange(currentFrameIndex, selected.endFrame)}
+                                            className="py-2 bg-white/5 border border-white/10 rounded-xl text-xs text-white/70 hover:bg-white/10 transition-all"
+                                        >
+                                            Start at frame {currentFrameIndex + 1}
+                                        </button>
+                                        <button
+                                            onClick={() => setLayerRange(Math.min(selected.startFrame, currentFrameIndex), currentFrameIndex)}
+                                            className="py-2 bg-white/5 border border-white/10 rounded-xl text-xs text-white/70 hover:bg-white/10 transition-all"
+                                        >
+                                            End at frame {currentFrameIndex + 1}
+                                        </button>
+                                    </div>
+                                    <button
+                                        onClick={() => setLayerRange(0, frames.length - 1)}
+                                        className="mt-2 w-full py-1.5 text-xs text-white/40 hover:text-white/70 transition-colors"
+                                    >
+                                        Show on every frame
+                                    </button>
+                                </div>
+
+                                {/* Enter / Exit Effects */}
+                                {([
+                                    { key: 'enter', label: 'Enter' },
+                                    { key: 'exit', label: 'Exit' }
+                                ] as const).map(({ key, label }) => (
+                                    <div key={key}>
+                                        <label className="block text-white/60 text-xs mb-2 uppercase tracking-wider">{label}</label>
+                                        <div className="grid grid-cols-3 gap-2">
+                                            {CAPTION_EFFECTS.map(effect => (
+                                                <button
+                                                    key={effect.id}
+                                                    onClick={() => updateSelectedOverlay({ [key]: effect.id })}
+                                                    className={`py-2 rounded-xl text-xs transition-all ${selected[key] === effect.id
+                                                        ? 'bg-gradient-to-r from-red-500/20 to-red-500/20 border border-red-500/50 text-white'
+                                                        : 'bg-white/5 border border-white/10 text-white/60 hover:bg-white/10'
+                                                        }`}
+                                                >
+                                                    {effect.label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                ))}
+
+                                {/* Keyframes */}
+                                <div>
+                                    <div className="flex justify-between mb-2">
+                                        <label className="text-white/60 text-xs uppercase tracking-wider">Motion</label>
+                                        <span className="text-white/40 text-xs">
+                                            {selected.keyframes?.length ? `${selected.keyframes.length} keyframes` : 'Fixed'}
+                                        </span>
+                                    </div>
+                                    <button
+                                        onClick={() => {
+                                            const anchor = getLayerAnchor(selected, currentFrameIndex);
+                                            setKeyframeHere(selected, anchor.x, anchor.y);
+                                        }}
+                                        className="w-full flex items-center justify-center gap-2 py-2 bg-white/5 border border-white/10 rounded-xl text-xs text-white/70 hover:bg-white/10 transition-all"
+                                    >
+                                        <Diamond className="w-3 h-3" />
+                                        Keyframe at frame {currentFrameIndex + 1}
+                                    </button>
+                                    {!!selected.keyframes?.length && (
+                                        <button
+                                            onClick={() => {
+                                                // Keep the layer where it is on this frame once motion is removed
+                                                const anchor = getLayerAnchor(selected, currentFrameIndex);
+                                                updateSelectedOverlay({ keyframes: [], anchor });
+                                            }}
+                                            className="mt-2 w-full py-1.5 text-xs text-red-400 hover:text-red-300 transition-colors"
+                                        >
+                                            Clear keyframes
+                                        </button>
+                                    )}
+                                    <p className="text-white/30 text-[11px] mt-2">
+                                        With keyframes set, dragging the text records its position on the current frame.
+                                    </p>
+                                </div>
+                            </>
+                        )}
                     </div>
 
                     {/* Export Button */}
                     <div className="p-4 border-t border-white/10">
                         <button
                             onClick={handleExport}
-                            disabled={processing || isExtracting}
+                            disabled={processing || isExtracting || fontsPending || !previewUrl}
                             className="w-full py-4 bg-gradient-to-r from-red-500 to-red-500 hover:from-red-400 hover:to-red-400 
                                 text-white font-bold rounded-2xl shadow-lg shadow-red-500/30 
                                 disabled:opacity-50 disabled:cursor-not-allowed transition-all
@@ -616,8 +941,18 @@ export default function MemeEditor({ gifUrl, onClose }: MemeEditorProps) {
                                 </>
                             )}
                         </button>
+                        <button
+                            onClick={handleExportGif}
+                            disabled={processing || isExtracting || fontsPending || !meme}
+                            className="mt-2 w-full py-3 bg-white/10 hover:bg-white/20 text-white font-semibold rounded-2xl
+                                disabled:opacity-50 disabled:cursor-not-allowed transition-all
+                                flex items-center justify-center gap-2"
+                        >
+                            <Film className="w-4 h-4" />
+                            Export Animated GIF
+                        </button>
                         <p className="text-center text-white/30 text-xs mt-2">
-                            Exports as high-quality PNG
+                            {exportStatus || (fontsPending ? 'Loading fonts...' : 'PNG exports the current frame')}
                         </p>
                     </div>
                 </div>
@@ -1,9 +1,9 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Upload, Link as LinkIcon, Download, Loader2, Sparkles, X, AlertCircle, Image as ImageIcon, Film, ToggleLeft, ToggleRight, Wand2, Palette } from 'lucide-react';
+import { Upload, Link as LinkIcon, Download, Loader2, Sparkles, X, AlertCircle, Image as ImageIcon, Film, ToggleLeft, ToggleRight, Wand2, Palette, Layers } from 'lucide-react';
 import { removeTextMagic } from '../services/geminiService';
-import { isAnimatedGif, removeTextFromFrame, incrementUsage } from '../services/gifProcessor';
-import { reimagineAsSticker } from '../services/gifFrameAnalyzer';
+import { isAnimatedGif, removeTextFromGif, removeTextFromGifTemporal } from '../services/gifProcessor';
+import { reimagineAsSticker, reimagineBestMoment } from '../services/gifFrameAnalyzer';
 
 const RemoveTextTab: React.FC = () => {
   const [url, setUrl] = useState('');
@@ -14,6 +14,7 @@ const RemoveTextTab: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [isAnimated, setIsAnimated] = useState(false);
   const [keepAnimation, setKeepAnimation] = useState(true);
+  const [stableMode, setStableMode] = useState(true);
   const [processingStatus, setProcessingStatus] = useState('');
   const [creativeResult, setCreativeResult] = useState<string | null>(null);
   const [creativeStyle, setCreativeStyle] = useState<'cartoon' | 'emoji' | 'chibi' | 'minimalist'>('cartoon');
@@ -110,11 +111,16 @@ const RemoveTextTab: React.FC = () => {
 
     try {
       if (isAnimated && keepAnimation) {
-        // Animated GIF processing - for now, process as single frame
+        // Animated GIF processing - clean every frame and re-encode
         setProcessingStatus('Processing animated GIF...');
-        const resultImage = await removeTextFromFrame(preview, mimeType);
-        incrementUsage(1);
-        setResult(resultImage);
+        if (stableMode) {
+          // Keyframes only + shared mask: far fewer API calls and no flicker
+          const { dataUrl } = await removeTextFromGifTemporal(preview, {}, (status) => setProcessingStatus(status));
+          setResult(dataUrl);
+        } else {
+          const { dataUrl } = await removeTextFromGif(preview, (status) => setProcessingStatus(status));
+          setResult(dataUrl);
+        }
         setProcessingStatus('');
       } else {
         // Static image processing - run both options in parallel
@@ -124,10 +130,14 @@ const RemoveTextTab: React.FC = () => {
         // Run both processes in parallel for speed
         const [cleanResult, creativeResponse] = await Promise.all([
           removeTextMagic(normalizedBase64, 'image/png'),
-          showBothResults ? reimagineAsSticker(normalizedBase64, creativeStyle) : Promise.resolve(null),
+          !showBothResults
+            ? Promise.resolve(null)
+            : isAnimated
+              // Animated source: reimagine the most expressive frame, not just frame 0
+              ? reimagineBestMoment(preview, creativeStyle)
+              : reimagineAsSticker(normalizedBase64, creativeStyle),
         ]);
 
-        incrementUsage(showBothResults ? 2 : 1);
         setResult(cleanResult);
 
         if (creativeResponse?.success && creativeResponse.imageData) {
@@ -262,6 +272,25 @@ const RemoveTextTab: React.FC = () => {
           </div>
         )}
 
+        {/* Stable Mode Toggle */}
+        {isAnimated && preview && keepAnimation && (
+          <div className="mt-3 p-4 bg-green-500/5 rounded-2xl border border-green-500/10 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Layers className="text-green-500 w-5 h-5" />
+              <div>
+                <p className="font-semibold text-green-100 text-sm">Stable Mode</p>
+                <p className="text-xs text-green-500/70">Clean a few keyframes and reuse them - no flicker, fewer credits</p>
+              </div>
+            </div>
+            <button
+              onClick={() => setStableMode(!stableMode)}
+              className="text-green-500 transition-colors"
+            >
+              {stableMode ? <ToggleRight size={32} /> : <ToggleLeft size={32} className="opacity-50" />}
+            </button>
+          </div>
+        )}
+
         {error && (
           <div className="mt-4 p-4 bg-red-50 text-red-600 rounded-2xl border border-red-100 flex items-start gap-3 animate-in fade-in zoom-in-95 duration-300">
             <AlertCircle className="shrink-0 w-5 h-5 mt-0.5" />
@@ -270,7 +299,7 @@ const RemoveTextTab: React.FC = () => {
         )}
 
         {/* Creative Style Selector */}
-        {preview && !isAnimated && (
+        {preview && (!isAnimated || !keepAnimation) && (
           <div className="mt-4 p-4 bg-purple-50 rounded-2xl border border-purple-200">
             <div className="flex items-center justify-between mb-3">
               <div className="flex items-center gap-2">
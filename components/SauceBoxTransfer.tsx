@@ -0,0 +1,269 @@
+/**
+ * Sauce Box Transfer - export the Sauce Box as a ZIP, import from an export, a folder or links
+ *
+ * Imports are previewed first: every GIF is shown as new, already saved, or unresolvable,
+ * and only the new ones are favorited.
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Download, Upload, FolderOpen, Link2, Loader2, Check, AlertCircle, Copy } from 'lucide-react';
+import { ModalShell } from './CollectionSharing';
+import { FavoriteGif } from '../services/favoritesService';
+import {
+    exportSauceBox,
+    exportFileName,
+    candidatesFromFile,
+    candidatesFromFolder,
+    candidatesFromUrls,
+    markDuplicates,
+    importCandidates,
+    releaseCandidates,
+    ImportCandidate,
+    TransferProgress
+} from '../services/sauceBoxTransfer';
+
+type ImportSource = 'file' | 'folder' | 'links';
+
+const IMPORT_SOURCES: { id: ImportSource; label: string; icon: React.ComponentType<{ className?: string }> }[] = [
+    { id: 'file', label: 'Saucy export', icon: Upload },
+    { id: 'folder', label: 'Folder of GIFs', icon: FolderOpen },
+    { id: 'links', label: 'Links', icon: Link2 },
+];
+
+const errorMessage = (error: unknown, fallback: string): string =>
+    error instanceof Error && error.message ? error.message : fallback;
+
+interface SauceBoxTransferModalProps {
+    userId: string;
+    favorites: FavoriteGif[];
+    onClose: () => void;
+    onImported: () => void;
+}
+
+export function SauceBoxTransferModal({ userId, favorites, onClose, onImported }: SauceBoxTransferModalProps) {
+    const [source, setSource] = useState<ImportSource>('file');
+    const [links, setLinks] = useState('');
+    const [working, setWorking] = useState<string | null>(null);
+    const [candidates, setCandidates] = useState<ImportCandidate[] | null>(null);
+    const [importedCount, setImportedCount] = useState<number | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const folderInputRef = useRef<HTMLInputElement>(null);
+
+    // React doesn't know the directory-picker attribute
+    useEffect(() => {
+        folderInputRef.current?.setAttribute('webkitdirectory', '');
+    }, []);
+
+    // Loose-file previews hold object URLs until the preview is replaced or closed
+    useEffect(() => {
+        if (!candidates) return;
+        return () => releaseCandidates(candidates);
+    }, [candidates]);
+
+    const progressLabel = (verb: string) => ({ done, total }: TransferProgress) =>
+        setWorking(`${verb} ${done}/${total}...`);
+
+    const handleExport = async () => {
+        setWorking('Packing...');
+        try {
+            const zip = await exportSauceBox(favorites, progressLabel('Packing'));
+            const url = URL.createObjectURL(zip);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = exportFileName();
+            document.body.appendChild(a);
+            a.click();
+            document.body.removeChild(a);
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error('Export failed:', error);
+            alert(errorMessage(error, 'Export failed. Please try again.'));
+        } finally {
+            setWorking(null);
+        }
+    };
+
+    const preview = async (load: () => Promise<ImportCandidate[]>) => {
+        setCandidates(null);
+        setImportedCount(null);
+        setWorking('Reading...');
+        try {
+            const found = await load();
+            setWorking('Checking for duplicates...');
+            setCandidates(await markDuplicates(found, favorites));
+        } catch (error) {
+            console.error('Import failed:', error);
+            alert(errorMessage(error, 'Couldn\'t read that import.'));
+        } finally {
+            setWorking(null);
+        }
+    };
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) preview(() => candidatesFromFile(file));
+    };
+
+    const handleFolder = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from<File>(e.target.files || []);
+        e.target.value = '';
+        if (files.length > 0) preview(() => candidatesFromFolder(files));
+    };
+
+    const handleImport = async () => {
+        if (!candidates) return;
+        setWorking('Saving...');
+        try {
+            const count = await importCandidates(userId, candidates);
+            setImportedCount(count);
+            setCandidates(null);
+            setLinks('');
+            onImported();
+        } catch (error) {
+            console.error('Import failed:', error);
+            alert(errorMessage(error, 'Failed to save imported GIFs. Please try again.'));
+        } finally {
+            setWorking(null);
+        }
+    };
+
+    const newCount = candidates?.filter(c => c.status === 'new').length || 0;
+    const duplicateCount = candidates?.filter(c => c.status === 'duplicate').length || 0;
+    const failedCount = candidates?.filter(c => c.status === 'failed').length || 0;
+
+    return (
+        <ModalShell title="Import & export" onClose={onClose}>
+            {/* Export */}
+            <div className="space-y-2">
+                <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">Export</p>
+                <button
+                    onClick={handleExport}
+                    disabled={!!working || favorites.length === 0}
+                    className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-white/5 border border-white/10 rounded-2xl text-sm font-semibold hover:bg-white/10 disabled:opacity-50 transition-all"
+                >
+                    <Download className="w-4 h-4" />
+                    Download {favorites.length} GIFs as ZIP
+                </button>
+                <p className="text-xs text-slate-500">
+                    Includes a manifest.json with titles, tags, notes and original links - import it here or anywhere else.
+                </p>
+            </div>
+
+            {/* Import */}
+            <div className="space-y-3">
+                <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">Import</p>
+                <div className="flex gap-2">
+                    {IMPORT_SOURCES.map(({ id, label, icon: Icon }) => (
+                        <button
+                            key={id}
+                            onClick={() => setSource(id)}
+                            className={`flex-1 flex items-center justify-center gap-1.5 px-3 py-2 rounded-xl text-sm font-semibold transition-all ${source === id
+                                ? 'bg-red-600 text-white'
+                                : 'bg-white/5 text-slate-400 hover:bg-white/10'
+                                }`}
+                        >
+                            <Icon className="w-4 h-4" />
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                {source === 'file' && (
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={!!working}
+                        className="w-full px-4 py-6 border border-dashed border-white/15 rounded-2xl text-sm text-slate-400 hover:text-white hover:border-white/30 disabled:opacity-50 transition-all"
+                    >
+                        Choose a Sauce Box export (.zip) or its manifest.json
+                    </button>
+                )}
+                {source === 'folder' && (
+                    <button
+                        onClick={() => folderInputRef.current?.click()}
+                        disabled={!!working}
+                        className="w-full px-4 py-6 border border-dashed border-white/15 rounded-2xl text-sm text-slate-400 hover:text-white hover:border-white/30 disabled:opacity-50 transition-all"
+                    >
+                        Choose a folder - an unzipped export brings back every GIF with its tags and notes
+                    </button>
+                )}
+                {source === 'links' && (
+                    <>
+                        <textarea
+                            value={links}
+                            onChange={(e) => setLinks(e.target.value)}
+                            rows={4}
+                            placeholder="Paste GIPHY, Tenor or Klipy links, one per line"
+                            className="w-full px-3 py-2.5 bg-white/5 border border-white/10 rounded-xl text-sm placeholder-slate-500 focus:outline-none focus:border-red-500/50 resize-none"
+                        />
+                        <button
+                            onClick={() => preview(() => candidatesFromUrls(links, progressLabel('Looking up')))}
+                            disabled={!!working || !links.trim()}
+                            className="w-full px-4 py-2.5 bg-white/10 rounded-xl text-sm font-semibold hover:bg-white/20 disabled:opacity-50 transition-all"
+                        >
+                            Find GIFs
+                        </button>
+                    </>
+                )}
+
+                <input ref={fileInputRef} type="file" accept=".zip,.json,application/zip,application/json" onChange={handleFile} className="hidden" />
+                <input ref={folderInputRef} type="file" multiple onChange={handleFolder} className="hidden" />
+            </div>
+
+            {working && (
+                <div className="flex items-center justify-center gap-2 text-sm text-slate-400">
+                    <Loader2 className="w-4 h-4 animate-spin text-red-500" />
+                    {working}
+                </div>
+            )}
+
+            {importedCount !== null && (
+                <div className="flex items-center gap-2 px-4 py-3 bg-green-500/10 border border-green-500/20 rounded-2xl text-sm text-green-300">
+                    <Check className="w-4 h-4" />
+                    Added {importedCount} GIFs to your Sauce Box.
+                </div>
+            )}
+
+            {/* Preview */}
+            {candidates && !working && (
+                <div className="space-y-3">
+                    <p className="text-sm text-slate-400">
+                        {newCount} new · {duplicateCount} already saved · {failedCount} couldn't be imported
+                    </p>
+                    <div className="max-h-64 overflow-y-auto space-y-1.5">
+                        {candidates.map((candidate, i) => (
+                            <div key={`${candidate.origin}-${i}`} className="flex items-center gap-3 p-2 bg-white/5 rounded-xl">
+                                {candidate.gif ? (
+                                    <img src={candidate.gif.thumbnailUrl || candidate.gif.url} alt="" className="w-10 h-10 rounded-lg object-cover shrink-0" />
+                                ) : (
+                                    <div className="w-10 h-10 rounded-lg bg-white/5 flex items-center justify-center shrink-0">
+                                        {candidate.status === 'duplicate'
+                                            ? <Copy className="w-4 h-4 text-slate-500" />
+                                            : <AlertCircle className="w-4 h-4 text-red-400" />}
+                                    </div>
+                                )}
+                                <div className="min-w-0 flex-1">
+                                    <p className="text-sm truncate">{candidate.gif?.title || candidate.origin}</p>
+                                    <p className={`text-xs truncate ${candidate.status === 'failed' ? 'text-red-400' : 'text-slate-500'}`}>
+                                        {candidate.status === 'new'
+                                            ? 'New'
+                                            : candidate.status === 'duplicate'
+                                                ? `Already saved as "${candidate.duplicateOf}"`
+                                                : candidate.error}
+                                    </p>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <button
+                        onClick={handleImport}
+                        disabled={newCount === 0}
+                        className="w-full px-4 py-3 bg-red-600 rounded-2xl text-sm font-bold hover:bg-red-500 disabled:opacity-50 transition-all"
+                    >
+                        {newCount === 0 ? 'Nothing new to import' : `Import ${newCount} GIFs`}
+                    </button>
+                </div>
+            )}
+        </ModalShell>
+    );
+}
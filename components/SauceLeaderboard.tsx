@@ -0,0 +1,119 @@
+/**
+ * Sauce Leaderboard - weekly / all-time Sauce Sense rankings with "load more" paging
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Trophy, Loader2, ChevronDown } from 'lucide-react';
+import { QueryDocumentSnapshot } from 'firebase/firestore';
+import {
+    getSauceLeaderboard,
+    LeaderboardEntry,
+    LeaderboardPeriod
+} from '../services/showdownService';
+
+interface SauceLeaderboardProps {
+    pageSize?: number;
+    currentUserId?: string;
+}
+
+const PERIODS: { id: LeaderboardPeriod; label: string }[] = [
+    { id: 'week', label: 'This Week' },
+    { id: 'allTime', label: 'All Time' }
+];
+
+const RANK_COLORS = ['text-amber-400', 'text-slate-300', 'text-orange-400'];
+
+const SauceLeaderboard: React.FC<SauceLeaderboardProps> = ({ pageSize = 20, currentUserId }) => {
+    const [period, setPeriod] = useState<LeaderboardPeriod>('week');
+    const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+    const [cursor, setCursor] = useState<QueryDocumentSnapshot | null>(null);
+    const [hasMore, setHasMore] = useState(false);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const loadPage = useCallback(async (from: QueryDocumentSnapshot | null) => {
+        setIsLoading(true);
+        const page = await getSauceLeaderboard(period, pageSize, from);
+        setEntries(prev => from ? [...prev, ...page.entries] : page.entries);
+        setCursor(page.cursor);
+        setHasMore(page.hasMore);
+        setIsLoading(false);
+    }, [period, pageSize]);
+
+    useEffect(() => {
+        loadPage(null);
+    }, [loadPage]);
+
+    return (
+        <div className="w-full rounded-2xl bg-white/5 border border-white/10 p-4">
+            <div className="flex items-center justify-between gap-3 mb-4">
+                <div className="flex items-center gap-2">
+                    <Trophy className="w-4 h-4 text-amber-400" />
+                    <h3 className="text-sm font-bold text-white">Sauce Sense Leaders</h3>
+                </div>
+                <div className="flex gap-1">
+                    {PERIODS.map(({ id, label }) => (
+                        <button
+                            key={id}
+                            onClick={() => setPeriod(id)}
+                            className={`px-3 py-1 rounded-full text-[11px] font-bold transition-all ${period === id
+                                ? 'bg-red-500 text-white'
+                                : 'bg-white/5 text-white/50 hover:text-white'
+                                }`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {entries.length === 0 && !isLoading ? (
+                <p className="py-6 text-center text-xs text-white/40">
+                    No scores yet - back tomorrow's winner to get on the board.
+                </p>
+            ) : (
+                <ol className="space-y-1">
+                    {entries.map((entry, i) => (
+                        <li
+                            key={entry.uid}
+                            className={`flex items-center gap-3 px-2 py-2 rounded-xl ${entry.uid === currentUserId ? 'bg-red-500/10 border border-red-500/30' : ''}`}
+                        >
+                            <span className={`w-6 text-center text-xs font-black ${RANK_COLORS[i] || 'text-white/40'}`}>
+                                {i + 1}
+                            </span>
+                            {entry.photoURL ? (
+                                <img src={entry.photoURL} alt="" className="w-7 h-7 rounded-full object-cover" />
+                            ) : (
+                                <div className="w-7 h-7 rounded-full bg-white/10 flex items-center justify-center text-[11px] font-bold text-white/60">
+                                    {entry.displayName.charAt(0).toUpperCase()}
+                                </div>
+                            )}
+                            <span className="flex-1 min-w-0 text-sm text-white/90 truncate">{entry.displayName}</span>
+                            <span className="text-[11px] text-white/40">
+                                {entry.correctPicks}/{entry.votes}
+                            </span>
+                            <span className="w-14 text-right text-sm font-bold text-white">
+                                {entry.points.toLocaleString()}
+                            </span>
+                        </li>
+                    ))}
+                </ol>
+            )}
+
+            {isLoading ? (
+                <div className="flex justify-center py-3">
+                    <Loader2 className="w-5 h-5 text-red-500 animate-spin" />
+                </div>
+            ) : hasMore && (
+                <button
+                    onClick={() => loadPage(cursor)}
+                    className="mt-3 w-full flex items-center justify-center gap-1 py-2 rounded-xl bg-white/5 text-xs font-bold text-white/60 hover:text-white transition-colors"
+                >
+                    <ChevronDown className="w-4 h-4" />
+                    Load more
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default SauceLeaderboard;
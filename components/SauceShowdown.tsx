@@ -1,20 +1,257 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Flame, Clock, Trophy, Zap, Check, Users, Loader2 } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Flame, Clock, Trophy, Zap, Check, Users, Loader2, X, GitBranch, Swords, Target, ChevronRight } from 'lucide-react';
 import {
     subscribeToShowdown,
     castVote,
     getUserVote,
+    getUserSauceStats,
+    UserSauceStats,
     getTimeRemaining,
     seedTestShowdown,
-    Showdown
+    Showdown,
+    subscribeToActiveTournament,
+    subscribeToBracket,
+    castBracketVote,
+    getUserBracketVotes,
+    getBracketPrediction,
+    submitBracketPrediction,
+    resolvePredictedMatchups,
+    prunePredictionPicks,
+    isMatchOpen,
+    getRoundName,
+    getRoundPoints,
+    Tournament,
+    BracketMatch,
+    BracketGIF,
+    BracketPrediction
 } from '../services/showdownService';
 import { User as FirebaseUser } from 'firebase/auth';
+import SauceLeaderboard from './SauceLeaderboard';
 
 interface SauceShowdownProps {
     user: any; // User profile with role
     onVoteComplete?: () => void;
 }
 
+const formatCountdown = (target: Date): string => {
+    const { hours, minutes, seconds } = getTimeRemaining(target);
+    return [hours, minutes, seconds].map(n => String(n).padStart(2, '0')).join(':');
+};
+
+interface BracketViewProps {
+    tournament: Tournament;
+    user: any;
+}
+
+/**
+ * Bracket tournament view: pick winners before it starts, vote match-by-match once it's live
+ */
+const BracketView: React.FC<BracketViewProps> = ({ tournament, user }) => {
+    const [matches, setMatches] = useState<BracketMatch[]>([]);
+    const [votes, setVotes] = useState<Record<string, 'A' | 'B'>>({});
+    const [prediction, setPrediction] = useState<BracketPrediction | null>(null);
+    const [picks, setPicks] = useState<Record<string, string>>({});
+    const [isBusy, setIsBusy] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+    const [now, setNow] = useState(new Date());
+
+    useEffect(() => subscribeToBracket(tournament.id, setMatches), [tournament.id]);
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(new Date()), 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    useEffect(() => {
+        if (!user?.uid) return;
+        const load = async () => {
+            const [userVotes, userPrediction] = await Promise.all([
+                getUserBracketVotes(tournament.id, user.uid),
+                getBracketPrediction(tournament.id, user.uid)
+            ]);
+            setVotes(userVotes);
+            setPrediction(userPrediction);
+            setPicks(userPrediction?.picks || {});
+        };
+        load();
+    }, [tournament.id, user?.uid]);
+
+    const isPredicting = now < tournament.startsAt;
+    const matchups = useMemo(() => resolvePredictedMatchups(matches, picks), [matches, picks]);
+    const rounds = useMemo(() => {
+        const grouped: BracketMatch[][] = Array.from({ length: tournament.roundCount }, () => []);
+        matches.forEach(match => grouped[match.round]?.push(match));
+        return grouped;
+    }, [matches, tournament.roundCount]);
+
+    const currentMatch = matches.find(m => m.round === tournament.currentRound && m.closesAt);
+    const pickCount = Object.keys(picks).length;
+
+    const flash = (text: string) => {
+        setMessage(text);
+        setTimeout(() => setMessage(null), 3000);
+    };
+
+    const handlePick = (match: BracketMatch, gif: BracketGIF | null) => {
+        if (!isPredicting || !gif || !user?.uid) return;
+        setPicks(prev => prunePredictionPicks(matches, { ...prev, [match.id]: gif.id }));
+    };
+
+    const handleSubmitPicks = async () => {
+        if (!user?.uid || isBusy) return;
+        setIsBusy(true);
+        const result = await submitBracketPrediction(tournament, user.uid, picks);
+        if (result.success) {
+            setPrediction({ userId: user.uid, picks, points: 0, correctPicks: 0, submittedAt: new Date() });
+        }
+        flash(result.message);
+        setIsBusy(false);
+    };
+
+    const handleVote = async (match: BracketMatch, choice: 'A' | 'B') => {
+        if (!user?.uid || votes[match.id] || isBusy || !isMatchOpen(match, now)) return;
+        setIsBusy(true);
+        const result = await castBracketVote(
+            tournament.id,
+            match.id,
+            user.uid,
+            choice
+        );
+        if (result.success) {
+            setVotes(prev => ({ ...prev, [match.id]: choice }));
+        }
+        flash(result.success ? 'Vote recorded! 🔥' : result.message);
+        setIsBusy(false);
+    };
+
+    const EntrantRow = ({ match, gif, choice }: { match: BracketMatch; gif: BracketGIF | null; choice: 'A' | 'B' }) => {
+        const isPicked = !!gif && picks[match.id] === gif.id;
+        const isWinner = !!match.winner && match.winner === choice;
+        const isVoted = votes[match.id] === choice;
+        const canVote = !isPredicting && !!user && !votes[match.id] && isMatchOpen(match, now);
+        const canPick = isPredicting && !!user && !!gif;
+        const pickSettled = !isPredicting && !!match.winner && isPicked;
+
+        return (
+            <button
+                onClick={() => isPredicting ? handlePick(match, gif) : handleVote(match, choice)}
+                disabled={!gif || (!canPick && !canVote) || isBusy}
+                className={`
+                    w-full flex items-center gap-2 p-1.5 rounded-lg text-left transition-all
+                    ${isPredicting && isPicked ? 'bg-green-500/20 ring-1 ring-green-500/50' : ''}
+                    ${isWinner ? 'bg-white/10' : ''}
+                    ${match.winner && !isWinner ? 'opacity-40' : ''}
+                    ${canPick || canVote ? 'hover:bg-white/10 cursor-pointer' : 'cursor-default'}
+                `}
+            >
+                <div className="w-9 h-9 rounded-md overflow-hidden bg-white/5 flex-shrink-0">
+                    {gif && <img src={gif.url} alt={gif.title} className="w-full h-full object-cover" />}
+                </div>
+                <div className="flex-1 min-w-0">
+                    <p className={`text-xs truncate ${isWinner ? 'font-bold text-white' : 'text-white/70'}`}>
+                        {gif ? gif.title : 'TBD'}
+                    </p>
+                    {gif && (
+                        <p className="text-[10px] text-white/30">
+                            #{gif.seed}{!isPredicting && ` · ${gif.votes.toLocaleString()} votes`}
+                        </p>
+                    )}
+                </div>
+                {isWinner && <Trophy className="w-3.5 h-3.5 text-yellow-400 flex-shrink-0" />}
+                {isVoted && <Check className="w-3.5 h-3.5 text-green-400 flex-shrink-0" />}
+                {pickSettled && (
+                    match.winner === choice
+                        ? <span className="text-[10px] font-bold text-green-400">+{getRoundPoints(match.round)}</span>
+                        : <X className="w-3.5 h-3.5 text-red-400 flex-shrink-0" />
+                )}
+            </button>
+        );
+    };
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex flex-col items-center gap-2 text-center">
+                <h3 className="text-lg font-bold text-white">{tournament.name}</h3>
+                <div className="flex items-center gap-3 px-5 py-2 rounded-xl bg-white/5 border border-white/10">
+                    <Clock className="w-4 h-4 text-red-400" />
+                    <span className="text-sm text-white/70">
+                        {isPredicting
+                            ? <>Predictions lock in <span className="font-mono font-bold text-white">{formatCountdown(tournament.startsAt)}</span></>
+                            : currentMatch?.closesAt && !currentMatch.winner
+                                ? <>{getRoundName(tournament.currentRound, tournament.roundCount)} closes in <span className="font-mono font-bold text-white">{formatCountdown(currentMatch.closesAt)}</span></>
+                                : getRoundName(tournament.currentRound, tournament.roundCount)}
+                    </span>
+                </div>
+                {prediction && !isPredicting && (
+                    <p className="text-xs text-white/50">
+                        Your bracket: <span className="font-bold text-green-400">{prediction.points} pts</span> · {prediction.correctPicks} correct picks
+                    </p>
+                )}
+            </div>
+
+            {/* Bracket */}
+            <div className="flex gap-4 overflow-x-auto pb-4">
+                {rounds.map((roundMatches, round) => (
+                    <div key={round} className="flex flex-col min-w-[200px] flex-1">
+                        <div className={`text-center text-xs font-bold uppercase tracking-wider mb-3 ${round === tournament.currentRound && !isPredicting ? 'text-red-400' : 'text-white/40'}`}>
+                            {getRoundName(round, tournament.roundCount)}
+                        </div>
+                        <div className="flex flex-col justify-around flex-1 gap-3">
+                            {roundMatches.map(match => {
+                                const shown = isPredicting ? matchups[match.id] : match;
+                                return (
+                                    <div
+                                        key={match.id}
+                                        className={`rounded-xl border p-1 bg-white/5 ${isMatchOpen(match, now) ? 'border-red-500/40' : 'border-white/10'}`}
+                                    >
+                                        <EntrantRow match={match} gif={shown?.gifA || null} choice="A" />
+                                        <div className="h-px bg-white/5 mx-2" />
+                                        <EntrantRow match={match} gif={shown?.gifB || null} choice="B" />
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {/* Prediction footer */}
+            {isPredicting && (
+                <div className="flex flex-col items-center gap-2">
+                    {user ? (
+                        <>
+                            <button
+                                onClick={handleSubmitPicks}
+                                disabled={pickCount < matches.length || isBusy}
+                                className="px-6 py-2 rounded-xl font-bold text-xs bg-red-500 text-white hover:opacity-90 shadow-lg active:scale-95 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                            >
+                                {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : prediction ? 'Update My Bracket' : 'Lock In My Bracket'}
+                            </button>
+                            <span className="text-xs text-white/40">{pickCount}/{matches.length} picks · later rounds score more</span>
+                        </>
+                    ) : (
+                        <div className="flex items-center gap-2 text-red-400 text-sm font-medium animate-pulse">
+                            <Zap className="w-4 h-4" />
+                            <span>Sign in to fill out a bracket</span>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {message && (
+                <div className="fixed bottom-12 left-1/2 -translate-x-1/2 z-50">
+                    <div className="flex items-center gap-3 px-6 py-3 rounded-2xl bg-green-500 text-white shadow-2xl shadow-green-500/40 animate-bounce">
+                        <Trophy className="w-5 h-5" />
+                        <span className="font-bold">{message}</span>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
 const SauceShowdown: React.FC<SauceShowdownProps> = ({ user, onVoteComplete }) => {
     const [showdown, setShowdown] = useState<Showdown | null>(null);
     const [isLoading, setIsLoading] = useState(true);
@@ -23,6 +260,11 @@ const SauceShowdown: React.FC<SauceShowdownProps> = ({ user, onVoteComplete }) =
     const [timeRemaining, setTimeRemaining] = useState({ hours: 0, minutes: 0, seconds: 0 });
     const [voteMessage, setVoteMessage] = useState<string | null>(null);
     const [hoveredGif, setHoveredGif] = useState<'A' | 'B' | null>(null);
+    const [tournament, setTournament] = useState<Tournament | null>(null);
+    const [mode, setMode] = useState<'daily' | 'bracket'>('daily');
+    const [sauceStats, setSauceStats] = useState<UserSauceStats | null>(null);
+
+    useEffect(() => subscribeToActiveTournament(setTournament), []);
 
     useEffect(() => {
         setIsLoading(true);
@@ -43,6 +285,14 @@ const SauceShowdown: React.FC<SauceShowdownProps> = ({ user, onVoteComplete }) =
         checkVote();
     }, [user]);
 
+    useEffect(() => {
+        if (!user?.uid) {
+            setSauceStats(null);
+            return;
+        }
+        getUserSauceStats(user.uid).then(setSauceStats);
+    }, [user?.uid]);
+
     useEffect(() => {
         if (!showdown) return;
         const updateTimer = () => {
@@ -72,13 +322,7 @@ const SauceShowdown: React.FC<SauceShowdownProps> = ({ user, onVoteComplete }) =
 
         setIsVoting(true);
         try {
-            // Pass email and displayName to ensure vote tracking works
-            const result = await castVote(
-                user.uid,
-                choice,
-                user.email || '',
-                user.displayName || user.name || ''
-            );
+            const result = await castVote(choice);
             if (result.success) {
                 setUserVote(choice);
                 setVoteMessage('Vote recorded! 🔥');
@@ -271,8 +515,41 @@ const SauceShowdown: React.FC<SauceShowdownProps> = ({ user, onVoteComplete }) =
         );
     };
 
+    // Daily / Bracket switch - only when a tournament is running
+    const modeTabs = tournament && (
+        <div className="flex justify-center gap-2 mb-6">
+            {([
+                { id: 'daily', label: 'Daily Showdown', icon: Swords },
+                { id: 'bracket', label: tournament.name, icon: GitBranch }
+            ] as const).map(({ id, label, icon: Icon }) => (
+                <button
+                    key={id}
+                    onClick={() => setMode(id)}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-full text-xs font-bold transition-all ${mode === id
+                        ? 'bg-red-500 text-white shadow-lg shadow-red-500/30'
+                        : 'bg-white/5 text-white/50 border border-white/10 hover:text-white'
+                        }`}
+                >
+                    <Icon className="w-4 h-4" />
+                    <span className="truncate max-w-[160px]">{label}</span>
+                </button>
+            ))}
+        </div>
+    );
+
+    if (tournament && mode === 'bracket') {
+        return (
+            <div className="relative">
+                {modeTabs}
+                <BracketView tournament={tournament} user={user} />
+            </div>
+        );
+    }
+
     return (
         <div className="relative">
+            {modeTabs}
+
             {/* Side-by-Side Layout with Floating VS at top */}
             <div className="relative mb-8">
                 {/* Floating VS Badge - Positioned at the Top Center */}
@@ -331,6 +608,41 @@ const SauceShowdown: React.FC<SauceShowdownProps> = ({ user, onVoteComplete }) =
                 )}
             </div>
 
+            {/* Sauce Sense - your record + the leaderboard */}
+            <div className="mt-10 max-w-xl mx-auto space-y-4">
+                {sauceStats && (
+                    <div className="grid grid-cols-3 gap-2">
+                        {[
+                            { label: 'Sauce Sense', value: sauceStats.sauceSenseScore.toLocaleString(), icon: Target },
+                            { label: 'Streak', value: `${sauceStats.streak} 🔥`, icon: Flame },
+                            {
+                                label: 'Accuracy',
+                                value: sauceStats.totalVotes > 0
+                                    ? `${Math.round(sauceStats.correctPicks / sauceStats.totalVotes * 100)}%`
+                                    : '—',
+                                icon: Check
+                            }
+                        ].map(({ label, value, icon: Icon }) => (
+                            <div key={label} className="flex flex-col items-center gap-1 py-3 rounded-xl bg-white/5 border border-white/10">
+                                <Icon className="w-4 h-4 text-red-400" />
+                                <span className="text-sm font-bold text-white">{value}</span>
+                                <span className="text-[10px] uppercase tracking-wider text-white/40">{label}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <SauceLeaderboard pageSize={5} currentUserId={user?.uid} />
+
+                <Link
+                    to="/leaderboard"
+                    className="flex items-center justify-center gap-1 text-xs font-bold text-red-400 hover:text-red-300 transition-colors"
+                >
+                    Full leaderboard
+                    <ChevronRight className="w-4 h-4" />
+                </Link>
+            </div>
+
             {/* Vote Message Overlay */}
             {voteMessage && (
                 <div className="fixed bottom-12 left-1/2 -translate-x-1/2 z-50">
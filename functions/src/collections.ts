@@ -0,0 +1,300 @@
+/**
+ * Shared Sauce Box collections and teams
+ *
+ * Callable functions:
+ * - acceptInvite: join a collection (as editor/viewer) or a team (as member) from an invite link
+ * - updateCollectionSharing: managers change visibility, member permissions and team ownership;
+ *   any member can remove themselves (leave)
+ * - updateTeamMembers: team admins change member roles or remove members; anyone can leave
+ *
+ * Membership lives on the documents themselves (members map + memberIds array for queries +
+ * memberNames for display), so these functions keep the three in step. Joins, leaves and sharing
+ * changes are written to the collection's activity feed alongside what members add and remove.
+ *
+ * Invites are sauce_collections/{id}/invites/{token} and teams/{id}/invites/{token}; managers
+ * create and revoke them from the client, only acceptInvite reads them on a joiner's behalf.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+// ============================================
+// CONFIG
+// ============================================
+
+const COLLECTIONS_COLLECTION = 'sauce_collections';
+const TEAMS_COLLECTION = 'teams';
+
+type CollectionRole = 'editor' | 'viewer';
+type TeamRole = 'admin' | 'member';
+type Visibility = 'private' | 'public';
+
+const COLLECTION_ROLES: CollectionRole[] = ['editor', 'viewer'];
+const TEAM_ROLES: TeamRole[] = ['admin', 'member'];
+
+const MAX_MEMBERS = 50;
+
+// ============================================
+// HELPERS
+// ============================================
+
+const { FieldValue } = admin.firestore;
+
+async function displayName(uid: string): Promise<string> {
+    try {
+        const user = await admin.auth().getUser(uid);
+        return user.displayName || user.email?.split('@')[0] || 'Someone';
+    } catch {
+        return 'Someone';
+    }
+}
+
+/**
+ * Owners manage their collections; so do the admins of the team that owns one
+ */
+async function managesCollection(data: admin.firestore.DocumentData, uid: string): Promise<boolean> {
+    if (data.ownerId === uid) return true;
+    if (!data.teamId) return false;
+    const team = await admin.firestore().collection(TEAMS_COLLECTION).doc(data.teamId).get();
+    return team.data()?.members?.[uid] === 'admin';
+}
+
+function activityRef(collectionId: string): admin.firestore.DocumentReference {
+    return admin.firestore().collection(COLLECTIONS_COLLECTION).doc(collectionId).collection('activity').doc();
+}
+
+function requireAuth(context: functions.https.CallableContext): string {
+    if (!context.auth) {
+        throw new functions.https.HttpsError('unauthenticated', 'Sign in first.');
+    }
+    return context.auth.uid;
+}
+
+// ============================================
+// CALLABLES
+// ============================================
+
+/**
+ * Redeem an invite link. Joining something you already belong to keeps your current role.
+ */
+export const acceptInvite = functions.https.onCall(async (
+    data: { kind?: string; targetId?: string; token?: string },
+    context
+) => {
+    const uid = requireAuth(context);
+    const { kind, targetId, token } = data || {};
+    if ((kind !== 'collection' && kind !== 'team') || typeof targetId !== 'string' || typeof token !== 'string') {
+        throw new functions.https.HttpsError('invalid-argument', 'Invalid invite link');
+    }
+
+    const db = admin.firestore();
+    const targetRef = db.collection(kind === 'collection' ? COLLECTIONS_COLLECTION : TEAMS_COLLECTION).doc(targetId);
+    const inviteRef = targetRef.collection('invites').doc(token);
+    const name = await displayName(uid);
+
+    const result = await db.runTransaction(async (transaction) => {
+        const [target, invite] = await Promise.all([transaction.get(targetRef), transaction.get(inviteRef)]);
+        if (!target.exists || !invite.exists) {
+            throw new functions.https.HttpsError('not-found', 'This invite link is no longer valid');
+        }
+
+        const inviteData = invite.data()!;
+        const expiresAt: admin.firestore.Timestamp | undefined = inviteData.expiresAt;
+        if (expiresAt && expiresAt.toMillis() < Date.now()) {
+            throw new functions.https.HttpsError('failed-precondition', 'This invite link has expired');
+        }
+
+        const targetData = target.data()!;
+        const members: Record<string, string> = targetData.members || {};
+        if (targetData.ownerId === uid || members[uid]) {
+            return { joined: false, name: targetData.name as string };
+        }
+        if (Object.keys(members).length >= MAX_MEMBERS) {
+            throw new functions.https.HttpsError('resource-exhausted', `${targetData.name} is full`);
+        }
+
+        const role = kind === 'collection'
+            ? (COLLECTION_ROLES.includes(inviteData.role) ? inviteData.role : 'viewer')
+            : 'member';
+
+        transaction.update(targetRef, {
+            [`members.${uid}`]: role,
+            [`memberNames.${uid}`]: name,
+            memberIds: FieldValue.arrayUnion(uid),
+            ...(kind === 'collection' ? { updatedAt: FieldValue.serverTimestamp() } : {})
+        });
+        if (kind === 'collection') {
+            transaction.create(activityRef(targetId), {
+                type: 'joined',
+                actorId: uid,
+                actorName: name,
+                role,
+                createdAt: FieldValue.serverTimestamp()
+            });
+        }
+        return { joined: true, name: targetData.name as string };
+    });
+
+    return { kind, targetId, ...result };
+});
+
+/**
+ * Change who can see and edit a collection.
+ * - visibility: 'private' or 'public' (anyone with the link can view)
+ * - members: { uid: 'editor' | 'viewer' | null } - null removes the member
+ * - teamId: hand the collection to one of the caller's teams (null takes it back)
+ * Members who don't manage the collection may only pass { members: { theirUid: null } }.
+ */
+export const updateCollectionSharing = functions.https.onCall(async (
+    data: { collectionId?: string; visibility?: string; members?: Record<string, string | null>; teamId?: string | null },
+    context
+) => {
+    const uid = requireAuth(context);
+    const { collectionId, visibility, members, teamId } = data || {};
+    if (typeof collectionId !== 'string' || !collectionId) {
+        throw new functions.https.HttpsError('invalid-argument', 'collectionId is required');
+    }
+
+    const db = admin.firestore();
+    const collectionRef = db.collection(COLLECTIONS_COLLECTION).doc(collectionId);
+    const snap = await collectionRef.get();
+    if (!snap.exists) {
+        throw new functions.https.HttpsError('not-found', 'Collection not found');
+    }
+    const current = snap.data()!;
+    const manager = await managesCollection(current, uid);
+
+    const leavingOnly = !manager
+        && visibility === undefined && teamId === undefined
+        && members && Object.keys(members).length === 1 && members[uid] === null;
+    if (!manager && !leavingOnly) {
+        throw new functions.https.HttpsError('permission-denied', 'Only the owner can change sharing');
+    }
+
+    const updates: Record<string, unknown> = { updatedAt: FieldValue.serverTimestamp() };
+    const notes: string[] = [];
+
+    if (visibility !== undefined) {
+        if (visibility !== 'private' && visibility !== 'public') {
+            throw new functions.https.HttpsError('invalid-argument', `Unknown visibility: ${visibility}`);
+        }
+        if (visibility !== (current.visibility || 'private')) {
+            updates.visibility = visibility as Visibility;
+            notes.push(visibility === 'public' ? 'made it public' : 'made it private');
+        }
+    }
+
+    if (members) {
+        const removed: string[] = [];
+        for (const [memberId, role] of Object.entries(members)) {
+            if (memberId === current.ownerId) {
+                throw new functions.https.HttpsError('invalid-argument', "The owner's access can't change");
+            }
+            if (role === null) {
+                updates[`members.${memberId}`] = FieldValue.delete();
+                updates[`memberNames.${memberId}`] = FieldValue.delete();
+                removed.push(memberId);
+            } else if (COLLECTION_ROLES.includes(role as CollectionRole) && current.members?.[memberId]) {
+                updates[`members.${memberId}`] = role;
+                notes.push(`made ${current.memberNames?.[memberId] || 'a member'} ${role === 'editor' ? 'an editor' : 'a viewer'}`);
+            } else {
+                throw new functions.https.HttpsError('invalid-argument', `Can't set ${memberId} to ${role}`);
+            }
+        }
+        if (removed.length > 0) {
+            updates.memberIds = FieldValue.arrayRemove(...removed);
+        }
+    }
+
+    const batch = db.batch();
+    if (teamId !== undefined && teamId !== (current.teamId || null)) {
+        if (teamId !== null) {
+            const team = await db.collection(TEAMS_COLLECTION).doc(teamId).get();
+            if (!team.exists || !team.data()?.memberIds?.includes(uid)) {
+                throw new functions.https.HttpsError('permission-denied', "You're not on that team");
+            }
+            batch.update(team.ref, { collectionIds: FieldValue.arrayUnion(collectionId) });
+            notes.push(`moved it to ${team.data()?.name}`);
+        } else {
+            notes.push('took it out of its team');
+        }
+        if (current.teamId) {
+            batch.update(db.collection(TEAMS_COLLECTION).doc(current.teamId), {
+                collectionIds: FieldValue.arrayRemove(collectionId)
+            });
+        }
+        updates.teamId = teamId;
+    }
+
+    batch.update(collectionRef, updates);
+
+    const name = await displayName(uid);
+    if (leavingOnly) {
+        batch.create(activityRef(collectionId), {
+            type: 'left', actorId: uid, actorName: name, createdAt: FieldValue.serverTimestamp()
+        });
+    } else if (notes.length > 0 || Object.values(members || {}).includes(null)) {
+        const removedCount = Object.values(members || {}).filter(role => role === null).length;
+        if (removedCount > 0) notes.push(`removed ${removedCount} ${removedCount === 1 ? 'member' : 'members'}`);
+        batch.create(activityRef(collectionId), {
+            type: 'shared', actorId: uid, actorName: name, detail: notes.join(', '),
+            createdAt: FieldValue.serverTimestamp()
+        });
+    }
+
+    await batch.commit();
+    return { message: leavingOnly ? `You left ${current.name}` : 'Sharing updated' };
+});
+
+/**
+ * Change team membership: { uid: 'admin' | 'member' | null }. Admins can change anyone but the
+ * team's owner; everyone else may only remove themselves.
+ */
+export const updateTeamMembers = functions.https.onCall(async (
+    data: { teamId?: string; members?: Record<string, string | null> },
+    context
+) => {
+    const uid = requireAuth(context);
+    const { teamId, members } = data || {};
+    if (typeof teamId !== 'string' || !teamId || !members || Object.keys(members).length === 0) {
+        throw new functions.https.HttpsError('invalid-argument', 'teamId and members are required');
+    }
+
+    const teamRef = admin.firestore().collection(TEAMS_COLLECTION).doc(teamId);
+    const team = await teamRef.get();
+    if (!team.exists) {
+        throw new functions.https.HttpsError('not-found', 'Team not found');
+    }
+    const current = team.data()!;
+    const isAdmin = current.members?.[uid] === 'admin';
+    const leavingOnly = Object.keys(members).length === 1 && members[uid] === null;
+    if (!isAdmin && !leavingOnly) {
+        throw new functions.https.HttpsError('permission-denied', 'Only team admins can manage members');
+    }
+
+    const updates: Record<string, unknown> = {};
+    const removed: string[] = [];
+    for (const [memberId, role] of Object.entries(members)) {
+        if (memberId === current.ownerId) {
+            throw new functions.https.HttpsError('invalid-argument', "The team's owner can't be removed or demoted");
+        }
+        if (!current.members?.[memberId]) {
+            throw new functions.https.HttpsError('not-found', 'Not a member of this team');
+        }
+        if (role === null) {
+            updates[`members.${memberId}`] = FieldValue.delete();
+            updates[`memberNames.${memberId}`] = FieldValue.delete();
+            removed.push(memberId);
+        } else if (TEAM_ROLES.includes(role as TeamRole)) {
+            updates[`members.${memberId}`] = role;
+        } else {
+            throw new functions.https.HttpsError('invalid-argument', `Unknown team role: ${role}`);
+        }
+    }
+    if (removed.length > 0) {
+        updates.memberIds = FieldValue.arrayRemove(...removed);
+    }
+
+    await teamRef.update(updates);
+    return { message: leavingOnly ? `You left ${current.name}` : 'Team updated' };
+});
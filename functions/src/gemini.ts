@@ -0,0 +1,491 @@
+/**
+ * Gemini Gateway - server-side Gemini calls so API keys never reach the browser
+ *
+ * Callable functions:
+ * - geminiGateway: typed endpoints (removeText, generateSticker, captions, tags, safety)
+ * - saveGeminiKey / deleteGeminiKey: manage a user's own (BYO) Gemini key
+ *
+ * Key resolution per call: the caller's BYO key if they saved one, else the
+ * platform key (GEMINI_API_KEY). BYO keys are AES-256-GCM encrypted with
+ * GEMINI_KEY_SECRET and stored in user_secrets/{uid}, which clients can't read.
+ *
+ * Prompts live here rather than in the request so the gateway can't be used as
+ * an open Gemini proxy.
+ *
+ * Metering happens here too: each call is checked against the caller's daily role
+ * budget and recorded in usage_ledger/{uid}_{YYYY-MM-DD} before Gemini is called
+ * (and refunded if the call fails). Costs and quotas mirror services/usageService.ts,
+ * including overrides in settings/usageConfig. The client may only ask for a model
+ * that is no more expensive than the endpoint's default.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+// ============================================
+// CONFIG
+// ============================================
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+const PLATFORM_KEY = process.env.GEMINI_API_KEY || '';
+const KEY_SECRET = process.env.GEMINI_KEY_SECRET || '';
+const SECRETS_COLLECTION = 'user_secrets';
+const LEDGER_COLLECTION = 'usage_ledger';
+const USAGE_CONFIG_DOC = 'settings/usageConfig';
+const REQUEST_TIMEOUT_MS = 60000;
+
+// Models each endpoint may use. The first is the default; the rest are budget fallbacks.
+const ENDPOINT_MODELS = {
+    removeText: ['gemini-2.5-flash-image'],
+    generateSticker: ['gemini-3-pro-image-preview', 'gemini-2.5-flash-image'],
+    captions: ['gemini-2.0-flash', 'gemini-2.5-flash'],
+    tags: ['gemini-2.0-flash', 'gemini-2.5-flash'],
+    safety: ['gemini-2.0-flash', 'gemini-2.5-flash']
+};
+
+const REMOVE_TEXT_PROMPTS = {
+    sticker: 'MANDATORY INSTRUCTION: Remove all written text, captions, watermarks, and logos. Re-create the background accurately where the text was. The final image must contain ZERO words or letters. Focus on keeping the main character/person. CRITICAL: Output must be PNG format with a fully transparent background (alpha channel). No grey, white, or colored backgrounds - only transparency.',
+    frame: 'Remove all written text and watermarks from this frame. Output ONLY the clean image.'
+};
+
+// Approximate list prices (USD) - keep in sync with DEFAULT_MODEL_COSTS in services/usageService.ts
+const DEFAULT_MODEL_COSTS: Record<string, ModelCost> = {
+    'gemini-3-pro-image-preview': { costPerUnit: 0.134, fallback: 'gemini-2.5-flash-image' },
+    'gemini-2.5-flash-image': { costPerUnit: 0.039 },
+    'gemini-2.5-flash': { costPerUnit: 0.002 },
+    'gemini-2.0-flash': { costPerUnit: 0.001 }
+};
+
+// Unknown models are charged conservatively rather than for free
+const UNKNOWN_MODEL_COST: ModelCost = { costPerUnit: 0.05 };
+
+// Daily USD budget per role, null = unlimited
+const DEFAULT_ROLE_QUOTAS: Record<string, number | null> = {
+    user: 2,
+    admin: 25,
+    owner: null
+};
+
+const CAPTION_MOODS = ['funny', 'spicy', 'wholesome', 'sarcastic', 'relatable'];
+const STICKER_SIZES = ['1K', '2K', '4K'];
+
+// ============================================
+// TYPES
+// ============================================
+
+type GatewayEndpoint = keyof typeof ENDPOINT_MODELS;
+
+interface ModelCost {
+    costPerUnit: number;
+    fallback?: string;
+}
+
+interface UsageConfig {
+    modelCosts: Record<string, ModelCost>;
+    roleQuotas: Record<string, number | null>;
+}
+
+interface GeminiPart {
+    text?: string;
+    inlineData?: { mimeType: string; data: string };
+}
+
+interface GatewayRequest {
+    endpoint: GatewayEndpoint;
+    model?: string;
+    request: Record<string, unknown>;
+}
+
+// ============================================
+// KEY STORAGE
+// ============================================
+
+function getCipherKey(): Buffer {
+    if (!KEY_SECRET) {
+        throw new functions.https.HttpsError('failed-precondition', 'Key encryption is not configured');
+    }
+    // Accept any secret string; derive a fixed-length AES-256 key from it
+    return createHash('sha256').update(KEY_SECRET).digest();
+}
+
+function encryptKey(plaintext: string): { ciphertext: string; iv: string; tag: string } {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', getCipherKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return {
+        ciphertext: ciphertext.toString('base64'),
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64')
+    };
+}
+
+function decryptKey(stored: { ciphertext: string; iv: string; tag: string }): string {
+    const decipher = createDecipheriv('aes-256-gcm', getCipherKey(), Buffer.from(stored.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(stored.tag, 'base64'));
+    return Buffer.concat([
+        decipher.update(Buffer.from(stored.ciphertext, 'base64')),
+        decipher.final()
+    ]).toString('utf8');
+}
+
+/**
+ * The caller's BYO key, falling back to the platform key
+ */
+async function resolveApiKey(uid: string): Promise<string> {
+    try {
+        const snap = await admin.firestore().collection(SECRETS_COLLECTION).doc(uid).get();
+        const stored = snap.data()?.geminiKey;
+        if (stored) {
+            return decryptKey(stored);
+        }
+    } catch (error) {
+        console.error(`Could not load BYO key for ${uid}, using platform key:`, error);
+    }
+
+    if (!PLATFORM_KEY) {
+        throw new functions.https.HttpsError('failed-precondition', 'No Gemini API key configured. Add your own key in settings.');
+    }
+    return PLATFORM_KEY;
+}
+
+// ============================================
+// METERING
+// ============================================
+
+async function getUsageConfig(): Promise<UsageConfig> {
+    const config: UsageConfig = {
+        modelCosts: { ...DEFAULT_MODEL_COSTS },
+        roleQuotas: { ...DEFAULT_ROLE_QUOTAS }
+    };
+    try {
+        const overrides = (await admin.firestore().doc(USAGE_CONFIG_DOC).get()).data() as Partial<UsageConfig> | undefined;
+        Object.assign(config.modelCosts, overrides?.modelCosts || {});
+        Object.assign(config.roleQuotas, overrides?.roleQuotas || {});
+    } catch (error) {
+        console.warn('Usage config fetch failed, using defaults:', error);
+    }
+    return config;
+}
+
+const costOf = (config: UsageConfig, model: string): number =>
+    (config.modelCosts[model] || UNKNOWN_MODEL_COST).costPerUnit;
+
+/**
+ * The model to run: the client's pick if it's allowed for the endpoint and costs no more
+ * than the default (i.e. a budget fallback), otherwise the default
+ */
+function pickModel(config: UsageConfig, endpoint: GatewayEndpoint, requested: string | undefined): string {
+    const [defaultModel, ...fallbacks] = ENDPOINT_MODELS[endpoint];
+    if (requested && fallbacks.includes(requested) && costOf(config, requested) <= costOf(config, defaultModel)) {
+        return requested;
+    }
+    return defaultModel;
+}
+
+/**
+ * Check the caller's budget and record the call in one transaction, degrading along the
+ * model's fallback chain when the preferred model doesn't fit. Returns the model and the
+ * ledger entry to refund if the call fails.
+ */
+async function reserveUsage(
+    uid: string,
+    role: string,
+    endpoint: GatewayEndpoint,
+    requested: string | undefined
+): Promise<{ model: string; cost: number; ledger: admin.firestore.DocumentReference }> {
+    const config = await getUsageConfig();
+    const preferred = pickModel(config, endpoint, requested);
+    const quota = config.roleQuotas[role] ?? config.roleQuotas.user ?? null;
+    const date = new Date().toISOString().split('T')[0];
+    const ledger = admin.firestore().collection(LEDGER_COLLECTION).doc(`${uid}_${date}`);
+
+    return admin.firestore().runTransaction(async (tx) => {
+        const spent = Number((await tx.get(ledger)).data()?.totalCost) || 0;
+        const remaining = quota === null ? Infinity : quota - spent;
+
+        // Walk the fallback chain (staying within the endpoint's models) until something fits
+        let model: string | undefined = preferred;
+        const visited = new Set<string>();
+        while (model && !visited.has(model) && costOf(config, model) > remaining) {
+            visited.add(model);
+            model = config.modelCosts[model]?.fallback;
+        }
+        if (!model || visited.has(model) || !(ENDPOINT_MODELS[endpoint] as string[]).includes(model)) {
+            throw new functions.https.HttpsError(
+                'resource-exhausted',
+                `Daily AI budget reached ($${Math.max(0, remaining).toFixed(2)} left). Try again tomorrow.`
+            );
+        }
+
+        const cost = costOf(config, model);
+        tx.set(ledger, {
+            userId: uid,
+            date,
+            role,
+            totalCost: admin.firestore.FieldValue.increment(cost),
+            totalCalls: admin.firestore.FieldValue.increment(1),
+            models: {
+                [model]: {
+                    calls: admin.firestore.FieldValue.increment(1),
+                    units: admin.firestore.FieldValue.increment(1),
+                    cost: admin.firestore.FieldValue.increment(cost)
+                }
+            },
+            updatedAt: admin.firestore.FieldValue.serverTimestamp()
+        }, { merge: true });
+        return { model, cost, ledger };
+    });
+}
+
+/**
+ * Give back a reservation whose Gemini call failed
+ */
+async function refundUsage(reservation: { model: string; cost: number; ledger: admin.firestore.DocumentReference }): Promise<void> {
+    const { model, cost, ledger } = reservation;
+    await ledger.set({
+        totalCost: admin.firestore.FieldValue.increment(-cost),
+        totalCalls: admin.firestore.FieldValue.increment(-1),
+        models: {
+            [model]: {
+                calls: admin.firestore.FieldValue.increment(-1),
+                units: admin.firestore.FieldValue.increment(-1),
+                cost: admin.firestore.FieldValue.increment(-cost)
+            }
+        }
+    }, { merge: true }).catch(error => console.error('Usage refund failed:', error));
+}
+
+// ============================================
+// GEMINI REST
+// ============================================
+
+async function generateContent(
+    apiKey: string,
+    model: string,
+    parts: GeminiPart[],
+    generationConfig?: Record<string, unknown>
+): Promise<GeminiPart[]> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    try {
+        const response = await fetch(`${GEMINI_BASE_URL}/${model}:generateContent`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+            body: JSON.stringify({ contents: [{ role: 'user', parts }], ...(generationConfig ? { generationConfig } : {}) }),
+            signal: controller.signal
+        });
+
+        if (!response.ok) {
+            const detail = await response.text();
+            console.error(`Gemini ${model} error ${response.status}:`, detail.substring(0, 500));
+            if (response.status === 429) {
+                throw new functions.https.HttpsError('resource-exhausted', 'Gemini rate limit reached. Try again shortly.');
+            }
+            if (response.status === 400 || response.status === 403) {
+                throw new functions.https.HttpsError('failed-precondition', 'Gemini rejected the request. Check the API key.');
+            }
+            throw new functions.https.HttpsError('unavailable', 'Gemini is unavailable right now.');
+        }
+
+        const data = await response.json();
+        return data.candidates?.[0]?.content?.parts || [];
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+const firstImage = (parts: GeminiPart[]): string | null => {
+    const part = parts.find(p => p.inlineData?.data);
+    return part?.inlineData ? `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}` : null;
+};
+
+const allText = (parts: GeminiPart[]): string => parts.map(p => p.text || '').join('');
+
+function requireString(value: unknown, field: string, maxLength: number): string {
+    if (typeof value !== 'string' || !value.trim()) {
+        throw new functions.https.HttpsError('invalid-argument', `${field} is required`);
+    }
+    if (value.length > maxLength) {
+        throw new functions.https.HttpsError('invalid-argument', `${field} is too long`);
+    }
+    return value;
+}
+
+// ============================================
+// ENDPOINTS
+// ============================================
+
+type EndpointHandler = (apiKey: string, model: string, request: Record<string, unknown>) => Promise<unknown>;
+
+const ENDPOINT_HANDLERS: Record<GatewayEndpoint, EndpointHandler> = {
+    removeText: async (apiKey, model, request) => {
+        const image = requireString(request.image, 'image', 8 * 1024 * 1024).replace(/^data:[^,]+,/, '');
+        const mimeType = typeof request.mimeType === 'string' ? request.mimeType : 'image/png';
+        const prompt = request.variant === 'frame' ? REMOVE_TEXT_PROMPTS.frame : REMOVE_TEXT_PROMPTS.sticker;
+
+        const parts = await generateContent(apiKey, model, [
+            { inlineData: { data: image, mimeType } },
+            { text: prompt }
+        ]);
+        const result = firstImage(parts);
+        if (!result) {
+            throw new functions.https.HttpsError('internal', 'Gemini produced an empty result. Try a clearer image.');
+        }
+        return { image: result };
+    },
+
+    generateSticker: async (apiKey, model, request) => {
+        const prompt = requireString(request.prompt, 'prompt', 2000);
+        const size = STICKER_SIZES.includes(String(request.size)) ? String(request.size) : '1K';
+
+        const parts = await generateContent(apiKey, model, [
+            { text: `Professional high-detail sticker style: ${prompt}, PNG with fully transparent background (alpha channel), no text, no grey background, pure transparency.` }
+        ], {
+            // imageSize is only supported by the pro model
+            imageConfig: model === 'gemini-3-pro-image-preview' ? { aspectRatio: '1:1', imageSize: size } : { aspectRatio: '1:1' }
+        });
+        const result = firstImage(parts);
+        if (!result) {
+            throw new functions.https.HttpsError('internal', 'Failed to generate sticker.');
+        }
+        return { image: result };
+    },
+
+    captions: async (apiKey, model, request) => {
+        const context = requireString(request.context, 'context', 1000);
+        const count = Math.min(10, Math.max(1, Number(request.count) || 5));
+        const mood = CAPTION_MOODS.includes(String(request.mood)) ? String(request.mood) : null;
+        const moodInstruction = mood
+            ? `The captions should have a ${mood} vibe.`
+            : 'Mix different vibes: funny, relatable, sarcastic.';
+
+        const parts = await generateContent(apiKey, model, [{
+            text: `You are a meme caption writer for GIFs. Generate ${count} short, punchy captions for a GIF showing: "${context}"
+
+${moodInstruction}
+
+Rules:
+- Keep captions SHORT (under 8 words ideally, max 12)
+- Use internet humor style (relatable, self-deprecating, absurdist)
+- No hashtags, emojis, or @mentions
+- Make them work for reaction GIFs in Slack/workplace settings
+- Avoid anything offensive or inappropriate for work
+
+Return ONLY a JSON array of strings, no explanation:
+["caption 1", "caption 2", ...]`
+        }]);
+
+        const jsonMatch = allText(parts).match(/\[[\s\S]*\]/);
+        const captions = jsonMatch ? (JSON.parse(jsonMatch[0]) as unknown[]).filter(c => typeof c === 'string') : [];
+        return { captions: (captions as string[]).slice(0, count) };
+    },
+
+    tags: async (apiKey, model, request) => {
+        const description = requireString(request.description, 'description', 1000);
+
+        const parts = await generateContent(apiKey, model, [{
+            text: `Generate 8-10 relevant search tags for this GIF description. Include emotion words, actions, and common search terms.
+
+Description: "${description}"
+
+Return only the tags, comma-separated, lowercase:`
+        }]);
+
+        const tags = allText(parts).split(',')
+            .map(tag => tag.trim().toLowerCase().replace(/[^a-z0-9\s]/g, ''))
+            .filter(tag => tag.length > 1 && tag.length < 20);
+        return { tags };
+    },
+
+    safety: async (apiKey, model, request) => {
+        const prompt = requireString(request.prompt, 'prompt', 2000);
+
+        const parts = await generateContent(apiKey, model, [{
+            text: `As an AI moderator for a GIF search engine called Saucy, evaluate the following prompt for safety.
+Check for: explicit adult content, hate speech, severe violence, or harassment.
+
+Prompt: "${prompt}"
+
+Return your decision in JSON format:
+{ "isSafe": boolean, "reason": "brief explanation if unsafe" }`
+        }]);
+
+        const text = allText(parts);
+        const jsonMatch = text.match(/\{[\s\S]*\}/);
+        if (jsonMatch) {
+            const parsed = JSON.parse(jsonMatch[0]);
+            return { isSafe: parsed.isSafe !== false, ...(parsed.reason ? { reason: String(parsed.reason) } : {}) };
+        }
+        return { isSafe: !text.toLowerCase().includes('"issafe": false') };
+    }
+};
+
+// ============================================
+// CALLABLES
+// ============================================
+
+export const geminiGateway = functions
+    .runWith({ timeoutSeconds: 120, memory: '512MB' })
+    .https.onCall(async (data: GatewayRequest, context) => {
+        if (!context.auth) {
+            throw new functions.https.HttpsError('unauthenticated', 'Sign in to use AI features.');
+        }
+
+        const handler = ENDPOINT_HANDLERS[data?.endpoint];
+        if (!handler) {
+            throw new functions.https.HttpsError('invalid-argument', `Unknown endpoint: ${data?.endpoint}`);
+        }
+
+        const apiKey = await resolveApiKey(context.auth.uid);
+        const role = typeof context.auth.token.role === 'string' ? context.auth.token.role : 'user';
+        const reservation = await reserveUsage(context.auth.uid, role, data.endpoint, data.model);
+
+        try {
+            return { ...(await handler(apiKey, reservation.model, data.request || {}) as object), model: reservation.model };
+        } catch (error) {
+            await refundUsage(reservation);
+            if (error instanceof functions.https.HttpsError) throw error;
+            console.error(`Gateway ${data.endpoint} failed:`, error);
+            throw new functions.https.HttpsError('internal', 'AI request failed.');
+        }
+    });
+
+export const saveGeminiKey = functions.https.onCall(async (data: { apiKey?: string }, context) => {
+    if (!context.auth) {
+        throw new functions.https.HttpsError('unauthenticated', 'Sign in to save an API key.');
+    }
+
+    const apiKey = requireString(data?.apiKey, 'apiKey', 200).trim();
+    if (apiKey.length < 20) {
+        throw new functions.https.HttpsError('invalid-argument', 'That does not look like a Gemini API key.');
+    }
+
+    const db = admin.firestore();
+    const uid = context.auth.uid;
+    await db.collection(SECRETS_COLLECTION).doc(uid).set({
+        geminiKey: encryptKey(apiKey),
+        last4: apiKey.slice(-4),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    }, { merge: true });
+
+    // Drop any plaintext key left over from before the gateway
+    await db.collection('users').doc(uid).set({ apiKey: admin.firestore.FieldValue.delete() }, { merge: true });
+
+    return { last4: apiKey.slice(-4) };
+});
+
+export const deleteGeminiKey = functions.https.onCall(async (_data: unknown, context) => {
+    if (!context.auth) {
+        throw new functions.https.HttpsError('unauthenticated', 'Sign in to manage API keys.');
+    }
+
+    await admin.firestore().collection(SECRETS_COLLECTION).doc(context.auth.uid).set({
+        geminiKey: admin.firestore.FieldValue.delete(),
+        last4: admin.firestore.FieldValue.delete(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    }, { merge: true });
+
+    return { deleted: true };
+});
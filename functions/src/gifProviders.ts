@@ -0,0 +1,238 @@
+/**
+ * GIPHY / Tenor search proxy (gifProviderProxy)
+ *
+ * Routes (served same-origin through the /api/gifs/** hosting rewrite):
+ * - /api/gifs/:provider/search?q=&limit=&cursor=: one page of results plus the cursor
+ *   for the next page (null when there isn't one)
+ * - /api/gifs/:provider/item?id=: a single GIF by its provider id
+ *
+ * The keys (GIPHY_API_KEY, TENOR_API_KEY in functions/.env) never reach the browser;
+ * a provider without a key answers 503. Items come back in the client's KlipyItem shape,
+ * ids prefixed with the provider (giphy_..., tenor_...).
+ *
+ * Cursors: GIPHY pages by numeric offset, Tenor by the opaque `next` token its previous
+ * page returned - either way the client hands back whatever `next` it was given.
+ */
+
+import * as functions from 'firebase-functions';
+import express, { Request, Response } from 'express';
+
+// ============================================
+// CONFIG
+// ============================================
+
+// Read per request: index.ts loads functions/.env after its imports have run
+const giphyKey = (): string => process.env.GIPHY_API_KEY || '';
+const tenorKey = (): string => process.env.TENOR_API_KEY || '';
+const GIPHY_BASE_URL = 'https://api.giphy.com/v1/gifs';
+const TENOR_BASE_URL = 'https://tenor.googleapis.com/v2';
+const TENOR_CLIENT_KEY = 'saucy';
+
+const UPSTREAM_TIMEOUT_MS = 8000;
+const MAX_LIMIT = 50;
+
+interface ProviderItem {
+    id: string;
+    url: string;
+    preview_url: string;
+    width: number;
+    height: number;
+    type: 'gif';
+    title: string;
+    tags: string[];
+}
+
+interface ProviderPage {
+    data: ProviderItem[];
+    next: string | null;
+}
+
+interface Provider {
+    isConfigured(): boolean;
+    search(term: string, limit: number, cursor: string): Promise<ProviderPage>;
+    item(id: string): Promise<ProviderItem | null>;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const toNumber = (value: unknown, fallback: number): number => {
+    const n = Number(value);
+    return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+/**
+ * Call an upstream API with a timeout; null on 404
+ */
+async function fetchJson(url: string): Promise<any> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT_MS);
+    try {
+        const response = await fetch(url, { signal: controller.signal });
+        if (response.status === 404) return null;
+        if (!response.ok) {
+            throw new Error(`Upstream error: ${response.status}`);
+        }
+        return await response.json();
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+const fromGiphy = (item: any): ProviderItem => {
+    const original = item.images?.original || {};
+    const preview = item.images?.fixed_width || item.images?.preview_gif || original;
+    return {
+        id: `giphy_${item.id}`,
+        url: original.url || '',
+        preview_url: preview.url || original.url || '',
+        width: toNumber(original.width, 480),
+        height: toNumber(original.height, 270),
+        type: 'gif',
+        title: item.title || '',
+        tags: []
+    };
+};
+
+const fromTenor = (item: any): ProviderItem => {
+    const gif = item.media_formats?.gif || {};
+    const tiny = item.media_formats?.tinygif || gif;
+    return {
+        id: `tenor_${item.id}`,
+        url: gif.url || '',
+        preview_url: tiny.url || gif.url || '',
+        width: toNumber(gif.dims?.[0], 480),
+        height: toNumber(gif.dims?.[1], 270),
+        type: 'gif',
+        title: item.content_description || item.title || '',
+        tags: Array.isArray(item.tags) ? item.tags : []
+    };
+};
+
+const giphy: Provider = {
+    isConfigured: () => !!giphyKey(),
+    search: async (term, limit, cursor) => {
+        const offset = Math.max(0, parseInt(cursor, 10) || 0);
+        const params = new URLSearchParams({
+            api_key: giphyKey(),
+            q: term,
+            limit: String(limit),
+            offset: String(offset),
+            rating: 'pg-13'
+        });
+        const data = await fetchJson(`${GIPHY_BASE_URL}/search?${params}`);
+        const items: any[] = data?.data || [];
+        const total: number = data?.pagination?.total_count ?? 0;
+        const nextOffset = offset + items.length;
+        return {
+            data: items.map(fromGiphy),
+            next: items.length > 0 && nextOffset < total ? String(nextOffset) : null
+        };
+    },
+    item: async (id) => {
+        const data = await fetchJson(`${GIPHY_BASE_URL}/${encodeURIComponent(id)}?api_key=${giphyKey()}`);
+        return data?.data?.id ? fromGiphy(data.data) : null;
+    }
+};
+
+const tenor: Provider = {
+    isConfigured: () => !!tenorKey(),
+    search: async (term, limit, cursor) => {
+        const params = new URLSearchParams({
+            key: tenorKey(),
+            client_key: TENOR_CLIENT_KEY,
+            q: term,
+            limit: String(limit),
+            media_filter: 'gif,tinygif',
+            contentfilter: 'medium'
+        });
+        if (cursor) params.set('pos', cursor);
+
+        const data = await fetchJson(`${TENOR_BASE_URL}/search?${params}`);
+        const items: any[] = data?.results || [];
+        // Tenor returns an empty `next` on the last page
+        return {
+            data: items.map(fromTenor),
+            next: items.length > 0 && data?.next ? String(data.next) : null
+        };
+    },
+    item: async (id) => {
+        const params = new URLSearchParams({
+            key: tenorKey(),
+            client_key: TENOR_CLIENT_KEY,
+            ids: id,
+            media_filter: 'gif,tinygif'
+        });
+        const data = await fetchJson(`${TENOR_BASE_URL}/posts?${params}`);
+        return data?.results?.[0] ? fromTenor(data.results[0]) : null;
+    }
+};
+
+const PROVIDERS: Record<string, Provider> = { giphy, tenor };
+
+/**
+ * The provider named in the path, or an error response already sent
+ */
+function getProvider(req: Request, res: Response): Provider | null {
+    const provider = PROVIDERS[String(req.params.provider)];
+    if (!provider) {
+        res.status(404).json({ error: 'Unknown provider' });
+        return null;
+    }
+    if (!provider.isConfigured()) {
+        res.status(503).json({ error: `${req.params.provider} is not configured` });
+        return null;
+    }
+    return provider;
+}
+
+// ============================================
+// ROUTES
+// ============================================
+
+const app = express();
+
+app.get('/api/gifs/:provider/search', async (req: Request, res: Response) => {
+    const provider = getProvider(req, res);
+    if (!provider) return;
+
+    const query = String(req.query.q || '').trim().substring(0, 200);
+    if (!query) return res.status(400).json({ error: 'Missing query' });
+    const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(String(req.query.limit || '24'), 10) || 24));
+    const cursor = String(req.query.cursor || '').substring(0, 200);
+
+    try {
+        const page = await provider.search(query, limit, cursor);
+        res.set('Cache-Control', 'public, max-age=60, s-maxage=3600');
+        return res.json(page);
+    } catch (error) {
+        console.error(`${req.params.provider} search failed: "${query}"`, error);
+        return res.status(502).json({ error: 'Search unavailable' });
+    }
+});
+
+app.get('/api/gifs/:provider/item', async (req: Request, res: Response) => {
+    const provider = getProvider(req, res);
+    if (!provider) return;
+
+    const id = String(req.query.id || '').trim().replace(/[^a-zA-Z0-9_-]/g, '').substring(0, 200);
+    if (!id) return res.status(400).json({ error: 'Missing id' });
+
+    try {
+        const item = await provider.item(id);
+        if (!item) return res.status(404).json({ error: 'Not found' });
+        res.set('Cache-Control', 'public, max-age=3600, s-maxage=86400');
+        return res.json({ data: item });
+    } catch (error) {
+        console.error(`${req.params.provider} item failed: "${id}"`, error);
+        return res.status(502).json({ error: 'Item unavailable' });
+    }
+});
+
+// Served same-origin via the /api/gifs/** hosting rewrite
+export const gifProviderProxy = functions.https.onRequest(app);
@@ -1,270 +1,440 @@
 /**
- * Firebase Cloud Functions - OG Meta Tag Injection
+ * Firebase Cloud Functions
  * 
- * This function intercepts requests to /gif/:id and injects dynamic
- * Open Graph meta tags for social media link unfurling (Slack, Twitter, etc.)
+ * - ogMeta: /gif/:id link unfurling - Open Graph and Twitter player cards with real
+ *   video renditions, a player page and an /oembed endpoint (see unfurl.ts)
+ * - klipyProxy: server-side Klipy search proxy (/api/klipy/*) so the API key
+ *   never reaches the browser, with a shared Firestore cache
+ * - gifProviderProxy: the same for GIPHY and Tenor search (/api/gifs/*, see gifProviders.ts)
+ * - recomputeTrending: scheduled windowed trending scores (see trending.ts)
+ * - rotateShowdown: scheduled daily showdown settlement and next matchup (see showdowns.ts)
+ * - castShowdownVote / voidShowdownVotes: weighted, flagged showdown voting (see showdownVotes.ts)
+ * - geminiGateway / saveGeminiKey / deleteGeminiKey: server-side Gemini calls (see gemini.ts)
+ * - creditReferral: credits the referrer once per new profile (see referrals.ts)
+ * - mergeDuplicateGif: folds a duplicate library GIF into the original (see library.ts)
  */
 
 import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
 import express, { Request, Response } from 'express';
 import * as dotenv from 'dotenv';
 
 // Load environment variables
 dotenv.config();
 
-const app = express();
+admin.initializeApp();
+const db = admin.firestore();
 
 // Klipy API Configuration
 const KLIPY_API_KEY = process.env.KLIPY_API_KEY || '';
 const KLIPY_BASE_URL = 'https://api.klipy.com/api/v1';
 
-// User agent patterns for social media crawlers
-const CRAWLER_USER_AGENTS = [
-    'facebookexternalhit',
-    'Facebot',
-    'Twitterbot',
-    'LinkedInBot',
-    'WhatsApp',
-    'Slackbot',
-    'TelegramBot',
-    'Discordbot',
-    'Pinterest',
-    'Googlebot',
-    'bingbot',
-    'Applebot',
-    'iMessage'
-];
+// ============================================
+// KLIPY SEARCH PROXY
+// ============================================
+
+const klipyApp = express();
+
+const SEARCH_CACHE_COLLECTION = 'search_cache';
+const KLIPY_CONTENT_TYPES = ['gifs', 'stickers', 'memes', 'clips'] as const;
+type KlipyContentType = typeof KLIPY_CONTENT_TYPES[number];
+
+// How long a cached response is served as-is, and how long past that it may
+// still be served (stale) while a refresh runs
+const CACHE_TTL_MS = {
+    search: 24 * 60 * 60 * 1000,
+    trending: 15 * 60 * 1000,
+    categories: 24 * 60 * 60 * 1000,
+    item: 7 * 24 * 60 * 60 * 1000
+};
+const STALE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+// Only one request per key triggers a refresh within this window
+const REFRESH_LEASE_MS = 60 * 1000;
+const UPSTREAM_TIMEOUT_MS = 8000;
+const MAX_LIMIT = 50;
+
+type CacheKind = keyof typeof CACHE_TTL_MS;
+
+interface NormalizedKlipyItem {
+    id: string;
+    url: string;
+    preview_url: string;
+    width: number;
+    height: number;
+    type: 'gif' | 'sticker' | 'clip' | 'meme';
+    title: string;
+    tags: string[];
+    media_formats: Record<string, unknown>;
+}
+
+interface NormalizedCategory {
+    name: string;
+    search_term: string;
+    image_url?: string;
+}
+
+interface ProxyPayload {
+    data: unknown[];
+    pagination?: {
+        count: number;
+        offset: number;
+        has_next: boolean;
+    };
+}
 
 /**
- * Check if the request is from a social media crawler
+ * Pull the item array out of whichever response shape Klipy returned.
+ * Seen in the wild: [...], { data: [...] }, { data: { data: [...] } },
+ * { results: [...] }, { gifs: [...] }, { categories: [...] }
  */
-function isCrawler(userAgent: string): boolean {
-    if (!userAgent) return false;
-    const lowerUA = userAgent.toLowerCase();
-    return CRAWLER_USER_AGENTS.some(crawler =>
-        lowerUA.includes(crawler.toLowerCase())
-    );
+function extractKlipyItems(data: any): any[] | null {
+    if (Array.isArray(data)) return data;
+    if (!data || typeof data !== 'object') return null;
+    if (Array.isArray(data.data)) return data.data;
+    if (data.data && Array.isArray(data.data.data)) return data.data.data;
+    if (data.data && Array.isArray(data.data.categories)) return data.data.categories;
+    if (Array.isArray(data.results)) return data.results;
+    if (Array.isArray(data.gifs)) return data.gifs;
+    if (Array.isArray(data.categories)) return data.categories;
+    return null;
 }
 
 /**
- * Fetch GIF data from Klipy API
+ * Normalize a single Klipy item to the shape the client renders
  */
-async function fetchGifData(gifId: string): Promise<{
-    url: string;
-    title: string;
-    width: number;
-    height: number;
-} | null> {
+function normalizeKlipyItem(item: any, type: KlipyContentType): NormalizedKlipyItem {
+    // Klipy returns items with structure: { id, slug, title, file: { hd: { gif: { url, width, height } }, sd: {...} } }
+    const file = item.file || {};
+    const hdGif = file.hd?.gif || file.hd?.webp || {};
+    const sdGif = file.sd?.gif || file.sd?.webp || {};
+    const previewGif = file.preview?.gif || file.preview?.webp || file.thumbnail?.gif || {};
+
+    // Also check for old/alternative formats
+    const mediaFormats = item.media_formats || item.media || {};
+    const gifFormat = mediaFormats.gif || mediaFormats.original || {};
+    const previewFormat = mediaFormats.thumbnail || mediaFormats.preview || mediaFormats.tinygif || {};
+
+    const url = hdGif.url || sdGif.url || item.url || gifFormat.url || item.gif?.url || '';
+    const previewUrl = previewGif.url || sdGif.url || item.preview_url || previewFormat.url || item.thumbnail?.url || url;
+
+    return {
+        id: String(item.id || item._id || item.slug || url),
+        url,
+        preview_url: previewUrl,
+        width: hdGif.width || sdGif.width || item.width || gifFormat.width || 480,
+        height: hdGif.height || sdGif.height || item.height || gifFormat.height || 270,
+        type: type === 'gifs' ? 'gif' : type === 'stickers' ? 'sticker' : type === 'memes' ? 'meme' : 'clip',
+        title: item.title || item.content_description || item.slug?.replace(/-/g, ' ') || '',
+        tags: Array.isArray(item.tags) ? item.tags : [],
+        media_formats: file
+    };
+}
+
+/**
+ * Normalize a category entry ({ name | category, search_term | query, image_url | preview_url })
+ */
+function normalizeCategory(item: any): NormalizedCategory | null {
+    if (typeof item === 'string') return { name: item, search_term: item };
+    const name = item?.name || item?.category || item?.title;
+    if (!name) return null;
+    const imageUrl = item.image_url || item.preview_url || item.image;
+    return {
+        name,
+        search_term: item.search_term || item.query || item.searchterm || name,
+        ...(imageUrl ? { image_url: imageUrl } : {})
+    };
+}
+
+/**
+ * Call Klipy with a timeout
+ */
+async function fetchKlipy(endpoint: string): Promise<any> {
     if (!KLIPY_API_KEY) {
-        console.error('Klipy API key not configured');
-        return null;
+        throw new Error('Klipy API key not configured');
     }
 
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT_MS);
     try {
-        // Try to get GIF by ID endpoint first
-        const response = await fetch(`${KLIPY_BASE_URL}/${KLIPY_API_KEY}/gifs/${gifId}`);
+        const response = await fetch(`${KLIPY_BASE_URL}/${KLIPY_API_KEY}${endpoint}`, { signal: controller.signal });
+        if (!response.ok) {
+            throw new Error(`Klipy API error: ${response.status}`);
+        }
+        return await response.json();
+    } finally {
+        clearTimeout(timer);
+    }
+}
 
-        if (response.ok) {
-            const data = await response.json();
-            const gif = data.data || data;
+/**
+ * Firestore document IDs can't contain '/' and are capped in length
+ */
+function toCacheKey(...parts: (string | number)[]): string {
+    return parts.join('_').replace(/\//g, '-').substring(0, 500);
+}
 
-            // Extract URL from various possible formats
-            const file = gif.file || {};
-            const hdGif = file.hd?.gif || file.hd?.webp || {};
-            const sdGif = file.sd?.gif || file.sd?.webp || {};
+/**
+ * Fetch from Klipy and write the normalized payload to the cache
+ */
+async function refreshCache(
+    cacheKey: string,
+    kind: CacheKind,
+    term: string,
+    load: () => Promise<ProxyPayload>
+): Promise<ProxyPayload> {
+    const payload = await load();
+    await db.collection(SEARCH_CACHE_COLLECTION).doc(cacheKey).set({
+        kind,
+        term,
+        results: payload.data,
+        pagination: payload.pagination || null,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        refreshStartedAt: null
+    });
+    return payload;
+}
 
-            return {
-                url: hdGif.url || sdGif.url || gif.url || '',
-                title: gif.title || gif.slug?.replace(/-/g, ' ') || 'GIF',
-                width: hdGif.width || sdGif.width || gif.width || 480,
-                height: hdGif.height || sdGif.height || gif.height || 270
-            };
+/**
+ * Serve from cache with TTL + stale-while-revalidate.
+ * - Fresh hit: return cached payload
+ * - Stale hit: return cached payload and refresh in the background (one refresher per lease)
+ * - Miss / expired: fetch upstream; if that fails, fall back to any cached copy
+ */
+async function getCached(
+    cacheKey: string,
+    kind: CacheKind,
+    term: string,
+    load: () => Promise<ProxyPayload>
+): Promise<{ payload: ProxyPayload; status: 'hit' | 'stale' | 'miss' }> {
+    const ref = db.collection(SEARCH_CACHE_COLLECTION).doc(cacheKey);
+    let cached: admin.firestore.DocumentData | undefined;
+
+    try {
+        const snap = await ref.get();
+        cached = snap.exists ? snap.data() : undefined;
+    } catch (error) {
+        console.warn('Search cache read failed:', error);
+    }
+
+    const cachedPayload = (): ProxyPayload => ({
+        data: cached?.results || [],
+        ...(cached?.pagination ? { pagination: cached.pagination } : {})
+    });
+
+    if (cached?.results) {
+        const updatedAt: number = cached.updatedAt?.toMillis?.() || 0;
+        const age = Date.now() - updatedAt;
+
+        if (age < CACHE_TTL_MS[kind]) {
+            return { payload: cachedPayload(), status: 'hit' };
         }
 
-        // Fallback: Search by ID as query
-        const searchResponse = await fetch(
-            `${KLIPY_BASE_URL}/${KLIPY_API_KEY}/gifs/search?q=${gifId}&limit=1`
-        );
-
-        if (searchResponse.ok) {
-            const searchData = await searchResponse.json();
-            const items = searchData.data?.data || searchData.data || searchData || [];
-
-            if (items.length > 0) {
-                const gif = items[0];
-                const file = gif.file || {};
-                const hdGif = file.hd?.gif || file.hd?.webp || {};
-                const sdGif = file.sd?.gif || file.sd?.webp || {};
-
-                return {
-                    url: hdGif.url || sdGif.url || gif.url || '',
-                    title: gif.title || gif.slug?.replace(/-/g, ' ') || 'GIF',
-                    width: hdGif.width || sdGif.width || gif.width || 480,
-                    height: hdGif.height || sdGif.height || gif.height || 270
-                };
+        if (age < CACHE_TTL_MS[kind] + STALE_WINDOW_MS) {
+            const refreshStartedAt: number = cached.refreshStartedAt?.toMillis?.() || 0;
+            if (Date.now() - refreshStartedAt > REFRESH_LEASE_MS) {
+                // Best effort: if the instance is throttled after responding, the
+                // lease expires and the next request retries the refresh
+                ref.update({ refreshStartedAt: admin.firestore.FieldValue.serverTimestamp() })
+                    .then(() => refreshCache(cacheKey, kind, term, load))
+                    .catch(error => console.warn(`Background refresh failed for ${cacheKey}:`, error));
             }
+            return { payload: cachedPayload(), status: 'stale' };
         }
+    }
 
-        return null;
+    try {
+        const payload = await refreshCache(cacheKey, kind, term, load);
+        return { payload, status: 'miss' };
     } catch (error) {
-        console.error('Error fetching GIF data:', error);
-        return null;
+        if (cached?.results) {
+            console.warn(`Klipy fetch failed, serving expired cache for ${cacheKey}:`, error);
+            return { payload: cachedPayload(), status: 'stale' };
+        }
+        throw error;
     }
 }
 
 /**
- * Escape HTML to prevent XSS
+ * Parse the shared query params
  */
-function escapeHtml(text: string): string {
-    const map: Record<string, string> = {
-        '&': '&amp;',
-        '<': '&lt;',
-        '>': '&gt;',
-        '"': '&quot;',
-        "'": '&#039;'
-    };
-    return text.replace(/[&<>"']/g, m => map[m] || m);
+function parseQuery(req: Request): { type: KlipyContentType; limit: number; offset: number; locale: string } | null {
+    const type = String(req.query.type || 'gifs') as KlipyContentType;
+    if (!KLIPY_CONTENT_TYPES.includes(type)) return null;
+
+    const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(String(req.query.limit || '24'), 10) || 24));
+    const offset = Math.max(0, parseInt(String(req.query.offset || '0'), 10) || 0);
+    const locale = String(req.query.locale || 'en').replace(/[^a-zA-Z_-]/g, '').substring(0, 10) || 'en';
+    return { type, limit, offset, locale };
 }
 
 /**
- * Generate HTML with dynamic OG meta tags for crawlers
- * This is a minimal HTML document specifically for social media crawlers
+ * Send a proxy response with CDN-friendly cache headers
  */
-function generateCrawlerHtml(gif: {
-    url: string;
-    title: string;
-    width: number;
-    height: number;
-}, gifId: string): string {
-    const siteUrl = 'https://saucy-ai.web.app';
-    const gifPageUrl = `${siteUrl}/gif/${gifId}`;
-
-    return `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${escapeHtml(gif.title)} | Saucy</title>
-    
-    <!-- Open Graph / Facebook / Slack -->
-    <meta property="og:type" content="video.other">
-    <meta property="og:site_name" content="Saucy">
-    <meta property="og:title" content="${escapeHtml(gif.title)} | Saucy">
-    <meta property="og:description" content="Shared via Saucy 🔥 The Spotify of GIFs">
-    <meta property="og:url" content="${gifPageUrl}">
-    
-    <!-- The key: og:image must be the actual GIF URL -->
-    <meta property="og:image" content="${gif.url}">
-    <meta property="og:image:type" content="image/gif">
-    <meta property="og:image:width" content="${gif.width}">
-    <meta property="og:image:height" content="${gif.height}">
-    
-    <!-- Video alternative for platforms that prefer it -->
-    <meta property="og:video" content="${gif.url}">
-    <meta property="og:video:type" content="video/mp4">
-    <meta property="og:video:width" content="${gif.width}">
-    <meta property="og:video:height" content="${gif.height}">
-    
-    <!-- Twitter Card -->
-    <meta name="twitter:card" content="summary_large_image">
-    <meta name="twitter:site" content="@SaucyGIFs">
-    <meta name="twitter:title" content="${escapeHtml(gif.title)} | Saucy">
-    <meta name="twitter:description" content="Shared via Saucy 🔥">
-    <meta name="twitter:image" content="${gif.url}">
-    <meta name="twitter:image:alt" content="${escapeHtml(gif.title)}">
-    
-    <!-- Redirect to the actual page for any real browsers that follow the link -->
-    <meta http-equiv="refresh" content="0;url=${gifPageUrl}">
-</head>
-<body>
-    <p>Redirecting to <a href="${gifPageUrl}">Saucy</a>...</p>
-</body>
-</html>`;
+function sendPayload(res: Response, payload: ProxyPayload, status: string, maxAgeSeconds: number): Response {
+    res.set('Cache-Control', `public, max-age=60, s-maxage=${maxAgeSeconds}`);
+    res.set('X-Cache', status.toUpperCase());
+    return res.json(payload);
 }
 
-/**
- * Generate default fallback HTML for crawlers when GIF not found
- */
-function getDefaultCrawlerHtml(): string {
-    return `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Saucy - The Spotify of GIFs</title>
-    <meta property="og:type" content="website">
-    <meta property="og:site_name" content="Saucy">
-    <meta property="og:title" content="Saucy - The Spotify of GIFs">
-    <meta property="og:description" content="Discover trending GIFs, save your favorites, and share the sauce 🔥">
-    <meta property="og:image" content="https://saucy-ai.web.app/logos/saucy_drip_dark.png">
-    <meta property="og:url" content="https://saucy-ai.web.app">
-    <meta http-equiv="refresh" content="0;url=https://saucy-ai.web.app">
-</head>
-<body>
-    <p>Redirecting to <a href="https://saucy-ai.web.app">Saucy</a>...</p>
-</body>
-</html>`;
-}
+klipyApp.get('/api/klipy/search', async (req: Request, res: Response) => {
+    const params = parseQuery(req);
+    const query = String(req.query.q || '').trim();
+    if (!params) return res.status(400).json({ error: 'Invalid content type' });
+    if (!query) return res.status(400).json({ error: 'Missing query' });
 
-/**
- * Handle /gif/:id requests
- * - For crawlers: Return HTML with dynamic OG meta tags
- * - For regular users: Serve the production index.html (let React Router handle it)
- */
-app.get('/gif/:id', async (req: Request, res: Response) => {
-    const gifId = String(req.params.id);
-    const userAgent = req.get('User-Agent') || '';
-
-    console.log(`GIF request: ${gifId}, UA: ${userAgent.substring(0, 50)}...`);
-
-    // For regular users (not crawlers), serve the SPA index.html
-    if (!isCrawler(userAgent)) {
-        try {
-            // Fetch the production index.html from hosting
-            const indexResponse = await fetch('https://saucy-ai.web.app/index.html');
-            if (indexResponse.ok) {
-                const html = await indexResponse.text();
-                res.set('Content-Type', 'text/html');
-                res.set('Cache-Control', 'public, max-age=60');
-                return res.send(html);
+    const { type, limit, offset, locale } = params;
+    const term = query.toLowerCase();
+    const cacheKey = toCacheKey('search', type, locale, term, limit, offset);
+
+    try {
+        const { payload, status } = await getCached(cacheKey, 'search', term, async () => {
+            const data = await fetchKlipy(
+                `/${type}/search?q=${encodeURIComponent(query)}&limit=${limit}&offset=${offset}&locale=${locale}`
+            );
+            const items = extractKlipyItems(data);
+            if (!items) {
+                throw new Error(`Unexpected Klipy response format: ${Object.keys(data || {}).join(',')}`);
             }
-        } catch (error) {
-            console.error('Error fetching index.html:', error);
-        }
+            return {
+                data: items.map(item => normalizeKlipyItem(item, type)),
+                pagination: {
+                    count: items.length,
+                    offset,
+                    has_next: data?.data?.has_next ?? items.length >= limit
+                }
+            };
+        });
+        return sendPayload(res, payload, status, 3600);
+    } catch (error) {
+        console.error(`Klipy search failed: "${query}"`, error);
+        return res.status(502).json({ error: 'Search unavailable' });
+    }
+});
+
+klipyApp.get('/api/klipy/trending', async (req: Request, res: Response) => {
+    const params = parseQuery(req);
+    if (!params) return res.status(400).json({ error: 'Invalid content type' });
 
-        // Fallback: redirect to home page if fetching fails
-        return res.redirect(302, 'https://saucy-ai.web.app/');
+    const { type, limit, locale } = params;
+    const cacheKey = toCacheKey('trending', type, locale, limit);
+
+    try {
+        const { payload, status } = await getCached(cacheKey, 'trending', type, async () => {
+            const data = await fetchKlipy(`/${type}/trending?limit=${limit}&locale=${locale}`);
+            const items = extractKlipyItems(data);
+            if (!items) {
+                throw new Error(`Unexpected Klipy trending response format: ${Object.keys(data || {}).join(',')}`);
+            }
+            return { data: items.map(item => normalizeKlipyItem(item, type)) };
+        });
+        return sendPayload(res, payload, status, 300);
+    } catch (error) {
+        console.error('Klipy trending failed:', error);
+        return res.status(502).json({ error: 'Trending unavailable' });
     }
+});
+
+klipyApp.get('/api/klipy/categories', async (req: Request, res: Response) => {
+    const params = parseQuery(req);
+    if (!params) return res.status(400).json({ error: 'Invalid content type' });
 
-    // For crawlers, inject dynamic OG meta tags
-    console.log(`Crawler detected: ${userAgent.substring(0, 30)}...`);
+    const { type, locale } = params;
+    const cacheKey = toCacheKey('categories', type, locale);
 
     try {
-        const gifData = await fetchGifData(gifId);
-
-        if (!gifData || !gifData.url) {
-            console.log(`GIF not found: ${gifId}`);
-            // Return default HTML with Saucy branding
-            const html = getDefaultCrawlerHtml();
-            res.set('Content-Type', 'text/html');
-            return res.send(html);
-        }
+        const { payload, status } = await getCached(cacheKey, 'categories', type, async () => {
+            const data = await fetchKlipy(`/${type}/categories?locale=${locale}`);
+            const items = extractKlipyItems(data) || [];
+            return {
+                data: items
+                    .map(normalizeCategory)
+                    .filter((c): c is NormalizedCategory => c !== null)
+            };
+        });
+        return sendPayload(res, payload, status, 3600);
+    } catch (error) {
+        console.error('Klipy categories failed:', error);
+        return res.status(502).json({ error: 'Categories unavailable' });
+    }
+});
 
-        console.log(`GIF found: ${gifData.title} - ${gifData.url}`);
+// Single item by id or slug (Sauce Box imports resolve pasted Klipy links through this)
+klipyApp.get('/api/klipy/item', async (req: Request, res: Response) => {
+    const params = parseQuery(req);
+    const id = String(req.query.id || '').trim().replace(/[^a-zA-Z0-9_-]/g, '').substring(0, 200);
+    if (!params) return res.status(400).json({ error: 'Invalid content type' });
+    if (!id) return res.status(400).json({ error: 'Missing id' });
 
-        const html = generateCrawlerHtml(gifData, gifId);
+    const { type } = params;
+    const cacheKey = toCacheKey('item', type, id);
+
+    try {
+        const { payload, status } = await getCached(cacheKey, 'item', id, async () => {
+            const data = await fetchKlipy(`/${type}/${encodeURIComponent(id)}`);
+            const item = data?.data?.id || data?.data?.file ? data.data : data;
+            if (!item || typeof item !== 'object' || Array.isArray(item)) {
+                throw new Error(`Unexpected Klipy item response format: ${Object.keys(data || {}).join(',')}`);
+            }
+            const normalized = normalizeKlipyItem(item, type);
+            return { data: normalized.url ? [normalized] : [] };
+        });
+        if (payload.data.length === 0) return res.status(404).json({ error: 'Not found' });
+        return sendPayload(res, payload, status, 86400);
+    } catch (error) {
+        console.error(`Klipy item failed: "${id}"`, error);
+        return res.status(502).json({ error: 'Item unavailable' });
+    }
+});
 
-        res.set('Content-Type', 'text/html');
-        res.set('Cache-Control', 'public, max-age=300'); // Cache for 5 minutes
-        return res.send(html);
+klipyApp.post('/api/klipy/share', express.json(), async (req: Request, res: Response) => {
+    const params = parseQuery(req);
+    const id = String(req.body?.id || '');
+    if (!params || !id) return res.status(400).json({ error: 'Invalid share request' });
+    if (!KLIPY_API_KEY) return res.status(204).send();
 
+    try {
+        await fetch(`${KLIPY_BASE_URL}/${KLIPY_API_KEY}/${params.type}/share`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ id })
+        });
     } catch (error) {
-        console.error('Error processing GIF request:', error);
-        const html = getDefaultCrawlerHtml();
-        res.set('Content-Type', 'text/html');
-        return res.send(html);
+        // Analytics only - never fail the client over it
+        console.log('Share recording skipped:', error);
     }
+    return res.status(204).send();
 });
 
-// Export the Express app as a Firebase Cloud Function
-export const ogMeta = functions.https.onRequest(app);
+// Served same-origin via the /api/klipy/** hosting rewrite
+export const klipyProxy = functions.https.onRequest(klipyApp);
+
+// GIPHY / Tenor search, served via the /api/gifs/** hosting rewrite
+export { gifProviderProxy } from './gifProviders';
+
+// Scheduled jobs
+export { recomputeTrending } from './trending';
+export { rotateShowdown } from './showdowns';
+
+// Showdown voting (weighting, flags, admin voiding)
+export { castShowdownVote, voidShowdownVotes } from './showdownVotes';
+
+// Bracket tournaments (scheduled advancement + admin force)
+export { advanceTournaments, forceAdvanceTournament } from './tournaments';
+
+// Gemini gateway
+export { geminiGateway, saveGeminiKey, deleteGeminiKey } from './gemini';
+
+// Role and brand account management (custom claims)
+export { setUserRole, syncRoleClaim, setBrandAccount } from './roles';
+
+// Shared Sauce Box collections and teams
+export { acceptInvite, updateCollectionSharing, updateTeamMembers } from './collections';
+
+// Referral credit (users/{uid} onCreate)
+export { creditReferral } from './referrals';
+
+// Library maintenance (duplicate merges)
+export { mergeDuplicateGif } from './library';
+
+// GIF link unfurling and oEmbed, served via the /gif/** and /oembed hosting rewrites
+export { ogMeta } from './unfurl';
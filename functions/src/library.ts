@@ -0,0 +1,246 @@
+/**
+ * Library maintenance
+ *
+ * Callable functions:
+ * - mergeDuplicateGif: admins fold a duplicate library GIF into the one it duplicates
+ *
+ * Merging re-points everything that refers to the duplicate before deleting it:
+ * - favorites/{userId}_{gifId} (and the user's collection items, keyed by gifId) move to the
+ *   kept GIF; a user who favorited both keeps one favorite with both histories
+ * - showdowns and queued matchups show the kept GIF (votes stay where they were cast)
+ * - gif_engagement/{gifId}_{hour} buckets are added into the kept GIF's buckets
+ * then the kept GIF absorbs the duplicate's downloads, shares and tags. Each step moves a
+ * document and deletes the old one in the same batch, so a failed merge can simply be retried.
+ * Favorites and engagement can't be rewritten from the client (firestore.rules), hence a function.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+// ============================================
+// CONFIG
+// ============================================
+
+const GIF_COLLECTION = 'library_gifs';
+const FAVORITES_COLLECTION = 'favorites';
+const COLLECTIONS_COLLECTION = 'sauce_collections';
+const ENGAGEMENT_COLLECTION = 'gif_engagement';
+const SHOWDOWN_COLLECTION = 'showdowns';
+const QUEUE_COLLECTION = 'showdown_queue';
+
+// Search results carry library GIFs as library_{docId}, so favorites may use either id
+const LIBRARY_PREFIX = 'library_';
+const WRITE_BATCH_SIZE = 400;   // Firestore caps batches at 500 writes
+const ENGAGEMENT_KINDS = ['downloads', 'shares', 'favorites'] as const;
+
+interface KeptGif {
+    id: string;
+    url: string;
+    title: string;
+    thumbnailUrl: string;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const { FieldValue } = admin.firestore;
+
+/**
+ * Collects writes into batches, committing every WRITE_BATCH_SIZE operations.
+ * Callers add a move's writes together via `group` so they never straddle two batches.
+ */
+class BatchWriter {
+    private batch = admin.firestore().batch();
+    private pending = 0;
+
+    async group(size: number, write: (batch: admin.firestore.WriteBatch) => void): Promise<void> {
+        if (this.pending + size > WRITE_BATCH_SIZE) await this.flush();
+        write(this.batch);
+        this.pending += size;
+    }
+
+    async flush(): Promise<void> {
+        if (this.pending === 0) return;
+        await this.batch.commit();
+        this.batch = admin.firestore().batch();
+        this.pending = 0;
+    }
+}
+
+/**
+ * Move every favorite of the duplicate (under either id form) to the kept GIF
+ */
+async function moveFavorites(writer: BatchWriter, duplicateId: string, keep: KeptGif): Promise<number> {
+    const db = admin.firestore();
+    const ids: Record<string, string> = {
+        [duplicateId]: keep.id,
+        [`${LIBRARY_PREFIX}${duplicateId}`]: `${LIBRARY_PREFIX}${keep.id}`
+    };
+    const snapshot = await db.collection(FAVORITES_COLLECTION)
+        .where('gifId', 'in', Object.keys(ids))
+        .get();
+
+    for (const favorite of snapshot.docs) {
+        const data = favorite.data();
+        const gifId = ids[data.gifId];
+        const targetRef = db.collection(FAVORITES_COLLECTION).doc(`${data.userId}_${gifId}`);
+        const target = await targetRef.get();
+        const collectionIds: string[] = data.collectionIds || [];
+
+        // Collection items are keyed by gifId, so they move with the favorite
+        const itemMoves = await Promise.all(collectionIds.map(async collectionId => {
+            const items = db.collection(COLLECTIONS_COLLECTION).doc(collectionId).collection('items');
+            const item = await items.doc(data.gifId).get();
+            return item.exists ? { item, targetRef: items.doc(gifId) } : null;
+        }));
+
+        await writer.group(2 + itemMoves.length * 2, batch => {
+            if (target.exists) {
+                batch.update(targetRef, {
+                    useCount: FieldValue.increment(data.useCount || 0),
+                    ...(collectionIds.length ? { collectionIds: FieldValue.arrayUnion(...collectionIds) } : {}),
+                    ...(data.tags?.length ? { tags: FieldValue.arrayUnion(...data.tags) } : {})
+                });
+            } else {
+                batch.set(targetRef, {
+                    ...data,
+                    gifId,
+                    gifUrl: keep.url,
+                    gifThumbnail: keep.thumbnailUrl,
+                    gifTitle: keep.title
+                });
+            }
+            batch.delete(favorite.ref);
+
+            itemMoves.forEach(move => {
+                if (!move) return;
+                batch.set(move.targetRef, {
+                    ...move.item.data(),
+                    gifId,
+                    gifUrl: keep.url,
+                    gifThumbnail: keep.thumbnailUrl,
+                    gifTitle: keep.title
+                }, { merge: true });
+                batch.delete(move.item.ref);
+            });
+        });
+    }
+    return snapshot.size;
+}
+
+/**
+ * Point showdowns and queued matchups that feature the duplicate at the kept GIF
+ */
+async function repointShowdowns(writer: BatchWriter, duplicateId: string, keep: KeptGif): Promise<number> {
+    const db = admin.firestore();
+    const snapshots = await Promise.all([SHOWDOWN_COLLECTION, QUEUE_COLLECTION].flatMap(name => [
+        db.collection(name).where('gifA.id', '==', duplicateId).get(),
+        db.collection(name).where('gifB.id', '==', duplicateId).get()
+    ]));
+
+    let count = 0;
+    for (const [index, snapshot] of snapshots.entries()) {
+        const side = index % 2 === 0 ? 'gifA' : 'gifB';
+        for (const showdown of snapshot.docs) {
+            await writer.group(1, batch => batch.update(showdown.ref, {
+                [`${side}.id`]: keep.id,
+                [`${side}.url`]: keep.url,
+                [`${side}.title`]: keep.title
+            }));
+            count++;
+        }
+    }
+    return count;
+}
+
+/**
+ * Add the duplicate's hourly engagement buckets into the kept GIF's
+ */
+async function moveEngagement(writer: BatchWriter, duplicateId: string, keepId: string): Promise<number> {
+    const db = admin.firestore();
+    const snapshot = await db.collection(ENGAGEMENT_COLLECTION).where('gifId', '==', duplicateId).get();
+
+    for (const bucket of snapshot.docs) {
+        const data = bucket.data();
+        const hourKey = bucket.id.substring(duplicateId.length + 1);
+        const counts: Record<string, admin.firestore.FieldValue> = {};
+        ENGAGEMENT_KINDS.forEach(kind => {
+            if (data[kind]) counts[kind] = FieldValue.increment(data[kind]);
+        });
+
+        await writer.group(2, batch => {
+            batch.set(db.collection(ENGAGEMENT_COLLECTION).doc(`${keepId}_${hourKey}`), {
+                gifId: keepId,
+                hour: data.hour,
+                ...counts
+            }, { merge: true });
+            batch.delete(bucket.ref);
+        });
+    }
+    return snapshot.size;
+}
+
+// ============================================
+// CALLABLES
+// ============================================
+
+/**
+ * Merge a duplicate into the GIF it duplicates. Trending scores catch up on the next
+ * scheduled recompute.
+ */
+export const mergeDuplicateGif = functions
+    .runWith({ timeoutSeconds: 300 })
+    .https.onCall(async (data: { duplicateId?: string; keepId?: string }, context) => {
+        const role = context.auth?.token.role;
+        if (role !== 'admin' && role !== 'owner') {
+            throw new functions.https.HttpsError('permission-denied', 'Admins only');
+        }
+        const { duplicateId, keepId } = data || {};
+        if (typeof duplicateId !== 'string' || typeof keepId !== 'string' || !duplicateId || !keepId
+            || duplicateId === keepId || duplicateId.includes('/') || keepId.includes('/')) {
+            throw new functions.https.HttpsError('invalid-argument', 'duplicateId and keepId are required');
+        }
+
+        const db = admin.firestore();
+        const duplicateRef = db.collection(GIF_COLLECTION).doc(duplicateId);
+        const keepRef = db.collection(GIF_COLLECTION).doc(keepId);
+        const [duplicateSnap, keepSnap] = await Promise.all([duplicateRef.get(), keepRef.get()]);
+        const duplicate = duplicateSnap.data();
+        const kept = keepSnap.data();
+        if (!duplicate || !kept) {
+            throw new functions.https.HttpsError('not-found', 'GIF not found');
+        }
+
+        const keep: KeptGif = {
+            id: keepId,
+            url: kept.url || '',
+            title: kept.title || '',
+            thumbnailUrl: kept.thumbnailUrl || kept.url || ''
+        };
+
+        const writer = new BatchWriter();
+        const favorites = await moveFavorites(writer, duplicateId, keep);
+        const showdowns = await repointShowdowns(writer, duplicateId, keep);
+        const buckets = await moveEngagement(writer, duplicateId, keepId);
+        await writer.flush();
+
+        // Last, so a merge that failed part-way still has its duplicate to retry from
+        const tags: string[] = duplicate.tags || [];
+        const batch = db.batch();
+        batch.update(keepRef, {
+            downloads: FieldValue.increment(duplicate.downloads || 0),
+            shares: FieldValue.increment(duplicate.shares || 0),
+            ...(tags.length ? { tags: FieldValue.arrayUnion(...tags) } : {}),
+            mergedFrom: FieldValue.arrayUnion(duplicateId, ...(duplicate.mergedFrom || [])),
+            updatedAt: admin.firestore.Timestamp.now()
+        });
+        batch.delete(duplicateRef);
+        await batch.commit();
+
+        console.log(
+            `Merged ${duplicateId} into ${keepId} by ${context.auth!.uid}: ` +
+            `${favorites} favorites, ${showdowns} showdowns, ${buckets} engagement buckets`
+        );
+        return { favorites, showdowns, buckets };
+    });
@@ -0,0 +1,57 @@
+/**
+ * Referral credit
+ *
+ * Trigger:
+ * - creditReferral: when a users/{uid} profile is created with `referredBy` (the referrer's uid),
+ *   bump the referrer's referralCount by one
+ *
+ * Clients can't touch referralCount (firestore.rules), so this is the only place it changes.
+ * Each referred uid is credited at most once: referral_credits/{uid} is written in the same
+ * transaction as the increment, so a retried trigger is a no-op.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+// ============================================
+// CONFIG
+// ============================================
+
+const USERS_COLLECTION = 'users';
+const CREDITS_COLLECTION = 'referral_credits';
+
+// ============================================
+// TRIGGERS
+// ============================================
+
+export const creditReferral = functions.firestore
+    .document(`${USERS_COLLECTION}/{uid}`)
+    .onCreate(async (snap, context) => {
+        const uid = context.params.uid as string;
+        const referrerUid = snap.data().referredBy;
+        if (typeof referrerUid !== 'string' || !referrerUid || referrerUid === uid || referrerUid.includes('/')) {
+            return;
+        }
+
+        const db = admin.firestore();
+        const creditRef = db.collection(CREDITS_COLLECTION).doc(uid);
+        const referrerRef = db.collection(USERS_COLLECTION).doc(referrerUid);
+
+        await db.runTransaction(async (tx) => {
+            const [credit, referrer] = await Promise.all([tx.get(creditRef), tx.get(referrerRef)]);
+            if (credit.exists) return;
+            if (!referrer.exists) {
+                console.warn(`Referrer ${referrerUid} of ${uid} not found`);
+                return;
+            }
+
+            tx.set(creditRef, {
+                referrerUid,
+                creditedAt: admin.firestore.FieldValue.serverTimestamp()
+            });
+            tx.update(referrerRef, {
+                referralCount: admin.firestore.FieldValue.increment(1),
+                updatedAt: admin.firestore.FieldValue.serverTimestamp()
+            });
+        });
+    });
@@ -0,0 +1,276 @@
+/**
+ * Role management - owner/admin/user roles as Firebase Auth custom claims
+ *
+ * Callable functions:
+ * - setUserRole: change another user's role, enforcing the hierarchy server-side
+ * - syncRoleClaim: called on sign-in; bootstraps the caller's claim and mirrors it to users/{uid}
+ * - setBrandAccount: flag an account as a brand (the `brand` claim), which unlocks custom fonts
+ *
+ * The `role` claim is the source of truth (firestore.rules trusts it); users/{uid}.role is a
+ * mirror for display and listing. A change writes the mirror and a role_change_audit entry
+ * (`applied: false`) first, then the claim, then marks the entry applied - so a claim never
+ * changes without its record. If the claim write fails the mirror is put back; if the function
+ * dies in between, the entry stays unapplied and the target's next syncRoleClaim corrects the
+ * mirror. Demotions revoke the target's refresh tokens so they have to sign in again.
+ *
+ * Bootstrap: OWNER_EMAILS / ADMIN_EMAILS (comma-separated, functions/.env) grant roles to
+ * verified emails on their first sync, replacing the lists that used to ship in the bundle.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+// ============================================
+// CONFIG
+// ============================================
+
+type Role = 'user' | 'admin' | 'owner';
+
+const ROLES: Role[] = ['user', 'admin', 'owner'];
+const USERS_COLLECTION = 'users';
+const AUDIT_COLLECTION = 'role_change_audit';
+
+const parseEmails = (value: string | undefined): string[] =>
+    (value || '').split(',').map(email => email.trim().toLowerCase()).filter(Boolean);
+
+const OWNER_EMAILS = parseEmails(process.env.OWNER_EMAILS);
+const ADMIN_EMAILS = parseEmails(process.env.ADMIN_EMAILS);
+
+// ============================================
+// HELPERS
+// ============================================
+
+const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+const rank = (role: Role): number => ROLES.indexOf(role);
+
+/**
+ * Role granted by the bootstrap email lists, if any
+ */
+function bootstrapRole(email: string | undefined, verified: boolean): Role | null {
+    if (!email || !verified) return null;
+    const emailLower = email.toLowerCase();
+    if (OWNER_EMAILS.includes(emailLower)) return 'owner';
+    if (ADMIN_EMAILS.includes(emailLower)) return 'admin';
+    return null;
+}
+
+/**
+ * Role recorded by the last audited change - lets roles granted before claims existed carry over.
+ * Self-written profile roles aren't trusted: the old rules let users edit their own.
+ */
+async function lastAuditedRole(uid: string): Promise<Role | null> {
+    const snapshot = await admin.firestore().collection(AUDIT_COLLECTION)
+        .where('targetUid', '==', uid)
+        .orderBy('timestamp', 'desc')
+        .limit(10)
+        .get();
+    // Entries from before `applied` existed were always applied
+    const entry = snapshot.docs.find(doc => doc.data().applied !== false);
+    const newRole = entry?.data().newRole;
+    return isRole(newRole) ? newRole : null;
+}
+
+/**
+ * Set the role claim, keeping any other claims on the account
+ */
+async function writeRoleClaim(user: admin.auth.UserRecord, role: Role): Promise<void> {
+    await admin.auth().setCustomUserClaims(user.uid, { ...(user.customClaims || {}), role });
+}
+
+/**
+ * Set or clear the brand claim, keeping any other claims on the account
+ */
+async function writeBrandClaim(user: admin.auth.UserRecord, brand: boolean): Promise<void> {
+    const { brand: _previous, ...claims } = user.customClaims || {};
+    await admin.auth().setCustomUserClaims(user.uid, brand ? { ...claims, brand: true } : claims);
+}
+
+// ============================================
+// CALLABLES
+// ============================================
+
+/**
+ * Change a user's role. Owners manage admins and users; admins can't change roles at all
+ * beyond leaving users as users. Owners can't be changed.
+ */
+export const setUserRole = functions.https.onCall(async (
+    data: { targetUid?: string; newRole?: string; reason?: string },
+    context
+) => {
+    if (!context.auth) {
+        throw new functions.https.HttpsError('unauthenticated', 'Sign in to manage users.');
+    }
+
+    const callerRole = context.auth.token.role;
+    if (callerRole !== 'owner' && callerRole !== 'admin') {
+        throw new functions.https.HttpsError('permission-denied', 'Insufficient permissions');
+    }
+
+    const { targetUid, newRole, reason } = data || {};
+    if (typeof targetUid !== 'string' || !targetUid) {
+        throw new functions.https.HttpsError('invalid-argument', 'targetUid is required');
+    }
+    if (!isRole(newRole)) {
+        throw new functions.https.HttpsError('invalid-argument', `Unknown role: ${newRole}`);
+    }
+    if (typeof reason === 'string' && reason.length > 500) {
+        throw new functions.https.HttpsError('invalid-argument', 'reason is too long');
+    }
+
+    let target: admin.auth.UserRecord;
+    try {
+        target = await admin.auth().getUser(targetUid);
+    } catch {
+        throw new functions.https.HttpsError('not-found', 'Target user not found');
+    }
+
+    const db = admin.firestore();
+    const targetRef = db.collection(USERS_COLLECTION).doc(targetUid);
+    const targetDoc = await targetRef.get();
+    const claimRole = target.customClaims?.role;
+    const previousRole: Role = isRole(claimRole) ? claimRole : 'user';
+
+    if (previousRole === 'owner') {
+        throw new functions.https.HttpsError('permission-denied', 'Cannot change owner role');
+    }
+    if ((rank(newRole) > rank('user') || previousRole === 'admin') && callerRole !== 'owner') {
+        throw new functions.https.HttpsError('permission-denied', 'Only owner can modify admin roles');
+    }
+    if (newRole === previousRole) {
+        return { role: newRole, message: 'Role unchanged' };
+    }
+
+    // Record first: if this fails nothing has changed
+    const auditRef = db.collection(AUDIT_COLLECTION).doc();
+    const batch = db.batch();
+    batch.set(targetRef, {
+        role: newRole,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    }, { merge: true });
+    batch.create(auditRef, {
+        targetUid,
+        targetEmail: target.email || targetDoc.data()?.email || '',
+        previousRole,
+        newRole,
+        changedByUid: context.auth.uid,
+        changedByEmail: context.auth.token.email || '',
+        ...(reason ? { reason } : {}),
+        applied: false,
+        timestamp: admin.firestore.FieldValue.serverTimestamp()
+    });
+    await batch.commit();
+
+    try {
+        await writeRoleClaim(target, newRole);
+    } catch (error) {
+        console.error('Role claim write failed, restoring profile mirror:', error);
+        await targetRef.set({
+            role: previousRole,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp()
+        }, { merge: true }).catch(restoreError => {
+            // The unapplied audit entry marks it; the target's next syncRoleClaim fixes the mirror
+            console.error(`Failed to restore role mirror for ${targetUid}:`, restoreError);
+        });
+        throw new functions.https.HttpsError('internal', 'Failed to change role');
+    }
+
+    await auditRef.update({ applied: true }).catch(error => {
+        console.error(`Role changed but audit entry ${auditRef.id} not marked applied:`, error);
+    });
+
+    // Demoted sessions must sign in again to keep using the app (ID tokens already issued
+    // stay valid until they expire, within the hour)
+    if (rank(newRole) < rank(previousRole)) {
+        try {
+            await admin.auth().revokeRefreshTokens(targetUid);
+        } catch (error) {
+            console.error(`Failed to revoke refresh tokens for demoted user ${targetUid}:`, error);
+        }
+    }
+
+    const name = target.displayName || targetDoc.data()?.displayName || target.email || targetUid;
+    console.log(`Role changed: ${target.email} from '${previousRole}' to '${newRole}' by ${context.auth.token.email}`);
+    return { role: newRole, message: `Changed ${name}'s role from ${previousRole} to ${newRole}` };
+});
+
+/**
+ * Make sure the caller has a role claim and that their profile mirrors it.
+ * Returns `refreshed: true` when the claim changed, so the client can fetch a new ID token.
+ */
+export const syncRoleClaim = functions.https.onCall(async (_data: unknown, context) => {
+    if (!context.auth) {
+        throw new functions.https.HttpsError('unauthenticated', 'Sign in first.');
+    }
+
+    const uid = context.auth.uid;
+    const user = await admin.auth().getUser(uid);
+    const claimRole = user.customClaims?.role;
+    const current: Role | null = isRole(claimRole) ? claimRole : null;
+
+    // Bootstrap lists can only raise a role, never lower one granted by the owner
+    const bootstrap = bootstrapRole(user.email, user.emailVerified);
+    let role: Role = current || (await lastAuditedRole(uid)) || 'user';
+    if (bootstrap && rank(bootstrap) > rank(role)) {
+        role = bootstrap;
+    }
+
+    const refreshed = role !== current;
+    if (refreshed) {
+        await writeRoleClaim(user, role);
+    }
+
+    const userRef = admin.firestore().collection(USERS_COLLECTION).doc(uid);
+    const profile = await userRef.get();
+    if (profile.exists && profile.data()?.role !== role) {
+        await userRef.update({ role, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+    }
+
+    return { role, refreshed };
+});
+
+/**
+ * Turn brand features (custom caption fonts) on or off for an account. Admins and owners only.
+ */
+export const setBrandAccount = functions.https.onCall(async (
+    data: { targetUid?: string; brand?: boolean },
+    context
+) => {
+    if (!context.auth) {
+        throw new functions.https.HttpsError('unauthenticated', 'Sign in to manage users.');
+    }
+
+    const callerRole = context.auth.token.role;
+    if (callerRole !== 'owner' && callerRole !== 'admin') {
+        throw new functions.https.HttpsError('permission-denied', 'Insufficient permissions');
+    }
+
+    const { targetUid, brand } = data || {};
+    if (typeof targetUid !== 'string' || !targetUid) {
+        throw new functions.https.HttpsError('invalid-argument', 'targetUid is required');
+    }
+    if (typeof brand !== 'boolean') {
+        throw new functions.https.HttpsError('invalid-argument', 'brand must be true or false');
+    }
+
+    let target: admin.auth.UserRecord;
+    try {
+        target = await admin.auth().getUser(targetUid);
+    } catch {
+        throw new functions.https.HttpsError('not-found', 'Target user not found');
+    }
+
+    const name = target.displayName || target.email || targetUid;
+    if (!!target.customClaims?.brand === brand) {
+        return { brand, message: `${name} is ${brand ? 'already' : 'not'} a brand account` };
+    }
+
+    await writeBrandClaim(target, brand);
+    await admin.firestore().collection(USERS_COLLECTION).doc(targetUid).set({
+        brand,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    }, { merge: true });
+
+    console.log(`Brand account ${brand ? 'enabled' : 'disabled'} for ${target.email} by ${context.auth.token.email}`);
+    return { brand, message: `${brand ? 'Enabled' : 'Disabled'} brand features for ${name}` };
+});
@@ -0,0 +1,343 @@
+/**
+ * Showdown vote integrity
+ *
+ * Callable functions:
+ * - castShowdownVote: the only way to vote in the daily showdown. Weights the vote by account
+ *   age and activity, and flags it when the same network or device keeps voting
+ * - voidShowdownVotes: admins void flagged votes; each voided vote comes off the showdown's
+ *   tallies in the same transaction that voids it, so votes cast meanwhile still count
+ *
+ * Vote records (showdownVotes/{dayId}_{uid}) keep hashed network/device identifiers only, never
+ * the raw IP or the voter's email. Per-day counters live in vote_signals/{dayId}_{kind}_{hash}.
+ *
+ * Tallies on the showdown: gifX.votes is the head count shown to users, gifX.weightedVotes
+ * decides the winner.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import * as crypto from 'crypto';
+
+// ============================================
+// CONFIG
+// ============================================
+
+const SHOWDOWN_COLLECTION = 'showdowns';
+const VOTES_COLLECTION = 'showdownVotes';
+const SIGNALS_COLLECTION = 'vote_signals';
+const USERS_COLLECTION = 'users';
+const HASH_SALT = process.env.VOTE_HASH_SALT || process.env.GCLOUD_PROJECT || 'saucy';
+
+const READ_PAGE_SIZE = 500;
+const WRITE_BATCH_SIZE = 400;       // Firestore caps batches at 500 writes
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const INTEGRITY = {
+    // Account age in days -> weight; the first matching tier wins
+    ageWeights: [
+        { maxDays: 1, weight: 0.25 },
+        { maxDays: 7, weight: 0.5 },
+        { maxDays: 30, weight: 0.75 }
+    ],
+    activeVoterVotes: 10,           // past showdown votes that earn the activity bonus
+    activityBonus: 0.25,
+    unverifiedPenalty: 0.5,         // weight multiplier for unverified email accounts
+    maxVotesPerNetwork: 3,          // accounts per IP per day before votes get flagged
+    maxVotesPerDevice: 2,           // accounts per device per day
+    burstWindowMs: 60 * 1000,
+    burstSize: 3,                   // votes from one network inside the window
+    recentLimit: 10                 // timestamps kept per signal for burst detection
+};
+
+export type FlagReason = 'new_account' | 'network_volume' | 'device_volume' | 'burst';
+
+type Side = 'A' | 'B';
+
+export interface ShowdownVoteRecord {
+    id: string;
+    uid: string;
+    votedFor: Side;
+    weight: number;
+    timestamp: number;
+    voided: boolean;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const hash = (value: string): string =>
+    crypto.createHash('sha256').update(`${HASH_SALT}:${value}`).digest('hex').slice(0, 32);
+
+// Day IDs match the client's getTodayId (UTC date)
+const getDayId = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Client IP from the callable's raw request (first hop when behind the hosting proxy)
+ */
+function getClientIp(rawRequest: functions.https.Request): string {
+    const forwarded = rawRequest.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+    return first || rawRequest.ip || 'unknown';
+}
+
+/**
+ * Vote weight from account age, past participation and email verification
+ */
+async function getVoteWeight(uid: string): Promise<{ weight: number; ageDays: number }> {
+    const [user, profile] = await Promise.all([
+        admin.auth().getUser(uid),
+        admin.firestore().collection(USERS_COLLECTION).doc(uid).get()
+    ]);
+
+    const ageDays = (Date.now() - new Date(user.metadata.creationTime).getTime()) / DAY_MS;
+    const tier = INTEGRITY.ageWeights.find(t => ageDays < t.maxDays);
+    let weight = tier ? tier.weight : 1;
+
+    if ((profile.data()?.showdownVotes || 0) >= INTEGRITY.activeVoterVotes) {
+        weight += INTEGRITY.activityBonus;
+    }
+    if (user.email && !user.emailVerified) {
+        weight *= INTEGRITY.unverifiedPenalty;
+    }
+    return { weight: Math.min(1, Math.round(weight * 100) / 100), ageDays };
+}
+
+/**
+ * Every vote in a showdown, oldest first. Vote IDs are {dayId}_{uid}.
+ */
+export async function listShowdownVotes(dayId: string): Promise<ShowdownVoteRecord[]> {
+    const db = admin.firestore();
+    const documentId = admin.firestore.FieldPath.documentId();
+    const votes: ShowdownVoteRecord[] = [];
+    let lastDoc: admin.firestore.QueryDocumentSnapshot | undefined;
+
+    for (;;) {
+        let q = db.collection(VOTES_COLLECTION)
+            .where(documentId, '>=', `${dayId}_`)
+            .where(documentId, '<', `${dayId}_\uf8ff`)
+            .orderBy(documentId)
+            .limit(READ_PAGE_SIZE);
+        if (lastDoc) q = q.startAfter(lastDoc);
+
+        const page = await q.get();
+        if (page.empty) break;
+
+        page.docs.forEach(vote => {
+            const data = vote.data();
+            if (!data.odId || (data.votedFor !== 'A' && data.votedFor !== 'B')) return;
+            votes.push({
+                id: vote.id,
+                uid: data.odId,
+                votedFor: data.votedFor,
+                // Votes cast before weighting count in full
+                weight: typeof data.weight === 'number' ? data.weight : 1,
+                timestamp: data.timestamp?.toMillis?.() || 0,
+                voided: !!data.voided
+            });
+        });
+
+        lastDoc = page.docs[page.docs.length - 1];
+        if (page.size < READ_PAGE_SIZE) break;
+    }
+
+    return votes.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Void a chunk of votes and take them off the showdown's tallies in one transaction.
+ * Votes that are missing or already voided are skipped, so a retried call can't subtract twice.
+ */
+async function voidVotes(dayId: string, voteIds: string[], voidedBy: string): Promise<{ voided: number; A: number; B: number }> {
+    const db = admin.firestore();
+    const showdownRef = db.collection(SHOWDOWN_COLLECTION).doc(dayId);
+
+    return db.runTransaction(async (transaction) => {
+        const [showdownSnap, ...voteSnaps] = await transaction.getAll(
+            showdownRef,
+            ...voteIds.map(voteId => db.collection(VOTES_COLLECTION).doc(voteId))
+        );
+
+        const showdown = showdownSnap.data();
+        if (!showdown) {
+            throw new functions.https.HttpsError('not-found', 'Showdown not found');
+        }
+        // Once scoring has started the result is final
+        if (showdown.credited === true || showdown.settling === true) {
+            throw new functions.https.HttpsError('failed-precondition', 'This showdown has already been scored');
+        }
+
+        const count = { A: 0, B: 0 };
+        const weighted = { A: 0, B: 0 };
+        voteSnaps.forEach(voteSnap => {
+            const vote = voteSnap.data();
+            if (!vote || vote.voided || (vote.votedFor !== 'A' && vote.votedFor !== 'B')) return;
+            const side: Side = vote.votedFor;
+            count[side]++;
+            // Votes cast before weighting count in full
+            weighted[side] += typeof vote.weight === 'number' ? vote.weight : 1;
+            transaction.update(voteSnap.ref, {
+                voided: true,
+                voidedBy,
+                voidedAt: admin.firestore.FieldValue.serverTimestamp()
+            });
+        });
+
+        const voided = count.A + count.B;
+        if (voided > 0) {
+            transaction.update(showdownRef, {
+                'gifA.votes': admin.firestore.FieldValue.increment(-count.A),
+                'gifA.weightedVotes': admin.firestore.FieldValue.increment(-weighted.A),
+                'gifB.votes': admin.firestore.FieldValue.increment(-count.B),
+                'gifB.weightedVotes': admin.firestore.FieldValue.increment(-weighted.B)
+            });
+        }
+        return {
+            voided,
+            A: (showdown.gifA?.votes || 0) - count.A,
+            B: (showdown.gifB?.votes || 0) - count.B
+        };
+    });
+}
+
+// ============================================
+// CALLABLES
+// ============================================
+
+export const castShowdownVote = functions.https.onCall(async (
+    data: { choice?: string; deviceId?: string },
+    context
+) => {
+    if (!context.auth) {
+        throw new functions.https.HttpsError('unauthenticated', 'Sign in to vote.');
+    }
+    const choice = data?.choice;
+    if (choice !== 'A' && choice !== 'B') {
+        throw new functions.https.HttpsError('invalid-argument', 'choice must be A or B');
+    }
+
+    const uid = context.auth.uid;
+    const db = admin.firestore();
+    const now = Date.now();
+    const dayId = getDayId(new Date(now));
+    const deviceId = typeof data.deviceId === 'string' ? data.deviceId.slice(0, 128) : '';
+    const userAgent = String(context.rawRequest.headers['user-agent'] || '');
+    const networkHash = hash(getClientIp(context.rawRequest));
+    // Per-browser ID from the client; the user agent keeps a missing ID grouped by browser
+    const deviceHash = hash(`${deviceId || 'none'}|${userAgent}`);
+
+    const { weight, ageDays } = await getVoteWeight(uid);
+
+    const showdownRef = db.collection(SHOWDOWN_COLLECTION).doc(dayId);
+    const voteRef = db.collection(VOTES_COLLECTION).doc(`${dayId}_${uid}`);
+    const networkRef = db.collection(SIGNALS_COLLECTION).doc(`${dayId}_net_${networkHash}`);
+    const deviceRef = db.collection(SIGNALS_COLLECTION).doc(`${dayId}_dev_${deviceHash}`);
+
+    const flagReasons = await db.runTransaction(async (transaction) => {
+        const [showdownSnap, voteSnap, networkSnap, deviceSnap] = await transaction.getAll(
+            showdownRef, voteRef, networkRef, deviceRef
+        );
+
+        const showdown = showdownSnap.data();
+        if (!showdown) {
+            throw new functions.https.HttpsError('not-found', 'No active showdown');
+        }
+        if (showdown.status !== 'active' || showdown.endsAt.toMillis() <= now) {
+            throw new functions.https.HttpsError('failed-precondition', 'This showdown has ended!');
+        }
+        if (voteSnap.exists) {
+            throw new functions.https.HttpsError('already-exists', 'You already voted today!');
+        }
+
+        const network = networkSnap.data() || { count: 0, uids: [], recent: [] };
+        const device = deviceSnap.data() || { count: 0, uids: [], recent: [] };
+        const reasons: FlagReason[] = [];
+
+        if (ageDays < 1) reasons.push('new_account');
+        if (network.count >= INTEGRITY.maxVotesPerNetwork) reasons.push('network_volume');
+        if (device.count >= INTEGRITY.maxVotesPerDevice) reasons.push('device_volume');
+        const burst = (network.recent as number[]).filter(t => now - t < INTEGRITY.burstWindowMs);
+        if (burst.length + 1 >= INTEGRITY.burstSize) reasons.push('burst');
+
+        transaction.create(voteRef, {
+            odId: uid,
+            votedFor: choice,
+            timestamp: admin.firestore.FieldValue.serverTimestamp(),
+            weight,
+            flagged: reasons.length > 0,
+            flagReasons: reasons,
+            voided: false,
+            networkHash,
+            deviceHash
+        });
+
+        const side = choice === 'A' ? 'gifA' : 'gifB';
+        transaction.update(showdownRef, {
+            [`${side}.votes`]: admin.firestore.FieldValue.increment(1),
+            [`${side}.weightedVotes`]: admin.firestore.FieldValue.increment(weight)
+        });
+
+        // The vote that crosses a limit also flags the earlier votes sharing that network/device
+        const flagEarlier = (uids: string[], reason: FlagReason) => {
+            uids.forEach(earlierUid => {
+                transaction.update(db.collection(VOTES_COLLECTION).doc(`${dayId}_${earlierUid}`), {
+                    flagged: true,
+                    flagReasons: admin.firestore.FieldValue.arrayUnion(reason)
+                });
+            });
+        };
+        if (network.count === INTEGRITY.maxVotesPerNetwork) flagEarlier(network.uids, 'network_volume');
+        if (device.count === INTEGRITY.maxVotesPerDevice) flagEarlier(device.uids, 'device_volume');
+
+        transaction.set(networkRef, {
+            count: network.count + 1,
+            uids: [...network.uids, uid],
+            recent: [...network.recent, now].slice(-INTEGRITY.recentLimit)
+        });
+        transaction.set(deviceRef, {
+            count: device.count + 1,
+            uids: [...device.uids, uid],
+            recent: [...device.recent, now].slice(-INTEGRITY.recentLimit)
+        });
+
+        return reasons;
+    });
+
+    if (flagReasons.length > 0) {
+        console.log(`Flagged showdown vote ${dayId}_${uid}: ${flagReasons.join(', ')}`);
+    }
+    return { message: 'Vote recorded!' };
+});
+
+export const voidShowdownVotes = functions.https.onCall(async (
+    data: { dayId?: string; voteIds?: string[] },
+    context
+) => {
+    const role = context.auth?.token.role;
+    if (role !== 'admin' && role !== 'owner') {
+        throw new functions.https.HttpsError('permission-denied', 'Admins only');
+    }
+
+    const dayId = typeof data?.dayId === 'string' && data.dayId ? data.dayId : getDayId(new Date());
+    const voteIds = Array.isArray(data?.voteIds)
+        ? data.voteIds.filter(id => typeof id === 'string' && id.startsWith(`${dayId}_`))
+        : [];
+    if (voteIds.length === 0) {
+        throw new functions.https.HttpsError('invalid-argument', 'No votes to void');
+    }
+
+    // One transaction per chunk: a transaction takes at most 500 writes, one of them the showdown
+    const uniqueIds = [...new Set(voteIds)];
+    let voided = 0;
+    let count = { A: 0, B: 0 };
+    for (let i = 0; i < uniqueIds.length; i += WRITE_BATCH_SIZE) {
+        const result = await voidVotes(dayId, uniqueIds.slice(i, i + WRITE_BATCH_SIZE), context.auth!.uid);
+        voided += result.voided;
+        count = { A: result.A, B: result.B };
+    }
+
+    console.log(`Voided ${voided} votes on showdown ${dayId} by ${context.auth!.token.email}`);
+    return {
+        message: `Voided ${voided} vote${voided === 1 ? '' : 's'} - tally is now ${count.A} to ${count.B}`
+    };
+});
@@ -0,0 +1,362 @@
+/**
+ * Daily Sauce Showdown rotation
+ *
+ * Every 15 minutes:
+ * - settles showdowns whose window has closed (most votes wins, ties have no winner),
+ *   including ones an admin ended early with endShowdownEarly
+ * - scores every voter (Sauce Sense): points for backing the winner, doubled for underdog calls,
+ *   plus a streak bonus; writes users/{uid} stats, users/{uid}/sauceHistory and the leaderboards
+ * - makes sure today's showdown exists, taking the next matchup from showdown_queue or,
+ *   if the queue is empty, the top trending library GIFs not seen in recent showdowns
+ *
+ * Data (see showdownService on the client):
+ * - showdowns/{YYYY-MM-DD} (UTC day): `credited: false` until every voter has been scored;
+ *   a run claims a closed showdown with `settling: true` / `settlingAt` first, and a claim older
+ *   than SETTLE_LEASE_MS (a run that died mid-way) is picked up again by the next run
+ * - users/{uid}/sauceHistory/{dayId}: written with the voter's scores, so voters who already
+ *   have one are skipped when a showdown is scored again
+ * - showdownVotes/{dayId}_{uid}: { votedFor }
+ * - showdown_queue/{id}: { gifA, gifB, createdAt }, consumed oldest first
+ * - sauce_leaderboards/{YYYY-Www | allTime}/entries/{uid}: { displayName, photoURL, points, correctPicks, votes }
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { listShowdownVotes, ShowdownVoteRecord } from './showdownVotes';
+
+// ============================================
+// CONFIG
+// ============================================
+
+const SHOWDOWN_COLLECTION = 'showdowns';
+const QUEUE_COLLECTION = 'showdown_queue';
+const GIF_COLLECTION = 'library_gifs';
+const USERS_COLLECTION = 'users';
+
+const LEADERBOARD_COLLECTION = 'sauce_leaderboards';
+const ALL_TIME_LEADERBOARD = 'allTime';
+
+const SCORING = {
+    basePoints: 10,             // per correct pick
+    underdogMultiplier: 2,      // picked the side that was trailing when you voted
+    underdogMinVotes: 5,        // votes already cast before "trailing" means anything
+    streakBonus: 2,             // per consecutive correct pick after the first
+    maxStreakBonus: 20
+};
+
+const RECENT_SHOWDOWNS = 14;        // GIFs from these can't be picked again
+const TRENDING_CANDIDATES = 40;
+const TRENDING_POOL = 10;           // pick at random from the top of what's left
+const SCORE_CHUNK_SIZE = 100;       // 4 writes per voter, batches cap at 500
+const SETTLE_LEASE_MS = 10 * 60 * 1000; // longer than a run (timeoutSeconds: 300)
+
+interface ShowdownGIF {
+    id: string;
+    title: string;
+    url: string;
+}
+
+type Side = 'A' | 'B';
+
+// Day IDs match the client's getTodayId (UTC date)
+const getDayId = (date: Date): string => date.toISOString().split('T')[0];
+
+// ISO week, e.g. "2026-W42" - weekly leaderboards run Monday to Sunday (UTC)
+const getWeekId = (date: Date): string => {
+    const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    thursday.setUTCDate(thursday.getUTCDate() + 4 - (thursday.getUTCDay() || 7));
+    const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+    const week = Math.ceil(((thursday.getTime() - yearStart) / 86400000 + 1) / 7);
+    return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+};
+
+const getEndOfDay = (date: Date): Date => {
+    const end = new Date(date);
+    end.setUTCHours(23, 59, 59, 999);
+    return end;
+};
+
+// ============================================
+// SETTLEMENT
+// ============================================
+
+/**
+ * Most (weighted) votes wins; a tie has no winner (same as endShowdownEarly)
+ */
+function decideWinner(data: admin.firestore.DocumentData): Side | null {
+    const votesA = data.gifA?.weightedVotes ?? data.gifA?.votes ?? 0;
+    const votesB = data.gifB?.weightedVotes ?? data.gifB?.votes ?? 0;
+    if (votesA === votesB) return null;
+    return votesA > votesB ? 'A' : 'B';
+}
+
+/**
+ * Complete a showdown whose window has closed and claim it for crediting.
+ * Runs in a transaction so overlapping runs can't score the same showdown at once;
+ * `credited` is only set by markCredited once every voter has been scored.
+ */
+async function settleShowdown(
+    showdownRef: admin.firestore.DocumentReference,
+    now: number
+): Promise<{ winner: Side | null } | null> {
+    return admin.firestore().runTransaction(async (transaction) => {
+        const snap = await transaction.get(showdownRef);
+        const data = snap.data();
+        if (!data || data.credited !== false) return null;
+
+        const endsAt = data.endsAt as admin.firestore.Timestamp | undefined;
+        if (data.status === 'active' && endsAt && endsAt.toMillis() > now) return null;
+
+        // Another run is scoring it (a stale claim means that run died - take it over)
+        const settlingAt = data.settlingAt as admin.firestore.Timestamp | undefined;
+        if (data.settling && settlingAt && now - settlingAt.toMillis() < SETTLE_LEASE_MS) return null;
+
+        // Admin early ends (and earlier claims) already picked, or declined to pick, a winner
+        const winner: Side | null = data.status === 'completed' ? data.winner || null : decideWinner(data);
+        transaction.update(showdownRef, {
+            status: 'completed',
+            winner,
+            settling: true,
+            settlingAt: admin.firestore.Timestamp.fromMillis(now)
+        });
+        return { winner };
+    });
+}
+
+/**
+ * Release the claim once every voter has been scored
+ */
+async function markCredited(showdownRef: admin.firestore.DocumentReference): Promise<void> {
+    await showdownRef.update({
+        credited: true,
+        settling: false,
+        settledAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+}
+
+// ============================================
+// SAUCE SENSE SCORING
+// ============================================
+
+/**
+ * Voters who backed a side while it was trailing (after enough votes to call it a trend)
+ */
+function findUnderdogPicks(votes: ShowdownVoteRecord[]): Set<string> {
+    const underdogs = new Set<string>();
+    const tally = { A: 0, B: 0 };
+
+    for (const vote of votes) {
+        const other = vote.votedFor === 'A' ? 'B' : 'A';
+        if (tally.A + tally.B >= SCORING.underdogMinVotes && tally[vote.votedFor] < tally[other]) {
+            underdogs.add(vote.uid);
+        }
+        tally[vote.votedFor]++;
+    }
+    return underdogs;
+}
+
+/**
+ * Points for a correct pick: base, doubled for underdog calls, plus a capped streak bonus
+ */
+function scorePick(underdog: boolean, streak: number): number {
+    const base = SCORING.basePoints * (underdog ? SCORING.underdogMultiplier : 1);
+    return base + Math.min((streak - 1) * SCORING.streakBonus, SCORING.maxStreakBonus);
+}
+
+/**
+ * Score every voter in a settled showdown: profile stats, per-user history and the
+ * weekly / all-time leaderboards. Ties (no winner) count the vote without touching streaks.
+ * Voters with a sauceHistory entry for the day were scored by an earlier, interrupted run.
+ * The entry is created in the same batch as the voter's other writes, so a run racing an
+ * older one fails that batch instead of scoring anyone twice.
+ */
+async function scoreVoters(dayId: string, winner: Side | null): Promise<number> {
+    const db = admin.firestore();
+    const increment = admin.firestore.FieldValue.increment;
+    const settledAt = admin.firestore.FieldValue.serverTimestamp();
+    // Voided votes (see voidShowdownVotes) neither score nor count toward streaks
+    const votes = (await listShowdownVotes(dayId)).filter(vote => !vote.voided);
+    const underdogs = findUnderdogPicks(votes);
+    const leaderboards = [getWeekId(new Date(`${dayId}T00:00:00Z`)), ALL_TIME_LEADERBOARD]
+        .map(periodId => db.collection(LEADERBOARD_COLLECTION).doc(periodId).collection('entries'));
+
+    for (let i = 0; i < votes.length; i += SCORE_CHUNK_SIZE) {
+        const chunk = votes.slice(i, i + SCORE_CHUNK_SIZE);
+        const userRefs = chunk.map(vote => db.collection(USERS_COLLECTION).doc(vote.uid));
+        const historyRefs = userRefs.map(userRef => userRef.collection('sauceHistory').doc(dayId));
+        const [profiles, histories] = await Promise.all([db.getAll(...userRefs), db.getAll(...historyRefs)]);
+        const batch = db.batch();
+
+        chunk.forEach((vote, index) => {
+            if (histories[index].exists) return;
+
+            const profile = profiles[index].data() || {};
+            const correct = !!winner && vote.votedFor === winner;
+            const underdog = correct && underdogs.has(vote.uid);
+            const previousStreak: number = profile.sauceStreak || 0;
+            const streak = !winner ? previousStreak : correct ? previousStreak + 1 : 0;
+            const points = correct ? scorePick(underdog, streak) : 0;
+
+            batch.set(userRefs[index], {
+                showdownVotes: increment(1),
+                correctPicks: increment(correct ? 1 : 0),
+                sauceSenseScore: increment(points),
+                sauceStreak: streak,
+                bestSauceStreak: Math.max(profile.bestSauceStreak || 0, streak)
+            }, { merge: true });
+
+            batch.create(historyRefs[index], {
+                showdownId: dayId,
+                votedFor: vote.votedFor,
+                winner,
+                correct,
+                underdog,
+                streak,
+                points,
+                settledAt
+            });
+
+            // Public entries carry the display name only, never the email
+            leaderboards.forEach(entries => {
+                batch.set(entries.doc(vote.uid), {
+                    uid: vote.uid,
+                    displayName: profile.displayName || 'Anonymous',
+                    photoURL: profile.photoURL || '',
+                    points: increment(points),
+                    correctPicks: increment(correct ? 1 : 0),
+                    votes: increment(1),
+                    updatedAt: settledAt
+                }, { merge: true });
+            });
+        });
+
+        await batch.commit();
+    }
+
+    return votes.length;
+}
+
+// ============================================
+// NEXT MATCHUP
+// ============================================
+
+/**
+ * GIF IDs used in the most recent showdowns
+ */
+async function getRecentGifIds(): Promise<Set<string>> {
+    const snapshot = await admin.firestore().collection(SHOWDOWN_COLLECTION)
+        .orderBy('createdAt', 'desc')
+        .limit(RECENT_SHOWDOWNS)
+        .get();
+
+    const ids = new Set<string>();
+    snapshot.docs.forEach(showdown => {
+        const data = showdown.data();
+        if (data.gifA?.id) ids.add(data.gifA.id);
+        if (data.gifB?.id) ids.add(data.gifB.id);
+    });
+    return ids;
+}
+
+/**
+ * Two trending library GIFs that haven't featured recently
+ */
+async function pickTrendingMatchup(): Promise<[ShowdownGIF, ShowdownGIF] | null> {
+    const [recent, snapshot] = await Promise.all([
+        getRecentGifIds(),
+        admin.firestore().collection(GIF_COLLECTION)
+            .where('status', '==', 'approved')
+            .orderBy('trendingWeek', 'desc')
+            .limit(TRENDING_CANDIDATES)
+            .get()
+    ]);
+
+    const pool: ShowdownGIF[] = snapshot.docs
+        .filter(gif => !recent.has(gif.id) && gif.data().url)
+        .slice(0, TRENDING_POOL)
+        .map(gif => ({ id: gif.id, title: gif.data().title || 'Untitled', url: gif.data().url }));
+    if (pool.length < 2) return null;
+
+    const first = pool.splice(Math.floor(Math.random() * pool.length), 1)[0];
+    const second = pool[Math.floor(Math.random() * pool.length)];
+    return [first, second];
+}
+
+/**
+ * Create the showdown for `dayId` if it doesn't exist yet.
+ * Queued matchups go first; the queue entry is consumed in the same transaction.
+ */
+async function ensureShowdown(dayId: string, endsAt: Date): Promise<'queue' | 'trending' | null> {
+    const db = admin.firestore();
+    const showdownRef = db.collection(SHOWDOWN_COLLECTION).doc(dayId);
+    if ((await showdownRef.get()).exists) return null;
+
+    const fallback = await pickTrendingMatchup();
+
+    return db.runTransaction(async (transaction) => {
+        const existing = await transaction.get(showdownRef);
+        if (existing.exists) return null;
+
+        const queued = await transaction.get(
+            db.collection(QUEUE_COLLECTION).orderBy('createdAt', 'asc').limit(1)
+        );
+        const next = queued.docs[0];
+        const matchup: [ShowdownGIF, ShowdownGIF] | null = next
+            ? [next.data().gifA, next.data().gifB]
+            : fallback;
+        if (!matchup) return null;
+
+        transaction.create(showdownRef, {
+            gifA: { id: matchup[0].id, title: matchup[0].title, url: matchup[0].url, votes: 0 },
+            gifB: { id: matchup[1].id, title: matchup[1].title, url: matchup[1].url, votes: 0 },
+            endsAt: admin.firestore.Timestamp.fromDate(endsAt),
+            status: 'active',
+            winner: null,
+            credited: false,
+            source: next ? 'queue' : 'trending',
+            createdAt: admin.firestore.Timestamp.now()
+        });
+        if (next) {
+            transaction.delete(next.ref);
+        }
+        return next ? 'queue' : 'trending';
+    });
+}
+
+// ============================================
+// JOB
+// ============================================
+
+export const rotateShowdown = functions
+    .runWith({ timeoutSeconds: 300 })
+    .pubsub.schedule('every 15 minutes')
+    .onRun(async () => {
+        const now = new Date();
+        const pending = await admin.firestore().collection(SHOWDOWN_COLLECTION)
+            .where('credited', '==', false)
+            .get();
+        // Streaks build on the previous day's result, so score oldest first (IDs are YYYY-MM-DD)
+        const days = [...pending.docs].sort((a, b) => a.id.localeCompare(b.id));
+
+        for (const showdown of days) {
+            try {
+                const result = await settleShowdown(showdown.ref, now.getTime());
+                if (!result) continue;
+
+                const scored = await scoreVoters(showdown.id, result.winner);
+                await markCredited(showdown.ref);
+                console.log(`Showdown ${showdown.id}: winner ${result.winner || 'none'}, scored ${scored} voters`);
+            } catch (error) {
+                // Later days wait for this one so streaks aren't applied out of order
+                console.error(`Failed to settle showdown ${showdown.id}:`, error);
+                break;
+            }
+        }
+
+        const source = await ensureShowdown(getDayId(now), getEndOfDay(now));
+        if (source) {
+            console.log(`Created showdown ${getDayId(now)} from ${source}`);
+        }
+        // Nothing queued and not enough fresh trending GIFs: the admin has to pick one
+        return null;
+    });
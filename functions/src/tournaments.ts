@@ -0,0 +1,402 @@
+/**
+ * Bracket tournament advancement
+ *
+ * Every 15 minutes, for each active tournament:
+ * - settles the current round's matches once their vote window has closed
+ *   (most votes wins; ties go to the higher seed)
+ * - moves the winners into the next round and opens its vote window
+ * - completes the tournament after the final
+ * - scores bracket predictions for the settled round (2^round points per correct pick),
+ *   picking up any earlier round whose scoring was interrupted
+ *
+ * Admins can settle the current round early with the forceAdvanceTournament callable.
+ *
+ * Data (see showdownService on the client):
+ * - tournaments/{id}: scoredRounds lists the rounds whose predictions are fully credited;
+ *   scoringPending stays true from a round's settle until it's listed. A run scoring it holds
+ *   a lease (scoringAt) so the schedule and a forced advance don't score side by side
+ * - tournaments/{id}/matches/{r{round}m{slot}}
+ * - tournaments/{id}/predictions/{userId}: { picks: { matchId: gifId }, points, correctPicks, scoredRounds };
+ *   a prediction is credited in a transaction that re-checks its scoredRounds, so never twice
+ * - users/{uid}: bracketPoints, bracketCorrectPicks, bracketsPlayed
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+// ============================================
+// CONFIG
+// ============================================
+
+const TOURNAMENT_COLLECTION = 'tournaments';
+const USERS_COLLECTION = 'users';
+const READ_PAGE_SIZE = 500;
+const SCORE_CHUNK_SIZE = 200;   // predictions per transaction: two writes each, under the 500 cap
+const SCORE_LEASE_MS = 10 * 60 * 1000; // longer than a run (timeoutSeconds: 300)
+const HOUR_MS = 60 * 60 * 1000;
+
+interface BracketGIF {
+    id: string;
+    title: string;
+    url: string;
+    votes: number;
+    seed: number;
+}
+
+interface SettledMatch {
+    id: string;
+    round: number;
+    slot: number;
+    winner: BracketGIF;
+}
+
+interface AdvanceResult {
+    settled: number;
+    advanced: boolean;
+    completed: boolean;
+    scored: number;
+}
+
+const getMatchId = (round: number, slot: number): string => `r${round}m${slot}`;
+
+const getRoundPoints = (round: number): number => Math.pow(2, round);
+
+// ============================================
+// SETTLEMENT
+// ============================================
+
+/**
+ * Pick a match winner: most votes, ties to the higher (lower-numbered) seed
+ */
+function decideWinner(gifA: BracketGIF | null, gifB: BracketGIF | null): 'A' | 'B' | null {
+    if (!gifA && !gifB) return null;
+    if (!gifB) return 'A';
+    if (!gifA) return 'B';
+    if (gifA.votes !== gifB.votes) return gifA.votes > gifB.votes ? 'A' : 'B';
+    return gifA.seed <= gifB.seed ? 'A' : 'B';
+}
+
+/**
+ * Settle the current round if its window has closed (or `force`), and open the next one.
+ * Runs in a transaction so the schedule and a forced advance can't both settle a round.
+ */
+async function settleRound(
+    tournamentRef: admin.firestore.DocumentReference,
+    now: number,
+    force: boolean
+): Promise<{ round: number; settled: SettledMatch[]; advanced: boolean; completed: boolean } | null> {
+    const db = admin.firestore();
+
+    return db.runTransaction(async (transaction) => {
+        const tournamentSnap = await transaction.get(tournamentRef);
+        const tournament = tournamentSnap.data();
+        if (!tournament || tournament.status !== 'active') return null;
+
+        const round: number = tournament.currentRound || 0;
+        const matchesSnap = await transaction.get(
+            tournamentRef.collection('matches').where('round', '==', round)
+        );
+        if (matchesSnap.empty) return null;
+
+        const pending = matchesSnap.docs.filter(m => !m.data().winner);
+        const due = pending.filter(m => {
+            const closesAt = m.data().closesAt as admin.firestore.Timestamp | null;
+            return force || (!!closesAt && closesAt.toMillis() <= now);
+        });
+        // Rounds settle as a whole so the next one opens with every slot filled
+        if (pending.length === 0 || due.length < pending.length) return null;
+
+        const settled: SettledMatch[] = [];
+        for (const matchDoc of matchesSnap.docs) {
+            const match = matchDoc.data();
+            const side: 'A' | 'B' | null = match.winner || decideWinner(match.gifA, match.gifB);
+            if (!side) continue;
+
+            if (!match.winner) {
+                transaction.update(matchDoc.ref, {
+                    winner: side,
+                    // Forced settles close the window now
+                    closesAt: admin.firestore.Timestamp.fromMillis(Math.min(now, match.closesAt?.toMillis() ?? now))
+                });
+            }
+            settled.push({
+                id: matchDoc.id,
+                round,
+                slot: match.slot,
+                winner: side === 'A' ? match.gifA : match.gifB
+            });
+        }
+
+        const isFinal = round >= tournament.roundCount - 1;
+        if (isFinal) {
+            transaction.update(tournamentRef, {
+                status: 'completed',
+                championId: settled[0]?.winner.id || null,
+                scoringPending: true,
+                completedAt: admin.firestore.FieldValue.serverTimestamp()
+            });
+            return { round, settled, advanced: false, completed: true };
+        }
+
+        // Winners of slots 2k and 2k+1 meet in slot k of the next round
+        const opensAt = admin.firestore.Timestamp.fromMillis(now);
+        const closesAt = admin.firestore.Timestamp.fromMillis(now + tournament.roundDurationHours * HOUR_MS);
+        const nextMatches = new Map<number, { gifA?: BracketGIF; gifB?: BracketGIF }>();
+        for (const match of settled) {
+            const slot = Math.floor(match.slot / 2);
+            const entry = nextMatches.get(slot) || {};
+            const entrant = { ...match.winner, votes: 0 };
+            if (match.slot % 2 === 0) entry.gifA = entrant;
+            else entry.gifB = entrant;
+            nextMatches.set(slot, entry);
+        }
+
+        for (const [slot, entry] of nextMatches) {
+            transaction.set(tournamentRef.collection('matches').doc(getMatchId(round + 1, slot)), {
+                round: round + 1,
+                slot,
+                gifA: entry.gifA || null,
+                gifB: entry.gifB || null,
+                winner: null,
+                opensAt,
+                closesAt
+            }, { merge: true });
+        }
+        transaction.update(tournamentRef, { currentRound: round + 1, scoringPending: true });
+
+        return { round, settled, advanced: true, completed: false };
+    });
+}
+
+// ============================================
+// PREDICTION SCORING
+// ============================================
+
+/**
+ * Rounds settled so far: all of them once the final is in, otherwise those before the current one
+ */
+function getSettledRounds(tournament: admin.firestore.DocumentData): number[] {
+    const count = tournament.status === 'completed' ? tournament.roundCount || 0 : tournament.currentRound || 0;
+    return Array.from({ length: count }, (_, round) => round);
+}
+
+/**
+ * Rounds already credited. Brackets created before scoredRounds was tracked were credited
+ * up to the round just settled.
+ */
+function getScoredRounds(tournament: admin.firestore.DocumentData): number[] {
+    return Array.isArray(tournament.scoredRounds) ? tournament.scoredRounds : getSettledRounds(tournament).slice(0, -1);
+}
+
+/**
+ * Winning GIF ID per match of a settled round
+ */
+async function getRoundWinners(
+    tournamentRef: admin.firestore.DocumentReference,
+    round: number
+): Promise<Map<string, string>> {
+    const matches = await tournamentRef.collection('matches').where('round', '==', round).get();
+    const winners = new Map<string, string>();
+    matches.docs.forEach(matchDoc => {
+        const match = matchDoc.data();
+        const winner: BracketGIF | null = match.winner === 'A' ? match.gifA : match.winner === 'B' ? match.gifB : null;
+        if (winner) winners.set(matchDoc.id, winner.id);
+    });
+    return winners;
+}
+
+/**
+ * Credit a chunk of predictions for a settled round in one transaction. Each prediction's
+ * scoredRounds is re-read inside it and gains the round with its points, so a prediction
+ * another run (or an earlier, partial one) already credited is skipped.
+ */
+async function scorePredictionChunk(
+    refs: admin.firestore.DocumentReference[],
+    round: number,
+    winners: Map<string, string>
+): Promise<number> {
+    const db = admin.firestore();
+    const pointsPerPick = getRoundPoints(round);
+    const increment = admin.firestore.FieldValue.increment;
+
+    return db.runTransaction(async (transaction) => {
+        const predictions = await transaction.getAll(...refs);
+        let scored = 0;
+
+        for (const prediction of predictions) {
+            const data = prediction.data();
+            if (!data) continue;
+            const alreadyScored: number[] = data.scoredRounds || [];
+            if (alreadyScored.includes(round)) continue;
+
+            const picks: Record<string, string> = data.picks || {};
+            const correct = Object.entries(picks)
+                .filter(([matchId, gifId]) => winners.get(matchId) === gifId)
+                .length;
+            // First round counts the bracket as played even with no correct picks
+            if (correct === 0 && round > 0) continue;
+
+            const points = correct * pointsPerPick;
+            transaction.update(prediction.ref, {
+                points: increment(points),
+                correctPicks: increment(correct),
+                scoredRounds: admin.firestore.FieldValue.arrayUnion(round)
+            });
+            transaction.set(db.collection(USERS_COLLECTION).doc(prediction.id), {
+                bracketPoints: increment(points),
+                bracketCorrectPicks: increment(correct),
+                ...(round === 0 ? { bracketsPlayed: increment(1) } : {})
+            }, { merge: true });
+            scored++;
+        }
+        return scored;
+    });
+}
+
+/**
+ * Credit every prediction for a settled round, a chunk at a time
+ */
+async function scorePredictions(
+    tournamentRef: admin.firestore.DocumentReference,
+    round: number
+): Promise<number> {
+    const winners = await getRoundWinners(tournamentRef, round);
+
+    let lastDoc: admin.firestore.QueryDocumentSnapshot | undefined;
+    let scored = 0;
+
+    for (;;) {
+        let q = tournamentRef.collection('predictions')
+            .orderBy(admin.firestore.FieldPath.documentId())
+            .limit(READ_PAGE_SIZE);
+        if (lastDoc) q = q.startAfter(lastDoc);
+
+        const page = await q.get();
+        if (page.empty) break;
+
+        // Already-credited predictions are re-checked in the transaction, but skipping them
+        // here saves re-reading them
+        const refs = page.docs
+            .filter(prediction => !(prediction.data().scoredRounds || []).includes(round))
+            .map(prediction => prediction.ref);
+        for (let i = 0; i < refs.length; i += SCORE_CHUNK_SIZE) {
+            scored += await scorePredictionChunk(refs.slice(i, i + SCORE_CHUNK_SIZE), round, winners);
+        }
+
+        lastDoc = page.docs[page.docs.length - 1];
+        if (page.size < READ_PAGE_SIZE) break;
+    }
+    return scored;
+}
+
+// ============================================
+// JOB
+// ============================================
+
+/**
+ * Claim a tournament's pending scoring, unless another run holds a live lease
+ * (a stale one means that run died - take it over)
+ */
+async function claimScoring(
+    tournamentRef: admin.firestore.DocumentReference,
+    now: number
+): Promise<admin.firestore.DocumentData | null> {
+    return admin.firestore().runTransaction(async (transaction) => {
+        const data = (await transaction.get(tournamentRef)).data();
+        if (!data || !data.scoringPending) return null;
+
+        const scoringAt = data.scoringAt as admin.firestore.Timestamp | undefined;
+        if (scoringAt && now - scoringAt.toMillis() < SCORE_LEASE_MS) return null;
+
+        transaction.update(tournamentRef, { scoringAt: admin.firestore.Timestamp.fromMillis(now) });
+        return data;
+    });
+}
+
+/**
+ * Score every settled round not yet in scoredRounds, recording each one once it's done
+ */
+async function scoreSettledRounds(tournamentRef: admin.firestore.DocumentReference): Promise<number> {
+    const data = await claimScoring(tournamentRef, Date.now());
+    if (!data) return 0;
+
+    const scoredRounds = getScoredRounds(data);
+    let scored = 0;
+    for (const round of getSettledRounds(data).filter(r => !scoredRounds.includes(r))) {
+        scored += await scorePredictions(tournamentRef, round);
+        await tournamentRef.update({ scoredRounds: admin.firestore.FieldValue.arrayUnion(...scoredRounds, round) });
+    }
+
+    // Release the lease; a round settled meanwhile keeps scoringPending for the next run
+    await admin.firestore().runTransaction(async (transaction) => {
+        const latest = (await transaction.get(tournamentRef)).data() || {};
+        const done = getScoredRounds(latest);
+        transaction.update(tournamentRef, {
+            scoringPending: getSettledRounds(latest).some(r => !done.includes(r)),
+            scoringAt: admin.firestore.FieldValue.delete()
+        });
+    });
+    return scored;
+}
+
+/**
+ * Settle, advance and score one tournament
+ */
+export async function advanceTournament(tournamentId: string, force = false): Promise<AdvanceResult> {
+    const tournamentRef = admin.firestore().collection(TOURNAMENT_COLLECTION).doc(tournamentId);
+    const result = await settleRound(tournamentRef, Date.now(), force);
+    const scored = await scoreSettledRounds(tournamentRef);
+    if (!result) {
+        return { settled: 0, advanced: false, completed: false, scored };
+    }
+    return { settled: result.settled.length, advanced: result.advanced, completed: result.completed, scored };
+}
+
+export const advanceTournaments = functions
+    .runWith({ timeoutSeconds: 300 })
+    .pubsub.schedule('every 15 minutes')
+    .onRun(async () => {
+        const tournaments = admin.firestore().collection(TOURNAMENT_COLLECTION);
+        // Completed tournaments come back while their final's scoring is unfinished
+        const [active, unscored] = await Promise.all([
+            tournaments.where('status', '==', 'active').get(),
+            tournaments.where('scoringPending', '==', true).get()
+        ]);
+        const ids = new Set([...active.docs, ...unscored.docs].map(tournament => tournament.id));
+
+        for (const tournamentId of ids) {
+            try {
+                const result = await advanceTournament(tournamentId);
+                if (result.settled > 0 || result.scored > 0) {
+                    console.log(
+                        `Tournament ${tournamentId}: settled ${result.settled} matches, scored ${result.scored} predictions` +
+                        (result.completed ? ', completed' : '')
+                    );
+                }
+            } catch (error) {
+                // One broken bracket shouldn't hold up the rest
+                console.error(`Failed to advance tournament ${tournamentId}:`, error);
+            }
+        }
+        return null;
+    });
+
+export const forceAdvanceTournament = functions.https.onCall(async (data: { tournamentId?: string }, context) => {
+    const role = context.auth?.token.role;
+    if (role !== 'admin' && role !== 'owner') {
+        throw new functions.https.HttpsError('permission-denied', 'Admins only');
+    }
+    if (typeof data?.tournamentId !== 'string' || !data.tournamentId) {
+        throw new functions.https.HttpsError('invalid-argument', 'tournamentId is required');
+    }
+
+    const result = await advanceTournament(data.tournamentId, true);
+    if (result.settled === 0) {
+        return { message: 'Nothing to settle - the tournament is not active' };
+    }
+    return {
+        message: result.completed
+            ? 'Final settled - tournament complete! 🏆'
+            : `Round settled (${result.settled} matches), next round is open`
+    };
+});
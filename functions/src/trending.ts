@@ -0,0 +1,253 @@
+/**
+ * Scheduled trending-score recomputation
+ *
+ * Scores every library GIF over rolling windows (24h / 7d / 30d) from:
+ * - gif_engagement/{gifId}_{YYYY-MM-DDTHH}: hourly download/share/favorite buckets
+ * - showdowns: completed showdowns won inside the window
+ *
+ * Each event is weighted by kind and decayed by age (per-period half-life), then
+ * written to trendingToday / trendingWeek / trendingMonth / trendingAllTime on the
+ * GIF. Reads are paged and writes are batched so the job scales with the library.
+ *
+ * Tunable via settings/trendingConfig (see DEFAULT_TRENDING_CONFIG).
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+// ============================================
+// CONFIG
+// ============================================
+
+type TrendingPeriod = 'today' | 'week' | 'month';
+type EngagementKind = 'downloads' | 'shares' | 'favorites' | 'showdownWins';
+
+interface TrendingConfig {
+    weights: Record<EngagementKind, number>;
+    halfLifeHours: Record<TrendingPeriod, number>;
+}
+
+const DEFAULT_TRENDING_CONFIG: TrendingConfig = {
+    weights: { downloads: 1, shares: 2, favorites: 3, showdownWins: 10 },
+    halfLifeHours: { today: 6, week: 48, month: 168 }
+};
+
+const PERIOD_WINDOW_HOURS: Record<TrendingPeriod, number> = {
+    today: 24,
+    week: 7 * 24,
+    month: 30 * 24
+};
+
+// Field written on library_gifs for each period
+const PERIOD_FIELDS: Record<TrendingPeriod | 'allTime', string> = {
+    today: 'trendingToday',
+    week: 'trendingWeek',
+    month: 'trendingMonth',
+    allTime: 'trendingAllTime'
+};
+
+const GIF_COLLECTION = 'library_gifs';
+const ENGAGEMENT_COLLECTION = 'gif_engagement';
+const SHOWDOWN_COLLECTION = 'showdowns';
+const READ_PAGE_SIZE = 1000;
+const WRITE_BATCH_SIZE = 400;   // Firestore caps batches at 500 writes
+// Skip rewriting scores that barely moved
+const SCORE_EPSILON = 0.01;
+
+type PeriodScores = Record<TrendingPeriod, number>;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ============================================
+// SCORING
+// ============================================
+
+async function getTrendingConfig(db: admin.firestore.Firestore): Promise<TrendingConfig> {
+    try {
+        const snap = await db.collection('settings').doc('trendingConfig').get();
+        const overrides = (snap.data() || {}) as Partial<TrendingConfig>;
+        return {
+            weights: { ...DEFAULT_TRENDING_CONFIG.weights, ...(overrides.weights || {}) },
+            halfLifeHours: { ...DEFAULT_TRENDING_CONFIG.halfLifeHours, ...(overrides.halfLifeHours || {}) }
+        };
+    } catch (error) {
+        console.warn('Trending config fetch failed, using defaults:', error);
+        return DEFAULT_TRENDING_CONFIG;
+    }
+}
+
+/**
+ * Add one weighted event to every period whose window contains it
+ */
+function addEvent(
+    scores: Map<string, PeriodScores>,
+    gifId: string,
+    value: number,
+    ageHours: number,
+    config: TrendingConfig
+): void {
+    if (!gifId || value <= 0) return;
+
+    let entry = scores.get(gifId);
+    if (!entry) {
+        entry = { today: 0, week: 0, month: 0 };
+        scores.set(gifId, entry);
+    }
+
+    for (const period of Object.keys(PERIOD_WINDOW_HOURS) as TrendingPeriod[]) {
+        if (ageHours > PERIOD_WINDOW_HOURS[period]) continue;
+        const decay = Math.pow(0.5, Math.max(0, ageHours) / config.halfLifeHours[period]);
+        entry[period] += value * decay;
+    }
+}
+
+/**
+ * Page through engagement buckets inside the widest window
+ */
+async function collectEngagement(
+    db: admin.firestore.Firestore,
+    scores: Map<string, PeriodScores>,
+    config: TrendingConfig,
+    now: number
+): Promise<number> {
+    const cutoff = admin.firestore.Timestamp.fromMillis(now - PERIOD_WINDOW_HOURS.month * HOUR_MS);
+    let lastDoc: admin.firestore.QueryDocumentSnapshot | undefined;
+    let read = 0;
+
+    for (;;) {
+        let q = db.collection(ENGAGEMENT_COLLECTION)
+            .where('hour', '>=', cutoff)
+            .orderBy('hour')
+            .limit(READ_PAGE_SIZE);
+        if (lastDoc) q = q.startAfter(lastDoc);
+
+        const page = await q.get();
+        if (page.empty) break;
+
+        for (const bucket of page.docs) {
+            const data = bucket.data();
+            // Bucket midpoint stands in for the events' exact time
+            const ageHours = (now - data.hour.toMillis()) / HOUR_MS - 0.5;
+            const value =
+                (data.downloads || 0) * config.weights.downloads +
+                (data.shares || 0) * config.weights.shares +
+                (data.favorites || 0) * config.weights.favorites;
+            addEvent(scores, data.gifId, value, ageHours, config);
+        }
+
+        read += page.size;
+        lastDoc = page.docs[page.docs.length - 1];
+        if (page.size < READ_PAGE_SIZE) break;
+    }
+    return read;
+}
+
+/**
+ * Credit showdown winners inside the widest window
+ */
+async function collectShowdownWins(
+    db: admin.firestore.Firestore,
+    scores: Map<string, PeriodScores>,
+    config: TrendingConfig,
+    now: number
+): Promise<void> {
+    const cutoff = admin.firestore.Timestamp.fromMillis(now - PERIOD_WINDOW_HOURS.month * HOUR_MS);
+    const snapshot = await db.collection(SHOWDOWN_COLLECTION).where('endsAt', '>=', cutoff).get();
+
+    for (const showdown of snapshot.docs) {
+        const data = showdown.data();
+        if (data.status !== 'completed' || !data.winner) continue;
+
+        const winner = data.winner === 'A' ? data.gifA : data.gifB;
+        const ageHours = (now - data.endsAt.toMillis()) / HOUR_MS;
+        addEvent(scores, winner?.id, config.weights.showdownWins, ageHours, config);
+    }
+}
+
+// ============================================
+// JOB
+// ============================================
+
+/**
+ * Recompute and write trending scores for every library GIF
+ */
+export async function recomputeTrendingScores(): Promise<{ scanned: number; updated: number; buckets: number }> {
+    const db = admin.firestore();
+    const now = Date.now();
+    const config = await getTrendingConfig(db);
+
+    const scores = new Map<string, PeriodScores>();
+    const buckets = await collectEngagement(db, scores, config, now);
+    await collectShowdownWins(db, scores, config, now);
+
+    let scanned = 0;
+    let updated = 0;
+    let lastDoc: admin.firestore.QueryDocumentSnapshot | undefined;
+    let batch = db.batch();
+    let pending = 0;
+
+    for (;;) {
+        let q = db.collection(GIF_COLLECTION)
+            .orderBy(admin.firestore.FieldPath.documentId())
+            .limit(READ_PAGE_SIZE);
+        if (lastDoc) q = q.startAfter(lastDoc);
+
+        const page = await q.get();
+        if (page.empty) break;
+
+        for (const gifDoc of page.docs) {
+            const data = gifDoc.data();
+            const windowed = scores.get(gifDoc.id) || { today: 0, week: 0, month: 0 };
+            // Lifetime totals, undecayed
+            const allTime =
+                (data.downloads || 0) * config.weights.downloads +
+                (data.shares || 0) * config.weights.shares;
+
+            const next: Record<string, number> = {
+                [PERIOD_FIELDS.today]: windowed.today,
+                [PERIOD_FIELDS.week]: windowed.week,
+                [PERIOD_FIELDS.month]: windowed.month,
+                [PERIOD_FIELDS.allTime]: allTime,
+                // Legacy field - GIF of the Day and older clients sort by it
+                trendingScore: windowed.week
+            };
+
+            const changed = Object.entries(next).some(([field, value]) =>
+                typeof data[field] !== 'number' || Math.abs(data[field] - value) > SCORE_EPSILON
+            );
+            if (changed) {
+                batch.update(gifDoc.ref, { ...next, trendingUpdatedAt: admin.firestore.FieldValue.serverTimestamp() });
+                pending++;
+                updated++;
+            }
+
+            if (pending >= WRITE_BATCH_SIZE) {
+                await batch.commit();
+                batch = db.batch();
+                pending = 0;
+            }
+        }
+
+        scanned += page.size;
+        lastDoc = page.docs[page.docs.length - 1];
+        if (page.size < READ_PAGE_SIZE) break;
+    }
+
+    if (pending > 0) {
+        await batch.commit();
+    }
+
+    return { scanned, updated, buckets };
+}
+
+export const recomputeTrending = functions
+    .runWith({ timeoutSeconds: 540, memory: '512MB' })
+    .pubsub.schedule('every 30 minutes')
+    .onRun(async () => {
+        const started = Date.now();
+        const result = await recomputeTrendingScores();
+        console.log(
+            `Trending recomputed: ${result.updated}/${result.scanned} GIFs updated from ${result.buckets} buckets in ${Date.now() - started}ms`
+        );
+        return null;
+    });
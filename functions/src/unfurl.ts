@@ -0,0 +1,593 @@
+/**
+ * GIF link unfurling (ogMeta)
+ *
+ * Routes (all served through the /gif/** and /oembed hosting rewrites):
+ * - /gif/:id: crawlers (Slack, Discord, Twitter/X, iMessage...) get Open Graph and Twitter
+ *   player card tags; real browsers get the SPA's index.html
+ * - /gif/:id/player: a bare autoplaying video page for Twitter player cards and oEmbed iframes
+ * - /oembed?url=...: oEmbed JSON (Notion, Slack and iframely-based unfurlers discover it
+ *   from the <link rel="alternate"> tag)
+ *
+ * Ids resolve from library_gifs (library_{docId}) or Klipy. Each GIF is described with its
+ * real renditions: the animated GIF as the image, and an MP4/WebM as the video when the
+ * source has one (we never label a GIF as video/mp4).
+ *
+ * Caching: resolved GIFs are stored in unfurl_cache/{id} (fresh for a day, and served past
+ * that if the source is down). Ids that don't resolve are only remembered in instance
+ * memory and at the CDN, so arbitrary /gif/:id paths never create documents. Rendered
+ * responses are kept in instance memory for a few minutes and sent with CDN cache headers.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import express, { Request, Response } from 'express';
+
+// ============================================
+// CONFIG
+// ============================================
+
+const SITE_URL = 'https://saucy-ai.web.app';
+const KLIPY_BASE_URL = 'https://api.klipy.com/api/v1';
+const LIBRARY_COLLECTION = 'library_gifs';
+const UNFURL_CACHE_COLLECTION = 'unfurl_cache';
+const LIBRARY_PREFIX = 'library_';
+
+// Resolved GIFs: how long a cached entry is fresh, and how long a "not found" is remembered
+const RESOLVE_TTL_MS = 24 * 60 * 60 * 1000;
+const MISSING_TTL_MS = 10 * 60 * 1000;
+const MAX_MISSING = 1000;
+// Rendered HTML / JSON kept per instance
+const RENDER_TTL_MS = 5 * 60 * 1000;
+const MAX_RENDERED = 500;
+// Not-found responses: short at the CDN, so a GIF that appears later isn't hidden for long
+const MISSING_CACHE_CONTROL = 'public, max-age=60, s-maxage=600';
+const UPSTREAM_TIMEOUT_MS = 5000;
+
+const DEFAULT_SIZE = 480;
+const MAX_EMBED_SIZE = 1200;
+
+// User agent patterns for social media crawlers
+const CRAWLER_USER_AGENTS = [
+    'facebookexternalhit',
+    'Facebot',
+    'Twitterbot',
+    'LinkedInBot',
+    'WhatsApp',
+    'Slackbot',
+    'TelegramBot',
+    'Discordbot',
+    'Pinterest',
+    'Googlebot',
+    'bingbot',
+    'Applebot',
+    'iMessage',
+    'Notion',
+    'Iframely',
+    'redditbot',
+    'Embedly'
+];
+
+type VideoType = 'video/mp4' | 'video/webm';
+
+interface UnfurlVideo {
+    url: string;
+    type: VideoType;
+}
+
+interface UnfurlGif {
+    id: string;
+    title: string;
+    gifUrl: string;             // Animated image (og:image)
+    thumbnailUrl: string;
+    videos: UnfurlVideo[];      // MP4 first when there is one
+    width: number;
+    height: number;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Check if the request is from a social media crawler
+ */
+function isCrawler(userAgent: string): boolean {
+    if (!userAgent) return false;
+    const lowerUA = userAgent.toLowerCase();
+    return CRAWLER_USER_AGENTS.some(crawler =>
+        lowerUA.includes(crawler.toLowerCase())
+    );
+}
+
+/**
+ * Escape HTML to prevent XSS
+ */
+function escapeHtml(text: string): string {
+    const map: Record<string, string> = {
+        '&': '&amp;',
+        '<': '&lt;',
+        '>': '&gt;',
+        '"': '&quot;',
+        "'": '&#039;'
+    };
+    return text.replace(/[&<>"']/g, m => map[m] || m);
+}
+
+const gifPageUrl = (gifId: string) => `${SITE_URL}/gif/${encodeURIComponent(gifId)}`;
+const playerUrl = (gifId: string) => `${gifPageUrl(gifId)}/player`;
+const oembedUrl = (gifId: string) => `${SITE_URL}/oembed?format=json&url=${encodeURIComponent(gifPageUrl(gifId))}`;
+
+const toSize = (value: unknown): number => {
+    const n = Number(value);
+    return Number.isFinite(n) && n > 0 ? Math.round(n) : DEFAULT_SIZE;
+};
+
+/**
+ * Video type from a URL's extension (null when it isn't a video we can label)
+ */
+function videoTypeOf(url: string): VideoType | null {
+    const path = url.split(/[?#]/)[0].toLowerCase();
+    if (path.endsWith('.mp4')) return 'video/mp4';
+    if (path.endsWith('.webm')) return 'video/webm';
+    return null;
+}
+
+function imageTypeOf(url: string): string {
+    const path = url.split(/[?#]/)[0].toLowerCase();
+    if (path.endsWith('.webp')) return 'image/webp';
+    if (path.endsWith('.png')) return 'image/png';
+    if (path.endsWith('.jpg') || path.endsWith('.jpeg')) return 'image/jpeg';
+    return 'image/gif';
+}
+
+async function fetchJson(url: string): Promise<any | null> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT_MS);
+    try {
+        const response = await fetch(url, { signal: controller.signal });
+        return response.ok ? await response.json() : null;
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+// ============================================
+// RESOLVE
+// ============================================
+
+/**
+ * A GIF from our own library (only approved ones are public)
+ */
+async function fetchLibraryGif(gifId: string): Promise<UnfurlGif | null> {
+    const docId = gifId.slice(LIBRARY_PREFIX.length);
+    if (!docId || docId.includes('/')) return null;
+
+    const snap = await admin.firestore().collection(LIBRARY_COLLECTION).doc(docId).get();
+    const data = snap.data();
+    if (!snap.exists || !data || data.status !== 'approved' || !data.url) return null;
+
+    // Veo-generated entries may store the MP4 itself as `url`; `videoUrl` is the rendition
+    // AIGeneration uploads to Storage. A video we can't type isn't offered at all.
+    const videoUrl: string | undefined = data.videoUrl || (videoTypeOf(data.url) ? data.url : undefined);
+    const videoType = videoUrl ? videoTypeOf(videoUrl) : null;
+    const imageUrl: string = videoUrl === data.url ? (data.thumbnailUrl || '') : data.url;
+    if (!imageUrl && !videoType) return null;
+
+    return {
+        id: gifId,
+        title: data.title || 'GIF',
+        gifUrl: imageUrl || data.thumbnailUrl || '',
+        thumbnailUrl: data.thumbnailUrl || imageUrl,
+        videos: videoUrl && videoType ? [{ url: videoUrl, type: videoType }] : [],
+        width: toSize(data.width),
+        height: toSize(data.height)
+    };
+}
+
+/**
+ * Pick renditions out of a Klipy item: { title, slug, file: { hd|md|sd|xs: { gif, webp, mp4, webm, jpg } } }
+ */
+function fromKlipyItem(gifId: string, gif: any): UnfurlGif | null {
+    const file = gif?.file || {};
+    const sizes = ['hd', 'md', 'sd', 'xs'].map(size => file[size] || {});
+    const first = (format: string) => sizes.map(size => size[format]).find(entry => entry?.url);
+
+    const image = first('gif') || first('webp') || (gif?.url ? { url: gif.url } : null);
+    if (!image?.url) return null;
+
+    const videos: UnfurlVideo[] = [];
+    const mp4 = first('mp4');
+    const webm = first('webm');
+    if (mp4) videos.push({ url: mp4.url, type: 'video/mp4' });
+    if (webm) videos.push({ url: webm.url, type: 'video/webm' });
+
+    const thumbnail = file.sd?.jpg || file.xs?.jpg || file.sd?.gif || image;
+    return {
+        id: gifId,
+        title: gif.title || gif.slug?.replace(/-/g, ' ') || 'GIF',
+        gifUrl: image.url,
+        thumbnailUrl: thumbnail.url,
+        videos,
+        width: toSize(image.width || gif.width),
+        height: toSize(image.height || gif.height)
+    };
+}
+
+async function fetchKlipyGif(gifId: string): Promise<UnfurlGif | null> {
+    const apiKey = process.env.KLIPY_API_KEY || '';
+    if (!apiKey) {
+        console.error('Klipy API key not configured');
+        return null;
+    }
+
+    const data = await fetchJson(`${KLIPY_BASE_URL}/${apiKey}/gifs/${encodeURIComponent(gifId)}`);
+    if (data) return fromKlipyItem(gifId, data.data || data);
+
+    // Fallback: search by ID as query
+    const searchData = await fetchJson(`${KLIPY_BASE_URL}/${apiKey}/gifs/search?q=${encodeURIComponent(gifId)}&limit=1`);
+    const items = searchData?.data?.data || searchData?.data || searchData || [];
+    return Array.isArray(items) && items.length > 0 ? fromKlipyItem(gifId, items[0]) : null;
+}
+
+// Ids that didn't resolve, per instance: id -> expiresAt
+const missing = new Map<string, number>();
+
+function rememberMissing(gifId: string): void {
+    missing.delete(gifId);
+    missing.set(gifId, Date.now() + MISSING_TTL_MS);
+    if (missing.size > MAX_MISSING) {
+        missing.delete(missing.keys().next().value as string);
+    }
+}
+
+/**
+ * Resolve a /gif/:id id, going through unfurl_cache. Falls back to an expired
+ * cache entry when the source can't be reached.
+ */
+async function resolveGif(gifId: string): Promise<UnfurlGif | null> {
+    if ((missing.get(gifId) || 0) > Date.now()) return null;
+
+    const ref = admin.firestore().collection(UNFURL_CACHE_COLLECTION).doc(gifId.replace(/\//g, '-').substring(0, 500));
+    let cached: admin.firestore.DocumentData | undefined;
+    try {
+        const snap = await ref.get();
+        cached = snap.exists ? snap.data() : undefined;
+    } catch (error) {
+        console.warn('Unfurl cache read failed:', error);
+    }
+
+    if (cached?.gif) {
+        const age = Date.now() - (cached.updatedAt?.toMillis?.() || 0);
+        if (age < RESOLVE_TTL_MS) return cached.gif;
+    }
+
+    try {
+        const gif = gifId.startsWith(LIBRARY_PREFIX)
+            ? await fetchLibraryGif(gifId)
+            : await fetchKlipyGif(gifId);
+        if (!gif) {
+            rememberMissing(gifId);
+            return null;
+        }
+        await ref.set({
+            gif,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp()
+        }).catch(error => console.warn('Unfurl cache write failed:', error));
+        return gif;
+    } catch (error) {
+        console.error(`Error resolving GIF ${gifId}:`, error);
+        return cached?.gif || null;
+    }
+}
+
+// ============================================
+// RENDER CACHE
+// ============================================
+
+const rendered = new Map<string, { body: string; expiresAt: number }>();
+
+/**
+ * Memoize a rendered response per instance (oldest entries are dropped past MAX_RENDERED)
+ */
+async function renderCached(key: string, render: () => Promise<string | null>): Promise<string | null> {
+    const hit = rendered.get(key);
+    if (hit && hit.expiresAt > Date.now()) return hit.body;
+
+    const body = await render();
+    if (body !== null) {
+        rendered.delete(key);
+        rendered.set(key, { body, expiresAt: Date.now() + RENDER_TTL_MS });
+        if (rendered.size > MAX_RENDERED) {
+            rendered.delete(rendered.keys().next().value as string);
+        }
+    }
+    return body;
+}
+
+// ============================================
+// RENDER
+// ============================================
+
+/**
+ * Open Graph + Twitter card markup for crawlers
+ */
+function generateCrawlerHtml(gif: UnfurlGif): string {
+    const pageUrl = gifPageUrl(gif.id);
+    const title = escapeHtml(gif.title);
+    const mp4 = gif.videos.find(video => video.type === 'video/mp4');
+
+    const videoTags = gif.videos.map(video => `
+    <meta property="og:video" content="${escapeHtml(video.url)}">
+    <meta property="og:video:secure_url" content="${escapeHtml(video.url)}">
+    <meta property="og:video:type" content="${video.type}">
+    <meta property="og:video:width" content="${gif.width}">
+    <meta property="og:video:height" content="${gif.height}">`).join('');
+
+    // Player cards need an MP4 stream; everything else unfurls as a large image (the GIF animates)
+    const twitterTags = mp4 ? `
+    <meta name="twitter:card" content="player">
+    <meta name="twitter:player" content="${escapeHtml(playerUrl(gif.id))}">
+    <meta name="twitter:player:width" content="${gif.width}">
+    <meta name="twitter:player:height" content="${gif.height}">
+    <meta name="twitter:player:stream" content="${escapeHtml(mp4.url)}">
+    <meta name="twitter:player:stream:content_type" content="video/mp4">` : `
+    <meta name="twitter:card" content="summary_large_image">`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${title} | Saucy</title>
+    <link rel="alternate" type="application/json+oembed" href="${escapeHtml(oembedUrl(gif.id))}" title="${title}">
+
+    <!-- Open Graph / Facebook / Slack / Discord -->
+    <meta property="og:type" content="${gif.videos.length > 0 ? 'video.other' : 'website'}">
+    <meta property="og:site_name" content="Saucy">
+    <meta property="og:title" content="${title} | Saucy">
+    <meta property="og:description" content="Shared via Saucy 🔥 The Spotify of GIFs">
+    <meta property="og:url" content="${escapeHtml(pageUrl)}">
+
+    <!-- og:image is the animated GIF itself -->
+    <meta property="og:image" content="${escapeHtml(gif.gifUrl)}">
+    <meta property="og:image:type" content="${imageTypeOf(gif.gifUrl)}">
+    <meta property="og:image:width" content="${gif.width}">
+    <meta property="og:image:height" content="${gif.height}">
+    <meta property="og:image:alt" content="${title}">
+    ${videoTags}
+
+    <!-- Twitter Card -->
+    <meta name="twitter:site" content="@SaucyGIFs">
+    <meta name="twitter:title" content="${title} | Saucy">
+    <meta name="twitter:description" content="Shared via Saucy 🔥">
+    <meta name="twitter:image" content="${escapeHtml(gif.gifUrl)}">
+    <meta name="twitter:image:alt" content="${title}">${twitterTags}
+
+    <!-- Redirect to the actual page for any real browsers that follow the link -->
+    <meta http-equiv="refresh" content="0;url=${escapeHtml(pageUrl)}">
+</head>
+<body>
+    <p>Redirecting to <a href="${escapeHtml(pageUrl)}">Saucy</a>...</p>
+</body>
+</html>`;
+}
+
+/**
+ * Generate default fallback HTML for crawlers when GIF not found
+ */
+function getDefaultCrawlerHtml(): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Saucy - The Spotify of GIFs</title>
+    <meta property="og:type" content="website">
+    <meta property="og:site_name" content="Saucy">
+    <meta property="og:title" content="Saucy - The Spotify of GIFs">
+    <meta property="og:description" content="Discover trending GIFs, save your favorites, and share the sauce 🔥">
+    <meta property="og:image" content="${SITE_URL}/logos/saucy_drip_dark.png">
+    <meta property="og:url" content="${SITE_URL}">
+    <meta http-equiv="refresh" content="0;url=${SITE_URL}">
+</head>
+<body>
+    <p>Redirecting to <a href="${SITE_URL}">Saucy</a>...</p>
+</body>
+</html>`;
+}
+
+/**
+ * Bare player page: loops the video (or the GIF, if there's no video) edge to edge
+ */
+function generatePlayerHtml(gif: UnfurlGif): string {
+    const media = gif.videos.length > 0
+        ? `<video autoplay loop muted playsinline poster="${escapeHtml(gif.thumbnailUrl)}">
+        ${gif.videos.map(video => `<source src="${escapeHtml(video.url)}" type="${video.type}">`).join('\n        ')}
+        <img src="${escapeHtml(gif.gifUrl)}" alt="${escapeHtml(gif.title)}">
+    </video>`
+        : `<img src="${escapeHtml(gif.gifUrl)}" alt="${escapeHtml(gif.title)}">`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(gif.title)} | Saucy</title>
+    <style>
+        html, body { margin: 0; height: 100%; background: #0a0a0b; overflow: hidden; }
+        video, img { width: 100%; height: 100%; object-fit: contain; display: block; }
+        a { position: fixed; right: 8px; bottom: 6px; color: #fff; opacity: .7; font: 600 11px sans-serif; text-decoration: none; }
+    </style>
+</head>
+<body>
+    ${media}
+    <a href="${escapeHtml(gifPageUrl(gif.id))}" target="_blank" rel="noopener">Saucy</a>
+</body>
+</html>`;
+}
+
+/**
+ * oEmbed response: a "video" iframe when there's a video rendition, a "photo" of the GIF otherwise.
+ * Dimensions are scaled down (keeping the aspect ratio) to fit maxwidth/maxheight.
+ */
+function generateOembed(gif: UnfurlGif, maxWidth: number, maxHeight: number): Record<string, unknown> {
+    const scale = Math.min(1, maxWidth / gif.width, maxHeight / gif.height);
+    const width = Math.max(1, Math.round(gif.width * scale));
+    const height = Math.max(1, Math.round(gif.height * scale));
+
+    const common = {
+        version: '1.0',
+        title: gif.title,
+        provider_name: 'Saucy',
+        provider_url: SITE_URL,
+        cache_age: Math.round(RESOLVE_TTL_MS / 1000),
+        thumbnail_url: gif.thumbnailUrl || gif.gifUrl,
+        thumbnail_width: width,
+        thumbnail_height: height,
+        width,
+        height
+    };
+
+    if (gif.videos.length === 0) {
+        return { ...common, type: 'photo', url: gif.gifUrl };
+    }
+    return {
+        ...common,
+        type: 'video',
+        html: `<iframe src="${escapeHtml(playerUrl(gif.id))}" width="${width}" height="${height}" frameborder="0" allow="autoplay; fullscreen" allowfullscreen></iframe>`
+    };
+}
+
+/**
+ * Pull the GIF id out of an oEmbed `url` param (must be one of our /gif/:id links)
+ */
+function gifIdFromUrl(raw: string): string | null {
+    try {
+        const url = new URL(raw);
+        if (url.host !== new URL(SITE_URL).host && !url.host.endsWith('.web.app') && !url.host.endsWith('.firebaseapp.com')) {
+            return null;
+        }
+        const match = url.pathname.match(/^\/gif\/([^/]+)\/?$/);
+        return match ? decodeURIComponent(match[1]) : null;
+    } catch {
+        return null;
+    }
+}
+
+// ============================================
+// ROUTES
+// ============================================
+
+const app = express();
+
+/**
+ * Handle /gif/:id requests
+ * - For crawlers: Return HTML with dynamic OG meta tags
+ * - For regular users: Serve the production index.html (let React Router handle it)
+ */
+app.get('/gif/:id', async (req: Request, res: Response) => {
+    const gifId = String(req.params.id);
+    const userAgent = req.get('User-Agent') || '';
+
+    console.log(`GIF request: ${gifId}, UA: ${userAgent.substring(0, 50)}...`);
+
+    // Same URL, different body for crawlers - keep CDN copies apart
+    res.set('Vary', 'User-Agent');
+
+    // For regular users (not crawlers), serve the SPA index.html
+    if (!isCrawler(userAgent)) {
+        try {
+            // Fetch the production index.html from hosting
+            const indexResponse = await fetch(`${SITE_URL}/index.html`);
+            if (indexResponse.ok) {
+                const html = await indexResponse.text();
+                res.set('Content-Type', 'text/html');
+                res.set('Cache-Control', 'public, max-age=60');
+                return res.send(html);
+            }
+        } catch (error) {
+            console.error('Error fetching index.html:', error);
+        }
+
+        // Fallback: redirect to home page if fetching fails
+        return res.redirect(302, `${SITE_URL}/`);
+    }
+
+    // For crawlers, inject dynamic OG meta tags
+    console.log(`Crawler detected: ${userAgent.substring(0, 30)}...`);
+
+    try {
+        const html = await renderCached(`html:${gifId}`, async () => {
+            const gif = await resolveGif(gifId);
+            return gif ? generateCrawlerHtml(gif) : null;
+        });
+
+        res.set('Content-Type', 'text/html');
+        if (!html) {
+            console.log(`GIF not found: ${gifId}`);
+            res.set('Cache-Control', MISSING_CACHE_CONTROL);
+            return res.send(getDefaultCrawlerHtml());
+        }
+        res.set('Cache-Control', 'public, max-age=300, s-maxage=3600');
+        return res.send(html);
+    } catch (error) {
+        console.error('Error processing GIF request:', error);
+        res.set('Content-Type', 'text/html');
+        return res.send(getDefaultCrawlerHtml());
+    }
+});
+
+app.get('/gif/:id/player', async (req: Request, res: Response) => {
+    const gifId = String(req.params.id);
+    try {
+        const html = await renderCached(`player:${gifId}`, async () => {
+            const gif = await resolveGif(gifId);
+            return gif ? generatePlayerHtml(gif) : null;
+        });
+        if (!html) {
+            res.set('Cache-Control', MISSING_CACHE_CONTROL);
+            return res.status(404).send('GIF not found');
+        }
+
+        res.set('Content-Type', 'text/html');
+        res.set('Cache-Control', 'public, max-age=3600, s-maxage=86400');
+        return res.send(html);
+    } catch (error) {
+        console.error('Error rendering player:', error);
+        return res.status(500).send('Player unavailable');
+    }
+});
+
+app.get('/oembed', async (req: Request, res: Response) => {
+    res.set('Access-Control-Allow-Origin', '*');
+
+    const format = String(req.query.format || 'json');
+    if (format !== 'json') return res.status(501).json({ error: 'Only format=json is supported' });
+
+    const gifId = gifIdFromUrl(String(req.query.url || ''));
+    if (!gifId) return res.status(404).json({ error: 'Not a Saucy GIF link' });
+
+    const maxWidth = Math.min(MAX_EMBED_SIZE, toSize(req.query.maxwidth || MAX_EMBED_SIZE));
+    const maxHeight = Math.min(MAX_EMBED_SIZE, toSize(req.query.maxheight || MAX_EMBED_SIZE));
+
+    try {
+        const body = await renderCached(`oembed:${gifId}:${maxWidth}x${maxHeight}`, async () => {
+            const gif = await resolveGif(gifId);
+            return gif ? JSON.stringify(generateOembed(gif, maxWidth, maxHeight)) : null;
+        });
+        if (!body) {
+            res.set('Cache-Control', MISSING_CACHE_CONTROL);
+            return res.status(404).json({ error: 'GIF not found' });
+        }
+
+        res.set('Content-Type', 'application/json; charset=utf-8');
+        res.set('Cache-Control', 'public, max-age=3600, s-maxage=86400');
+        return res.send(body);
+    } catch (error) {
+        console.error('Error rendering oEmbed:', error);
+        return res.status(500).json({ error: 'oEmbed unavailable' });
+    }
+});
+
+// Served through the /gif/** and /oembed hosting rewrites
+export const ogMeta = functions.https.onRequest(app);
@@ -15,3 +15,13 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// Offline Sauce Box (app shell + cached favorite GIFs) - production builds only,
+// so the dev server's module reloads never get served from a stale cache
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Service worker registration failed:', error);
+    });
+  });
+}
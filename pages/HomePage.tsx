@@ -37,7 +37,8 @@ import { signInWithGoogle, signOut, initAuthListener } from '../services/authSer
 import { ensureUserProfile, UserProfile } from '../services/userProfileService';
 import { searchKlipy, getTrendingKlipy, isKlipyConfigured, KlipyItem } from '../services/klipyService';
 import { trackDownload, trackSearch, trackPageView } from '../services/analyticsService';
-import { toggleFavorite, isFavorited } from '../services/favoritesService';
+import { toggleFavorite, isFavorited, recordFavoriteUse } from '../services/favoritesService';
+import { isOffline, isCachedFavorite, queueFavoriteToggle, cacheGif } from '../services/offlineFavorites';
 import MemeEditor from '../components/MemeEditor';
 import SauceShowdown from '../components/SauceShowdown';
 import { subscribeToSettings } from '../services/settingsService';
@@ -604,7 +605,9 @@ export default function HomePage() {
 
     const checkFavoriteStatus = async () => {
         if (!selectedGif || !user) return;
-        const status = await isFavorited(user.uid, selectedGif.id);
+        const status = isOffline()
+            ? await isCachedFavorite(user.uid, selectedGif.id)
+            : await isFavorited(user.uid, selectedGif.id);
         setIsFavorite(status);
     };
 
@@ -619,8 +622,12 @@ export default function HomePage() {
 
         setTogglingFavorite(true);
         try {
-            const status = await toggleFavorite(user.uid, selectedGif);
+            // Offline taps are queued and synced to the Sauce Box on reconnect
+            const status = isOffline()
+                ? await queueFavoriteToggle(user.uid, selectedGif, !isFavorite)
+                : await toggleFavorite(user.uid, selectedGif);
             setIsFavorite(status);
+            if (status) cacheGif(selectedGif.url);
         } catch (error) {
             console.error('Failed to toggle favorite:', error);
         } finally {
@@ -1014,9 +1021,17 @@ export default function HomePage() {
         return true;
     };
 
+    // Downloads, copies and shares of an open favorite feed the Sauce Box "last/most used" sorts
+    const noteFavoriteUse = (gif: LibraryGIF) => {
+        if (user && isFavorite && selectedGif?.id === gif.id) {
+            recordFavoriteUse(user.uid, gif.id);
+        }
+    };
+
     const handleDownload = async (gif: LibraryGIF, e?: React.MouseEvent) => {
         if (!requireAuth('download', gif, e)) return;
         setDownloading(gif.id);
+        noteFavoriteUse(gif);
         try {
             // Track download for analytics
             trackDownload({
@@ -1057,6 +1072,7 @@ export default function HomePage() {
             // Copy the Saucy share URL, not the raw API URL
             const shareUrl = getSaucyShareUrl(gif);
             await navigator.clipboard.writeText(shareUrl);
+            noteFavoriteUse(gif);
         } catch (error) {
             console.error('Copy failed:', error);
         }
@@ -1074,6 +1090,7 @@ export default function HomePage() {
                 text: `${gif.title || 'Awesome GIF'} - Found on Saucy, the Spotify of GIFs`,
                 url: shareUrl
             });
+            noteFavoriteUse(gif);
         } else {
             await handleCopy(gif, e);
         }
@@ -0,0 +1,82 @@
+/**
+ * Join Invite - redeems a collection or team invite link (/saucebox/join/:kind/:targetId/:token)
+ *
+ * Signed-out visitors sign in first, then the invite is accepted and they land in their Sauce Box.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { Loader2, Users, AlertCircle } from 'lucide-react';
+import AuthModal from '../components/AuthModal';
+import { getCurrentUser } from '../services/authService';
+import { acceptInvite, InviteKind } from '../services/favoritesService';
+
+export default function JoinInvite() {
+    const { kind, targetId, token } = useParams<{ kind: string; targetId: string; token: string }>();
+    const [signedIn, setSignedIn] = useState(!!getCurrentUser());
+    const [showAuth, setShowAuth] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const navigate = useNavigate();
+
+    useEffect(() => {
+        if (!signedIn) {
+            setShowAuth(true);
+            return;
+        }
+        if ((kind !== 'collection' && kind !== 'team') || !targetId || !token) {
+            setError('This invite link is broken.');
+            return;
+        }
+
+        acceptInvite(kind as InviteKind, targetId, token)
+            .then(() => navigate('/saucebox', { replace: true }))
+            .catch(err => {
+                console.error('Failed to accept invite:', err);
+                setError(err instanceof Error && err.message ? err.message : 'This invite link is no longer valid.');
+            });
+    }, [signedIn, kind, targetId, token]);
+
+    return (
+        <div className="min-h-screen bg-[#0a0a0b] text-white flex flex-col items-center justify-center p-4 text-center">
+            <div className="w-20 h-20 bg-white/5 rounded-full flex items-center justify-center mb-6">
+                {error ? <AlertCircle className="w-10 h-10 text-red-500" /> : <Users className="w-10 h-10 text-slate-500" />}
+            </div>
+            {error ? (
+                <>
+                    <h1 className="text-2xl font-bold mb-2">Couldn't join</h1>
+                    <p className="text-slate-400 max-w-xs mb-8">{error}</p>
+                    <Link to="/saucebox" className="px-8 py-3 bg-red-600 rounded-2xl font-bold hover:bg-red-500 transition-all">
+                        Go to my Sauce Box
+                    </Link>
+                </>
+            ) : signedIn ? (
+                <>
+                    <Loader2 className="w-6 h-6 text-red-500 animate-spin mb-3" />
+                    <p className="text-slate-400">Joining...</p>
+                </>
+            ) : (
+                <>
+                    <h1 className="text-2xl font-bold mb-2">You've been invited</h1>
+                    <p className="text-slate-400 max-w-xs mb-8">
+                        Sign in to join this {kind === 'team' ? 'team' : 'Sauce Box collection'}.
+                    </p>
+                    <button
+                        onClick={() => setShowAuth(true)}
+                        className="px-8 py-3 bg-red-600 rounded-2xl font-bold hover:bg-red-500 transition-all"
+                    >
+                        Sign in
+                    </button>
+                </>
+            )}
+
+            <AuthModal
+                isOpen={showAuth}
+                onClose={() => setShowAuth(false)}
+                onSuccess={() => {
+                    setShowAuth(false);
+                    setSignedIn(true);
+                }}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,116 @@
+/**
+ * Leaderboard - Sauce Sense rankings and the signed-in user's showdown record
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { Trophy, ChevronLeft, Check, X, Flame, Zap } from 'lucide-react';
+import { getCurrentUser } from '../services/authService';
+import {
+    getUserSauceStats,
+    getSauceHistory,
+    UserSauceStats,
+    SauceHistoryEntry
+} from '../services/showdownService';
+import SauceLeaderboard from '../components/SauceLeaderboard';
+
+export default function Leaderboard() {
+    const [stats, setStats] = useState<UserSauceStats | null>(null);
+    const [history, setHistory] = useState<SauceHistoryEntry[]>([]);
+    const navigate = useNavigate();
+    const user = getCurrentUser();
+
+    useEffect(() => {
+        if (!user) return;
+        getUserSauceStats(user.uid).then(setStats);
+        getSauceHistory(user.uid, 10).then(setHistory);
+    }, [user?.uid]);
+
+    return (
+        <div className="min-h-screen bg-[#0a0a0b] text-white">
+            {/* Header */}
+            <header className="sticky top-0 z-40 bg-[#0a0a0b]/80 backdrop-blur-xl border-b border-white/5 px-4 h-20 flex items-center justify-between">
+                <div className="flex items-center gap-4">
+                    <button
+                        onClick={() => navigate('/')}
+                        className="p-2 hover:bg-white/5 rounded-full transition-colors"
+                    >
+                        <ChevronLeft className="w-6 h-6" />
+                    </button>
+                    <div>
+                        <h1 className="text-xl font-bold flex items-center gap-2">
+                            <Trophy className="w-5 h-5 text-amber-400" />
+                            Sauce Sense Leaderboard
+                        </h1>
+                        <p className="text-xs text-slate-500 font-medium">
+                            CALL THE WINNER, CLIMB THE BOARD
+                        </p>
+                    </div>
+                </div>
+
+                <Link to="/" className="text-sm font-semibold text-red-500 hover:text-red-400 transition-colors">
+                    Vote Today
+                </Link>
+            </header>
+
+            <main className="p-4 max-w-3xl mx-auto space-y-6">
+                {/* How scoring works */}
+                <p className="text-sm text-slate-400">
+                    Back the winning GIF for 10 points. Call it while your pick was trailing and it's doubled.
+                    Every consecutive correct pick adds a streak bonus of 2 more, up to 20.
+                </p>
+
+                {user && stats && (
+                    <div className="rounded-2xl bg-white/5 border border-white/10 p-4">
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                            {[
+                                { label: 'Sauce Sense', value: stats.sauceSenseScore.toLocaleString() },
+                                { label: 'Correct Picks', value: `${stats.correctPicks}/${stats.totalVotes}` },
+                                { label: 'Current Streak', value: stats.streak },
+                                { label: 'Best Streak', value: stats.bestStreak }
+                            ].map(({ label, value }) => (
+                                <div key={label} className="text-center">
+                                    <p className="text-xl font-bold">{value}</p>
+                                    <p className="text-[10px] uppercase tracking-wider text-slate-500">{label}</p>
+                                </div>
+                            ))}
+                        </div>
+
+                        {history.length > 0 && (
+                            <ul className="mt-4 pt-4 border-t border-white/10 space-y-2">
+                                {history.map(entry => (
+                                    <li key={entry.showdownId} className="flex items-center gap-3 text-sm">
+                                        {entry.correct ? (
+                                            <Check className="w-4 h-4 text-green-400" />
+                                        ) : (
+                                            <X className={`w-4 h-4 ${entry.winner ? 'text-red-400' : 'text-slate-500'}`} />
+                                        )}
+                                        <span className="flex-1 text-slate-300">
+                                            {entry.showdownId}
+                                            <span className="text-slate-500">
+                                                {' · '}{entry.winner ? `picked ${entry.votedFor === 'A' ? 'Challenger' : 'Defender'}` : 'tie'}
+                                            </span>
+                                        </span>
+                                        {entry.underdog && (
+                                            <span className="flex items-center gap-1 text-[11px] font-bold text-amber-400">
+                                                <Zap className="w-3 h-3" /> Underdog
+                                            </span>
+                                        )}
+                                        {entry.correct && entry.streak > 1 && (
+                                            <span className="flex items-center gap-1 text-[11px] font-bold text-orange-400">
+                                                <Flame className="w-3 h-3" /> {entry.streak}
+                                            </span>
+                                        )}
+                                        <span className="w-12 text-right font-bold">+{entry.points}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                )}
+
+                <SauceLeaderboard pageSize={25} currentUserId={user?.uid} />
+            </main>
+        </div>
+    );
+}
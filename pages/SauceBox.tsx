@@ -1,18 +1,103 @@
 /**
  * Sauce Box - User's favorite GIFs
+ *
+ * - Named collections ("standup reactions", "Friday vibes"...) alongside "All"
+ * - Personal tags and notes on each saved GIF; search matches titles, tags and notes (#tag for tags only)
+ * - Sort by manual order (drag to reorder), date saved, last used or most used
+ * - Multi-select to move GIFs between collections or remove them
+ * - Collections can be public (read-only link), shared with editors/viewers or owned by a team,
+ *   with invite links and an activity feed
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
-import { Heart, Search, ChevronLeft, Download, Copy, Share2, Loader2, Trash2 } from 'lucide-react';
+import {
+    Heart, Search, ChevronLeft, Download, Copy, Share2, Loader2, Trash2, X, Plus,
+    FolderPlus, Folder, Pencil, CheckSquare, Square, GripVertical, Tag, StickyNote, Check,
+    Globe, Users, Activity, LogOut, WifiOff, ArrowDownUp
+} from 'lucide-react';
 import { getCurrentUser } from '../services/authService';
-import { getUserFavorites, toggleFavorite } from '../services/favoritesService';
+import {
+    getUserFavorites,
+    removeFavorites,
+    updateFavoriteDetails,
+    setFavoriteOrder,
+    recordFavoriteUse,
+    toggleFavorite,
+    getUserCollections,
+    getUserTeams,
+    getCollectionCounts,
+    createCollection,
+    renameCollection,
+    deleteCollection,
+    getCollectionItems,
+    moveToCollection,
+    removeFromCollection,
+    setCollectionItemOrder,
+    leaveCollection,
+    itemToFavorite,
+    sortFavorites,
+    matchesFavorite,
+    orderBetween,
+    normalizeTags,
+    FavoriteGif,
+    FavoriteSort,
+    SauceCollection,
+    SauceTeam,
+    CollectionItem,
+    MAX_NOTE_LENGTH
+} from '../services/favoritesService';
+import { LibraryGIF } from '../services/gifLibraryService';
 import { trackDownload } from '../services/analyticsService';
+import { ShareCollectionModal, TeamsModal, CollectionActivityFeed } from '../components/CollectionSharing';
+import { SauceBoxTransferModal } from '../components/SauceBoxTransfer';
+import {
+    isOffline,
+    onConnectivityChange,
+    cacheFavorites,
+    getCachedFavorites,
+    cacheGif,
+    getCachedGifBlob,
+    queueFavoriteToggle,
+    syncPendingToggles
+} from '../services/offlineFavorites';
+
+const SORT_OPTIONS: { id: FavoriteSort; label: string }[] = [
+    { id: 'custom', label: 'My order' },
+    { id: 'saved', label: 'Date saved' },
+    { id: 'lastUsed', label: 'Last used' },
+    { id: 'mostUsed', label: 'Most used' },
+];
 
 export default function SauceBox() {
-    const [favorites, setFavorites] = useState<any[]>([]);
+    const [favorites, setFavorites] = useState<FavoriteGif[]>([]);
+    const [collections, setCollections] = useState<SauceCollection[]>([]);
+    const [teams, setTeams] = useState<SauceTeam[]>([]);
+    const [collectionCounts, setCollectionCounts] = useState<Map<string, number>>(new Map());
     const [loading, setLoading] = useState(true);
-    const [selectedGif, setSelectedGif] = useState<any | null>(null);
+    const [offline, setOffline] = useState(isOffline());
+
+    // View
+    const [activeCollectionId, setActiveCollectionId] = useState<string | null>(null);
+    const [collectionItems, setCollectionItems] = useState<Map<string, CollectionItem>>(new Map());
+    const [loadingItems, setLoadingItems] = useState(false);
+    const [search, setSearch] = useState('');
+    const [sort, setSort] = useState<FavoriteSort>('custom');
+
+    // Selection & drag
+    const [selecting, setSelecting] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [draggingId, setDraggingId] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    // Sharing
+    const [showShare, setShowShare] = useState(false);
+    const [showTeams, setShowTeams] = useState(false);
+    const [showTransfer, setShowTransfer] = useState(false);
+    const [showActivity, setShowActivity] = useState(false);
+    const [activityKey, setActivityKey] = useState(0);
+
+    const [selectedGif, setSelectedGif] = useState<FavoriteGif | null>(null);
     const [downloading, setDownloading] = useState<string | null>(null);
     const navigate = useNavigate();
     const user = getCurrentUser();
@@ -25,12 +110,56 @@ export default function SauceBox() {
         loadFavorites();
     }, [user, navigate]);
 
+    // Offline we show the cached Sauce Box; on reconnect, sync queued taps and reload
+    useEffect(() => {
+        if (!user) return;
+        return onConnectivityChange(async (nowOffline) => {
+            setOffline(nowOffline);
+            if (!nowOffline) {
+                await syncPendingToggles(user.uid);
+                loadFavorites();
+            }
+        });
+    }, [user?.uid]);
+
+    // Opening a GIF makes it the most recently used in the offline cache
+    useEffect(() => {
+        if (selectedGif && !selectedGif.unsaved && !offline) {
+            cacheGif(selectedGif.gifUrl);
+        }
+    }, [selectedGif?.gifId]);
+
+    // Collection views need the collection's own membership and order
+    useEffect(() => {
+        setSelectedIds(new Set());
+        setShowActivity(false);
+        if (!activeCollectionId) {
+            setCollectionItems(new Map());
+            return;
+        }
+        setLoadingItems(true);
+        getCollectionItems(activeCollectionId)
+            .then(setCollectionItems)
+            .catch(error => console.error('Failed to load collection:', error))
+            .finally(() => setLoadingItems(false));
+    }, [activeCollectionId]);
+
     const loadFavorites = async () => {
         if (!user) return;
         setLoading(true);
         try {
-            const data = await getUserFavorites(user.uid);
-            setFavorites(data);
+            if (isOffline()) {
+                setFavorites(await getCachedFavorites(user.uid));
+                setCollections([]);
+                setActiveCollectionId(null);
+                return;
+            }
+            const [favs] = await Promise.all([
+                getUserFavorites(user.uid),
+                loadCollections()
+            ]);
+            setFavorites(favs);
+            cacheFavorites(user.uid, favs);
         } catch (error) {
             console.error('Failed to load favorites:', error);
         } finally {
@@ -38,25 +167,288 @@ export default function SauceBox() {
         }
     };
 
-    const handleRemoveFavorite = async (gifId: string, gif: any, e: React.MouseEvent) => {
+    // Teams first: team-owned collections are found through them
+    const loadCollections = async () => {
+        if (!user) return;
+        const myTeams = await getUserTeams(user.uid);
+        const cols = await getUserCollections(user.uid, myTeams);
+        setTeams(myTeams);
+        setCollections(cols);
+        setCollectionCounts(await getCollectionCounts(cols.map(c => c.id)));
+        if (activeCollectionId && !cols.some(c => c.id === activeCollectionId)) {
+            setActiveCollectionId(null);
+        }
+    };
+
+    const refreshCounts = async (collectionIds: string[]) => {
+        const fresh = await getCollectionCounts(collectionIds);
+        setCollectionCounts(prev => new Map([...prev, ...fresh]));
+    };
+
+    const activeCollection = collections.find(c => c.id === activeCollectionId) || null;
+    const canEdit = !offline && (!activeCollection || activeCollection.access !== 'viewer');
+    const canManage = activeCollection?.access === 'owner';
+
+    const favoritesByGif = useMemo(() => new Map(favorites.map(f => [f.gifId, f])), [favorites]);
+
+    const visibleFavorites = useMemo(() => {
+        // Shared collections hold GIFs other members saved - show those from the collection's own copy
+        const inView = activeCollectionId
+            ? [...collectionItems.values()]
+                .map(item => favoritesByGif.get(item.gifId) || itemToFavorite(item))
+                .filter((f): f is FavoriteGif => f !== null)
+            : favorites;
+        const customOrder = activeCollectionId
+            ? new Map([...collectionItems.values()].map(item => [item.gifId, item.order]))
+            : undefined;
+        return sortFavorites(inView.filter(f => matchesFavorite(f, search)), sort, customOrder);
+    }, [favorites, favoritesByGif, activeCollectionId, collectionItems, search, sort]);
+
+    // Dragging only makes sense over the full manual order
+    const canReorder = canEdit && sort === 'custom' && !search.trim() && !selecting;
+
+    const patchFavorites = (gifIds: Set<string>, patch: (f: FavoriteGif) => FavoriteGif) => {
+        setFavorites(prev => prev.map(f => (gifIds.has(f.gifId) ? patch(f) : f)));
+        setSelectedGif(prev => (prev && gifIds.has(prev.gifId) ? patch(prev) : prev));
+    };
+
+    // =========================================================================
+    // COLLECTIONS
+    // =========================================================================
+
+    const handleCreateCollection = async () => {
+        if (!user) return;
+        const name = prompt('Name your collection (e.g. "standup reactions")');
+        if (!name) return;
+        try {
+            const owned = collections.filter(c => c.ownerId === user.uid).length;
+            const created = await createCollection(user.uid, name, owned);
+            setCollections([...collections, created].sort((a, b) => a.name.localeCompare(b.name)));
+            setCollectionCounts(prev => new Map(prev).set(created.id, 0));
+            setActiveCollectionId(created.id);
+        } catch (error) {
+            console.error('Failed to create collection:', error);
+            alert(error instanceof Error ? error.message : 'Failed to create collection.');
+        }
+    };
+
+    const handleRenameCollection = async () => {
+        if (!activeCollection) return;
+        const name = prompt('Rename collection', activeCollection.name);
+        if (!name || name.trim() === activeCollection.name) return;
+        try {
+            await renameCollection(activeCollection.id, name);
+            setCollections(collections
+                .map(c => (c.id === activeCollection.id ? { ...c, name: name.trim().slice(0, 60) } : c))
+                .sort((a, b) => a.name.localeCompare(b.name)));
+        } catch (error) {
+            console.error('Failed to rename collection:', error);
+            alert(error instanceof Error ? error.message : 'Failed to rename collection.');
+        }
+    };
+
+    const handleDeleteCollection = async () => {
+        if (!user || !activeCollection) return;
+        if (!confirm(`Delete "${activeCollection.name}"? The GIFs stay in your Sauce Box.`)) return;
+        setBusy(true);
+        try {
+            await deleteCollection(user.uid, activeCollection.id, favorites);
+            const id = activeCollection.id;
+            setCollections(collections.filter(c => c.id !== id));
+            setFavorites(prev => prev.map(f => ({ ...f, collectionIds: f.collectionIds.filter(c => c !== id) })));
+            setActiveCollectionId(null);
+        } catch (error) {
+            console.error('Failed to delete collection:', error);
+            alert('Failed to delete collection.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleLeaveCollection = async () => {
+        if (!user || !activeCollection) return;
+        if (!confirm(`Leave "${activeCollection.name}"?`)) return;
+        try {
+            await leaveCollection(activeCollection.id, user.uid);
+            setCollections(collections.filter(c => c.id !== activeCollection.id));
+            setActiveCollectionId(null);
+        } catch (error) {
+            console.error('Failed to leave collection:', error);
+            alert(error instanceof Error ? error.message : 'Failed to leave collection.');
+        }
+    };
+
+    // =========================================================================
+    // SELECTION
+    // =========================================================================
+
+    const toggleSelect = (gifId: string) => {
+        const next = new Set(selectedIds);
+        if (next.has(gifId)) next.delete(gifId);
+        else next.add(gifId);
+        setSelectedIds(next);
+    };
+
+    const toggleSelectAll = () => {
+        if (selectedIds.size === visibleFavorites.length) {
+            setSelectedIds(new Set());
+        } else {
+            setSelectedIds(new Set(visibleFavorites.map(f => f.gifId)));
+        }
+    };
+
+    const exitSelecting = () => {
+        setSelecting(false);
+        setSelectedIds(new Set());
+    };
+
+    const selectedFavorites = () => visibleFavorites.filter(f => selectedIds.has(f.gifId));
+
+    const handleMoveSelected = async (targetId: string) => {
+        if (!user || !targetId || selectedIds.size === 0) return;
+        const picked = selectedFavorites();
+        const fromId = activeCollectionId || undefined;
+
+        setBusy(true);
+        try {
+            await moveToCollection(user.uid, picked, targetId, fromId);
+            const ids = new Set<string>(picked.map(f => f.gifId));
+            patchFavorites(ids, f => ({
+                ...f,
+                collectionIds: [...new Set([...f.collectionIds.filter(c => c !== fromId), targetId])]
+            }));
+            if (fromId) {
+                setCollectionItems(prev => {
+                    const next = new Map<string, CollectionItem>(prev);
+                    ids.forEach(id => next.delete(id));
+                    return next;
+                });
+                setActivityKey(k => k + 1);
+            }
+            refreshCounts(fromId ? [targetId, fromId] : [targetId]);
+            exitSelecting();
+        } catch (error) {
+            console.error('Failed to move GIFs:', error);
+            alert('Failed to move GIFs. Please try again.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleRemoveSelected = async () => {
+        if (!user || selectedIds.size === 0) return;
+        const picked = selectedFavorites();
+        const ids = new Set<string>(picked.map(f => f.gifId));
+
+        if (activeCollection) {
+            if (!confirm(`Remove ${picked.length} GIFs from "${activeCollection.name}"?`)) return;
+        } else if (!confirm(`Remove ${picked.length} GIFs from your Sauce Box?`)) {
+            return;
+        }
+
+        setBusy(true);
+        try {
+            if (activeCollection) {
+                await removeFromCollection(user.uid, picked, activeCollection.id);
+                patchFavorites(ids, f => ({ ...f, collectionIds: f.collectionIds.filter(c => c !== activeCollection.id) }));
+                setCollectionItems(prev => {
+                    const next = new Map<string, CollectionItem>(prev);
+                    ids.forEach(id => next.delete(id));
+                    return next;
+                });
+                setActivityKey(k => k + 1);
+                refreshCounts([activeCollection.id]);
+            } else {
+                await removeFavorites(user.uid, picked.filter(f => !f.unsaved));
+                setFavorites(prev => prev.filter(f => !ids.has(f.gifId)));
+            }
+            exitSelecting();
+        } catch (error) {
+            console.error('Failed to remove GIFs:', error);
+            alert('Failed to remove GIFs. Please try again.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    // =========================================================================
+    // REORDER
+    // =========================================================================
+
+    const handleDrop = async (targetGifId: string) => {
+        const dragged = draggingId;
+        setDraggingId(null);
+        if (!user || !dragged || dragged === targetGifId) return;
+
+        const list = visibleFavorites.filter(f => f.gifId !== dragged);
+        const targetIndex = list.findIndex(f => f.gifId === targetGifId);
+        if (targetIndex === -1) return;
+
+        // Dropping onto an item takes its place: before it when moving up, after it when moving down
+        const fromIndex = visibleFavorites.findIndex(f => f.gifId === dragged);
+        const insertAt = fromIndex > visibleFavorites.findIndex(f => f.gifId === targetGifId) ? targetIndex : targetIndex + 1;
+        const orderOf = (f?: FavoriteGif) => {
+            if (!f) return undefined;
+            return activeCollectionId ? collectionItems.get(f.gifId)?.order : f.order;
+        };
+        const order = orderBetween(orderOf(list[insertAt - 1]), orderOf(list[insertAt]));
+
+        try {
+            if (activeCollectionId) {
+                setCollectionItems(prev => {
+                    const next = new Map<string, CollectionItem>(prev);
+                    const item = next.get(dragged);
+                    if (item) next.set(dragged, { ...item, order });
+                    return next;
+                });
+                await setCollectionItemOrder(activeCollectionId, dragged, order);
+            } else {
+                patchFavorites(new Set([dragged]), f => ({ ...f, order }));
+                await setFavoriteOrder(user.uid, dragged, order);
+            }
+        } catch (error) {
+            console.error('Failed to reorder:', error);
+        }
+    };
+
+    // =========================================================================
+    // GIF ACTIONS
+    // =========================================================================
+
+    const noteUse = (gif: FavoriteGif) => {
+        if (!user) return;
+        recordFavoriteUse(user.uid, gif.gifId);
+        patchFavorites(new Set([gif.gifId]), f => ({ ...f, useCount: f.useCount + 1, lastUsedAt: new Date() }));
+    };
+
+    const handleRemoveFavorite = async (gif: FavoriteGif, e: React.MouseEvent) => {
         e.stopPropagation();
         if (!user) return;
 
         try {
-            await toggleFavorite(user.uid, { id: gifId, url: gif.gifUrl } as any);
-            setFavorites(favorites.filter(f => f.gifId !== gifId));
-            if (selectedGif?.gifId === gifId) setSelectedGif(null);
+            if (offline) {
+                await queueFavoriteToggle(user.uid, {
+                    id: gif.gifId,
+                    url: gif.gifUrl,
+                    thumbnailUrl: gif.gifThumbnail,
+                    title: gif.gifTitle
+                } as LibraryGIF, false);
+            } else {
+                await removeFavorites(user.uid, [gif]);
+            }
+            setFavorites(favorites.filter(f => f.gifId !== gif.gifId));
+            if (selectedGif?.gifId === gif.gifId) setSelectedGif(null);
         } catch (error) {
             console.error('Failed to remove favorite:', error);
         }
     };
 
-    const handleDownload = async (gif: any, e: React.MouseEvent) => {
+    const handleDownload = async (gif: FavoriteGif, e: React.MouseEvent) => {
         e.stopPropagation();
         setDownloading(gif.gifId);
         try {
-            const response = await fetch(gif.gifUrl);
-            const blob = await response.blob();
+            const blob = (offline && await getCachedGifBlob(gif.gifUrl))
+                || await (await fetch(gif.gifUrl)).blob();
             const url = window.URL.createObjectURL(blob);
             const a = document.createElement('a');
             a.href = url;
@@ -65,6 +457,7 @@ export default function SauceBox() {
             a.click();
             window.URL.revokeObjectURL(url);
             document.body.removeChild(a);
+            noteUse(gif);
 
             // Track analytics
             await trackDownload({
@@ -80,6 +473,57 @@ export default function SauceBox() {
         }
     };
 
+    const shareUrl = (gif: FavoriteGif) => `${window.location.origin}/gif/${encodeURIComponent(gif.gifId)}`;
+
+    const handleCopy = async (gif: FavoriteGif) => {
+        try {
+            await navigator.clipboard.writeText(shareUrl(gif));
+            noteUse(gif);
+        } catch (error) {
+            console.error('Copy failed:', error);
+        }
+    };
+
+    const handleShare = async (gif: FavoriteGif) => {
+        if (!navigator.share) {
+            await handleCopy(gif);
+            return;
+        }
+        try {
+            await navigator.share({
+                title: gif.gifTitle || 'Check out this GIF on Saucy! 🔥',
+                url: shareUrl(gif)
+            });
+            noteUse(gif);
+        } catch (error) {
+            console.error('Share failed:', error);
+        }
+    };
+
+    // Save a shared collection's GIF into the user's own Sauce Box
+    const handleSaveToBox = async (gif: FavoriteGif) => {
+        if (!user) return;
+        try {
+            await toggleFavorite(user.uid, {
+                id: gif.gifId,
+                url: gif.gifUrl,
+                thumbnailUrl: gif.gifThumbnail,
+                title: gif.gifTitle
+            } as LibraryGIF);
+            const favs = await getUserFavorites(user.uid);
+            setFavorites(favs);
+            setSelectedGif(favs.find(f => f.gifId === gif.gifId) || null);
+        } catch (error) {
+            console.error('Failed to save GIF:', error);
+        }
+    };
+
+    const handleSaveDetails = async (gif: FavoriteGif, tags: string[], note: string) => {
+        if (!user) return;
+        const saved = await updateFavoriteDetails(user.uid, gif.gifId, { tags, note });
+        patchFavorites(new Set([gif.gifId]), f => ({ ...f, ...saved }));
+    };
+
     if (loading) {
         return (
             <div className="min-h-screen bg-black flex items-center justify-center">
@@ -110,13 +554,31 @@ export default function SauceBox() {
                     </div>
                 </div>
 
-                <Link to="/" className="text-sm font-semibold text-red-500 hover:text-red-400 transition-colors">
-                    Find More
-                </Link>
+                <div className="flex items-center gap-3">
+                    {!offline && (
+                        <button
+                            onClick={() => setShowTransfer(true)}
+                            className="p-2 hover:bg-white/5 rounded-full text-slate-400 hover:text-white transition-colors"
+                            title="Import & export"
+                        >
+                            <ArrowDownUp className="w-5 h-5" />
+                        </button>
+                    )}
+                    <Link to="/" className="text-sm font-semibold text-red-500 hover:text-red-400 transition-colors">
+                        Find More
+                    </Link>
+                </div>
             </header>
 
             <main className="p-4 max-w-7xl mx-auto">
-                {favorites.length === 0 ? (
+                {offline && (
+                    <div className="flex items-center gap-2 mb-4 px-4 py-3 bg-amber-500/10 border border-amber-500/20 rounded-2xl text-sm text-amber-300">
+                        <WifiOff className="w-4 h-4 shrink-0" />
+                        You're offline - showing your saved GIFs. Removals sync when you're back online.
+                    </div>
+                )}
+
+                {favorites.length === 0 && collections.length === 0 ? (
                     <div className="flex flex-col items-center justify-center py-24 text-center">
                         <div className="w-20 h-20 bg-white/5 rounded-full flex items-center justify-center mb-6">
                             <Heart className="w-10 h-10 text-slate-700" />
@@ -133,42 +595,504 @@ export default function SauceBox() {
                         </Link>
                     </div>
                 ) : (
-                    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
-                        {favorites.map((fav) => (
-                            <div
-                                key={fav.id}
-                                onClick={() => setSelectedGif(fav)}
-                                className="group relative aspect-square bg-white/5 rounded-2xl overflow-hidden border border-white/10 cursor-pointer hover:border-red-500/50 transition-all"
+                    <>
+                        {/* Collections */}
+                        <div className="flex items-center gap-2 overflow-x-auto pb-3 mb-3 border-b border-white/5">
+                            <button
+                                onClick={() => setActiveCollectionId(null)}
+                                className={`shrink-0 px-4 py-2 rounded-xl text-sm font-semibold transition-all ${!activeCollectionId
+                                    ? 'bg-red-600 text-white'
+                                    : 'bg-white/5 text-slate-400 hover:bg-white/10'
+                                    }`}
                             >
-                                <img
-                                    src={fav.gifThumbnail}
-                                    alt={fav.gifTitle}
-                                    className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110"
+                                All <span className="opacity-60">{favorites.length}</span>
+                            </button>
+                            {collections.map(c => (
+                                <button
+                                    key={c.id}
+                                    onClick={() => setActiveCollectionId(c.id)}
+                                    className={`shrink-0 flex items-center gap-1.5 px-4 py-2 rounded-xl text-sm font-semibold transition-all ${activeCollectionId === c.id
+                                        ? 'bg-red-600 text-white'
+                                        : 'bg-white/5 text-slate-400 hover:bg-white/10'
+                                        }`}
+                                >
+                                    {c.visibility === 'public'
+                                        ? <Globe className="w-3.5 h-3.5" />
+                                        : c.teamId || Object.keys(c.members).length > 0
+                                            ? <Users className="w-3.5 h-3.5" />
+                                            : <Folder className="w-3.5 h-3.5" />}
+                                    {c.name} <span className="opacity-60">{collectionCounts.get(c.id) || 0}</span>
+                                </button>
+                            ))}
+                            {!offline && (
+                                <>
+                                    <button
+                                        onClick={handleCreateCollection}
+                                        className="shrink-0 flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm text-slate-400 border border-dashed border-white/15 hover:text-white hover:border-white/30 transition-all"
+                                    >
+                                        <FolderPlus className="w-4 h-4" />
+                                        New collection
+                                    </button>
+                                    <button
+                                        onClick={() => setShowTeams(true)}
+                                        className="shrink-0 flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm text-slate-400 hover:text-white transition-all"
+                                    >
+                                        <Users className="w-4 h-4" />
+                                        Teams
+                                    </button>
+                                </>
+                            )}
+                        </div>
+
+                        {/* Toolbar */}
+                        <div className="flex flex-wrap items-center gap-2 mb-4">
+                            <div className="relative flex-1 min-w-[200px]">
+                                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+                                <input
+                                    type="text"
+                                    value={search}
+                                    onChange={(e) => setSearch(e.target.value)}
+                                    placeholder="Search titles, notes or #tags"
+                                    className="w-full pl-9 pr-3 py-2.5 bg-white/5 border border-white/10 rounded-xl text-sm placeholder-slate-500 focus:outline-none focus:border-red-500/50"
                                 />
-                                <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity p-3 flex flex-col justify-end">
-                                    <div className="flex justify-between items-center">
-                                        <button
-                                            onClick={(e) => handleRemoveFavorite(fav.gifId, fav, e)}
-                                            className="p-2 bg-red-500/20 backdrop-blur-md rounded-lg text-red-500 hover:bg-red-500 hover:text-white transition-all"
-                                            title="Remove from Sauce Box"
-                                        >
-                                            <Trash2 className="w-4 h-4" />
-                                        </button>
-                                        <button
-                                            onClick={(e) => handleDownload(fav, e)}
-                                            className="p-2 bg-white/10 backdrop-blur-md rounded-lg text-white hover:bg-white/20 transition-all shadow-lg"
-                                        >
-                                            <Download className="w-4 h-4" />
-                                        </button>
+                            </div>
+                            <select
+                                value={sort}
+                                onChange={(e) => setSort(e.target.value as FavoriteSort)}
+                                className="px-3 py-2.5 bg-transparent border border-white/10 rounded-xl text-sm focus:outline-none hover:border-red-500/50"
+                            >
+                                {SORT_OPTIONS.map(option => (
+                                    <option key={option.id} value={option.id} className="bg-[#0a0a0b]">{option.label}</option>
+                                ))}
+                            </select>
+                            {canEdit && (
+                                <button
+                                    onClick={() => (selecting ? exitSelecting() : setSelecting(true))}
+                                    className={`flex items-center gap-1.5 px-3 py-2.5 rounded-xl text-sm font-semibold transition-all ${selecting
+                                        ? 'bg-white text-black'
+                                        : 'bg-white/5 text-slate-300 hover:bg-white/10'
+                                        }`}
+                                >
+                                    <CheckSquare className="w-4 h-4" />
+                                    {selecting ? 'Done' : 'Select'}
+                                </button>
+                            )}
+                            {activeCollection && (
+                                <button
+                                    onClick={() => setShowActivity(!showActivity)}
+                                    className={`p-2.5 rounded-xl transition-all ${showActivity
+                                        ? 'bg-white text-black'
+                                        : 'bg-white/5 text-slate-400 hover:text-white hover:bg-white/10'
+                                        }`}
+                                    title="Activity"
+                                >
+                                    <Activity className="w-4 h-4" />
+                                </button>
+                            )}
+                            {activeCollection && !canManage && activeCollection.members[user!.uid] && (
+                                <button
+                                    onClick={handleLeaveCollection}
+                                    className="p-2.5 bg-white/5 rounded-xl text-slate-400 hover:text-red-400 hover:bg-white/10 transition-all"
+                                    title="Leave collection"
+                                >
+                                    <LogOut className="w-4 h-4" />
+                                </button>
+                            )}
+                            {activeCollection && canManage && (
+                                <>
+                                    <button
+                                        onClick={() => setShowShare(true)}
+                                        className="flex items-center gap-1.5 px-3 py-2.5 bg-white/5 rounded-xl text-sm font-semibold text-slate-300 hover:bg-white/10 transition-all"
+                                    >
+                                        <Share2 className="w-4 h-4" />
+                                        Share
+                                    </button>
+                                    <button
+                                        onClick={handleRenameCollection}
+                                        className="p-2.5 bg-white/5 rounded-xl text-slate-400 hover:text-white hover:bg-white/10 transition-all"
+                                        title="Rename collection"
+                                    >
+                                        <Pencil className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={handleDeleteCollection}
+                                        disabled={busy}
+                                        className="p-2.5 bg-white/5 rounded-xl text-slate-400 hover:text-red-400 hover:bg-white/10 disabled:opacity-50 transition-all"
+                                        title="Delete collection"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </>
+                            )}
+                        </div>
+
+                        {/* Bulk actions */}
+                        {selecting && (
+                            <div className="flex flex-wrap items-center gap-2 mb-4 p-3 bg-white/5 border border-white/10 rounded-2xl text-sm">
+                                <button
+                                    onClick={toggleSelectAll}
+                                    className="flex items-center gap-1.5 text-slate-300 hover:text-white"
+                                >
+                                    {selectedIds.size === visibleFavorites.length && visibleFavorites.length > 0
+                                        ? <CheckSquare className="w-4 h-4" />
+                                        : <Square className="w-4 h-4" />}
+                                    {selectedIds.size} selected
+                                </button>
+                                <div className="flex-1" />
+                                <select
+                                    value=""
+                                    disabled={busy || selectedIds.size === 0 || !collections.some(c => c.id !== activeCollectionId && c.access !== 'viewer')}
+                                    onChange={(e) => handleMoveSelected(e.target.value)}
+                                    className="px-3 py-2 bg-transparent border border-white/10 rounded-xl disabled:opacity-40"
+                                >
+                                    <option value="" className="bg-[#0a0a0b]">
+                                        {activeCollection ? 'Move to...' : 'Add to collection...'}
+                                    </option>
+                                    {collections.filter(c => c.id !== activeCollectionId && c.access !== 'viewer').map(c => (
+                                        <option key={c.id} value={c.id} className="bg-[#0a0a0b]">{c.name}</option>
+                                    ))}
+                                </select>
+                                <button
+                                    onClick={handleRemoveSelected}
+                                    disabled={busy || selectedIds.size === 0}
+                                    className="flex items-center gap-1.5 px-3 py-2 bg-red-500/20 text-red-400 rounded-xl hover:bg-red-500 hover:text-white disabled:opacity-40 transition-all"
+                                >
+                                    {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                                    {activeCollection ? 'Remove from collection' : 'Remove'}
+                                </button>
+                            </div>
+                        )}
+
+                        {showActivity && activeCollection && (
+                            <div className="mb-4 p-4 bg-white/5 border border-white/10 rounded-2xl">
+                                <CollectionActivityFeed collectionId={activeCollection.id} refreshKey={activityKey} />
+                            </div>
+                        )}
+
+                        {loadingItems ? (
+                            <div className="flex justify-center py-24">
+                                <Loader2 className="w-6 h-6 text-red-500 animate-spin" />
+                            </div>
+                        ) : visibleFavorites.length === 0 ? (
+                            <div className="py-24 text-center text-slate-500">
+                                {search.trim()
+                                    ? 'No saved GIFs match that search.'
+                                    : activeCollection
+                                        ? 'This collection is empty - use Select in "All" to add GIFs.'
+                                        : 'Your Sauce Box is empty - save GIFs to see them here.'}
+                            </div>
+                        ) : (
+                            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+                                {visibleFavorites.map((fav) => (
+                                    <div
+                                        key={fav.gifId}
+                                        draggable={canReorder}
+                                        onDragStart={() => setDraggingId(fav.gifId)}
+                                        onDragEnd={() => setDraggingId(null)}
+                                        onDragOver={(e) => canReorder && e.preventDefault()}
+                                        onDrop={() => handleDrop(fav.gifId)}
+                                        onClick={() => (selecting ? toggleSelect(fav.gifId) : setSelectedGif(fav))}
+                                        className={`group relative aspect-square bg-white/5 rounded-2xl overflow-hidden border cursor-pointer transition-all ${selectedIds.has(fav.gifId)
+                                            ? 'border-red-500 ring-2 ring-red-500/50'
+                                            : 'border-white/10 hover:border-red-500/50'
+                                            } ${draggingId === fav.gifId ? 'opacity-40' : ''}`}
+                                    >
+                                        <img
+                                            src={fav.gifThumbnail}
+                                            alt={fav.gifTitle}
+                                            className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110"
+                                        />
+                                        {selecting && (
+                                            <div className="absolute top-2 left-2 p-1 bg-black/60 rounded-lg">
+                                                {selectedIds.has(fav.gifId)
+                                                    ? <CheckSquare className="w-4 h-4 text-red-400" />
+                                                    : <Square className="w-4 h-4 text-white/70" />}
+                                            </div>
+                                        )}
+                                        {canReorder && (
+                                            <div className="absolute top-2 right-2 p-1 bg-black/60 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity cursor-grab">
+                                                <GripVertical className="w-4 h-4 text-white/70" />
+                                            </div>
+                                        )}
+                                        {fav.tags.length > 0 && (
+                                            <div className="absolute bottom-2 left-2 right-2 flex flex-wrap gap-1 group-hover:opacity-0 transition-opacity">
+                                                {fav.tags.slice(0, 3).map(tag => (
+                                                    <span key={tag} className="px-1.5 py-0.5 bg-black/60 rounded text-[10px] text-white/80">#{tag}</span>
+                                                ))}
+                                            </div>
+                                        )}
+                                        {!selecting && (
+                                            <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity p-3 flex flex-col justify-end">
+                                                <div className="flex justify-between items-center">
+                                                    {!fav.unsaved ? (
+                                                        <button
+                                                            onClick={(e) => handleRemoveFavorite(fav, e)}
+                                                            className="p-2 bg-red-500/20 backdrop-blur-md rounded-lg text-red-500 hover:bg-red-500 hover:text-white transition-all"
+                                                            title="Remove from Sauce Box"
+                                                        >
+                                                            <Trash2 className="w-4 h-4" />
+                                                        </button>
+                                                    ) : <span />}
+                                                    <button
+                                                        onClick={(e) => handleDownload(fav, e)}
+                                                        className="p-2 bg-white/10 backdrop-blur-md rounded-lg text-white hover:bg-white/20 transition-all shadow-lg"
+                                                    >
+                                                        {downloading === fav.gifId
+                                                            ? <Loader2 className="w-4 h-4 animate-spin" />
+                                                            : <Download className="w-4 h-4" />}
+                                                    </button>
+                                                </div>
+                                            </div>
+                                        )}
                                     </div>
-                                </div>
+                                ))}
                             </div>
-                        ))}
-                    </div>
+                        )}
+                    </>
                 )}
             </main>
 
-            {/* Modal for detail view could go here, or just use the homepage modal logic */}
+            {selectedGif && (
+                <FavoriteDetails
+                    gif={selectedGif}
+                    collections={collections.filter(c => selectedGif.collectionIds.includes(c.id))}
+                    downloading={downloading === selectedGif.gifId}
+                    onClose={() => setSelectedGif(null)}
+                    onSave={handleSaveDetails}
+                    onSaveToBox={() => handleSaveToBox(selectedGif)}
+                    onDownload={(e) => handleDownload(selectedGif, e)}
+                    onCopy={() => handleCopy(selectedGif)}
+                    onShare={() => handleShare(selectedGif)}
+                    onTagClick={(tag) => {
+                        setSearch(`#${tag}`);
+                        setSelectedGif(null);
+                    }}
+                />
+            )}
+
+            {showShare && activeCollection && user && (
+                <ShareCollectionModal
+                    collection={activeCollection}
+                    teams={teams}
+                    userId={user.uid}
+                    onClose={() => setShowShare(false)}
+                    onChanged={() => {
+                        loadCollections();
+                        setActivityKey(k => k + 1);
+                    }}
+                />
+            )}
+
+            {showTeams && user && (
+                <TeamsModal
+                    teams={teams}
+                    userId={user.uid}
+                    onClose={() => setShowTeams(false)}
+                    onChanged={loadCollections}
+                />
+            )}
+
+            {showTransfer && user && (
+                <SauceBoxTransferModal
+                    userId={user.uid}
+                    favorites={favorites}
+                    onClose={() => setShowTransfer(false)}
+                    onImported={loadFavorites}
+                />
+            )}
+        </div>
+    );
+}
+
+// =============================================================================
+// DETAILS
+// =============================================================================
+
+interface FavoriteDetailsProps {
+    gif: FavoriteGif;
+    collections: SauceCollection[];
+    downloading: boolean;
+    onClose: () => void;
+    onSave: (gif: FavoriteGif, tags: string[], note: string) => Promise<void>;
+    onSaveToBox: () => void;
+    onDownload: (e: React.MouseEvent) => void;
+    onCopy: () => void;
+    onShare: () => void;
+    onTagClick: (tag: string) => void;
+}
+
+function FavoriteDetails({
+    gif, collections, downloading, onClose, onSave, onSaveToBox, onDownload, onCopy, onShare, onTagClick
+}: FavoriteDetailsProps) {
+    const [tags, setTags] = useState<string[]>(gif.tags);
+    const [tagInput, setTagInput] = useState('');
+    const [note, setNote] = useState(gif.note);
+    const [saving, setSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+
+    useEffect(() => {
+        setTags(gif.tags);
+        setNote(gif.note);
+    }, [gif.gifId]);
+
+    const dirty = note !== gif.note || tags.join(',') !== gif.tags.join(',') || tagInput.trim() !== '';
+
+    const addTags = (input: string) => {
+        setTags(normalizeTags([...tags, ...input.split(',')]));
+        setTagInput('');
+    };
+
+    const handleSave = async () => {
+        setSaving(true);
+        try {
+            await onSave(gif, normalizeTags([...tags, ...tagInput.split(',')]), note);
+            setTagInput('');
+            setSaved(true);
+            setTimeout(() => setSaved(false), 2000);
+        } catch (error) {
+            console.error('Failed to save details:', error);
+            alert('Failed to save tags and note.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                className="w-full max-w-lg bg-[#121214] border border-white/10 rounded-3xl overflow-hidden"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="relative bg-black">
+                    <img src={gif.gifUrl} alt={gif.gifTitle} className="w-full max-h-[40vh] object-contain" />
+                    <button
+                        onClick={onClose}
+                        className="absolute top-3 right-3 p-2 bg-black/60 rounded-full hover:bg-black/80 transition-colors"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                <div className="p-5 space-y-4">
+                    <div>
+                        <h2 className="font-bold text-lg">{gif.gifTitle || 'Untitled'}</h2>
+                        <p className="text-xs text-slate-500">
+                            {gif.unsaved ? 'Not in your Sauce Box yet' : (
+                                <>
+                                    Used {gif.useCount} {gif.useCount === 1 ? 'time' : 'times'}
+                                    {gif.lastUsedAt && ` · last ${gif.lastUsedAt.toLocaleDateString()}`}
+                                    {gif.createdAt && ` · saved ${gif.createdAt.toLocaleDateString()}`}
+                                </>
+                            )}
+                        </p>
+                        {collections.length > 0 && (
+                            <div className="flex flex-wrap gap-1.5 mt-2">
+                                {collections.map(c => (
+                                    <span key={c.id} className="flex items-center gap-1 px-2 py-0.5 bg-white/5 rounded-lg text-xs text-slate-400">
+                                        <Folder className="w-3 h-3" />
+                                        {c.name}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {!gif.unsaved && (
+                        <>
+                        {/* Tags */}
+                        <div>
+                            <label className="flex items-center gap-1.5 text-xs text-slate-500 uppercase tracking-wider mb-2">
+                                <Tag className="w-3 h-3" /> Tags
+                            </label>
+                            <div className="flex flex-wrap items-center gap-1.5 p-2 bg-white/5 border border-white/10 rounded-xl">
+                                {tags.map(tag => (
+                                    <span key={tag} className="flex items-center gap-1 px-2 py-1 bg-red-500/15 text-red-300 rounded-lg text-xs">
+                                        <button onClick={() => onTagClick(tag)} className="hover:underline">#{tag}</button>
+                                        <button onClick={() => setTags(tags.filter(t => t !== tag))} className="hover:text-white">
+                                            <X className="w-3 h-3" />
+                                        </button>
+                                    </span>
+                                ))}
+                                <input
+                                    type="text"
+                                    value={tagInput}
+                                    onChange={(e) => setTagInput(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if ((e.key === 'Enter' || e.key === ',') && tagInput.trim()) {
+                                            e.preventDefault();
+                                            addTags(tagInput);
+                                        }
+                                    }}
+                                    placeholder={tags.length === 0 ? 'standup, friday, yes...' : ''}
+                                    className="flex-1 min-w-[100px] bg-transparent text-sm placeholder-slate-600 focus:outline-none"
+                                />
+                                {tagInput.trim() && (
+                                    <button onClick={() => addTags(tagInput)} className="p-1 text-slate-400 hover:text-white">
+                                        <Plus className="w-3.5 h-3.5" />
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+
+                        {/* Note */}
+                        <div>
+                            <label className="flex items-center gap-1.5 text-xs text-slate-500 uppercase tracking-wider mb-2">
+                                <StickyNote className="w-3 h-3" /> Note
+                            </label>
+                            <textarea
+                                value={note}
+                                onChange={(e) => setNote(e.target.value.slice(0, MAX_NOTE_LENGTH))}
+                                rows={2}
+                                placeholder="When to use this one..."
+                                className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-sm placeholder-slate-600 resize-none focus:outline-none focus:border-red-500/50"
+                            />
+                        </div>
+                        </>
+                    )}
+
+                    <div className="flex items-center gap-2">
+                        {gif.unsaved ? (
+                            <button
+                                onClick={onSaveToBox}
+                                className="flex-1 flex items-center justify-center gap-2 py-3 bg-red-600 rounded-2xl font-bold hover:bg-red-500 transition-all"
+                            >
+                                <Heart className="w-4 h-4" />
+                                Save to Sauce Box
+                            </button>
+                        ) : (
+                            <button
+                                onClick={handleSave}
+                                disabled={saving || !dirty}
+                                className="flex-1 flex items-center justify-center gap-2 py-3 bg-red-600 rounded-2xl font-bold hover:bg-red-500 disabled:opacity-40 transition-all"
+                            >
+                                {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : saved ? <Check className="w-4 h-4" /> : null}
+                                {saved ? 'Saved' : 'Save'}
+                            </button>
+                        )}
+                        <button
+                            onClick={onDownload}
+                            className="p-3 bg-white/10 rounded-2xl hover:bg-white/20 transition-all"
+                            title="Download"
+                        >
+                            {downloading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Download className="w-5 h-5" />}
+                        </button>
+                        <button
+                            onClick={onCopy}
+                            className="p-3 bg-white/10 rounded-2xl hover:bg-white/20 transition-all"
+                            title="Copy link"
+                        >
+                            <Copy className="w-5 h-5" />
+                        </button>
+                        <button
+                            onClick={onShare}
+                            className="p-3 bg-white/10 rounded-2xl hover:bg-white/20 transition-all"
+                            title="Share"
+                        >
+                            <Share2 className="w-5 h-5" />
+                        </button>
+                    </div>
+                </div>
+            </div>
         </div>
     );
 }
@@ -0,0 +1,211 @@
+/**
+ * Shared Collection - read-only view of a public Sauce Box collection (/saucebox/c/:collectionId)
+ *
+ * Anyone with the link can browse and copy GIFs; signed-in visitors can save them to their
+ * own Sauce Box, and members get a shortcut back to the editable collection.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { Heart, Home, Loader2, Lock, Copy, Check, Download, FolderOpen } from 'lucide-react';
+import { getCurrentUser } from '../services/authService';
+import {
+    getCollection,
+    getCollectionItems,
+    itemToFavorite,
+    sortFavorites,
+    toggleFavorite,
+    isFavorited,
+    FavoriteGif,
+    SauceCollection
+} from '../services/favoritesService';
+import { LibraryGIF } from '../services/gifLibraryService';
+import { trackDownload } from '../services/analyticsService';
+
+export default function SharedCollection() {
+    const { collectionId } = useParams<{ collectionId: string }>();
+    const [sauceCollection, setSauceCollection] = useState<SauceCollection | null>(null);
+    const [gifs, setGifs] = useState<FavoriteGif[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+    const [savedIds, setSavedIds] = useState<Set<string>>(new Set());
+    const user = getCurrentUser();
+
+    useEffect(() => {
+        if (!collectionId) return;
+        const load = async () => {
+            setLoading(true);
+            try {
+                const found = await getCollection(collectionId, user?.uid || null);
+                setSauceCollection(found);
+                if (found) {
+                    const items = await getCollectionItems(collectionId);
+                    const list = [...items.values()]
+                        .map(itemToFavorite)
+                        .filter((f): f is FavoriteGif => f !== null);
+                    setGifs(sortFavorites(list, 'custom', new Map([...items.values()].map(i => [i.gifId, i.order]))));
+                }
+            } catch (error) {
+                console.error('Failed to load collection:', error);
+            } finally {
+                setLoading(false);
+            }
+        };
+        load();
+    }, [collectionId]);
+
+    const isMember = !!user && !!sauceCollection
+        && (sauceCollection.access !== 'viewer' || !!sauceCollection.members[user.uid]);
+
+    const handleCopy = async (gif: FavoriteGif) => {
+        try {
+            await navigator.clipboard.writeText(`${window.location.origin}/gif/${encodeURIComponent(gif.gifId)}`);
+            setCopiedId(gif.gifId);
+            setTimeout(() => setCopiedId(null), 1500);
+        } catch (error) {
+            console.error('Copy failed:', error);
+        }
+    };
+
+    const handleDownload = async (gif: FavoriteGif) => {
+        try {
+            const response = await fetch(gif.gifUrl);
+            const blob = await response.blob();
+            const url = window.URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `saucy-${gif.gifId}.gif`;
+            document.body.appendChild(a);
+            a.click();
+            window.URL.revokeObjectURL(url);
+            document.body.removeChild(a);
+
+            await trackDownload({
+                gifId: gif.gifId,
+                gifTitle: gif.gifTitle || 'Untitled',
+                source: 'website',
+                user: user
+            });
+        } catch (error) {
+            console.error('Download failed:', error);
+        }
+    };
+
+    const handleSave = async (gif: FavoriteGif) => {
+        if (!user || savedIds.has(gif.gifId)) return;
+        try {
+            if (!(await isFavorited(user.uid, gif.gifId))) {
+                await toggleFavorite(user.uid, {
+                    id: gif.gifId,
+                    url: gif.gifUrl,
+                    thumbnailUrl: gif.gifThumbnail,
+                    title: gif.gifTitle
+                } as LibraryGIF);
+            }
+            setSavedIds(new Set(savedIds).add(gif.gifId));
+        } catch (error) {
+            console.error('Failed to save GIF:', error);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="min-h-screen bg-black flex items-center justify-center">
+                <Loader2 className="w-8 h-8 text-red-500 animate-spin" />
+            </div>
+        );
+    }
+
+    if (!sauceCollection) {
+        return (
+            <div className="min-h-screen bg-[#0a0a0b] text-white flex flex-col items-center justify-center p-4 text-center">
+                <div className="w-20 h-20 bg-white/5 rounded-full flex items-center justify-center mb-6">
+                    <Lock className="w-10 h-10 text-slate-700" />
+                </div>
+                <h1 className="text-2xl font-bold mb-2">This collection isn't available</h1>
+                <p className="text-slate-400 max-w-xs mb-8">
+                    It may be private, or the link may be wrong.
+                </p>
+                <Link to="/" className="px-8 py-3 bg-red-600 rounded-2xl font-bold hover:bg-red-500 transition-all">
+                    Go to Saucy
+                </Link>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-[#0a0a0b] text-white">
+            <header className="sticky top-0 z-40 bg-[#0a0a0b]/80 backdrop-blur-xl border-b border-white/5 px-4 h-20 flex items-center justify-between">
+                <div className="flex items-center gap-4">
+                    <Link to="/" className="p-2 hover:bg-white/5 rounded-full transition-colors">
+                        <Home className="w-6 h-6" />
+                    </Link>
+                    <div>
+                        <h1 className="text-xl font-bold">{sauceCollection.name}</h1>
+                        <p className="text-xs text-slate-500 font-medium">
+                            {gifs.length} GIFS · SAUCE BOX COLLECTION
+                        </p>
+                    </div>
+                </div>
+
+                {isMember && (
+                    <Link
+                        to="/saucebox"
+                        className="flex items-center gap-1.5 text-sm font-semibold text-red-500 hover:text-red-400 transition-colors"
+                    >
+                        <FolderOpen className="w-4 h-4" />
+                        Open in Sauce Box
+                    </Link>
+                )}
+            </header>
+
+            <main className="p-4 max-w-7xl mx-auto">
+                {gifs.length === 0 ? (
+                    <div className="py-24 text-center text-slate-500">Nothing in this collection yet.</div>
+                ) : (
+                    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+                        {gifs.map(gif => (
+                            <div
+                                key={gif.gifId}
+                                className="group relative aspect-square bg-white/5 rounded-2xl overflow-hidden border border-white/10 hover:border-red-500/50 transition-all"
+                            >
+                                <img
+                                    src={gif.gifThumbnail}
+                                    alt={gif.gifTitle}
+                                    className="w-full h-full object-cover"
+                                />
+                                <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity p-3 flex items-end justify-between gap-2">
+                                    {user ? (
+                                        <button
+                                            onClick={() => handleSave(gif)}
+                                            className="p-2 bg-white/10 backdrop-blur-md rounded-lg hover:bg-white/20 transition-all"
+                                            title="Save to my Sauce Box"
+                                        >
+                                            <Heart className={`w-4 h-4 ${savedIds.has(gif.gifId) ? 'fill-red-500 text-red-500' : ''}`} />
+                                        </button>
+                                    ) : <span />}
+                                    <div className="flex gap-2">
+                                        <button
+                                            onClick={() => handleCopy(gif)}
+                                            className="p-2 bg-white/10 backdrop-blur-md rounded-lg hover:bg-white/20 transition-all"
+                                            title="Copy link"
+                                        >
+                                            {copiedId === gif.gifId ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+                                        </button>
+                                        <button
+                                            onClick={() => handleDownload(gif)}
+                                            className="p-2 bg-white/10 backdrop-blur-md rounded-lg hover:bg-white/20 transition-all"
+                                            title="Download"
+                                        >
+                                            <Download className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </main>
+        </div>
+    );
+}
@@ -2,7 +2,7 @@
  * AI Generation - Create GIFs using Gemini + Veo
  */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
     Sparkles,
     Loader2,
@@ -15,8 +15,12 @@ import {
     RefreshCw
 } from 'lucide-react';
 import { addGifToLibrary, ContentSource, ContentRating } from '../../services/gifLibraryService';
+import { uploadLibraryMedia } from '../../services/mediaStorage';
 import {
     generateAnimation,
+    videoToGif,
+    revokeGifResult,
+    VideoGifResult,
     enhancePromptWithGemini,
     generateGifIdeas,
     generateTags,
@@ -25,6 +29,21 @@ import {
     checkContentSafety
 } from '../../services/veoService';
 
+/**
+ * Store the Veo MP4 next to the GIF - Veo's own download links expire. Best effort: without
+ * it the GIF still saves, and links to it unfurl as an image.
+ */
+async function uploadVideoRendition(videoSrc: string): Promise<string | null> {
+    try {
+        const response = await fetch(videoSrc);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return await uploadLibraryMedia(await response.blob(), 'video/mp4');
+    } catch (error) {
+        console.warn('Could not store the video rendition:', error);
+        return null;
+    }
+}
+
 // Content source options with descriptions
 const SOURCE_OPTIONS: { value: ContentSource; label: string; description: string }[] = [
     { value: 'news', label: '📰 News', description: 'Breaking stories, current events' },
@@ -50,7 +69,12 @@ export default function AIGeneration() {
     const [ideas, setIdeas] = useState<string[]>([]);
     const [progressStatus, setProgressStatus] = useState<string>('');
     const [result, setResult] = useState<{ success: boolean; message: string; gifId?: string } | null>(null);
-    const [generatedUrl, setGeneratedUrl] = useState<string | null>(null);
+    const [generated, setGenerated] = useState<VideoGifResult | null>(null);
+
+    // Free the previous GIF's object URL when it's replaced or the page unmounts
+    useEffect(() => () => {
+        if (generated) revokeGifResult(generated);
+    }, [generated]);
 
     const handleGenerateIdeas = async () => {
         if (!source || source === 'manual') return;
@@ -75,7 +99,7 @@ export default function AIGeneration() {
 
         setGenerating(true);
         setResult(null);
-        setGeneratedUrl(null);
+        setGenerated(null);
         try {
             // Step 0: Check content safety
             setProgressStatus('Checking safety...');
@@ -104,12 +128,23 @@ export default function AIGeneration() {
             if (!veoResult.success) {
                 throw new Error(veoResult.error || 'Generation failed');
             }
+            if (!veoResult.videoUrl && !veoResult.videoBase64) {
+                throw new Error(veoResult.error || 'No video was generated. Please try again.');
+            }
 
-            // Use generated URL or fallback for demo
-            const gifUrl = veoResult.videoUrl ||
-                `https://media.giphy.com/media/l0MYt5jPR6QX5pnqM/giphy.gif`;
+            // The library gets the animated GIF, not the raw MP4
+            setProgressStatus('Converting video to GIF...');
+            const videoSrc = veoResult.videoUrl || `data:video/mp4;base64,${veoResult.videoBase64}`;
+            const converted = await videoToGif(videoSrc, (status) => setProgressStatus(status));
+            setGenerated(converted);
+
+            setProgressStatus('Uploading GIF...');
+            const gifUrl = await uploadLibraryMedia(converted.gifBlob, 'image/gif');
+            // The inline bytes, when Veo sent them, save fetching the video again
+            const videoUrl = await uploadVideoRendition(
+                veoResult.videoBase64 ? `data:video/mp4;base64,${veoResult.videoBase64}` : videoSrc
+            );
 
-            setGeneratedUrl(gifUrl);
             setProgressStatus('Generating tags and metadata...');
 
             // Step 3: Generate tags and classify content
@@ -124,6 +159,10 @@ export default function AIGeneration() {
             // Step 4: Save to library as pending review
             const gifId = await addGifToLibrary({
                 url: gifUrl,
+                width: converted.width,
+                height: converted.height,
+                // Keep the source video so shared links can unfurl as a real player
+                ...(videoUrl ? { videoUrl } : {}),
                 title: title,
                 description: prompt,
                 tags,
@@ -154,7 +193,7 @@ export default function AIGeneration() {
     const handleReset = () => {
         setPrompt('');
         setResult(null);
-        setGeneratedUrl(null);
+        setGenerated(null);
     };
 
     return (
@@ -309,10 +348,10 @@ export default function AIGeneration() {
                                 <p className="text-slate-400">Creating your GIF...</p>
                                 <p className="text-sm text-slate-500 mt-2">This may take up to 60 seconds</p>
                             </div>
-                        ) : generatedUrl ? (
+                        ) : generated ? (
                             <div className="text-center">
                                 <img
-                                    src={generatedUrl}
+                                    src={generated.gifUrl}
                                     alt="Generated GIF"
                                     className="max-w-full max-h-64 rounded-xl mx-auto mb-4"
                                 />
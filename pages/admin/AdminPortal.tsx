@@ -37,6 +37,7 @@ import {
 } from 'lucide-react';
 import { User } from 'firebase/auth';
 import { signOut, initAuthListener } from '../../services/authService';
+import { isUserAdmin } from '../../services/userProfileService';
 import { getPendingGifs, getAllGifs, LibraryGIF } from '../../services/gifLibraryService';
 import { getTodayStats } from '../../services/analyticsService';
 import { seedLibrary } from '../../services/seedData';
@@ -74,6 +75,14 @@ export default function AdminPortal() {
         return () => unsubscribe();
     }, []);
 
+    // Re-check against the role claim - App's route guard only sees the profile mirror
+    useEffect(() => {
+        if (!user) return;
+        isUserAdmin(user.uid).then(isAdmin => {
+            if (!isAdmin) navigate('/');
+        });
+    }, [user]);
+
     useEffect(() => {
         loadStats();
     }, []);
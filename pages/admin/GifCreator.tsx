@@ -34,17 +34,39 @@ import {
     Scissors,
     AlertCircle,
     ImageIcon,
-    Film
+    Film,
+    Plus,
+    Trash2,
+    Diamond,
+    Play,
+    Pause
 } from 'lucide-react';
 import {
-    createCaptionedGif,
-    previewCaption,
+    interpolateKeyframes,
     formatFileSize,
     isSlackCompatible,
+    CAPTION_EFFECTS,
     CaptionStyle,
     CaptionPosition,
-    CaptionOptions
+    CaptionEffect,
+    TimelineCaption,
+    GifFrame,
+    ProcessedGif
 } from '../../services/captionOverlayService';
+import {
+    loadMemeFrames,
+    createMemeDocument,
+    renderMemeFrame,
+    exportMemeGif,
+    MemeFrames
+} from '../../services/memeEngine';
+import {
+    optimizeGif,
+    fitsPreset,
+    OPTIMIZE_PRESETS,
+    OptimizePresetId,
+    OptimizeResult
+} from '../../services/gifOptimizer';
 import {
     generateCaptionSuggestions,
     refineCaption,
@@ -66,6 +88,23 @@ interface GifSource {
     title?: string;
 }
 
+const MAX_CAPTIONS = 6;
+
+// Where a keyframe starts when a caption switches from a fixed position
+const POSITION_Y: Record<CaptionPosition, number> = { top: 15, center: 50, bottom: 85 };
+
+// Open-ended until the frames are decoded and the range can be clamped
+const newCaption = (id: string, text = ''): TimelineCaption => ({
+    id,
+    text,
+    style: 'classic',
+    position: 'top',
+    startFrame: 0,
+    endFrame: Number.MAX_SAFE_INTEGER,
+    enter: 'none',
+    exit: 'none'
+});
+
 // =============================================================================
 // MAIN COMPONENT
 // =============================================================================
@@ -80,10 +119,11 @@ export default function GifCreator() {
     const [uploadedFile, setUploadedFile] = useState<File | null>(null);
     const [source, setSource] = useState<GifSource | null>(null);
 
-    // Caption options
-    const [captionText, setCaptionText] = useState('');
-    const [captionStyle, setCaptionStyle] = useState<CaptionStyle>('classic');
-    const [captionPosition, setCaptionPosition] = useState<CaptionPosition>('top');
+    // Caption timeline
+    const [captions, setCaptions] = useState<TimelineCaption[]>([newCaption('caption-1')]);
+    const [selectedCaptionId, setSelectedCaptionId] = useState('caption-1');
+    const [decoded, setDecoded] = useState<MemeFrames | null>(null);
+    const [currentFrame, setCurrentFrame] = useState(0);
     const [suggestions, setSuggestions] = useState<string[]>([]);
     const [loadingSuggestions, setLoadingSuggestions] = useState(false);
 
@@ -95,11 +135,7 @@ export default function GifCreator() {
     const [processing, setProcessing] = useState(false);
     const [processStatus, setProcessStatus] = useState('');
     const [processPercent, setProcessPercent] = useState(0);
-    const [result, setResult] = useState<{
-        blob: Blob;
-        url: string;
-        fileSize: number;
-    } | null>(null);
+    const [result, setResult] = useState<ProcessedGif | null>(null);
 
     // Errors
     const [error, setError] = useState<string | null>(null);
@@ -107,6 +143,41 @@ export default function GifCreator() {
     // File input ref
     const fileInputRef = useRef<HTMLInputElement>(null);
 
+    // The caption being edited drives the text, style and position controls
+    const selectedCaption = captions.find(c => c.id === selectedCaptionId) || captions[0];
+    const captionText = selectedCaption?.text || '';
+    const hasCaptionText = captions.some(c => c.text.trim());
+    const frames = decoded?.frames || [];
+
+    const updateCaption = (id: string, changes: Partial<TimelineCaption>) => {
+        setCaptions(prev => prev.map(c => c.id === id ? { ...c, ...changes } : c));
+    };
+
+    const setCaptionText = (text: string) => updateCaption(selectedCaption.id, { text });
+    const setCaptionStyle = (style: CaptionStyle) => updateCaption(selectedCaption.id, { style });
+    const setCaptionPosition = (position: CaptionPosition) => updateCaption(selectedCaption.id, { position });
+
+    const handleAddCaption = () => {
+        if (captions.length >= MAX_CAPTIONS) return;
+        const id = `caption-${Date.now()}`;
+        const lastFrame = Math.max(0, frames.length - 1);
+        setCaptions(prev => [...prev, {
+            ...newCaption(id),
+            style: selectedCaption?.style || 'classic',
+            position: 'bottom',
+            startFrame: Math.min(currentFrame, lastFrame),
+            endFrame: lastFrame
+        }]);
+        setSelectedCaptionId(id);
+    };
+
+    const handleRemoveCaption = (id: string) => {
+        if (captions.length <= 1) return;
+        const remaining = captions.filter(c => c.id !== id);
+        setCaptions(remaining);
+        if (id === selectedCaptionId) setSelectedCaptionId(remaining[0].id);
+    };
+
     // ==========================================================================
     // STEP HANDLERS
     // ==========================================================================
@@ -165,38 +236,51 @@ export default function GifCreator() {
         }
     };
 
-    const updatePreview = async () => {
-        if (!source || !captionText) return;
+    // Decode frames once per source so scrubbing doesn't re-extract the GIF
+    useEffect(() => {
+        if (!source) return;
 
+        let cancelled = false;
         setLoadingPreview(true);
+        setDecoded(null);
+        setCurrentFrame(0);
+
+        loadMemeFrames(source.url)
+            .then(loaded => {
+                if (cancelled) return;
+                const lastFrame = Math.max(0, loaded.frames.length - 1);
+                setDecoded(loaded);
+                setCaptions(prev => prev.map(c => ({
+                    ...c,
+                    startFrame: Math.min(c.startFrame, lastFrame),
+                    endFrame: Math.min(c.endFrame, lastFrame)
+                })));
+            })
+            .catch(err => {
+                console.error('Frame extraction failed:', err);
+                if (!cancelled) setError('Failed to generate preview');
+            })
+            .finally(() => {
+                if (!cancelled) setLoadingPreview(false);
+            });
+
+        return () => { cancelled = true; };
+    }, [source]);
+
+    // Re-render the scrubbed frame whenever the timeline changes
+    useEffect(() => {
+        if (currentStep !== 'caption' || !source || !decoded) return;
+
         try {
-            const options: CaptionOptions = {
-                text: captionText,
-                style: captionStyle,
-                position: captionPosition
-            };
-            const preview = await previewCaption(source.url, options);
-            setPreviewUrl(preview);
+            setPreviewUrl(renderMemeFrame(createMemeDocument(source.url, decoded, captions), decoded, currentFrame));
         } catch (err) {
             console.error('Preview failed:', err);
             setError('Failed to generate preview');
-        } finally {
-            setLoadingPreview(false);
-        }
-    };
-
-    // Update preview when caption changes
-    useEffect(() => {
-        if (currentStep === 'caption' && source && captionText) {
-            const timer = setTimeout(() => {
-                updatePreview();
-            }, 500);
-            return () => clearTimeout(timer);
         }
-    }, [captionText, captionStyle, captionPosition, source, currentStep]);
+    }, [captions, decoded, source, currentFrame, currentStep]);
 
     const handleCreateGif = async () => {
-        if (!source || !captionText) return;
+        if (!source || !decoded || !hasCaptionText) return;
 
         setProcessing(true);
         setError(null);
@@ -204,26 +288,17 @@ export default function GifCreator() {
         setProcessPercent(0);
 
         try {
-            const options: CaptionOptions = {
-                text: captionText,
-                style: captionStyle,
-                position: captionPosition
-            };
-
-            const processed = await createCaptionedGif(
-                source.url,
-                options,
+            // Same engine and document shape as the user-facing Meme Studio
+            const processed = await exportMemeGif(
+                createMemeDocument(source.url, decoded, captions),
+                decoded,
                 (status, percent) => {
                     setProcessStatus(status);
                     setProcessPercent(percent);
                 }
             );
 
-            setResult({
-                blob: processed.blob,
-                url: processed.url,
-                fileSize: processed.fileSize
-            });
+            setResult(processed);
             setCurrentStep('save');
         } catch (err) {
             console.error('GIF creation failed:', err);
@@ -254,7 +329,10 @@ export default function GifCreator() {
         setSource(null);
         setGifUrl('');
         setUploadedFile(null);
-        setCaptionText('');
+        setCaptions([newCaption('caption-1')]);
+        setSelectedCaptionId('caption-1');
+        setDecoded(null);
+        setCurrentFrame(0);
         setSuggestions([]);
         setPreviewUrl(null);
         setResult(null);
@@ -340,10 +418,20 @@ export default function GifCreator() {
                         source={source}
                         captionText={captionText}
                         setCaptionText={setCaptionText}
-                        captionStyle={captionStyle}
+                        captionStyle={selectedCaption.style}
                         setCaptionStyle={setCaptionStyle}
-                        captionPosition={captionPosition}
+                        captionPosition={selectedCaption.position}
                         setCaptionPosition={setCaptionPosition}
+                        hasCaptionText={hasCaptionText}
+                        captions={captions}
+                        selectedCaption={selectedCaption}
+                        onSelectCaption={setSelectedCaptionId}
+                        onAddCaption={handleAddCaption}
+                        onRemoveCaption={handleRemoveCaption}
+                        onUpdateCaption={updateCaption}
+                        frames={frames}
+                        currentFrame={currentFrame}
+                        onSeek={setCurrentFrame}
                         suggestions={suggestions}
                         loadingSuggestions={loadingSuggestions}
                         refreshSuggestions={refreshSuggestions}
@@ -361,7 +449,8 @@ export default function GifCreator() {
                 {currentStep === 'save' && result && (
                     <SaveStep
                         result={result}
-                        captionText={captionText}
+                        captionText={captions.map(c => c.text.trim()).filter(Boolean).join(' / ')}
+                        onOptimized={setResult}
                         onDownload={handleDownload}
                         onSaveToLibrary={handleSaveToLibrary}
                         onCreateAnother={resetCreator}
@@ -551,6 +640,16 @@ interface CaptionStepProps {
     setCaptionStyle: (style: CaptionStyle) => void;
     captionPosition: CaptionPosition;
     setCaptionPosition: (pos: CaptionPosition) => void;
+    hasCaptionText: boolean;
+    captions: TimelineCaption[];
+    selectedCaption: TimelineCaption;
+    onSelectCaption: (id: string) => void;
+    onAddCaption: () => void;
+    onRemoveCaption: (id: string) => void;
+    onUpdateCaption: (id: string, changes: Partial<TimelineCaption>) => void;
+    frames: GifFrame[];
+    currentFrame: number;
+    onSeek: (frame: number) => void;
     suggestions: string[];
     loadingSuggestions: boolean;
     refreshSuggestions: () => void;
@@ -572,6 +671,16 @@ function CaptionStep({
     setCaptionStyle,
     captionPosition,
     setCaptionPosition,
+    hasCaptionText,
+    captions,
+    selectedCaption,
+    onSelectCaption,
+    onAddCaption,
+    onRemoveCaption,
+    onUpdateCaption,
+    frames,
+    currentFrame,
+    onSeek,
     suggestions,
     loadingSuggestions,
     refreshSuggestions,
@@ -733,7 +842,7 @@ function CaptionStep({
                 <div className="space-y-4">
                     <div className="text-center lg:text-left">
                         <h3 className="text-lg font-semibold mb-1">Preview</h3>
-                        <p className="text-sm text-slate-400">First frame with caption</p>
+                        <p className="text-sm text-slate-400">Scrub the timeline to check each caption</p>
                     </div>
 
                     <div className="bg-white/5 rounded-xl p-4 flex items-center justify-center min-h-[300px]">
@@ -756,6 +865,20 @@ function CaptionStep({
                             />
                         )}
                     </div>
+
+                    {frames.length > 0 && (
+                        <TimelineEditor
+                            frames={frames}
+                            currentFrame={currentFrame}
+                            onSeek={onSeek}
+                            captions={captions}
+                            selectedCaption={selectedCaption}
+                            onSelectCaption={onSelectCaption}
+                            onAddCaption={onAddCaption}
+                            onRemoveCaption={onRemoveCaption}
+                            onUpdateCaption={onUpdateCaption}
+                        />
+                    )}
                 </div>
             </div>
 
@@ -788,7 +911,7 @@ function CaptionStep({
 
                 <button
                     onClick={onCreate}
-                    disabled={!captionText || processing}
+                    disabled={!hasCaptionText || processing}
                     className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-red-500 to-orange-500 rounded-xl font-semibold hover:opacity-90 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                     {processing ? (
@@ -808,17 +931,243 @@ function CaptionStep({
     );
 }
 
+// =============================================================================
+// CAPTION TIMELINE
+// =============================================================================
+
+interface TimelineEditorProps {
+    frames: GifFrame[];
+    currentFrame: number;
+    onSeek: (frame: number) => void;
+    captions: TimelineCaption[];
+    selectedCaption: TimelineCaption;
+    onSelectCaption: (id: string) => void;
+    onAddCaption: () => void;
+    onRemoveCaption: (id: string) => void;
+    onUpdateCaption: (id: string, changes: Partial<TimelineCaption>) => void;
+}
+
+function TimelineEditor({
+    frames,
+    currentFrame,
+    onSeek,
+    captions,
+    selectedCaption,
+    onSelectCaption,
+    onAddCaption,
+    onRemoveCaption,
+    onUpdateCaption
+}: TimelineEditorProps) {
+    const [isPlaying, setIsPlaying] = useState(false);
+    const frameCount = frames.length;
+    const lastFrame = frameCount - 1;
+    const keyframes = selectedCaption.keyframes || [];
+    const keyframeHere = keyframes.find(k => k.frame === currentFrame);
+
+    // Step through frames at the GIF's own delays
+    useEffect(() => {
+        if (!isPlaying) return;
+        const timer = setTimeout(() => {
+            onSeek(currentFrame >= lastFrame ? 0 : currentFrame + 1);
+        }, frames[currentFrame]?.delay || 100);
+        return () => clearTimeout(timer);
+    }, [isPlaying, currentFrame, lastFrame, frames, onSeek]);
+
+    const update = (changes: Partial<TimelineCaption>) => onUpdateCaption(selectedCaption.id, changes);
+
+    const setRange = (startFrame: number, endFrame: number) => {
+        const start = Math.max(0, Math.min(startFrame, lastFrame));
+        update({ startFrame: start, endFrame: Math.max(start, Math.min(endFrame, lastFrame)) });
+    };
+
+    // New keyframes start where the caption currently sits so nothing jumps
+    const handleAddKeyframe = () => {
+        const anchor = interpolateKeyframes(keyframes, currentFrame)
+            || { x: 50, y: POSITION_Y[selectedCaption.position] };
+        update({
+            keyframes: [...keyframes.filter(k => k.frame !== currentFrame), { frame: currentFrame, ...anchor }]
+                .sort((a, b) => a.frame - b.frame)
+        });
+    };
+
+    const handleMoveKeyframe = (axis: 'x' | 'y', value: number) => {
+        update({ keyframes: keyframes.map(k => k.frame === currentFrame ? { ...k, [axis]: value } : k) });
+    };
+
+    const effectSelect = (label: string, value: CaptionEffect | undefined, onChange: (effect: CaptionEffect) => void) => (
+        <label className="block">
+            <span className="block text-xs text-slate-400 mb-1">{label}</span>
+            <select
+                value={value || 'none'}
+                onChange={(e) => onChange(e.target.value as CaptionEffect)}
+                className="w-full bg-white/5 border border-white/20 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-red-500/50"
+            >
+                {CAPTION_EFFECTS.map(({ id, label: effectLabel }) => (
+                    <option key={id} value={id} className="bg-slate-900">{effectLabel}</option>
+                ))}
+            </select>
+        </label>
+    );
+
+    return (
+        <div className="bg-white/5 rounded-xl p-4 space-y-4">
+            {/* Scrubber */}
+            <div className="flex items-center gap-3">
+                <button
+                    onClick={() => setIsPlaying(!isPlaying)}
+                    className="p-2 bg-white/10 rounded-lg hover:bg-white/20 transition-colors"
+                    title={isPlaying ? 'Pause' : 'Play'}
+                >
+                    {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                </button>
+                <input
+                    type="range"
+                    min={0}
+                    max={lastFrame}
+                    value={currentFrame}
+                    onChange={(e) => {
+                        setIsPlaying(false);
+                        onSeek(Number(e.target.value));
+                    }}
+                    className="flex-1 accent-red-500"
+                    aria-label="Frame"
+                />
+                <span className="text-xs text-slate-400 font-mono w-16 text-right">
+                    {currentFrame + 1}/{frameCount}
+                </span>
+            </div>
+
+            {/* Caption tracks */}
+            <div className="space-y-1.5">
+                {captions.map((caption, idx) => (
+                    <div key={caption.id} className="flex items-center gap-2">
+                        <button
+                            onClick={() => onSelectCaption(caption.id)}
+                            className="relative flex-1 h-7 bg-white/5 rounded-md overflow-hidden text-left"
+                        >
+                            <div
+                                className={`absolute inset-y-0 rounded-md px-2 flex items-center text-[11px] font-medium truncate ${caption.id === selectedCaption.id
+                                    ? 'bg-red-500/60 text-white'
+                                    : 'bg-white/20 text-slate-300'
+                                    }`}
+                                style={{
+                                    left: `${(caption.startFrame / frameCount) * 100}%`,
+                                    width: `${((caption.endFrame - caption.startFrame + 1) / frameCount) * 100}%`
+                                }}
+                            >
+                                {caption.text || `Caption ${idx + 1}`}
+                            </div>
+                            {(caption.keyframes || []).map(k => (
+                                <Diamond
+                                    key={k.frame}
+                                    className="absolute top-1/2 w-2.5 h-2.5 -translate-y-1/2 -translate-x-1/2 text-yellow-300 fill-yellow-300"
+                                    style={{ left: `${((k.frame + 0.5) / frameCount) * 100}%` }}
+                                />
+                            ))}
+                            <div
+                                className="absolute inset-y-0 w-0.5 bg-white"
+                                style={{ left: `${((currentFrame + 0.5) / frameCount) * 100}%` }}
+                            />
+                        </button>
+                        <button
+                            onClick={() => onRemoveCaption(caption.id)}
+                            disabled={captions.length <= 1}
+                            className="p-1 text-slate-500 hover:text-red-400 disabled:opacity-30"
+                            title="Remove caption"
+                        >
+                            <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                    </div>
+                ))}
+                <button
+                    onClick={onAddCaption}
+                    disabled={captions.length >= MAX_CAPTIONS}
+                    className="flex items-center gap-1 text-xs text-slate-400 hover:text-white disabled:opacity-50"
+                >
+                    <Plus className="w-3.5 h-3.5" />
+                    Add caption at frame {currentFrame + 1}
+                </button>
+            </div>
+
+            {/* Selected caption timing */}
+            <div className="grid grid-cols-2 gap-3 pt-3 border-t border-white/10">
+                <div>
+                    <span className="block text-xs text-slate-400 mb-1">
+                        Frames {selectedCaption.startFrame + 1}–{selectedCaption.endFrame + 1}
+                    </span>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => setRange(currentFrame, selectedCaption.endFrame)}
+                            className="flex-1 px-2 py-1.5 bg-white/5 border border-white/10 rounded-lg text-xs text-slate-300 hover:border-red-500/50"
+                        >
+                            Start here
+                        </button>
+                        <button
+                            onClick={() => setRange(Math.min(selectedCaption.startFrame, currentFrame), currentFrame)}
+                            className="flex-1 px-2 py-1.5 bg-white/5 border border-white/10 rounded-lg text-xs text-slate-300 hover:border-red-500/50"
+                        >
+                            End here
+                        </button>
+                    </div>
+                </div>
+                <div>
+                    <span className="block text-xs text-slate-400 mb-1">
+                        {keyframes.length > 0 ? `${keyframes.length} keyframe${keyframes.length === 1 ? '' : 's'}` : 'Fixed position'}
+                    </span>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={handleAddKeyframe}
+                            className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 bg-white/5 border border-white/10 rounded-lg text-xs text-slate-300 hover:border-red-500/50"
+                        >
+                            <Diamond className="w-3 h-3" />
+                            {keyframeHere ? 'Reset' : 'Keyframe'}
+                        </button>
+                        {keyframes.length > 0 && (
+                            <button
+                                onClick={() => update({ keyframes: keyframeHere ? keyframes.filter(k => k !== keyframeHere) : [] })}
+                                className="px-2 py-1.5 bg-white/5 border border-white/10 rounded-lg text-xs text-slate-300 hover:border-red-500/50"
+                            >
+                                {keyframeHere ? 'Delete' : 'Clear'}
+                            </button>
+                        )}
+                    </div>
+                </div>
+                {effectSelect('Enter', selectedCaption.enter, enter => update({ enter }))}
+                {effectSelect('Exit', selectedCaption.exit, exit => update({ exit }))}
+            </div>
+
+            {/* Keyframe position at the playhead */}
+            {keyframeHere && (
+                <div className="grid grid-cols-2 gap-3">
+                    {(['x', 'y'] as const).map(axis => (
+                        <label key={axis} className="block">
+                            <span className="block text-xs text-slate-400 mb-1">
+                                {axis.toUpperCase()} {Math.round(keyframeHere[axis])}%
+                            </span>
+                            <input
+                                type="range"
+                                min={0}
+                                max={100}
+                                value={keyframeHere[axis]}
+                                onChange={(e) => handleMoveKeyframe(axis, Number(e.target.value))}
+                                className="w-full accent-red-500"
+                            />
+                        </label>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
 // =============================================================================
 // STEP 3: SAVE
 // =============================================================================
 
 interface SaveStepProps {
-    result: {
-        blob: Blob;
-        url: string;
-        fileSize: number;
-    };
+    result: ProcessedGif;
     captionText: string;
+    onOptimized: (gif: ProcessedGif) => void;
     onDownload: () => void;
     onSaveToLibrary: () => void;
     onCreateAnother: () => void;
@@ -827,11 +1176,31 @@ interface SaveStepProps {
 function SaveStep({
     result,
     captionText,
+    onOptimized,
     onDownload,
     onSaveToLibrary,
     onCreateAnother
 }: SaveStepProps) {
     const slackOk = isSlackCompatible(result.fileSize);
+    const [presetId, setPresetId] = useState<OptimizePresetId>('slack');
+    const [optimizing, setOptimizing] = useState(false);
+    const [optimizeStatus, setOptimizeStatus] = useState('');
+    const [optimizeResult, setOptimizeResult] = useState<OptimizeResult | null>(null);
+
+    const handleOptimize = async () => {
+        setOptimizing(true);
+        setOptimizeResult(null);
+        try {
+            const optimized = await optimizeGif(result, presetId, (status) => setOptimizeStatus(status));
+            setOptimizeResult(optimized);
+            onOptimized(optimized.gif);
+        } catch (err) {
+            console.error('GIF optimization failed:', err);
+            setOptimizeStatus(err instanceof Error ? err.message : 'Optimization failed');
+        } finally {
+            setOptimizing(false);
+        }
+    };
 
     return (
         <div className="p-6 space-y-6">
@@ -868,6 +1237,50 @@ function SaveStep({
                 </div>
             </div>
 
+            {/* Size Optimizer */}
+            <div className="bg-white/5 rounded-xl p-4 space-y-3">
+                <div className="flex flex-col sm:flex-row items-center gap-3 justify-center">
+                    <select
+                        value={presetId}
+                        onChange={(e) => {
+                            setPresetId(e.target.value as OptimizePresetId);
+                            setOptimizeResult(null);
+                        }}
+                        className="px-3 py-2 bg-black border border-white/20 rounded-lg text-sm"
+                    >
+                        {Object.values(OPTIMIZE_PRESETS).map(preset => (
+                            <option key={preset.id} value={preset.id}>
+                                {preset.label}{fitsPreset(result, preset.id) ? ' ✓' : ''}
+                            </option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={handleOptimize}
+                        disabled={optimizing || fitsPreset(result, presetId)}
+                        className="flex items-center gap-2 px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-sm font-semibold hover:bg-white/20 transition-all disabled:opacity-40"
+                    >
+                        {optimizing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Scissors className="w-4 h-4" />}
+                        {optimizing ? optimizeStatus || 'Optimizing...' : fitsPreset(result, presetId) ? 'Already fits' : 'Optimize to fit'}
+                    </button>
+                </div>
+
+                {optimizeResult && (
+                    <div className="text-sm text-center space-y-1">
+                        <p className={optimizeResult.fits ? 'text-green-400' : 'text-yellow-400'}>
+                            {formatFileSize(optimizeResult.originalSize)} → {formatFileSize(optimizeResult.gif.fileSize)}
+                            {optimizeResult.fits ? ` · fits ${optimizeResult.preset.label}` : ` · still over ${optimizeResult.preset.label}`}
+                        </p>
+                        {optimizeResult.tradeoffs.length > 0 && (
+                            <ul className="text-xs text-slate-400">
+                                {optimizeResult.tradeoffs.map((tradeoff, i) => (
+                                    <li key={i}>• {tradeoff}</li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                )}
+            </div>
+
             {/* Caption Display */}
             <div className="bg-white/5 rounded-xl p-4 text-center">
                 <p className="text-xs text-slate-500 mb-1">Caption</p>
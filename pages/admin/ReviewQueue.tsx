@@ -11,16 +11,23 @@ import {
     Tag,
     AlertTriangle,
     X,
-    ChevronDown
+    ChevronDown,
+    Copy,
+    GitMerge
 } from 'lucide-react';
 import {
     getPendingGifs,
+    getGifById,
     updateGifStatus,
     updateGif,
     deleteGif,
+    mergeDuplicateGif,
+    dismissDuplicate,
+    backfillHashBands,
     LibraryGIF,
     ContentRating
 } from '../../services/gifLibraryService';
+import { backfillLibraryHashBands } from '../../services/libraryService';
 
 interface ReviewQueueProps {
     onUpdate?: () => void;
@@ -31,6 +38,9 @@ export default function ReviewQueue({ onUpdate }: ReviewQueueProps) {
     const [loading, setLoading] = useState(true);
     const [selectedGif, setSelectedGif] = useState<LibraryGIF | null>(null);
     const [processing, setProcessing] = useState<string | null>(null);
+    const [indexing, setIndexing] = useState(false);
+    // GIFs that pending items look like, keyed by id
+    const [originals, setOriginals] = useState<Record<string, LibraryGIF>>({});
 
     // Edit mode state
     const [editTitle, setEditTitle] = useState('');
@@ -46,6 +56,12 @@ export default function ReviewQueue({ onUpdate }: ReviewQueueProps) {
         try {
             const pending = await getPendingGifs(50);
             setGifs(pending);
+
+            const originalIds = [...new Set(pending.map(g => g.duplicateOf).filter((id): id is string => !!id))];
+            const found = await Promise.all(originalIds.map(id => getGifById(id)));
+            setOriginals(Object.fromEntries(
+                found.filter((g): g is LibraryGIF => !!g).map(g => [g.id, g])
+            ));
         } catch (error) {
             console.error('Failed to load queue:', error);
         } finally {
@@ -111,6 +127,49 @@ export default function ReviewQueue({ onUpdate }: ReviewQueueProps) {
         }
     };
 
+    const handleMerge = async (gif: LibraryGIF) => {
+        if (!gif.duplicateOf) return;
+        setProcessing(gif.id);
+        try {
+            await mergeDuplicateGif(gif.id, gif.duplicateOf);
+            setGifs(gifs.filter(g => g.id !== gif.id));
+            setSelectedGif(null);
+            onUpdate?.();
+        } catch (error) {
+            console.error('Failed to merge:', error);
+        } finally {
+            setProcessing(null);
+        }
+    };
+
+    const handleDismissDuplicate = async (gif: LibraryGIF) => {
+        setProcessing(gif.id);
+        try {
+            await dismissDuplicate(gif.id);
+            const updated = { ...gif, duplicateOf: undefined };
+            setGifs(gifs.map(g => g.id === gif.id ? updated : g));
+            setSelectedGif(updated);
+        } catch (error) {
+            console.error('Failed to dismiss duplicate:', error);
+        } finally {
+            setProcessing(null);
+        }
+    };
+
+    // GIFs hashed before band lookups existed aren't found as duplicates until indexed
+    const handleIndexHashes = async () => {
+        setIndexing(true);
+        try {
+            // Both the curated library and community submissions are checked for duplicates
+            const updated = await backfillHashBands() + await backfillLibraryHashBands();
+            alert(updated ? `Indexed ${updated} GIFs for duplicate checks` : 'All GIFs are already indexed');
+        } catch (error) {
+            console.error('Failed to index hashes:', error);
+        } finally {
+            setIndexing(false);
+        }
+    };
+
     const getRatingColor = (rating: ContentRating) => {
         const colors = {
             pg: 'bg-white/10 border border-white/30',
@@ -138,12 +197,22 @@ export default function ReviewQueue({ onUpdate }: ReviewQueueProps) {
                         {gifs.length} GIFs pending review
                     </p>
                 </div>
-                <button
-                    onClick={loadQueue}
-                    className="px-4 py-2 bg-white/10 rounded-xl text-sm font-medium hover:bg-white/20 transition-colors"
-                >
-                    Refresh
-                </button>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={handleIndexHashes}
+                        disabled={indexing}
+                        className="flex items-center gap-2 px-4 py-2 bg-white/10 rounded-xl text-sm font-medium hover:bg-white/20 transition-colors disabled:opacity-50"
+                    >
+                        {indexing && <Loader2 className="w-4 h-4 animate-spin" />}
+                        Index hashes
+                    </button>
+                    <button
+                        onClick={loadQueue}
+                        className="px-4 py-2 bg-white/10 rounded-xl text-sm font-medium hover:bg-white/20 transition-colors"
+                    >
+                        Refresh
+                    </button>
+                </div>
             </div>
 
             {gifs.length === 0 ? (
@@ -172,6 +241,14 @@ export default function ReviewQueue({ onUpdate }: ReviewQueueProps) {
                                 {gif.source}
                             </div>
 
+                            {/* Duplicate Badge */}
+                            {gif.duplicateOf && originals[gif.duplicateOf] && (
+                                <div className="absolute bottom-2 left-2 flex items-center gap-1 px-2 py-0.5 bg-yellow-500/80 backdrop-blur-sm rounded-full text-xs text-black font-medium">
+                                    <Copy className="w-3 h-3" />
+                                    Duplicate?
+                                </div>
+                            )}
+
                             {/* Quick Actions */}
                             <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
                                 <button
@@ -225,6 +302,46 @@ export default function ReviewQueue({ onUpdate }: ReviewQueueProps) {
 
                         {/* Edit Form */}
                         <div className="p-6 overflow-y-auto">
+                            {/* Possible Duplicate */}
+                            {selectedGif.duplicateOf && originals[selectedGif.duplicateOf] && (() => {
+                                const original = originals[selectedGif.duplicateOf];
+                                return (
+                                    <div className="flex items-center gap-4 p-4 mb-4 bg-yellow-500/10 border border-yellow-500/30 rounded-xl">
+                                        <img
+                                            src={original.thumbnailUrl || original.url}
+                                            alt={original.title || 'Original GIF'}
+                                            className="w-16 h-16 rounded-lg object-cover flex-shrink-0"
+                                        />
+                                        <div className="flex-1 min-w-0">
+                                            <p className="flex items-center gap-2 text-sm font-bold text-yellow-400">
+                                                <AlertTriangle className="w-4 h-4" />
+                                                Possible duplicate of "{original.title || original.id}"
+                                            </p>
+                                            <p className="text-xs text-slate-400 mt-1">
+                                                {original.downloads} downloads · {original.shares} shares · {original.status}
+                                            </p>
+                                        </div>
+                                        <div className="flex flex-col gap-2">
+                                            <button
+                                                onClick={() => handleMerge(selectedGif)}
+                                                disabled={processing === selectedGif.id}
+                                                className="flex items-center gap-1.5 px-3 py-1.5 bg-yellow-500 hover:bg-yellow-400 text-black rounded-lg text-xs font-bold transition-colors disabled:opacity-50"
+                                            >
+                                                <GitMerge className="w-3.5 h-3.5" />
+                                                Merge
+                                            </button>
+                                            <button
+                                                onClick={() => handleDismissDuplicate(selectedGif)}
+                                                disabled={processing === selectedGif.id}
+                                                className="px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+                                            >
+                                                Not a duplicate
+                                            </button>
+                                        </div>
+                                    </div>
+                                );
+                            })()}
+
                             <div className="space-y-4">
                                 {/* Title */}
                                 <div>
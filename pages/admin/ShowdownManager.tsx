@@ -5,8 +5,10 @@
  * - View current showdown status
  * - Set custom GIFs for Challenger/Defender
  * - Reset vote counters
+ * - Review flagged votes and void them (they come off the tallies server-side)
  * - End showdown early
- * - Create new showdown
+ * - Create new showdown, or queue matchups for the daily rotation
+ * - Build bracket tournaments (8/16/32 GIFs) and advance or cancel them
  */
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
@@ -22,7 +24,13 @@ import {
     Users,
     Clock,
     Swords,
-    Layout
+    Layout,
+    GitBranch,
+    ListPlus,
+    ShieldAlert,
+    Ban,
+    FastForward,
+    XCircle
 } from 'lucide-react';
 import {
     getCurrentShowdown,
@@ -32,13 +40,44 @@ import {
     updateShowdownGifs,
     seedTestShowdown,
     getShowdownVoters,
+    voidShowdownVotes,
     Showdown,
     ShowdownGIF,
-    VoterInfo
+    VoterInfo,
+    VoteFlagReason,
+    fetchTournamentSeeds,
+    createTournament,
+    getRecentTournaments,
+    forceAdvanceTournament,
+    cancelTournament,
+    getRoundName,
+    BRACKET_SIZES,
+    BracketSize,
+    Tournament,
+    queueShowdown,
+    getShowdownQueue,
+    removeQueuedShowdown,
+    QueuedShowdown
 } from '../../services/showdownService';
+import { TrendingPeriod } from '../../services/gifLibraryService';
 import { searchKlipy, KlipyItem } from '../../services/klipyService';
 import { getAppSettings, updateAppSettings, AppSettings } from '../../services/settingsService';
 
+const FLAG_LABELS: Record<VoteFlagReason, string> = {
+    new_account: 'New account',
+    network_volume: 'Shared network',
+    device_volume: 'Shared device',
+    burst: 'Burst'
+};
+
+// Next full hour, formatted for a datetime-local input
+const getDefaultStart = (): string => {
+    const start = new Date();
+    start.setHours(start.getHours() + 1, 0, 0, 0);
+    const offset = start.getTimezoneOffset() * 60000;
+    return new Date(start.getTime() - offset).toISOString().slice(0, 16);
+};
+
 const ShowdownManager: React.FC = () => {
     const [showdown, setShowdown] = useState<Showdown | null>(null);
     const [loading, setLoading] = useState(true);
@@ -84,17 +123,43 @@ const ShowdownManager: React.FC = () => {
     // Vote log state
     const [voters, setVoters] = useState<VoterInfo[]>([]);
     const [loadingVoters, setLoadingVoters] = useState(false);
+    const [flaggedOnly, setFlaggedOnly] = useState(false);
+    const [selectedVotes, setSelectedVotes] = useState<Set<string>>(new Set());
 
     // Global Settings state
     const [settings, setSettings] = useState<AppSettings | null>(null);
     const [landingQuery, setLandingQuery] = useState('');
     const [savingSettings, setSavingSettings] = useState(false);
 
+    // Daily rotation queue
+    const [queue, setQueue] = useState<QueuedShowdown[]>([]);
+
+    // Tournament builder state
+    const [tournaments, setTournaments] = useState<Tournament[]>([]);
+    const [tournamentName, setTournamentName] = useState('');
+    const [bracketSize, setBracketSize] = useState<BracketSize>(8);
+    const [seedType, setSeedType] = useState<'trending' | 'category'>('trending');
+    const [seedPeriod, setSeedPeriod] = useState<TrendingPeriod>('week');
+    const [seedQuery, setSeedQuery] = useState('');
+    const [tournamentStart, setTournamentStart] = useState(getDefaultStart);
+    const [roundHours, setRoundHours] = useState(24);
+    const [seeds, setSeeds] = useState<Omit<ShowdownGIF, 'votes'>[]>([]);
+
     useEffect(() => {
         loadShowdown();
         loadSettings();
+        loadTournaments();
+        loadQueue();
     }, []);
 
+    const loadQueue = async () => {
+        setQueue(await getShowdownQueue());
+    };
+
+    const loadTournaments = async () => {
+        setTournaments(await getRecentTournaments(5));
+    };
+
     const loadSettings = async () => {
         const globalSettings = await getAppSettings();
         if (globalSettings) {
@@ -115,10 +180,14 @@ const ShowdownManager: React.FC = () => {
         }
     };
 
+    const flaggedVoteIds = voters.filter(v => v.flagged && !v.voided).map(v => v.voteId);
+    const visibleVoters = flaggedOnly ? voters.filter(v => v.flagged) : voters;
+
     const loadVoters = async () => {
         setLoadingVoters(true);
         const voterList = await getShowdownVoters();
         setVoters(voterList);
+        setSelectedVotes(new Set());
         setLoadingVoters(false);
     };
 
@@ -240,6 +309,53 @@ const ShowdownManager: React.FC = () => {
         setActionLoading(null);
     };
 
+    const handleQueueShowdown = async () => {
+        if (!selectedGifA || !selectedGifB) {
+            showMessage('error', 'Select both Challenger and Defender GIFs');
+            return;
+        }
+
+        setActionLoading('queue');
+        const result = await queueShowdown(selectedGifA, selectedGifB);
+        showMessage(result.success ? 'success' : 'error', result.message);
+        if (result.success) {
+            await loadQueue();
+            setSelectedGifA(null);
+            setSelectedGifB(null);
+        }
+        setActionLoading(null);
+    };
+
+    const handleRemoveQueued = async (entryId: string) => {
+        setActionLoading(`unqueue-${entryId}`);
+        const result = await removeQueuedShowdown(entryId);
+        showMessage(result.success ? 'success' : 'error', result.message);
+        if (result.success) await loadQueue();
+        setActionLoading(null);
+    };
+
+    const toggleVoteSelection = (voteId: string) => {
+        setSelectedVotes(prev => {
+            const next = new Set(prev);
+            if (next.has(voteId)) next.delete(voteId);
+            else next.add(voteId);
+            return next;
+        });
+    };
+
+    const handleVoidVotes = async (voteIds: string[]) => {
+        if (voteIds.length === 0) return;
+        if (!confirm(`Void ${voteIds.length} vote${voteIds.length === 1 ? '' : 's'}? They stop counting toward the tally and Sauce Sense.`)) return;
+
+        setActionLoading('void');
+        const result = await voidShowdownVotes(voteIds);
+        showMessage(result.success ? 'success' : 'error', result.message);
+        if (result.success) {
+            await loadShowdown();
+        }
+        setActionLoading(null);
+    };
+
     const handleSeedTest = async () => {
         setActionLoading('seed');
         const result = await seedTestShowdown();
@@ -248,6 +364,60 @@ const ShowdownManager: React.FC = () => {
         setActionLoading(null);
     };
 
+    const getSeedSource = () => seedType === 'trending'
+        ? { type: 'trending' as const, period: seedPeriod }
+        : { type: 'category' as const, query: seedQuery.trim() };
+
+    const handlePreviewSeeds = async () => {
+        if (seedType === 'category' && !seedQuery.trim()) {
+            showMessage('error', 'Enter a category to seed from');
+            return;
+        }
+        setActionLoading('seeds');
+        const found = await fetchTournamentSeeds(getSeedSource(), bracketSize);
+        setSeeds(found);
+        if (found.length < bracketSize) {
+            showMessage('error', `Only found ${found.length} of ${bracketSize} GIFs - try another source`);
+        }
+        setActionLoading(null);
+    };
+
+    const handleCreateTournament = async () => {
+        setActionLoading('tournament');
+        const result = await createTournament({
+            name: tournamentName,
+            size: bracketSize,
+            seedSource: getSeedSource(),
+            gifs: seeds,
+            startsAt: new Date(tournamentStart),
+            roundDurationHours: roundHours
+        });
+        showMessage(result.success ? 'success' : 'error', result.message);
+        if (result.success) {
+            setSeeds([]);
+            setTournamentName('');
+            await loadTournaments();
+        }
+        setActionLoading(null);
+    };
+
+    const handleAdvanceTournament = async (tournamentId: string) => {
+        setActionLoading(`advance-${tournamentId}`);
+        const result = await forceAdvanceTournament(tournamentId);
+        showMessage(result.success ? 'success' : 'error', result.message);
+        if (result.success) await loadTournaments();
+        setActionLoading(null);
+    };
+
+    const handleCancelTournament = async (tournamentId: string) => {
+        if (!confirm('Cancel this tournament? Voting stops immediately.')) return;
+        setActionLoading(`cancel-${tournamentId}`);
+        const result = await cancelTournament(tournamentId);
+        showMessage(result.success ? 'success' : 'error', result.message);
+        if (result.success) await loadTournaments();
+        setActionLoading(null);
+    };
+
     const handleSaveSettings = async () => {
         setSavingSettings(true);
         try {
@@ -409,15 +579,50 @@ const ShowdownManager: React.FC = () => {
                                         {voters.length} votes
                                     </span>
                                 </div>
-                                <button
-                                    onClick={loadVoters}
-                                    disabled={loadingVoters}
-                                    className="p-2 rounded-lg bg-white/5 hover:bg-white/10 transition-colors disabled:opacity-50"
-                                >
-                                    <RotateCcw className={`w-4 h-4 text-slate-400 ${loadingVoters ? 'animate-spin' : ''}`} />
-                                </button>
+                                <div className="flex items-center gap-2">
+                                    {flaggedVoteIds.length > 0 && (
+                                        <button
+                                            onClick={() => setFlaggedOnly(!flaggedOnly)}
+                                            className={`flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-bold transition-colors ${flaggedOnly
+                                                ? 'bg-amber-500/20 text-amber-400 border border-amber-500/30'
+                                                : 'bg-white/5 text-slate-400 hover:text-white'
+                                                }`}
+                                        >
+                                            <ShieldAlert className="w-3 h-3" />
+                                            {flaggedVoteIds.length} flagged
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={loadVoters}
+                                        disabled={loadingVoters}
+                                        className="p-2 rounded-lg bg-white/5 hover:bg-white/10 transition-colors disabled:opacity-50"
+                                    >
+                                        <RotateCcw className={`w-4 h-4 text-slate-400 ${loadingVoters ? 'animate-spin' : ''}`} />
+                                    </button>
+                                </div>
                             </div>
 
+                            {(selectedVotes.size > 0 || flaggedVoteIds.length > 0) && (
+                                <div className="flex flex-wrap gap-2 mb-4">
+                                    <button
+                                        onClick={() => handleVoidVotes([...selectedVotes])}
+                                        disabled={selectedVotes.size === 0 || actionLoading !== null}
+                                        className="flex items-center gap-2 px-3 py-2 rounded-lg bg-red-500/10 text-red-400 border border-red-500/30 hover:bg-red-500/20 transition-all disabled:opacity-50"
+                                    >
+                                        {actionLoading === 'void' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Ban className="w-4 h-4" />}
+                                        <span className="text-xs font-semibold">Void Selected ({selectedVotes.size})</span>
+                                    </button>
+                                    <button
+                                        onClick={() => handleVoidVotes(flaggedVoteIds)}
+                                        disabled={flaggedVoteIds.length === 0 || actionLoading !== null}
+                                        className="flex items-center gap-2 px-3 py-2 rounded-lg bg-amber-500/10 text-amber-400 border border-amber-500/30 hover:bg-amber-500/20 transition-all disabled:opacity-50"
+                                    >
+                                        <ShieldAlert className="w-4 h-4" />
+                                        <span className="text-xs font-semibold">Void All Flagged ({flaggedVoteIds.length})</span>
+                                    </button>
+                                </div>
+                            )}
+
                             {loadingVoters ? (
                                 <div className="flex items-center justify-center py-8">
                                     <Loader2 className="w-6 h-6 text-white/40 animate-spin" />
@@ -432,14 +637,29 @@ const ShowdownManager: React.FC = () => {
                                     <table className="w-full text-sm">
                                         <thead>
                                             <tr className="border-b border-white/10 text-white/60 text-left">
+                                                <th className="pb-2 pr-2"></th>
                                                 <th className="pb-2 pr-4">Voter</th>
                                                 <th className="pb-2 pr-4">Choice</th>
+                                                <th className="pb-2 pr-4">Weight</th>
+                                                <th className="pb-2 pr-4">Flags</th>
                                                 <th className="pb-2">Time</th>
                                             </tr>
                                         </thead>
                                         <tbody>
-                                            {voters.map((voter, i) => (
-                                                <tr key={voter.odId} className="border-b border-white/5 hover:bg-white/5">
+                                            {visibleVoters.map((voter) => (
+                                                <tr
+                                                    key={voter.voteId}
+                                                    className={`border-b border-white/5 hover:bg-white/5 ${voter.voided ? 'opacity-40 line-through' : ''}`}
+                                                >
+                                                    <td className="py-3 pr-2">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={selectedVotes.has(voter.voteId)}
+                                                            onChange={() => toggleVoteSelection(voter.voteId)}
+                                                            disabled={voter.voided}
+                                                            className="accent-red-500"
+                                                        />
+                                                    </td>
                                                     <td className="py-3 pr-4">
                                                         <div className="flex flex-col">
                                                             <span className="text-white font-medium">
@@ -458,6 +678,24 @@ const ShowdownManager: React.FC = () => {
                                                             {voter.votedFor === 'A' ? 'Challenger' : 'Defender'}
                                                         </span>
                                                     </td>
+                                                    <td className="py-3 pr-4 text-white/60">
+                                                        {voter.weight.toFixed(2)}
+                                                    </td>
+                                                    <td className="py-3 pr-4">
+                                                        {voter.voided ? (
+                                                            <span className="text-xs text-white/40">Voided</span>
+                                                        ) : voter.flagged ? (
+                                                            <div className="flex flex-wrap gap-1">
+                                                                {voter.flagReasons.map(reason => (
+                                                                    <span key={reason} className="px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-400 text-[10px] font-bold">
+                                                                        {FLAG_LABELS[reason] || reason}
+                                                                    </span>
+                                                                ))}
+                                                            </div>
+                                                        ) : (
+                                                            <span className="text-xs text-white/30">—</span>
+                                                        )}
+                                                    </td>
                                                     <td className="py-3 text-white/60">
                                                         {voter.timestamp.toLocaleTimeString([], {
                                                             hour: '2-digit',
@@ -643,7 +881,7 @@ const ShowdownManager: React.FC = () => {
                 </div>
 
                 {/* Create Button */}
-                <div className="mt-6 flex justify-center">
+                <div className="mt-6 flex flex-col sm:flex-row items-center justify-center gap-3">
                     <button
                         onClick={handleCreateShowdown}
                         disabled={!selectedGifA || !selectedGifB || actionLoading !== null}
@@ -656,6 +894,225 @@ const ShowdownManager: React.FC = () => {
                         )}
                         Create Today's Showdown
                     </button>
+                    <button
+                        onClick={handleQueueShowdown}
+                        disabled={!selectedGifA || !selectedGifB || actionLoading !== null}
+                        className="flex items-center gap-3 px-6 py-4 rounded-xl bg-white/5 text-white border border-white/10 font-semibold hover:bg-white/10 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {actionLoading === 'queue' ? (
+                            <Loader2 className="w-5 h-5 animate-spin" />
+                        ) : (
+                            <ListPlus className="w-5 h-5" />
+                        )}
+                        Queue for Later
+                    </button>
+                </div>
+
+                {/* Rotation Queue */}
+                <div className="mt-6 pt-6 border-t border-white/10">
+                    <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-1">Up Next</h3>
+                    <p className="text-xs text-slate-500 mb-3">
+                        A new showdown starts automatically each day (UTC) - queued matchups first, then trending library GIFs.
+                    </p>
+                    {queue.length === 0 ? (
+                        <p className="text-sm text-slate-500">Queue is empty - tomorrow's matchup will come from trending.</p>
+                    ) : (
+                        <div className="space-y-2">
+                            {queue.map((entry, i) => (
+                                <div key={entry.id} className="flex items-center gap-3 p-2 rounded-xl bg-white/5 border border-white/10">
+                                    <span className="w-6 text-center text-xs font-bold text-slate-500">{i + 1}</span>
+                                    <img src={entry.gifA.url} alt={entry.gifA.title} className="w-10 h-10 rounded-lg object-cover" />
+                                    <span className="text-xs font-bold text-slate-500">VS</span>
+                                    <img src={entry.gifB.url} alt={entry.gifB.title} className="w-10 h-10 rounded-lg object-cover" />
+                                    <p className="flex-1 min-w-0 text-sm text-white truncate">
+                                        {entry.gifA.title} vs {entry.gifB.title}
+                                    </p>
+                                    <button
+                                        onClick={() => handleRemoveQueued(entry.id)}
+                                        disabled={actionLoading !== null}
+                                        className="p-2 rounded-lg text-slate-400 hover:text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-50"
+                                    >
+                                        {actionLoading === `unqueue-${entry.id}` ? <Loader2 className="w-4 h-4 animate-spin" /> : <XCircle className="w-4 h-4" />}
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Bracket Tournaments */}
+            <div className="bg-white/5 rounded-2xl border border-white/10 p-4 sm:p-6 mt-6">
+                <div className="flex items-center justify-between mb-6">
+                    <div className="flex items-center gap-3">
+                        <GitBranch className="w-6 h-6 text-purple-500" />
+                        <h2 className="text-xl font-bold text-white">Bracket Tournaments</h2>
+                    </div>
+                    <button
+                        onClick={loadTournaments}
+                        className="p-2 rounded-lg bg-white/5 hover:bg-white/10 transition-colors"
+                    >
+                        <RotateCcw className="w-4 h-4 text-slate-400" />
+                    </button>
+                </div>
+
+                {/* Recent Tournaments */}
+                {tournaments.length > 0 && (
+                    <div className="space-y-2 mb-6">
+                        {tournaments.map(t => (
+                            <div key={t.id} className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 rounded-xl bg-white/5 border border-white/10">
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-semibold text-white truncate">{t.name}</p>
+                                    <p className="text-xs text-slate-400">
+                                        {t.size} GIFs · {t.status === 'active'
+                                            ? (new Date() < t.startsAt
+                                                ? `Starts ${t.startsAt.toLocaleString()}`
+                                                : getRoundName(t.currentRound, t.roundCount))
+                                            : t.status}
+                                    </p>
+                                </div>
+                                {t.status === 'active' && (
+                                    <div className="flex gap-2">
+                                        <button
+                                            onClick={() => handleAdvanceTournament(t.id)}
+                                            disabled={actionLoading !== null}
+                                            className="flex items-center gap-2 px-3 py-2 rounded-lg bg-purple-500/10 text-purple-400 border border-purple-500/30 hover:bg-purple-500/20 transition-all disabled:opacity-50"
+                                        >
+                                            {actionLoading === `advance-${t.id}` ? <Loader2 className="w-4 h-4 animate-spin" /> : <FastForward className="w-4 h-4" />}
+                                            <span className="text-xs font-semibold">Settle Round Now</span>
+                                        </button>
+                                        <button
+                                            onClick={() => handleCancelTournament(t.id)}
+                                            disabled={actionLoading !== null}
+                                            className="flex items-center gap-2 px-3 py-2 rounded-lg bg-red-500/10 text-red-400 border border-red-500/30 hover:bg-red-500/20 transition-all disabled:opacity-50"
+                                        >
+                                            {actionLoading === `cancel-${t.id}` ? <Loader2 className="w-4 h-4 animate-spin" /> : <XCircle className="w-4 h-4" />}
+                                            <span className="text-xs font-semibold">Cancel</span>
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {/* Builder */}
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-slate-400 mb-2">Name</label>
+                        <input
+                            type="text"
+                            placeholder="e.g. March Sauciness"
+                            value={tournamentName}
+                            onChange={(e) => setTournamentName(e.target.value)}
+                            className="w-full px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-slate-400 mb-2">Bracket Size</label>
+                        <div className="flex gap-2">
+                            {BRACKET_SIZES.map(size => (
+                                <button
+                                    key={size}
+                                    onClick={() => { setBracketSize(size); setSeeds([]); }}
+                                    className={`flex-1 px-4 py-2 rounded-lg font-semibold text-sm transition-all ${bracketSize === size
+                                        ? 'bg-purple-500 text-white'
+                                        : 'bg-white/5 text-slate-400 border border-white/10 hover:text-white'
+                                        }`}
+                                >
+                                    {size} GIFs
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-slate-400 mb-2">Seed From</label>
+                        <div className="flex gap-2">
+                            <select
+                                value={seedType}
+                                onChange={(e) => { setSeedType(e.target.value as 'trending' | 'category'); setSeeds([]); }}
+                                className="px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white focus:outline-none"
+                            >
+                                <option value="trending">Trending</option>
+                                <option value="category">Category</option>
+                            </select>
+                            {seedType === 'trending' ? (
+                                <select
+                                    value={seedPeriod}
+                                    onChange={(e) => { setSeedPeriod(e.target.value as TrendingPeriod); setSeeds([]); }}
+                                    className="flex-1 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white focus:outline-none"
+                                >
+                                    <option value="today">Today</option>
+                                    <option value="week">This Week</option>
+                                    <option value="month">This Month</option>
+                                    <option value="allTime">All Time</option>
+                                </select>
+                            ) : (
+                                <input
+                                    type="text"
+                                    placeholder="e.g. reactions, sports, cats"
+                                    value={seedQuery}
+                                    onChange={(e) => { setSeedQuery(e.target.value); setSeeds([]); }}
+                                    className="flex-1 px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                                />
+                            )}
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-400 mb-2">Starts</label>
+                            <input
+                                type="datetime-local"
+                                value={tournamentStart}
+                                onChange={(e) => setTournamentStart(e.target.value)}
+                                className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white focus:outline-none"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-400 mb-2">Hours / Round</label>
+                            <input
+                                type="number"
+                                min={1}
+                                max={168}
+                                value={roundHours}
+                                onChange={(e) => setRoundHours(Math.max(1, Number(e.target.value) || 1))}
+                                className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white focus:outline-none"
+                            />
+                        </div>
+                    </div>
+                </div>
+
+                {/* Seed Preview */}
+                {seeds.length > 0 && (
+                    <div className="grid grid-cols-4 sm:grid-cols-8 gap-2 mt-6">
+                        {seeds.map((gif, i) => (
+                            <div key={gif.id} className="relative aspect-square rounded-lg overflow-hidden bg-white/5 border border-white/10">
+                                <img src={gif.url} alt={gif.title} className="w-full h-full object-cover" />
+                                <span className="absolute top-1 left-1 px-1.5 py-0.5 rounded bg-black/70 text-[10px] font-bold text-white">
+                                    #{i + 1}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div className="mt-6 flex flex-col sm:flex-row justify-center gap-3">
+                    <button
+                        onClick={handlePreviewSeeds}
+                        disabled={actionLoading !== null}
+                        className="flex items-center justify-center gap-2 px-6 py-3 rounded-xl bg-white/5 text-white border border-white/10 font-semibold hover:bg-white/10 transition-all disabled:opacity-50"
+                    >
+                        {actionLoading === 'seeds' ? <Loader2 className="w-5 h-5 animate-spin" /> : <RotateCcw className="w-5 h-5" />}
+                        Preview Seeds
+                    </button>
+                    <button
+                        onClick={handleCreateTournament}
+                        disabled={seeds.length < bracketSize || actionLoading !== null}
+                        className="flex items-center justify-center gap-2 px-6 py-3 rounded-xl bg-gradient-to-r from-purple-500 to-red-500 text-white font-bold hover:opacity-90 transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-lg shadow-purple-500/30"
+                    >
+                        {actionLoading === 'tournament' ? <Loader2 className="w-5 h-5 animate-spin" /> : <Trophy className="w-5 h-5" />}
+                        Create Tournament
+                    </button>
                 </div>
             </div>
 
@@ -5,6 +5,7 @@
  * - View all registered users
  * - Search and filter users
  * - Change user roles (with permission checks)
+ * - Flag brand accounts (unlocks custom caption fonts)
  * - View role change audit log
  */
 
@@ -20,12 +21,15 @@ import {
     AlertCircle,
     History,
     RefreshCw,
-    ChevronDown
+    ChevronDown,
+    BadgeCheck
 } from 'lucide-react';
 import {
     getAllUsers,
     changeUserRole,
+    setBrandAccount,
     getRoleChangeHistory,
+    getRoleClaim,
     UserProfile,
     RoleChangeAudit
 } from '../../services/userProfileService';
@@ -43,7 +47,8 @@ const UserManagement: React.FC = () => {
     const [showAuditLog, setShowAuditLog] = useState(false);
     const [actionLoading, setActionLoading] = useState<string | null>(null);
     const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
-    const [currentUserProfile, setCurrentUserProfile] = useState<UserProfile | null>(null);
+    // Caller's role from their custom claim - the same thing the server and rules check
+    const [myRole, setMyRole] = useState<UserProfile['role'] | null>(null);
 
     useEffect(() => {
         const unsubscribe = initAuthListener((authUser) => {
@@ -64,18 +69,14 @@ const UserManagement: React.FC = () => {
 
     const loadData = async () => {
         setLoading(true);
-        const [allUsers, history] = await Promise.all([
+        const [allUsers, history, role] = await Promise.all([
             getAllUsers(200),
-            getRoleChangeHistory(50)
+            getRoleChangeHistory(50),
+            getRoleClaim(true)
         ]);
         setUsers(allUsers);
         setAuditLog(history);
-
-        // Find current user's profile
-        if (user) {
-            const myProfile = allUsers.find(u => u.uid === user.uid);
-            setCurrentUserProfile(myProfile || null);
-        }
+        setMyRole(role);
         setLoading(false);
     };
 
@@ -108,7 +109,18 @@ const UserManagement: React.FC = () => {
         if (!user) return;
 
         setActionLoading(targetUid);
-        const result = await changeUserRole(targetUid, newRole, user.uid);
+        const result = await changeUserRole(targetUid, newRole);
+        showMessage(result.success ? 'success' : 'error', result.message);
+
+        if (result.success) {
+            await loadData();
+        }
+        setActionLoading(null);
+    };
+
+    const handleBrandToggle = async (target: UserProfile) => {
+        setActionLoading(target.uid);
+        const result = await setBrandAccount(target.uid, !target.brand);
         showMessage(result.success ? 'success' : 'error', result.message);
 
         if (result.success) {
@@ -137,15 +149,15 @@ const UserManagement: React.FC = () => {
     };
 
     const canChangeRole = (targetUser: UserProfile): boolean => {
-        if (!currentUserProfile) return false;
+        if (!myRole || !user) return false;
 
         // Owner can change anyone except themselves
-        if (currentUserProfile.role === 'owner') {
-            return targetUser.uid !== currentUserProfile.uid && targetUser.role !== 'owner';
+        if (myRole === 'owner') {
+            return targetUser.uid !== user.uid && targetUser.role !== 'owner';
         }
 
         // Admins can only change regular users
-        if (currentUserProfile.role === 'admin') {
+        if (myRole === 'admin') {
             return targetUser.role === 'user';
         }
 
@@ -153,13 +165,13 @@ const UserManagement: React.FC = () => {
     };
 
     const getAvailableRoles = (targetUser: UserProfile): ('user' | 'admin')[] => {
-        if (!currentUserProfile) return [];
+        if (!myRole) return [];
 
-        if (currentUserProfile.role === 'owner') {
+        if (myRole === 'owner') {
             return targetUser.role === 'admin' ? ['user'] : ['admin', 'user'].filter(r => r !== targetUser.role) as any;
         }
 
-        if (currentUserProfile.role === 'admin' && targetUser.role === 'user') {
+        if (myRole === 'admin' && targetUser.role === 'user') {
             return []; // Admins can't promote users to admin
         }
 
@@ -317,6 +329,23 @@ const UserManagement: React.FC = () => {
                             <div className="flex items-center gap-3 justify-between sm:justify-end">
                                 {getRoleBadge(u.role)}
 
+                                {(myRole === 'owner' || myRole === 'admin') ? (
+                                    <button
+                                        onClick={() => handleBrandToggle(u)}
+                                        disabled={actionLoading === u.uid}
+                                        title={u.brand ? 'Remove brand features' : 'Make brand account (custom fonts)'}
+                                        className={`flex items-center gap-1 px-2 py-1 text-xs font-bold rounded-full border transition-colors disabled:opacity-50 ${u.brand
+                                            ? 'bg-blue-500/20 text-blue-400 border-blue-500/30'
+                                            : 'bg-transparent text-slate-500 border-white/10 hover:text-slate-300'
+                                            }`}
+                                    >
+                                        <BadgeCheck className="w-3 h-3" />
+                                        Brand
+                                    </button>
+                                ) : u.brand && (
+                                    <span className="px-2 py-1 text-xs font-bold rounded-full bg-blue-500/20 text-blue-400 border border-blue-500/30">Brand</span>
+                                )}
+
                                 {canChangeRole(u) && (
                                     <div className="relative group">
                                         <button
@@ -344,7 +373,7 @@ const UserManagement: React.FC = () => {
                                                     Make User
                                                 </button>
                                             )}
-                                            {u.role !== 'admin' && currentUserProfile?.role === 'owner' && (
+                                            {u.role !== 'admin' && myRole === 'owner' && (
                                                 <button
                                                     onClick={() => handleRoleChange(u.uid, 'admin')}
                                                     className="w-full px-3 py-2 text-left text-sm text-red-400 hover:bg-white/10 flex items-center gap-2"
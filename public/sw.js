@@ -0,0 +1,260 @@
+/**
+ * Saucy service worker
+ *
+ * - App shell: navigations are network-first and fall back to the cached index.html,
+ *   hashed build assets (/assets/*) are cache-first. A navigation that brings a new build
+ *   replaces the cached index.html and drops the previous build's assets.
+ * - GIFs: image requests to GIF hosts whose URL is in the IndexedDB "gifs" store (filled
+ *   by services/offlineFavorites.ts with Sauce Box favorites) are answered from it, so they
+ *   show offline. Every other image goes straight to the network.
+ *
+ * Firestore, Functions and API calls are never intercepted.
+ */
+
+const SHELL_CACHE = 'saucy-shell-v1';
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/favicon.png', '/logos/saucy_drip_dark.png'];
+// Entry script of the build the cached index.html belongs to
+const BUILD_KEY = '/__saucy-build';
+
+// Favorites are only ever cached from these hosts
+const GIF_HOSTS = ['klipy.com', 'giphy.com', 'tenor.com', 'tenor.googleapis.com', 'firebasestorage.googleapis.com', 'storage.googleapis.com'];
+
+// Must match services/offlineFavorites.ts
+const DB_NAME = 'saucy-offline';
+const DB_VERSION = 1;
+const GIFS_STORE = 'gifs';
+
+// =============================================================================
+// LIFECYCLE
+// =============================================================================
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(
+        caches.open(SHELL_CACHE)
+            .then((cache) => cache.addAll(SHELL_URLS))
+            .then(() => self.skipWaiting())
+    );
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches.keys()
+            .then((keys) => Promise.all(
+                keys.filter((key) => key.startsWith('saucy-shell-') && key !== SHELL_CACHE)
+                    .map((key) => caches.delete(key))
+            ))
+            .then(() => self.clients.claim())
+    );
+});
+
+// =============================================================================
+// INDEXEDDB (GIF bytes)
+// =============================================================================
+
+let dbPromise = null;
+
+// Recency writes are batched: a GIF's lastAccessed moves at most once per interval
+const TOUCH_INTERVAL_MS = 60 * 60 * 1000;
+const TOUCH_FLUSH_DELAY_MS = 5000;
+const pendingTouches = new Set();
+let touchTimer = null;
+
+// URLs in the gifs store; null until loaded, dropped when the page says the store changed
+let cachedUrls = null;
+let cachedUrlsPromise = null;
+
+/**
+ * One connection for the worker's lifetime, reopened if the page upgrades the schema
+ */
+function openDb() {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            // The page owns the schema; if it hasn't created the database yet there's nothing cached
+            request.onupgradeneeded = () => request.transaction.abort();
+            request.onsuccess = () => {
+                const db = request.result;
+                // Don't block the page's upgrade; the next request opens a fresh connection
+                db.onversionchange = () => {
+                    db.close();
+                    dbPromise = null;
+                };
+                db.onclose = () => { dbPromise = null; };
+                resolve(db);
+            };
+            request.onerror = () => reject(request.error);
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+/**
+ * Load the keys of the gifs store once, so images that aren't cached skip IndexedDB
+ */
+function loadCachedUrls() {
+    if (!cachedUrlsPromise) {
+        const loading = openDb()
+            .then((db) => new Promise((resolve) => {
+                const request = db.transaction(GIFS_STORE, 'readonly').objectStore(GIFS_STORE).getAllKeys();
+                request.onsuccess = () => resolve(new Set(request.result.map(String)));
+                request.onerror = () => resolve(new Set());
+            }))
+            .catch(() => new Set());
+        cachedUrlsPromise = loading;
+        loading.then((urls) => {
+            if (cachedUrlsPromise === loading) cachedUrls = urls;
+        });
+    }
+    return cachedUrlsPromise;
+}
+
+self.addEventListener('message', (event) => {
+    if (event.data && event.data.type === 'gif-cache-changed') {
+        cachedUrls = null;
+        cachedUrlsPromise = null;
+    }
+});
+
+async function getCachedGif(url) {
+    try {
+        const db = await openDb();
+        const store = db.transaction(GIFS_STORE, 'readonly').objectStore(GIFS_STORE);
+        const entry = await new Promise((resolve) => {
+            const request = store.get(url);
+            request.onsuccess = () => resolve(request.result || null);
+            request.onerror = () => resolve(null);
+        });
+        if (entry && Date.now() - (entry.lastAccessed || 0) > TOUCH_INTERVAL_MS) {
+            touchGif(url);
+        }
+        return entry;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Queue a GIF's recency update, keeping the LRU order honest without a write per image
+ */
+function touchGif(url) {
+    pendingTouches.add(url);
+    if (!touchTimer) {
+        touchTimer = setTimeout(flushTouches, TOUCH_FLUSH_DELAY_MS);
+    }
+}
+
+async function flushTouches() {
+    touchTimer = null;
+    const urls = [...pendingTouches];
+    pendingTouches.clear();
+    try {
+        const db = await openDb();
+        const store = db.transaction(GIFS_STORE, 'readwrite').objectStore(GIFS_STORE);
+        const now = Date.now();
+        urls.forEach((url) => {
+            const request = store.get(url);
+            // Re-read in the write transaction: the page may have evicted it meanwhile
+            request.onsuccess = () => {
+                if (request.result) store.put({ ...request.result, lastAccessed: now });
+            };
+        });
+    } catch {
+        // Recency is best-effort
+    }
+}
+
+// =============================================================================
+// FETCH
+// =============================================================================
+
+let shellRefresh = Promise.resolve();
+
+const isGifHost = (hostname) =>
+    GIF_HOSTS.some((host) => hostname === host || hostname.endsWith(`.${host}`));
+
+async function handleImage(request) {
+    const urls = await loadCachedUrls();
+    if (!urls.has(request.url)) return fetch(request);
+
+    const entry = await getCachedGif(request.url);
+    if (entry) {
+        return new Response(entry.blob, {
+            headers: { 'Content-Type': entry.blob.type || 'image/gif' }
+        });
+    }
+    return fetch(request);
+}
+
+/**
+ * Keep the offline shell on the build the server is serving. The entry script's hashed
+ * name identifies the build; when it changes, the old build's assets are dropped.
+ */
+async function refreshShell(response) {
+    try {
+        const html = await response.text();
+        const entry = html.match(/\/assets\/[^"']+\.js/);
+        if (!entry) return;
+
+        const cache = await caches.open(SHELL_CACHE);
+        const previous = await cache.match(BUILD_KEY);
+        if (previous && (await previous.text()) === entry[0]) return;
+
+        const keys = await cache.keys();
+        await Promise.all(keys
+            .filter((key) => new URL(key.url).pathname.startsWith('/assets/'))
+            .map((key) => cache.delete(key)));
+        await cache.put('/index.html', new Response(html, { headers: { 'Content-Type': 'text/html' } }));
+        await cache.put(BUILD_KEY, new Response(entry[0]));
+    } catch {
+        // The shell stays on the previous build until the next navigation
+    }
+}
+
+async function handleNavigation(event) {
+    try {
+        const response = await fetch(event.request);
+        const type = response.headers.get('Content-Type') || '';
+        if (response.ok && type.includes('text/html')) {
+            shellRefresh = refreshShell(response.clone());
+            event.waitUntil(shellRefresh);
+        }
+        return response;
+    } catch {
+        const cache = await caches.open(SHELL_CACHE);
+        return (await cache.match('/index.html')) || Response.error();
+    }
+}
+
+async function handleAsset(request) {
+    const cache = await caches.open(SHELL_CACHE);
+    const cached = await cache.match(request);
+    if (cached) return cached;
+
+    const response = await fetch(request);
+    if (response.ok) {
+        // Don't let a pending prune delete an asset of the new build right after it's cached
+        const copy = response.clone();
+        shellRefresh.then(() => cache.put(request, copy));
+    }
+    return response;
+}
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+
+    const url = new URL(request.url);
+    const sameOrigin = url.origin === self.location.origin;
+
+    if (request.destination === 'image') {
+        // Once the cached URLs are known, anything else is left to the browser
+        if (isGifHost(url.hostname) && (!cachedUrls || cachedUrls.has(request.url))) {
+            event.respondWith(handleImage(request));
+        }
+    } else if (request.mode === 'navigate' && sameOrigin && !url.pathname.startsWith('/api/')) {
+        event.respondWith(handleNavigation(event));
+    } else if (sameOrigin && url.pathname.startsWith('/assets/')) {
+        event.respondWith(handleAsset(request));
+    }
+});
@@ -13,6 +13,7 @@ import {
 } from 'firebase/auth';
 import { auth, googleProvider } from './firebaseConfig';
 import { saveUserApiKey, getUserApiKey } from './userDataService';
+import { isGeminiGatewayEnabled } from './geminiGateway';
 
 export interface ApiKeyResult {
     key: string;
@@ -273,6 +274,18 @@ export const saveSaucyApiKey = async (key: string): Promise<boolean> => {
 
     const trimmedKey = key.trim();
 
+    // Gateway mode: the key goes to the server and is never kept in the browser
+    if (isGeminiGatewayEnabled()) {
+        if (!currentUser) return false;
+        try {
+            await saveUserApiKey(currentUser.uid, trimmedKey);
+            return true;
+        } catch (e) {
+            console.error("Failed to save API key to gateway:", e);
+            return false;
+        }
+    }
+
     // Save to Firestore if logged in
     if (currentUser) {
         try {
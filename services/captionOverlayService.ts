@@ -2,14 +2,20 @@
  * Caption Overlay Service
  * 
  * Core service for burning text captions onto GIF frames.
- * Uses Canvas API for rendering and gif.js for encoding.
+ * Uses Canvas API for rendering and gifCodec for decoding/encoding.
+ * memeEngine builds on this for saved meme documents; both editors render through it.
  * 
  * Supports two caption styles:
  * - Classic Meme: Impact font, ALL CAPS, white with black outline (default)
  * - Modern Clean: Sans-serif, lowercase, subtle shadow
+ *
+ * Captions are either one static CaptionOptions for the whole GIF, or a CaptionTimeline:
+ * several captions, each shown over a frame range with enter/exit effects
+ * (pop, fade, typewriter, shake) and optional keyframed positions.
  */
 
-import { parseGIF, decompressFrames } from 'gifuct-js';
+import { decodeGif, encodeGif, imageDataToDataUrl } from './gifCodec';
+import { requestFont, ensureFontsReady } from './fontRegistry';
 
 // =============================================================================
 // TYPES
@@ -17,6 +23,7 @@ import { parseGIF, decompressFrames } from 'gifuct-js';
 
 export type CaptionPosition = 'top' | 'bottom' | 'center';
 export type CaptionStyle = 'classic' | 'modern';
+export type CaptionEffect = 'none' | 'pop' | 'fade' | 'typewriter' | 'shake';
 
 export interface CaptionOptions {
     text: string;
@@ -28,6 +35,44 @@ export interface CaptionOptions {
     strokeColor?: string;     // Default: black (for classic)
     strokeWidth?: number;     // Default: 4 (for classic)
     padding?: number;         // Default: 20px
+    fontFamily?: string;      // Overrides the style preset's font
+    anchor?: { x: number; y: number };  // Fixed text block center (%), overrides `position`
+}
+
+/**
+ * Caption anchor at a given frame, as a percentage of the frame size (text block center)
+ */
+export interface CaptionKeyframe {
+    frame: number;
+    x: number;
+    y: number;
+}
+
+export interface TimelineCaption extends CaptionOptions {
+    id: string;
+    startFrame: number;
+    endFrame: number;           // Inclusive
+    enter?: CaptionEffect;
+    exit?: CaptionEffect;
+    effectFrames?: number;      // Frames an enter/exit effect lasts (default: 4)
+    keyframes?: CaptionKeyframe[];  // When set, overrides `anchor` and `position`
+}
+
+export interface CaptionTimeline {
+    captions: TimelineCaption[];
+}
+
+/**
+ * How a caption looks on one frame once its effects and keyframes are applied
+ */
+export interface CaptionFrameState {
+    x?: number;                 // Keyframed anchor (%), undefined = use `position`
+    y?: number;
+    opacity: number;
+    scale: number;
+    shakeX: number;             // Offsets in multiples of the font size
+    shakeY: number;
+    visibleChars: number;
 }
 
 export interface GifFrame {
@@ -48,6 +93,18 @@ export interface ProcessedGif {
 // Max file size for Slack compatibility (5MB)
 const MAX_FILE_SIZE = 5 * 1024 * 1024;
 
+const DEFAULT_EFFECT_FRAMES = 4;
+const POP_OVERSHOOT = 1.15;
+const SHAKE_AMOUNT = 0.15;
+
+export const CAPTION_EFFECTS: { id: CaptionEffect; label: string }[] = [
+    { id: 'none', label: 'None' },
+    { id: 'pop', label: 'Pop' },
+    { id: 'fade', label: 'Fade' },
+    { id: 'typewriter', label: 'Typewriter' },
+    { id: 'shake', label: 'Shake' },
+];
+
 // =============================================================================
 // STYLE PRESETS
 // =============================================================================
@@ -80,82 +137,20 @@ const STYLE_PRESETS = {
 // =============================================================================
 
 /**
- * Extract frames from a GIF URL
+ * Extract fully composited frames from a GIF URL
  */
 export async function extractFramesFromGif(gifUrl: string): Promise<{
     frames: GifFrame[];
     width: number;
     height: number;
+    loopCount: number;
 }> {
-    // Fetch the GIF as ArrayBuffer
-    const response = await fetch(gifUrl);
-    const arrayBuffer = await response.arrayBuffer();
-
-    // Parse the GIF
-    const gif = parseGIF(arrayBuffer);
-    const frames = decompressFrames(gif, true);
-
-    if (frames.length === 0) {
-        throw new Error('No frames found in GIF');
-    }
-
-    const width = frames[0].dims.width;
-    const height = frames[0].dims.height;
-
-    // Create a canvas for compositing frames
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d')!;
-
-    // Previous frame for disposal handling
-    let previousImageData: ImageData | null = null;
-
-    const processedFrames: GifFrame[] = [];
-
-    for (const frame of frames) {
-        // Handle disposal method
-        if (frame.disposalType === 2) {
-            // Restore to background (clear)
-            ctx.clearRect(0, 0, width, height);
-        } else if (frame.disposalType === 3 && previousImageData) {
-            // Restore to previous
-            ctx.putImageData(previousImageData, 0, 0);
-        }
-
-        // Save current state for potential restore
-        previousImageData = ctx.getImageData(0, 0, width, height);
-
-        // Create ImageData from frame patch
-        const frameImageData = new ImageData(
-            new Uint8ClampedArray(frame.patch),
-            frame.dims.width,
-            frame.dims.height
-        );
-
-        // Create temporary canvas for the frame patch
-        const tempCanvas = document.createElement('canvas');
-        tempCanvas.width = frame.dims.width;
-        tempCanvas.height = frame.dims.height;
-        const tempCtx = tempCanvas.getContext('2d')!;
-        tempCtx.putImageData(frameImageData, 0, 0);
-
-        // Draw frame patch at correct position
-        ctx.drawImage(tempCanvas, frame.dims.left, frame.dims.top);
-
-        // Get the full composited frame
-        const fullFrameImageData = ctx.getImageData(0, 0, width, height);
-
-        processedFrames.push({
-            imageData: fullFrameImageData,
-            delay: frame.delay * 10, // Convert to ms (GIF delay is in centiseconds)
-        });
-    }
-
+    const { frames, width, height, loopCount } = await decodeGif(gifUrl);
     return {
-        frames: processedFrames,
+        frames: frames.map(({ imageData, delay }) => ({ imageData, delay })),
         width,
         height,
+        loopCount,
     };
 }
 
@@ -189,16 +184,157 @@ function calculateFontSize(
     return Math.max(16, Math.min(size, 72));
 }
 
+// =============================================================================
+// TIMELINE
+// =============================================================================
+
+const isTimeline = (options: CaptionOptions | CaptionTimeline): options is CaptionTimeline =>
+    Array.isArray((options as CaptionTimeline).captions);
+
+const clamp01 = (value: number): number => Math.max(0, Math.min(1, value));
+
+/**
+ * Turn a static caption into a one-caption timeline spanning every frame
+ */
+export function createTimeline(options: CaptionOptions, frameCount: number): CaptionTimeline {
+    return {
+        captions: [{
+            ...options,
+            id: 'caption-1',
+            startFrame: 0,
+            endFrame: Math.max(0, frameCount - 1),
+            enter: 'none',
+            exit: 'none',
+        }],
+    };
+}
+
+/**
+ * Linear interpolation between keyframes, held before the first and after the last
+ */
+export function interpolateKeyframes(
+    keyframes: CaptionKeyframe[],
+    frame: number
+): { x: number; y: number } | null {
+    if (keyframes.length === 0) return null;
+    const sorted = [...keyframes].sort((a, b) => a.frame - b.frame);
+
+    if (frame <= sorted[0].frame) return { x: sorted[0].x, y: sorted[0].y };
+    const last = sorted[sorted.length - 1];
+    if (frame >= last.frame) return { x: last.x, y: last.y };
+
+    const nextIndex = sorted.findIndex(k => k.frame > frame);
+    const from = sorted[nextIndex - 1];
+    const to = sorted[nextIndex];
+    const t = (frame - from.frame) / (to.frame - from.frame);
+    return {
+        x: from.x + (to.x - from.x) * t,
+        y: from.y + (to.y - from.y) * t,
+    };
+}
+
+/**
+ * Apply one effect at `progress` (0 = hidden, 1 = fully in)
+ */
+function applyEffect(
+    state: CaptionFrameState,
+    effect: CaptionEffect | undefined,
+    progress: number,
+    frame: number,
+    textLength: number
+): void {
+    if (!effect || effect === 'none' || progress >= 1) return;
+
+    switch (effect) {
+        case 'fade':
+            state.opacity *= progress;
+            break;
+        case 'pop':
+            // Grow past full size, then settle back
+            state.scale *= progress < 0.7
+                ? (progress / 0.7) * POP_OVERSHOOT
+                : POP_OVERSHOOT - ((progress - 0.7) / 0.3) * (POP_OVERSHOOT - 1);
+            break;
+        case 'typewriter':
+            state.visibleChars = Math.min(state.visibleChars, Math.ceil(textLength * progress));
+            break;
+        case 'shake': {
+            // Deterministic jitter so preview and export match frame for frame
+            const amount = SHAKE_AMOUNT * (1 - progress);
+            state.shakeX += Math.sin(frame * 12.9898) * amount;
+            state.shakeY += Math.cos(frame * 78.233) * amount;
+            break;
+        }
+    }
+}
+
+/**
+ * Where and how a timeline caption draws on `frame`, or null if it isn't on screen
+ */
+export function getCaptionFrameState(caption: TimelineCaption, frame: number): CaptionFrameState | null {
+    if (frame < caption.startFrame || frame > caption.endFrame || !caption.text) return null;
+
+    // Effects can't overlap: each gets at most half the caption's duration
+    const duration = caption.endFrame - caption.startFrame + 1;
+    const effectFrames = Math.max(1, Math.min(caption.effectFrames ?? DEFAULT_EFFECT_FRAMES, Math.ceil(duration / 2)));
+    const enterProgress = clamp01((frame - caption.startFrame + 1) / effectFrames);
+    const exitProgress = clamp01((caption.endFrame - frame + 1) / effectFrames);
+
+    const state: CaptionFrameState = {
+        opacity: 1,
+        scale: 1,
+        shakeX: 0,
+        shakeY: 0,
+        visibleChars: caption.text.length,
+    };
+    applyEffect(state, caption.enter, enterProgress, frame, caption.text.length);
+    applyEffect(state, caption.exit, exitProgress, frame, caption.text.length);
+
+    const anchor = caption.keyframes?.length ? interpolateKeyframes(caption.keyframes, frame) : caption.anchor;
+    if (anchor) {
+        state.x = anchor.x;
+        state.y = anchor.y;
+    }
+    return state;
+}
+
+// =============================================================================
+// RENDERING
+// =============================================================================
+
+/**
+ * Every font a caption set draws with, and the text it needs glyphs for
+ */
+export function getCaptionFonts(options: CaptionOptions | CaptionTimeline): { family: string; text: string }[] {
+    const captions: CaptionOptions[] = isTimeline(options) ? options.captions : [options];
+    return captions
+        .filter(caption => caption.text)
+        .map(caption => {
+            const preset = STYLE_PRESETS[caption.style];
+            return {
+                family: caption.fontFamily || preset.fontFamily,
+                text: preset.textTransform === 'uppercase' ? caption.text.toUpperCase() : caption.text,
+            };
+        });
+}
+
+const STATIC_STATE: CaptionFrameState = {
+    opacity: 1,
+    scale: 1,
+    shakeX: 0,
+    shakeY: 0,
+    visibleChars: Infinity,
+};
+
 /**
- * Overlay caption text on a single frame
+ * Overlay caption text on a single frame.
+ * With a timeline, only the captions on screen at `frameIndex` are drawn, with their effects.
  */
 export function overlayTextOnFrame(
     imageData: ImageData,
-    options: CaptionOptions
+    options: CaptionOptions | CaptionTimeline,
+    frameIndex: number = 0
 ): ImageData {
-    const { text, position, style } = options;
-    const preset = STYLE_PRESETS[style];
-
     const width = imageData.width;
     const height = imageData.height;
 
@@ -211,6 +347,32 @@ export function overlayTextOnFrame(
     // Draw the original frame
     ctx.putImageData(imageData, 0, 0);
 
+    if (isTimeline(options)) {
+        for (const caption of options.captions) {
+            const state = getCaptionFrameState(caption, frameIndex);
+            if (state) drawCaption(ctx, width, height, caption, state);
+        }
+    } else {
+        drawCaption(ctx, width, height, options, STATIC_STATE);
+    }
+
+    // Return the modified image data
+    return ctx.getImageData(0, 0, width, height);
+}
+
+/**
+ * Draw one caption onto the frame canvas
+ */
+function drawCaption(
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    options: CaptionOptions,
+    state: CaptionFrameState
+): void {
+    const { text, position, style } = options;
+    const preset = STYLE_PRESETS[style];
+
     // Calculate font size
     const fontSize = options.fontSize || calculateFontSize(width, height, text, style);
     const padding = options.padding || 20;
@@ -219,49 +381,49 @@ export function overlayTextOnFrame(
     // Apply text transform
     const displayText = preset.textTransform === 'uppercase' ? text.toUpperCase() : text;
 
-    // Set up text rendering
-    ctx.font = `bold ${fontSize}px ${preset.fontFamily}`;
+    ctx.save();
+
+    // Set up text rendering (kicks off a web font load if this is its first use)
+    const fontFamily = options.fontFamily || preset.fontFamily;
+    requestFont(fontFamily);
+    ctx.font = `bold ${fontSize}px ${fontFamily}`;
     ctx.textAlign = 'center';
     ctx.textBaseline = 'middle';
 
-    // Calculate text position
-    let textY: number;
-    switch (position) {
-        case 'top':
-            textY = padding + fontSize / 2;
-            break;
-        case 'bottom':
-            textY = height - padding - fontSize / 2;
-            break;
-        case 'center':
-        default:
-            textY = height / 2;
-            break;
-    }
-    const textX = width / 2;
-
-    // Word wrap if needed
+    // Word wrap the full text so typewriter reveals don't reflow
     const maxWidth = width - padding * 2;
     const lines = wrapText(ctx, displayText, maxWidth);
     const lineHeight = fontSize * preset.lineHeight;
-
-    // Adjust starting Y for multiple lines
     const totalTextHeight = lines.length * lineHeight;
-    let startY = textY;
-    if (lines.length > 1) {
-        if (position === 'top') {
-            startY = padding + fontSize / 2;
-        } else if (position === 'bottom') {
-            startY = height - padding - totalTextHeight + lineHeight / 2;
-        } else {
-            startY = textY - totalTextHeight / 2 + lineHeight / 2;
-        }
+
+    // Center of the text block
+    let centerY: number;
+    let centerX = width / 2;
+    const anchor = state.x !== undefined && state.y !== undefined ? { x: state.x, y: state.y } : options.anchor;
+    if (anchor) {
+        centerX = (anchor.x / 100) * width;
+        centerY = (anchor.y / 100) * height;
+    } else if (position === 'top') {
+        centerY = padding + totalTextHeight / 2;
+    } else if (position === 'bottom') {
+        centerY = height - padding - totalTextHeight / 2;
+    } else {
+        centerY = height / 2;
     }
 
+    // Effects: pop scales around the block center, shake nudges it
+    ctx.globalAlpha = state.opacity;
+    ctx.translate(centerX + state.shakeX * fontSize, centerY + state.shakeY * fontSize);
+    ctx.scale(state.scale, state.scale);
+
+    let remainingChars = state.visibleChars;
+    const startY = -totalTextHeight / 2 + lineHeight / 2;
+
     // Draw each line
-    for (let i = 0; i < lines.length; i++) {
+    for (let i = 0; i < lines.length && remainingChars > 0; i++) {
         const lineY = startY + i * lineHeight;
-        const line = lines[i];
+        const line = lines[i].slice(0, remainingChars);
+        remainingChars -= lines[i].length + 1;
 
         // Apply shadow for modern style
         if (preset.shadowBlur > 0) {
@@ -277,20 +439,19 @@ export function overlayTextOnFrame(
             ctx.lineWidth = strokeWidth;
             ctx.lineJoin = 'round';
             ctx.miterLimit = 2;
-            ctx.strokeText(line, textX, lineY);
+            ctx.strokeText(line, 0, lineY);
         }
 
         // Draw fill
         ctx.fillStyle = options.textColor || preset.textColor;
-        ctx.fillText(line, textX, lineY);
+        ctx.fillText(line, 0, lineY);
 
         // Reset shadow
         ctx.shadowColor = 'transparent';
         ctx.shadowBlur = 0;
     }
 
-    // Return the modified image data
-    return ctx.getImageData(0, 0, width, height);
+    ctx.restore();
 }
 
 /**
@@ -321,24 +482,42 @@ function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number)
 }
 
 /**
- * Create a GIF with captions burned in
+ * Create a captioned GIF from source URL
  */
 export async function createCaptionedGif(
     sourceUrl: string,
-    options: CaptionOptions,
+    options: CaptionOptions | CaptionTimeline,
     onProgress?: (status: string, percent: number) => void
 ): Promise<ProcessedGif> {
     onProgress?.('Extracting frames...', 0);
 
     // Extract frames from source GIF
-    const { frames, width, height } = await extractFramesFromGif(sourceUrl);
+    const { frames, width, height, loopCount } = await extractFramesFromGif(sourceUrl);
+
+    return renderCaptionedGif(frames, width, height, options, onProgress, loopCount);
+}
+
+/**
+ * Caption already-decoded frames and encode them (for callers that keep frames around for previews)
+ */
+export async function renderCaptionedGif(
+    frames: GifFrame[],
+    width: number,
+    height: number,
+    options: CaptionOptions | CaptionTimeline,
+    onProgress?: (status: string, percent: number) => void,
+    loopCount: number = 0
+): Promise<ProcessedGif> {
+    // Never encode frames drawn with a fallback font
+    onProgress?.('Loading fonts...', 15);
+    await ensureFontsReady(getCaptionFonts(options));
 
     onProgress?.('Applying captions...', 20);
 
     // Apply caption to each frame
     const captionedFrames: GifFrame[] = [];
     for (let i = 0; i < frames.length; i++) {
-        const captionedImageData = overlayTextOnFrame(frames[i].imageData, options);
+        const captionedImageData = overlayTextOnFrame(frames[i].imageData, options, i);
         captionedFrames.push({
             imageData: captionedImageData,
             delay: frames[i].delay,
@@ -350,8 +529,12 @@ export async function createCaptionedGif(
 
     onProgress?.('Encoding GIF...', 60);
 
-    // Encode to GIF using gif.js
-    const blob = await encodeGif(captionedFrames, width, height, onProgress);
+    const blob = await encodeGif(captionedFrames, {
+        width,
+        height,
+        loopCount,
+        onProgress: (percent) => onProgress?.('Encoding GIF...', 60 + percent * 0.4),
+    });
 
     // Check file size
     if (blob.size > MAX_FILE_SIZE) {
@@ -375,80 +558,22 @@ export async function createCaptionedGif(
     };
 }
 
-/**
- * Encode frames to GIF using gif.js
- */
-async function encodeGif(
-    frames: GifFrame[],
-    width: number,
-    height: number,
-    onProgress?: (status: string, percent: number) => void
-): Promise<Blob> {
-    // Dynamically import gif.js (it's a UMD module)
-    const GIF = (await import('gif.js')).default;
-
-    return new Promise((resolve, reject) => {
-        const gif = new GIF({
-            workers: 2,
-            quality: 10,
-            width,
-            height,
-            workerScript: '/gif.worker.js', // Need to copy this to public folder
-        });
-
-        // Add each frame
-        for (const frame of frames) {
-            const canvas = document.createElement('canvas');
-            canvas.width = width;
-            canvas.height = height;
-            const ctx = canvas.getContext('2d')!;
-            ctx.putImageData(frame.imageData, 0, 0);
-
-            gif.addFrame(canvas, { delay: frame.delay, copy: true });
-        }
-
-        gif.on('progress', (p: number) => {
-            const progress = 60 + p * 40;
-            onProgress?.('Encoding GIF...', progress);
-        });
-
-        gif.on('finished', (blob: Blob) => {
-            resolve(blob);
-        });
-
-        gif.on('error', (err: Error) => {
-            reject(err);
-        });
-
-        gif.render();
-    });
-}
-
 /**
  * Preview caption on a single frame (for live preview)
  */
 export async function previewCaption(
     sourceUrl: string,
-    options: CaptionOptions
+    options: CaptionOptions | CaptionTimeline,
+    frameIndex: number = 0
 ): Promise<string> {
-    // Extract just the first frame
-    const { frames, width, height } = await extractFramesFromGif(sourceUrl);
+    const { frames } = await extractFramesFromGif(sourceUrl);
 
     if (frames.length === 0) {
         throw new Error('No frames found');
     }
 
-    // Apply caption to first frame
-    const captionedFrame = overlayTextOnFrame(frames[0].imageData, options);
-
-    // Convert to data URL
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d')!;
-    ctx.putImageData(captionedFrame, 0, 0);
-
-    return canvas.toDataURL('image/png');
+    const index = Math.max(0, Math.min(frameIndex, frames.length - 1));
+    return imageDataToDataUrl(overlayTextOnFrame(frames[index].imageData, options, index));
 }
 
 /**
@@ -1,26 +1,234 @@
 /**
  * Favorites Service - Manage user favorite GIFs
- * 
+ *
  * Stores in Firestore:
- * - favorites/{userId}_{gifId} (association document)
+ * - favorites/{userId}_{gifId} (association document, plus the user's tags, note,
+ *   manual order, usage stats and the ids of the collections they filed it in)
+ * - sauce_collections/{collectionId} (named collection: private, public, shared with
+ *   members as editors/viewers, or owned by a team)
+ * - sauce_collections/{collectionId}/items/{gifId} (a copy of the GIF, in the collection's own order -
+ *   collections keep their GIFs even when whoever added one unfavorites it)
+ * - sauce_collections/{collectionId}/activity/{id} (who added/removed what, joins and sharing changes)
+ * - teams/{teamId} (people who own collections together)
+ * - {sauce_collections|teams}/{id}/invites/{token} (invite links)
+ *
+ * Sharing changes and joining go through the collections Cloud Functions.
  */
 
-import { db } from './firebaseConfig';
+import { auth, db, functions } from './firebaseConfig';
 import {
     doc,
     getDoc,
     setDoc,
+    addDoc,
+    updateDoc,
     deleteDoc,
     collection,
     query,
     where,
+    orderBy,
+    limit,
     getDocs,
+    getCountFromServer,
+    writeBatch,
+    arrayUnion,
+    arrayRemove,
+    increment,
     serverTimestamp,
     Timestamp
 } from 'firebase/firestore';
-import { LibraryGIF } from './gifLibraryService';
+import { httpsCallable } from 'firebase/functions';
+import { LibraryGIF, recordEngagement } from './gifLibraryService';
 
 const FAVORITES_COLLECTION = 'favorites';
+const COLLECTIONS_COLLECTION = 'sauce_collections';
+const TEAMS_COLLECTION = 'teams';
+
+const INVITE_TTL_DAYS = 14;
+const BATCH_LIMIT = 400;    // Firestore caps a batch at 500 writes
+// Activity entries are checked against their item in the same batch (firestore.rules), and a
+// batch's rules may only read 20 documents - so collection edits go out a few GIFs at a time
+const ACTIVITY_BATCH_GIFS = 5;
+
+export const MAX_COLLECTIONS = 50;
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 24;
+export const MAX_NOTE_LENGTH = 280;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface FavoriteGif {
+    id: string;                     // {userId}_{gifId}
+    userId: string;
+    gifId: string;
+    gifUrl: string;
+    gifThumbnail: string;
+    gifTitle: string;
+    tags: string[];
+    note: string;
+    order: number;                  // Manual position in "All" (ascending)
+    useCount: number;
+    lastUsedAt?: Date;
+    collectionIds: string[];
+    createdAt?: Date;
+    unsaved?: boolean;              // A shared collection's GIF that isn't in this user's Sauce Box
+}
+
+export type CollectionVisibility = 'private' | 'public';
+export type MemberRole = 'editor' | 'viewer';
+export type TeamRole = 'admin' | 'member';
+
+// What the current user can do with a collection: owner (or team admin) manages sharing
+export type CollectionAccess = 'owner' | 'editor' | 'viewer';
+
+export interface SauceCollection {
+    id: string;
+    ownerId: string;
+    name: string;
+    visibility: CollectionVisibility;
+    members: Record<string, MemberRole>;
+    memberNames: Record<string, string>;
+    teamId: string | null;
+    access: CollectionAccess;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export interface SauceTeam {
+    id: string;
+    name: string;
+    ownerId: string;
+    members: Record<string, TeamRole>;
+    memberNames: Record<string, string>;
+    collectionIds: string[];
+}
+
+export interface CollectionItem {
+    gifId: string;
+    gifUrl?: string;                // Missing on items filed before collections kept copies
+    gifThumbnail?: string;
+    gifTitle?: string;
+    order: number;
+    addedBy: string;
+    addedAt?: Date;
+}
+
+export interface CollectionActivity {
+    id: string;
+    type: 'added' | 'removed' | 'joined' | 'left' | 'shared';
+    actorId: string;
+    actorName: string;
+    gifId?: string;
+    gifTitle?: string;
+    gifThumbnail?: string;
+    detail?: string;
+    createdAt?: Date;
+}
+
+export interface CollectionInvite {
+    token: string;
+    role: MemberRole | 'member';
+    expiresAt?: Date;
+}
+
+export type FavoriteSort = 'custom' | 'saved' | 'lastUsed' | 'mostUsed';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const toDate = (value: unknown): Date | undefined =>
+    value instanceof Timestamp ? value.toDate() : undefined;
+
+// New entries go to the top of a manual order
+const topOrder = (): number => -Date.now();
+
+const actorName = (): string =>
+    auth.currentUser?.displayName || auth.currentUser?.email?.split('@')[0] || 'Someone';
+
+function toFavorite(id: string, data: Record<string, any>): FavoriteGif {
+    const createdAt = toDate(data.createdAt);
+    return {
+        id,
+        userId: data.userId,
+        gifId: data.gifId,
+        gifUrl: data.gifUrl,
+        gifThumbnail: data.gifThumbnail || data.gifUrl,
+        gifTitle: data.gifTitle || '',
+        tags: Array.isArray(data.tags) ? data.tags : [],
+        note: data.note || '',
+        // Favorites saved before manual ordering sort by when they were saved
+        order: typeof data.order === 'number' ? data.order : -(createdAt?.getTime() || 0),
+        useCount: data.useCount || 0,
+        lastUsedAt: toDate(data.lastUsedAt),
+        collectionIds: Array.isArray(data.collectionIds) ? data.collectionIds : [],
+        createdAt
+    };
+}
+
+/**
+ * Lowercase, trim and de-duplicate tags, dropping empties and anything over the limits
+ */
+export function normalizeTags(tags: string[]): string[] {
+    const cleaned = tags
+        .map(tag => tag.trim().toLowerCase().replace(/^#/, '').slice(0, MAX_TAG_LENGTH))
+        .filter(Boolean);
+    return [...new Set(cleaned)].slice(0, MAX_TAGS);
+}
+
+/**
+ * An order value that sorts between two neighbours (either may be missing at the ends of a list)
+ */
+export function orderBetween(before?: number, after?: number): number {
+    if (before === undefined && after === undefined) return 0;
+    if (before === undefined) return after! - 1;
+    if (after === undefined) return before + 1;
+    return (before + after) / 2;
+}
+
+/**
+ * Sort favorites for display. 'custom' uses the given order map (a collection's), or each favorite's own order.
+ */
+export function sortFavorites(
+    favorites: FavoriteGif[],
+    sort: FavoriteSort,
+    customOrder?: Map<string, number>
+): FavoriteGif[] {
+    const time = (date?: Date) => date?.getTime() || 0;
+    const sorted = [...favorites];
+    switch (sort) {
+        case 'saved':
+            return sorted.sort((a, b) => time(b.createdAt) - time(a.createdAt));
+        case 'lastUsed':
+            return sorted.sort((a, b) => time(b.lastUsedAt) - time(a.lastUsedAt) || time(b.createdAt) - time(a.createdAt));
+        case 'mostUsed':
+            return sorted.sort((a, b) => b.useCount - a.useCount || time(b.lastUsedAt) - time(a.lastUsedAt));
+        default: {
+            const orderOf = (f: FavoriteGif) => customOrder?.get(f.gifId) ?? f.order;
+            return sorted.sort((a, b) => orderOf(a) - orderOf(b));
+        }
+    }
+}
+
+/**
+ * Client-side search over titles, tags and notes
+ */
+export function matchesFavorite(favorite: FavoriteGif, search: string): boolean {
+    const term = search.trim().toLowerCase();
+    if (!term) return true;
+    if (term.startsWith('#')) {
+        return favorite.tags.some(tag => tag.startsWith(term.slice(1)));
+    }
+    return favorite.gifTitle.toLowerCase().includes(term)
+        || favorite.note.toLowerCase().includes(term)
+        || favorite.tags.some(tag => tag.includes(term));
+}
+
+// =============================================================================
+// FAVORITES
+// =============================================================================
 
 /**
  * Toggle a GIF as favorite for a user
@@ -42,8 +250,14 @@ export async function toggleFavorite(userId: string, gif: LibraryGIF): Promise<b
                 gifUrl: gif.url,
                 gifThumbnail: gif.thumbnailUrl || gif.url,
                 gifTitle: gif.title || '',
+                tags: [],
+                note: '',
+                order: topOrder(),
+                useCount: 0,
+                collectionIds: [],
                 createdAt: serverTimestamp()
             });
+            recordEngagement(gif.id, 'favorites');
             return true; // Added
         }
     } catch (error) {
@@ -68,21 +282,565 @@ export async function isFavorited(userId: string, gifId: string): Promise<boolea
     }
 }
 
+/**
+ * Make a GIF's favorite state match `favorited` (idempotent, unlike toggleFavorite)
+ */
+export async function setFavorited(userId: string, gif: LibraryGIF, favorited: boolean): Promise<void> {
+    if ((await isFavorited(userId, gif.id)) !== favorited) {
+        await toggleFavorite(userId, gif);
+    }
+}
+
 /**
  * Get all favorites for a user
  */
-export async function getUserFavorites(userId: string): Promise<any[]> {
+export async function getUserFavorites(userId: string): Promise<FavoriteGif[]> {
     try {
         const favsRef = collection(db, FAVORITES_COLLECTION);
         const q = query(favsRef, where('userId', '==', userId));
         const snapshot = await getDocs(q);
 
-        return snapshot.docs.map(doc => ({
-            id: doc.id,
-            ...doc.data()
-        }));
+        return snapshot.docs.map(doc => toFavorite(doc.id, doc.data()));
     } catch (error) {
         console.error('Error getting user favorites:', error);
         return [];
     }
 }
+
+/**
+ * Unfavorite several GIFs at once (collections keep their own copies)
+ */
+export async function removeFavorites(userId: string, favorites: FavoriteGif[]): Promise<void> {
+    const batch = writeBatch(db);
+    favorites.forEach(favorite => batch.delete(doc(db, FAVORITES_COLLECTION, `${userId}_${favorite.gifId}`)));
+    await batch.commit();
+}
+
+/**
+ * Save imported GIFs as favorites, with their tags and notes, on top of the manual order
+ * (in the order given). Callers filter out GIFs that are already favorited.
+ */
+export async function importFavorites(
+    userId: string,
+    entries: { gif: LibraryGIF; note?: string }[]
+): Promise<number> {
+    const base = topOrder();
+    for (let start = 0; start < entries.length; start += BATCH_LIMIT) {
+        const batch = writeBatch(db);
+        entries.slice(start, start + BATCH_LIMIT).forEach(({ gif, note }, i) => {
+            batch.set(doc(db, FAVORITES_COLLECTION, `${userId}_${gif.id}`), {
+                userId,
+                gifId: gif.id,
+                gifUrl: gif.url,
+                gifThumbnail: gif.thumbnailUrl || gif.url,
+                gifTitle: gif.title || '',
+                tags: normalizeTags(gif.tags || []),
+                note: (note || '').trim().slice(0, MAX_NOTE_LENGTH),
+                order: base - entries.length + start + i,
+                useCount: 0,
+                collectionIds: [],
+                createdAt: serverTimestamp()
+            });
+        });
+        await batch.commit();
+    }
+    return entries.length;
+}
+
+/**
+ * Update a favorite's personal tags and note
+ */
+export async function updateFavoriteDetails(
+    userId: string,
+    gifId: string,
+    details: { tags?: string[]; note?: string }
+): Promise<{ tags?: string[]; note?: string }> {
+    const updates: { tags?: string[]; note?: string } = {};
+    if (details.tags) updates.tags = normalizeTags(details.tags);
+    if (details.note !== undefined) updates.note = details.note.trim().slice(0, MAX_NOTE_LENGTH);
+
+    await updateDoc(doc(db, FAVORITES_COLLECTION, `${userId}_${gifId}`), updates);
+    return updates;
+}
+
+/**
+ * Move a favorite within the user's manual "All" order
+ */
+export async function setFavoriteOrder(userId: string, gifId: string, order: number): Promise<void> {
+    await updateDoc(doc(db, FAVORITES_COLLECTION, `${userId}_${gifId}`), { order });
+}
+
+/**
+ * Count a download/copy/share of a favorite (feeds the "last used" and "most used" sorts).
+ * A no-op for GIFs that aren't favorited.
+ */
+export async function recordFavoriteUse(userId: string, gifId: string): Promise<void> {
+    try {
+        await updateDoc(doc(db, FAVORITES_COLLECTION, `${userId}_${gifId}`), {
+            useCount: increment(1),
+            lastUsedAt: serverTimestamp()
+        });
+    } catch (error) {
+        // Not a favorite (or offline) - usage stats are best-effort
+        console.debug('Favorite use not recorded:', error);
+    }
+}
+
+
+// =============================================================================
+// COLLECTIONS
+// =============================================================================
+
+export type InviteKind = 'collection' | 'team';
+
+function toCollection(id: string, data: Record<string, any>, userId: string | null, teams: SauceTeam[]): SauceCollection {
+    const members: Record<string, MemberRole> = data.members || {};
+    const team = data.teamId ? teams.find(t => t.id === data.teamId) : undefined;
+
+    let access: CollectionAccess = 'viewer';
+    if (userId && (data.ownerId === userId || team?.members[userId] === 'admin')) {
+        access = 'owner';
+    } else if (userId && (members[userId] === 'editor' || team?.members[userId])) {
+        access = 'editor';
+    }
+
+    return {
+        id,
+        ownerId: data.ownerId,
+        name: data.name,
+        visibility: data.visibility === 'public' ? 'public' : 'private',
+        members,
+        memberNames: data.memberNames || {},
+        teamId: data.teamId || null,
+        access,
+        createdAt: toDate(data.createdAt),
+        updatedAt: toDate(data.updatedAt)
+    };
+}
+
+/**
+ * Collections the user owns, has been invited to, or that belong to one of their teams - alphabetically
+ */
+export async function getUserCollections(userId: string, teams: SauceTeam[] = []): Promise<SauceCollection[]> {
+    try {
+        const collectionsRef = collection(db, COLLECTIONS_COLLECTION);
+        const [owned, shared] = await Promise.all([
+            getDocs(query(collectionsRef, where('ownerId', '==', userId))),
+            getDocs(query(collectionsRef, where('memberIds', 'array-contains', userId)))
+        ]);
+
+        const byId = new Map<string, SauceCollection>();
+        [...owned.docs, ...shared.docs].forEach(snap => byId.set(snap.id, toCollection(snap.id, snap.data(), userId, teams)));
+
+        // Team collections can't be queried by membership, so they're fetched by id
+        const teamIds = [...new Set(teams.flatMap(t => t.collectionIds))].filter(id => !byId.has(id));
+        const teamSnaps = await Promise.all(teamIds.map(id => getDoc(doc(db, COLLECTIONS_COLLECTION, id)).catch(() => null)));
+        teamSnaps.forEach(snap => {
+            if (snap?.exists()) byId.set(snap.id, toCollection(snap.id, snap.data(), userId, teams));
+        });
+
+        return [...byId.values()].sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+        console.error('Error getting collections:', error);
+        return [];
+    }
+}
+
+/**
+ * A single collection - public ones can be read signed out. Null when missing or not visible.
+ */
+export async function getCollection(
+    collectionId: string,
+    userId: string | null,
+    teams: SauceTeam[] = []
+): Promise<SauceCollection | null> {
+    try {
+        const snap = await getDoc(doc(db, COLLECTIONS_COLLECTION, collectionId));
+        return snap.exists() ? toCollection(snap.id, snap.data(), userId, teams) : null;
+    } catch (error) {
+        console.error('Error getting collection:', error);
+        return null;
+    }
+}
+
+/**
+ * GIF counts per collection (aggregate queries - shared collections hold GIFs from everyone)
+ */
+export async function getCollectionCounts(collectionIds: string[]): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    await Promise.all(collectionIds.map(async id => {
+        try {
+            const snapshot = await getCountFromServer(collection(db, COLLECTIONS_COLLECTION, id, 'items'));
+            counts.set(id, snapshot.data().count);
+        } catch (error) {
+            console.error(`Error counting collection ${id}:`, error);
+        }
+    }));
+    return counts;
+}
+
+/**
+ * Create a named (private) collection
+ */
+export async function createCollection(userId: string, name: string, existingCount: number): Promise<SauceCollection> {
+    const trimmed = name.trim().slice(0, 60);
+    if (!trimmed) {
+        throw new Error('Give the collection a name');
+    }
+    if (existingCount >= MAX_COLLECTIONS) {
+        throw new Error(`You can have up to ${MAX_COLLECTIONS} collections`);
+    }
+
+    const data = {
+        ownerId: userId,
+        name: trimmed,
+        visibility: 'private',
+        members: {},
+        memberIds: [],
+        memberNames: {},
+        teamId: null
+    };
+    const docRef = await addDoc(collection(db, COLLECTIONS_COLLECTION), {
+        ...data,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+    });
+    return { ...toCollection(docRef.id, data, userId, []), createdAt: new Date(), updatedAt: new Date() };
+}
+
+export async function renameCollection(collectionId: string, name: string): Promise<void> {
+    const trimmed = name.trim().slice(0, 60);
+    if (!trimmed) {
+        throw new Error('Give the collection a name');
+    }
+    await updateDoc(doc(db, COLLECTIONS_COLLECTION, collectionId), {
+        name: trimmed,
+        updatedAt: serverTimestamp()
+    });
+}
+
+/**
+ * Delete a collection with its items, activity and invites. The GIFs stay in everyone's Sauce Box.
+ */
+export async function deleteCollection(userId: string, collectionId: string, favorites: FavoriteGif[]): Promise<void> {
+    const collectionRef = doc(db, COLLECTIONS_COLLECTION, collectionId);
+    const [items, activity, invites] = await Promise.all(
+        ['items', 'activity', 'invites'].map(sub => getDocs(collection(collectionRef, sub)))
+    );
+
+    const batch = writeBatch(db);
+    [...items.docs, ...activity.docs, ...invites.docs].forEach(snap => batch.delete(snap.ref));
+    favorites
+        .filter(f => !f.unsaved && f.collectionIds.includes(collectionId))
+        .forEach(f => batch.update(doc(db, FAVORITES_COLLECTION, `${userId}_${f.gifId}`), {
+            collectionIds: arrayRemove(collectionId)
+        }));
+    batch.delete(collectionRef);
+    await batch.commit();
+}
+
+/**
+ * A collection's GIFs, keyed by gifId
+ */
+export async function getCollectionItems(collectionId: string): Promise<Map<string, CollectionItem>> {
+    const snapshot = await getDocs(collection(db, COLLECTIONS_COLLECTION, collectionId, 'items'));
+
+    const items = new Map<string, CollectionItem>();
+    snapshot.docs.forEach(snap => {
+        const data = snap.data();
+        items.set(snap.id, {
+            gifId: snap.id,
+            gifUrl: data.gifUrl,
+            gifThumbnail: data.gifThumbnail,
+            gifTitle: data.gifTitle,
+            order: typeof data.order === 'number' ? data.order : 0,
+            addedBy: data.addedBy,
+            addedAt: toDate(data.addedAt)
+        });
+    });
+    return items;
+}
+
+/**
+ * Show a collection GIF the user hasn't saved in the same shape as a favorite
+ */
+export function itemToFavorite(item: CollectionItem): FavoriteGif | null {
+    if (!item.gifUrl) return null;
+    return {
+        id: '',
+        userId: '',
+        gifId: item.gifId,
+        gifUrl: item.gifUrl,
+        gifThumbnail: item.gifThumbnail || item.gifUrl,
+        gifTitle: item.gifTitle || '',
+        tags: [],
+        note: '',
+        order: item.order,
+        useCount: 0,
+        collectionIds: [],
+        createdAt: item.addedAt,
+        unsaved: true
+    };
+}
+
+function activityEntry(type: 'added' | 'removed', userId: string, favorite: FavoriteGif) {
+    return {
+        type,
+        actorId: userId,
+        actorName: actorName(),
+        gifId: favorite.gifId,
+        gifTitle: favorite.gifTitle,
+        gifThumbnail: favorite.gifThumbnail,
+        createdAt: serverTimestamp()
+    };
+}
+
+/**
+ * File GIFs into a collection, optionally taking them out of the one they're viewed in (a move)
+ */
+export async function moveToCollection(
+    userId: string,
+    favorites: FavoriteGif[],
+    targetId: string,
+    fromId?: string
+): Promise<void> {
+    const base = topOrder();
+    const activity = (collectionId: string) => doc(collection(db, COLLECTIONS_COLLECTION, collectionId, 'activity'));
+
+    for (let start = 0; start < favorites.length; start += ACTIVITY_BATCH_GIFS) {
+        const batch = writeBatch(db);
+        favorites.slice(start, start + ACTIVITY_BATCH_GIFS).forEach((favorite, i) => {
+            const favRef = doc(db, FAVORITES_COLLECTION, `${userId}_${favorite.gifId}`);
+            if (!favorite.collectionIds.includes(targetId)) {
+                // Keep the selection's relative order at the top of the target
+                batch.set(doc(db, COLLECTIONS_COLLECTION, targetId, 'items', favorite.gifId), {
+                    gifId: favorite.gifId,
+                    gifUrl: favorite.gifUrl,
+                    gifThumbnail: favorite.gifThumbnail,
+                    gifTitle: favorite.gifTitle,
+                    order: base + start + i,
+                    addedBy: userId,
+                    addedAt: serverTimestamp()
+                });
+                batch.set(activity(targetId), activityEntry('added', userId, favorite));
+                if (!favorite.unsaved) batch.update(favRef, { collectionIds: arrayUnion(targetId) });
+            }
+            if (fromId && fromId !== targetId) {
+                batch.delete(doc(db, COLLECTIONS_COLLECTION, fromId, 'items', favorite.gifId));
+                batch.set(activity(fromId), activityEntry('removed', userId, favorite));
+                if (!favorite.unsaved) batch.update(favRef, { collectionIds: arrayRemove(fromId) });
+            }
+        });
+        batch.update(doc(db, COLLECTIONS_COLLECTION, targetId), { updatedAt: serverTimestamp() });
+        await batch.commit();
+    }
+}
+
+/**
+ * Take GIFs out of a collection (they stay in everyone's Sauce Box)
+ */
+export async function removeFromCollection(userId: string, favorites: FavoriteGif[], collectionId: string): Promise<void> {
+    for (let start = 0; start < favorites.length; start += ACTIVITY_BATCH_GIFS) {
+        const batch = writeBatch(db);
+        favorites.slice(start, start + ACTIVITY_BATCH_GIFS).forEach(favorite => {
+            batch.delete(doc(db, COLLECTIONS_COLLECTION, collectionId, 'items', favorite.gifId));
+            batch.set(doc(collection(db, COLLECTIONS_COLLECTION, collectionId, 'activity')), activityEntry('removed', userId, favorite));
+            if (!favorite.unsaved) {
+                batch.update(doc(db, FAVORITES_COLLECTION, `${userId}_${favorite.gifId}`), {
+                    collectionIds: arrayRemove(collectionId)
+                });
+            }
+        });
+        await batch.commit();
+    }
+}
+
+/**
+ * Move a GIF within a collection's manual order
+ */
+export async function setCollectionItemOrder(collectionId: string, gifId: string, order: number): Promise<void> {
+    await updateDoc(doc(db, COLLECTIONS_COLLECTION, collectionId, 'items', gifId), { order });
+}
+
+/**
+ * Latest activity in a collection, newest first (members only)
+ */
+export async function getCollectionActivity(collectionId: string, limitCount: number = 30): Promise<CollectionActivity[]> {
+    const q = query(
+        collection(db, COLLECTIONS_COLLECTION, collectionId, 'activity'),
+        orderBy('createdAt', 'desc'),
+        limit(limitCount)
+    );
+    const snapshot = await getDocs(q);
+
+    return snapshot.docs.map(snap => {
+        const data = snap.data();
+        return {
+            id: snap.id,
+            type: data.type,
+            actorId: data.actorId,
+            actorName: data.actorName || 'Someone',
+            gifId: data.gifId,
+            gifTitle: data.gifTitle,
+            gifThumbnail: data.gifThumbnail,
+            detail: data.detail,
+            createdAt: toDate(data.createdAt)
+        };
+    });
+}
+
+// =============================================================================
+// SHARING
+// =============================================================================
+
+export const publicCollectionUrl = (collectionId: string): string =>
+    `${window.location.origin}/saucebox/c/${collectionId}`;
+
+export const inviteUrl = (kind: InviteKind, targetId: string, token: string): string =>
+    `${window.location.origin}/saucebox/join/${kind}/${targetId}/${token}`;
+
+const invitesRef = (kind: InviteKind, targetId: string) =>
+    collection(db, kind === 'collection' ? COLLECTIONS_COLLECTION : TEAMS_COLLECTION, targetId, 'invites');
+
+/**
+ * Change visibility, member permissions ({ uid: role | null } - null removes) or the owning team
+ */
+export async function updateCollectionSharing(
+    collectionId: string,
+    changes: { visibility?: CollectionVisibility; members?: Record<string, MemberRole | null>; teamId?: string | null }
+): Promise<string> {
+    const update = httpsCallable<
+        { collectionId: string; visibility?: CollectionVisibility; members?: Record<string, MemberRole | null>; teamId?: string | null },
+        { message: string }
+    >(functions, 'updateCollectionSharing');
+    const { data } = await update({ collectionId, ...changes });
+    return data.message;
+}
+
+export const leaveCollection = (collectionId: string, userId: string): Promise<string> =>
+    updateCollectionSharing(collectionId, { members: { [userId]: null } });
+
+/**
+ * Create an invite link (valid for two weeks) - collection invites carry the role joiners get
+ */
+export async function createInvite(
+    kind: InviteKind,
+    targetId: string,
+    userId: string,
+    role: MemberRole | 'member'
+): Promise<CollectionInvite> {
+    const expiresAt = new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000);
+    const docRef = await addDoc(invitesRef(kind, targetId), {
+        role,
+        createdBy: userId,
+        createdAt: serverTimestamp(),
+        expiresAt: Timestamp.fromDate(expiresAt)
+    });
+    return { token: docRef.id, role, expiresAt };
+}
+
+/**
+ * Active invite links (managers only)
+ */
+export async function getInvites(kind: InviteKind, targetId: string): Promise<CollectionInvite[]> {
+    const snapshot = await getDocs(invitesRef(kind, targetId));
+    const now = Date.now();
+    return snapshot.docs
+        .map(snap => ({
+            token: snap.id,
+            role: snap.data().role,
+            expiresAt: toDate(snap.data().expiresAt)
+        }))
+        .filter(invite => !invite.expiresAt || invite.expiresAt.getTime() > now);
+}
+
+export async function revokeInvite(kind: InviteKind, targetId: string, token: string): Promise<void> {
+    await deleteDoc(doc(invitesRef(kind, targetId), token));
+}
+
+/**
+ * Redeem an invite link for the signed-in user
+ */
+export async function acceptInvite(
+    kind: InviteKind,
+    targetId: string,
+    token: string
+): Promise<{ joined: boolean; name: string }> {
+    const accept = httpsCallable<
+        { kind: InviteKind; targetId: string; token: string },
+        { joined: boolean; name: string }
+    >(functions, 'acceptInvite');
+    const { data } = await accept({ kind, targetId, token });
+    return data;
+}
+
+// =============================================================================
+// TEAMS
+// =============================================================================
+
+export async function getUserTeams(userId: string): Promise<SauceTeam[]> {
+    try {
+        const q = query(collection(db, TEAMS_COLLECTION), where('memberIds', 'array-contains', userId));
+        const snapshot = await getDocs(q);
+
+        return snapshot.docs
+            .map(snap => {
+                const data = snap.data();
+                return {
+                    id: snap.id,
+                    name: data.name,
+                    ownerId: data.ownerId,
+                    members: data.members || {},
+                    memberNames: data.memberNames || {},
+                    collectionIds: data.collectionIds || []
+                };
+            })
+            .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+        console.error('Error getting teams:', error);
+        return [];
+    }
+}
+
+/**
+ * Start a team with the caller as its admin
+ */
+export async function createTeam(userId: string, name: string): Promise<SauceTeam> {
+    const trimmed = name.trim().slice(0, 60);
+    if (!trimmed) {
+        throw new Error('Give the team a name');
+    }
+
+    const team = {
+        name: trimmed,
+        ownerId: userId,
+        members: { [userId]: 'admin' as TeamRole },
+        memberIds: [userId],
+        memberNames: { [userId]: actorName() },
+        collectionIds: []
+    };
+    const docRef = await addDoc(collection(db, TEAMS_COLLECTION), { ...team, createdAt: serverTimestamp() });
+    return {
+        id: docRef.id,
+        name: team.name,
+        ownerId: userId,
+        members: team.members,
+        memberNames: team.memberNames,
+        collectionIds: []
+    };
+}
+
+/**
+ * Change team roles ({ uid: role | null } - null removes); members may only remove themselves
+ */
+export async function updateTeamMembers(teamId: string, members: Record<string, TeamRole | null>): Promise<string> {
+    const update = httpsCallable<
+        { teamId: string; members: Record<string, TeamRole | null> },
+        { message: string }
+    >(functions, 'updateTeamMembers');
+    const { data } = await update({ teamId, members });
+    return data.message;
+}
+
+export const leaveTeam = (teamId: string, userId: string): Promise<string> =>
+    updateTeamMembers(teamId, { [userId]: null });
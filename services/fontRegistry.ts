@@ -0,0 +1,305 @@
+/**
+ * Font Registry
+ *
+ * Canvas text only uses a web font once its faces are loaded - until then it silently
+ * falls back to a system font, so previews and exported GIFs can disagree. Every
+ * caption font goes through here: web fonts are fetched and registered with the
+ * FontFace API, brand accounts can upload their own TTF/OTF/WOFF2 files, and export
+ * paths call ensureFontsReady() so nothing is encoded before its glyphs are available.
+ *
+ * Uploaded fonts are stored as bytes at users/{uid}/fonts/{fontId}.
+ */
+
+import {
+    collection,
+    addDoc,
+    deleteDoc,
+    doc,
+    getDocs,
+    query,
+    orderBy,
+    serverTimestamp,
+    Bytes
+} from 'firebase/firestore';
+import { db } from './firebaseConfig';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type FontStatus = 'unloaded' | 'loading' | 'ready' | 'error';
+export type CustomFontFormat = 'ttf' | 'otf' | 'woff2';
+
+export interface FontOption {
+    id: string;
+    name: string;
+    family: string;             // CSS font-family list used when drawing
+    preview: string;
+    custom?: boolean;
+}
+
+interface FontDefinition extends FontOption {
+    google?: string;            // Google Fonts css2 family spec, e.g. 'Oswald:wght@400;700'
+}
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+const GOOGLE_FONTS_CSS = 'https://fonts.googleapis.com/css2';
+
+const CUSTOM_PREFIX = 'saucy-custom-';
+
+// Firestore documents cap out at 1MiB; leave room for the other fields
+export const MAX_FONT_BYTES = 750 * 1024;
+
+// No `google` spec = a system font that's either installed or falls back - nothing to load
+const BUILTIN_FONTS: FontDefinition[] = [
+    { id: 'impact', name: 'Impact', family: 'Impact, sans-serif', preview: 'Aa' },
+    { id: 'arial-black', name: 'Arial Black', family: '"Arial Black", sans-serif', preview: 'Aa' },
+    { id: 'comic', name: 'Comic Sans', family: '"Comic Sans MS", cursive', preview: 'Aa' },
+    { id: 'bebas', name: 'Bebas Neue', family: '"Bebas Neue", sans-serif', preview: 'AA', google: 'Bebas+Neue' },
+    { id: 'roboto', name: 'Roboto', family: '"Roboto", sans-serif', preview: 'Aa', google: 'Roboto:wght@400;700' },
+    { id: 'oswald', name: 'Oswald', family: '"Oswald", sans-serif', preview: 'Aa', google: 'Oswald:wght@400;700' },
+    { id: 'inter', name: 'Inter', family: '"Inter", sans-serif', preview: 'Aa', google: 'Inter:wght@400;700' },
+];
+
+// File signatures: TrueType (0x00010000 or 'true'), CFF OpenType ('OTTO'), WOFF2 ('wOF2')
+const FONT_SIGNATURES: { format: CustomFontFormat; bytes: number[] }[] = [
+    { format: 'ttf', bytes: [0x00, 0x01, 0x00, 0x00] },
+    { format: 'ttf', bytes: [0x74, 0x72, 0x75, 0x65] },
+    { format: 'otf', bytes: [0x4F, 0x54, 0x54, 0x4F] },
+    { format: 'woff2', bytes: [0x77, 0x4F, 0x46, 0x32] },
+];
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+// Keyed by primary family name (first entry of the CSS list, unquoted)
+const definitions = new Map<string, FontDefinition>(BUILTIN_FONTS.map(f => [primaryFamily(f.family), f]));
+const statuses = new Map<string, FontStatus>();
+const loads = new Map<string, Promise<void>>();
+const listeners = new Set<() => void>();
+
+function primaryFamily(family: string): string {
+    return family.split(',')[0].trim().replace(/^["']|["']$/g, '');
+}
+
+function setStatus(family: string, status: FontStatus): void {
+    statuses.set(family, status);
+    listeners.forEach(listener => listener());
+}
+
+/**
+ * Be told whenever a font finishes (or fails) loading - previews re-render on this
+ */
+export function onFontsChanged(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+}
+
+export function getFontStatus(family: string): FontStatus {
+    const name = primaryFamily(family);
+    const definition = definitions.get(name);
+    if (definition && !definition.google && !definition.custom) return 'ready';
+    return statuses.get(name) || (definition ? 'unloaded' : 'ready');
+}
+
+/**
+ * Fonts for pickers: built-ins first, then any custom fonts registered this session
+ */
+export function getFontOptions(): FontOption[] {
+    return [...definitions.values()].map(({ google, ...option }) => option);
+}
+
+export const DEFAULT_FONT_FAMILY = BUILTIN_FONTS[0].family;
+
+// =============================================================================
+// LOADING
+// =============================================================================
+
+/**
+ * Register every @font-face block of a Google Fonts stylesheet with the FontFace API.
+ * Faces are added but not fetched; document.fonts.load() pulls only the subsets a text needs.
+ */
+async function registerGoogleFont(family: string, spec: string): Promise<void> {
+    const response = await fetch(`${GOOGLE_FONTS_CSS}?family=${spec}&display=block`);
+    if (!response.ok) {
+        throw new Error(`Google Fonts returned ${response.status} for ${family}`);
+    }
+    const css = await response.text();
+
+    const blocks = css.match(/@font-face\s*{[^}]*}/g) || [];
+    for (const block of blocks) {
+        const src = block.match(/src:\s*url\(([^)]+)\)/)?.[1];
+        if (!src) continue;
+        const face = new FontFace(family, `url(${src})`, {
+            style: block.match(/font-style:\s*([^;]+);/)?.[1].trim() || 'normal',
+            weight: block.match(/font-weight:\s*([^;]+);/)?.[1].trim() || '400',
+            unicodeRange: block.match(/unicode-range:\s*([^;]+);/)?.[1].trim() || undefined,
+        });
+        document.fonts.add(face);
+    }
+
+    if (blocks.length === 0) {
+        throw new Error(`No font faces found for ${family}`);
+    }
+}
+
+/**
+ * Start loading a font (idempotent). Safe to call from render paths - it never throws.
+ */
+export function requestFont(family: string): void {
+    // Failed fonts wait for an explicit loadFont() retry, or every re-render would refetch them
+    if (statuses.get(primaryFamily(family)) === 'error') return;
+    loadFont(family).catch(() => { /* status is already 'error'; ensureFontsReady reports it */ });
+}
+
+/**
+ * Load a font's basic Latin glyphs. Resolves immediately for system and already-loaded fonts.
+ */
+export function loadFont(family: string): Promise<void> {
+    const name = primaryFamily(family);
+    const definition = definitions.get(name);
+    if (!definition?.google) return Promise.resolve();
+
+    const existing = loads.get(name);
+    if (existing) return existing;
+
+    setStatus(name, 'loading');
+    const load = registerGoogleFont(name, definition.google)
+        .then(() => document.fonts.load(`bold 32px "${name}"`))
+        .then(() => setStatus(name, 'ready'))
+        .catch(error => {
+            console.error(`Failed to load font ${name}:`, error);
+            loads.delete(name);         // let a later call retry
+            setStatus(name, 'error');
+            throw error;
+        });
+    loads.set(name, load);
+    return load;
+}
+
+/**
+ * Wait until every font can draw its text. Throws if a font failed or its glyphs are missing,
+ * so exports stop instead of encoding fallback-font frames.
+ */
+export async function ensureFontsReady(requests: { family: string; text?: string }[]): Promise<void> {
+    for (const { family, text } of requests) {
+        const name = primaryFamily(family);
+        const definition = definitions.get(name);
+        if (!definition && name.startsWith(CUSTOM_PREFIX)) {
+            throw new Error("A custom font in this meme isn't loaded - reopen your fonts and try again");
+        }
+        if (!definition || (!definition.google && !definition.custom)) continue;
+
+        if (definition.custom && getFontStatus(name) !== 'ready') {
+            throw new Error(`Font "${definition.name}" isn't loaded - reopen your fonts and try again`);
+        }
+
+        await loadFont(name);
+
+        // Pull in any extra unicode-range subsets this text needs (accents, symbols...)
+        const sample = text || 'Aa';
+        const font = `bold 32px "${name}"`;
+        await document.fonts.load(font, sample);
+        if (!document.fonts.check(font, sample)) {
+            throw new Error(`Font "${definition.name}" isn't ready yet`);
+        }
+    }
+}
+
+// =============================================================================
+// CUSTOM FONTS (BRAND ACCOUNTS)
+// =============================================================================
+
+const customFamily = (id: string) => `${CUSTOM_PREFIX}${id}`;
+
+/**
+ * Identify a font file by its signature rather than trusting the extension
+ */
+export function detectFontFormat(buffer: ArrayBuffer): CustomFontFormat | null {
+    const head = new Uint8Array(buffer.slice(0, 4));
+    const match = FONT_SIGNATURES.find(sig => sig.bytes.every((b, i) => head[i] === b));
+    return match ? match.format : null;
+}
+
+/**
+ * Register an uploaded font's bytes with the FontFace API
+ */
+async function registerCustomFont(id: string, name: string, buffer: ArrayBuffer): Promise<FontOption> {
+    const family = customFamily(id);
+    const option: FontDefinition = { id, name, family: `"${family}", sans-serif`, preview: 'Aa', custom: true };
+    definitions.set(family, option);
+    setStatus(family, 'loading');
+
+    try {
+        const face = new FontFace(family, buffer);
+        await face.load();
+        document.fonts.add(face);
+        setStatus(family, 'ready');
+    } catch (error) {
+        setStatus(family, 'error');
+        throw error;
+    }
+    return option;
+}
+
+/**
+ * Load the user's uploaded fonts and register them for this session
+ */
+export async function loadCustomFonts(uid: string): Promise<FontOption[]> {
+    const snapshot = await getDocs(query(collection(db, 'users', uid, 'fonts'), orderBy('createdAt', 'asc')));
+
+    const fonts: FontOption[] = [];
+    for (const snap of snapshot.docs) {
+        const data = snap.data();
+        try {
+            const bytes = (data.data as Bytes).toUint8Array();
+            fonts.push(await registerCustomFont(snap.id, data.name, bytes.slice().buffer));
+        } catch (error) {
+            console.warn(`Skipping unreadable font ${snap.id}:`, error);
+        }
+    }
+    return fonts;
+}
+
+/**
+ * Validate and store a TTF/OTF/WOFF2 upload, then register it. Brand accounts only (enforced by rules).
+ */
+export async function uploadCustomFont(uid: string, file: File): Promise<FontOption> {
+    if (file.size > MAX_FONT_BYTES) {
+        throw new Error(`Font files must be under ${Math.round(MAX_FONT_BYTES / 1024)}KB`);
+    }
+
+    const buffer = await file.arrayBuffer();
+    const format = detectFontFormat(buffer);
+    if (!format) {
+        throw new Error('Only TTF, OTF and WOFF2 fonts are supported');
+    }
+
+    // Make sure the browser can actually use it before storing anything
+    await new FontFace('saucy-font-check', buffer).load();
+
+    const name = file.name.replace(/\.(ttf|otf|woff2)$/i, '').slice(0, 60) || 'Custom font';
+    const docRef = await addDoc(collection(db, 'users', uid, 'fonts'), {
+        name,
+        format,
+        size: file.size,
+        data: Bytes.fromUint8Array(new Uint8Array(buffer)),
+        createdAt: serverTimestamp()
+    });
+
+    return registerCustomFont(docRef.id, name, buffer);
+}
+
+/**
+ * Delete an uploaded font (layers using it fall back until they pick another)
+ */
+export async function deleteCustomFont(uid: string, fontId: string): Promise<void> {
+    await deleteDoc(doc(db, 'users', uid, 'fonts', fontId));
+    definitions.delete(customFamily(fontId));
+    statuses.delete(customFamily(fontId));
+    listeners.forEach(listener => listener());
+}
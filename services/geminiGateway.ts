@@ -0,0 +1,100 @@
+/**
+ * Gemini Gateway Client - routes AI calls through the geminiGateway Cloud Function
+ *
+ * With VITE_GEMINI_GATEWAY=true, text removal, sticker generation, captioning,
+ * tagging and safety checks run server-side and the browser never holds a Gemini
+ * key: the function uses the user's encrypted BYO key or the platform key.
+ * Other Gemini features still call the API directly with getSaucyApiKey().
+ *
+ * The function meters every call against the caller's daily role budget and records
+ * it in the usage ledger. The client's pre-flight check (usageService) still picks a
+ * budget fallback model, which is passed through; the function only accepts models
+ * that cost no more than the endpoint's default.
+ */
+
+import { httpsCallable } from 'firebase/functions';
+import { functions } from './firebaseConfig';
+import { StickerSize } from '../types';
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+const GATEWAY_ENABLED = import.meta.env.VITE_GEMINI_GATEWAY === 'true';
+
+/**
+ * Single switch: should Gemini calls go through the server-side gateway?
+ */
+export const isGeminiGatewayEnabled = (): boolean => GATEWAY_ENABLED;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface GatewayEndpoints {
+    removeText: {
+        request: { image: string; mimeType: string; variant: 'sticker' | 'frame' };
+        response: { image: string };
+    };
+    generateSticker: {
+        request: { prompt: string; size: StickerSize };
+        response: { image: string };
+    };
+    captions: {
+        request: { context: string; mood?: string; count: number };
+        response: { captions: string[] };
+    };
+    tags: {
+        request: { description: string };
+        response: { tags: string[] };
+    };
+    safety: {
+        request: { prompt: string };
+        response: { isSafe: boolean; reason?: string };
+    };
+}
+
+export type GatewayEndpoint = keyof GatewayEndpoints;
+
+// =============================================================================
+// CALLS
+// =============================================================================
+
+const gatewayCallable = httpsCallable<
+    { endpoint: GatewayEndpoint; model: string; request: unknown },
+    unknown
+>(functions, 'geminiGateway', { timeout: 120000 });
+
+/**
+ * Call a typed gateway endpoint with the (possibly budget-degraded) model
+ */
+export async function callGateway<E extends GatewayEndpoint>(
+    endpoint: E,
+    model: string,
+    request: GatewayEndpoints[E]['request']
+): Promise<GatewayEndpoints[E]['response']> {
+    try {
+        const result = await gatewayCallable({ endpoint, model, request });
+        return result.data as GatewayEndpoints[E]['response'];
+    } catch (error) {
+        // Callable errors carry a user-facing message from the function
+        throw new Error(error instanceof Error && error.message ? error.message : `Gemini gateway ${endpoint} failed`);
+    }
+}
+
+/**
+ * Store the signed-in user's own Gemini key, encrypted server-side
+ */
+export async function saveGatewayKey(apiKey: string): Promise<{ last4: string }> {
+    const save = httpsCallable<{ apiKey: string }, { last4: string }>(functions, 'saveGeminiKey');
+    const result = await save({ apiKey });
+    return result.data;
+}
+
+/**
+ * Remove the signed-in user's own Gemini key (falls back to the platform key)
+ */
+export async function deleteGatewayKey(): Promise<void> {
+    const remove = httpsCallable(functions, 'deleteGeminiKey');
+    await remove();
+}
@@ -3,17 +3,12 @@ import { GoogleGenAI } from "@google/genai";
 import { Message, StickerSize, KanbanTask, TaskStatus, TaskPriority } from "../types";
 import { getSaucyApiKey } from "./authService";
 import { removeBackgroundML, removeBackgroundSimple } from "./backgroundRemover";
+import { withUsage, BudgetExceededError } from "./usageService";
+import { isGeminiGatewayEnabled, callGateway } from "./geminiGateway";
 
 
 
 export const removeTextMagic = async (base64Data: string, mimeType: string): Promise<string> => {
-  const { key, error } = await getSaucyApiKey();
-
-  if (error) {
-    throw new Error(error);
-  }
-
-  const ai = new GoogleGenAI({ apiKey: key });
   let cleanBase64 = base64Data.includes(',') ? base64Data.split(',')[1] : base64Data;
   let processedMimeType = mimeType;
 
@@ -42,22 +37,34 @@ export const removeTextMagic = async (base64Data: string, mimeType: string): Pro
     processedMimeType = 'image/png';
   }
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: {
-      parts: [
-        { inlineData: { data: cleanBase64, mimeType: processedMimeType } },
-        {
-          text: "MANDATORY INSTRUCTION: Remove all written text, captions, watermarks, and logos. Re-create the background accurately where the text was. The final image must contain ZERO words or letters. Focus on keeping the main character/person. CRITICAL: Output must be PNG format with a fully transparent background (alpha channel). No grey, white, or colored backgrounds - only transparency."
-        },
-      ],
-    },
-  });
+  const base64Image = await withUsage('gemini-2.5-flash-image', 1, async (model) => {
+    if (isGeminiGatewayEnabled()) {
+      const { image } = await callGateway('removeText', model, { image: cleanBase64, mimeType: processedMimeType, variant: 'sticker' });
+      return image;
+    }
+
+    const { key, error } = await getSaucyApiKey();
+    if (error) {
+      throw new Error(error);
+    }
 
+    const ai = new GoogleGenAI({ apiKey: key });
+    const response = await ai.models.generateContent({
+      model,
+      contents: {
+        parts: [
+          { inlineData: { data: cleanBase64, mimeType: processedMimeType } },
+          {
+            text: "MANDATORY INSTRUCTION: Remove all written text, captions, watermarks, and logos. Re-create the background accurately where the text was. The final image must contain ZERO words or letters. Focus on keeping the main character/person. CRITICAL: Output must be PNG format with a fully transparent background (alpha channel). No grey, white, or colored backgrounds - only transparency."
+          },
+        ],
+      },
+    });
+    const data = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    return data ? `data:image/png;base64,${data}` : null;
+  }, { serverMetered: isGeminiGatewayEnabled() });
 
-  const candidates = response.candidates;
-  if (candidates?.[0]?.content?.parts?.[0]?.inlineData) {
-    const base64Image = `data:image/png;base64,${candidates[0].content.parts[0].inlineData.data}`;
+  if (base64Image) {
 
     // Remove background to ensure transparency
     try {
@@ -77,22 +84,29 @@ export const removeTextMagic = async (base64Data: string, mimeType: string): Pro
 };
 
 export const generateStickerFromPrompt = async (prompt: string, size: StickerSize): Promise<string> => {
-  const { key, error } = await getSaucyApiKey();
-
-  if (error) {
-    throw new Error(error);
-  }
+  const base64Image = await withUsage('gemini-3-pro-image-preview', 1, async (model) => {
+    if (isGeminiGatewayEnabled()) {
+      const { image } = await callGateway('generateSticker', model, { prompt, size });
+      return image;
+    }
 
-  const ai = new GoogleGenAI({ apiKey: key });
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-image-preview',
-    contents: { parts: [{ text: `Professional high-detail sticker style: ${prompt}, PNG with fully transparent background (alpha channel), no text, no grey background, pure transparency.` }] },
-    config: { imageConfig: { aspectRatio: "1:1", imageSize: size } },
-  });
+    const { key, error } = await getSaucyApiKey();
+    if (error) {
+      throw new Error(error);
+    }
 
+    const ai = new GoogleGenAI({ apiKey: key });
+    const response = await ai.models.generateContent({
+      model,
+      contents: { parts: [{ text: `Professional high-detail sticker style: ${prompt}, PNG with fully transparent background (alpha channel), no text, no grey background, pure transparency.` }] },
+      // imageSize is only supported by the pro model; a budget fallback gets the default size
+      config: { imageConfig: model === 'gemini-3-pro-image-preview' ? { aspectRatio: "1:1", imageSize: size } : { aspectRatio: "1:1" } },
+    });
+    const data = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    return data ? `data:image/png;base64,${data}` : null;
+  }, { serverMetered: isGeminiGatewayEnabled() });
 
-  if (response.candidates?.[0]?.content?.parts?.[0]?.inlineData) {
-    const base64Image = `data:image/png;base64,${response.candidates[0].content.parts[0].inlineData.data}`;
+  if (base64Image) {
 
     // Remove background to ensure transparency
     try {
@@ -119,14 +133,23 @@ export const chatWithAssistant = async (messages: Message[]): Promise<string> =>
   }
 
   const ai = new GoogleGenAI({ apiKey: key });
-  const chat = ai.chats.create({
-    model: 'gemini-3-pro-preview',
-    config: { systemInstruction: "You are Saucy, the creative generative AI assistant. You're a sentient neon-red 'S' character who's a little nerdy about design and tech. Help users remove text from images, optimize stickers for Slack, and write better prompts. Be concise, friendly, and use a slightly tech-bro vibe (but stay helpful and professional)." },
-  });
-
   const lastUserMsg = messages[messages.length - 1].content;
-  const response = await chat.sendMessage({ message: lastUserMsg });
-  return response.text || "I'm sorry, I encountered an error.";
+
+  try {
+    const response = await withUsage('gemini-3-pro-preview', 1, (model) => {
+      const chat = ai.chats.create({
+        model,
+        config: { systemInstruction: "You are Saucy, the creative generative AI assistant. You're a sentient neon-red 'S' character who's a little nerdy about design and tech. Help users remove text from images, optimize stickers for Slack, and write better prompts. Be concise, friendly, and use a slightly tech-bro vibe (but stay helpful and professional)." },
+      });
+      return chat.sendMessage({ message: lastUserMsg });
+    });
+    return response.text || "I'm sorry, I encountered an error.";
+  } catch (err) {
+    if (err instanceof BudgetExceededError) {
+      return `Error: ${err.message}`;
+    }
+    throw err;
+  }
 };
 
 /**
@@ -220,10 +243,10 @@ export const askSaucy = async (
 
   parts.push({ text: textPrompt });
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash',
+  const response = await withUsage('gemini-2.5-flash', 1, (model) => ai.models.generateContent({
+    model,
     contents: [{ role: 'user', parts }],
-  });
+  }));
 
   return response.candidates?.[0]?.content?.parts?.[0]?.text ||
     "Hmm, I couldn't analyze those images. Try describing what you want!";
@@ -330,10 +353,10 @@ Respond with ONLY the refined prompt, nothing else.`;
 
   parts.push({ text: textPrompt });
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash',
+  const response = await withUsage('gemini-2.5-flash', 1, (model) => ai.models.generateContent({
+    model,
     contents: [{ role: 'user', parts }],
-  });
+  }));
 
   const refined = response.candidates?.[0]?.content?.parts?.[0]?.text;
   return refined?.trim() || currentPrompt;
@@ -378,10 +401,10 @@ export const getSaucyRecommendation = async (query: string): Promise<{
   BE SPECIFIC. RESPOND ONLY WITH THE JSON.`;
 
   try {
-    const result = await ai.models.generateContent({
-      model: 'gemini-1.5-flash',
+    const result = await withUsage('gemini-1.5-flash', 1, (model) => ai.models.generateContent({
+      model,
       contents: [{ role: 'user', parts: [{ text: prompt }] }],
-    });
+    }));
 
     const text = result.candidates?.[0]?.content?.parts?.[0]?.text || '';
     const jsonStr = text.match(/\{[\s\S]*\}/)?.[0] || '';
@@ -467,10 +490,10 @@ export const processTaskCommand = async (
   5. BE CONCISE. BE HELPUL. RESPOND ONLY WITH THE JSON.`;
 
   try {
-    const result = await ai.models.generateContent({
-      model: 'gemini-1.5-flash',
+    const result = await withUsage('gemini-1.5-flash', 1, (model) => ai.models.generateContent({
+      model,
       contents: [{ role: 'user', parts: [{ text: prompt }] }],
-    });
+    }));
 
     const text = result.candidates?.[0]?.content?.parts?.[0]?.text || '';
     const jsonStr = text.match(/\{[\s\S]*\}/)?.[0] || '';
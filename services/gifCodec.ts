@@ -0,0 +1,523 @@
+/**
+ * GIF Codec Service
+ *
+ * Full multi-frame decode/re-encode pipeline for animated GIFs.
+ * Uses gifuct-js for decoding and gif.js for encoding (same stack as captionOverlayService).
+ *
+ * Decoding composites every frame onto the logical screen while honouring
+ * per-frame disposal methods, so each decoded frame is a complete picture.
+ * Encoding writes those complete frames back out with their original delays,
+ * the source loop count, and a keyed transparent colour when the source had alpha.
+ */
+
+import { parseGIF, decompressFrames } from 'gifuct-js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface DecodedGifFrame {
+    imageData: ImageData;   // Fully composited frame (logical screen size)
+    delay: number;          // Frame delay in ms
+    disposal: number;       // Source disposal method (0-3)
+}
+
+export interface DecodedGif {
+    frames: DecodedGifFrame[];
+    width: number;
+    height: number;
+    loopCount: number;      // 0 = forever, -1 = play once, n = repeat n extra times
+    hasTransparency: boolean;
+}
+
+export interface EncodeGifOptions {
+    width: number;
+    height: number;
+    loopCount?: number;     // Default: 0 (forever)
+    transparent?: boolean;  // Key out pixels with alpha < 128
+    quality?: number;       // gif.js pixel sample interval, lower is better (default 10)
+    sharedPalette?: boolean; // Quantize every frame to one palette built from all frames (no colour flicker)
+    paletteSize?: number;   // Colours in the shared palette, 2-256 (implies sharedPalette)
+    onProgress?: (percent: number) => void;
+}
+
+export interface EncodeWebpOptions {
+    width: number;
+    height: number;
+    loopCount?: number;     // 0 = forever (default)
+    quality?: number;       // 0-1 lossy quality (default 0.8)
+}
+
+// GIF frames with no graphic control extension default to 100ms
+const DEFAULT_FRAME_DELAY = 100;
+
+// Colour used to key transparent pixels during encoding (magenta rarely appears in real content)
+const TRANSPARENT_KEY = 0xFF00FF;
+
+// =============================================================================
+// DECODING
+// =============================================================================
+
+/**
+ * Read the NETSCAPE2.0 loop count from the parsed GIF, if present
+ */
+function readLoopCount(gif: ReturnType<typeof parseGIF>): number {
+    for (const block of gif.frames) {
+        if (!('application' in block)) continue;
+        const { id, blocks } = block.application;
+        if ((id === 'NETSCAPE2.0' || id === 'ANIMEXTS1.0') && blocks.length >= 3 && blocks[0] === 1) {
+            return blocks[1] | (blocks[2] << 8);
+        }
+    }
+    // No looping extension means the animation plays once
+    return -1;
+}
+
+/**
+ * Load GIF bytes from a URL, a data URL, a Blob or raw bytes
+ */
+async function readGifBytes(source: string | ArrayBuffer | Blob): Promise<ArrayBuffer> {
+    if (typeof source === 'string') {
+        const response = await fetch(source);
+        return response.arrayBuffer();
+    }
+    if (source instanceof Blob) {
+        return source.arrayBuffer();
+    }
+    return source;
+}
+
+/**
+ * Parse GIF bytes, rejecting anything that is not a GIF (e.g. a PNG data URL)
+ */
+async function parseGifSource(source: string | ArrayBuffer | Blob): Promise<ReturnType<typeof parseGIF>> {
+    const bytes = new Uint8Array(await readGifBytes(source));
+    // "GIF" magic number
+    if (bytes.length < 6 || bytes[0] !== 0x47 || bytes[1] !== 0x49 || bytes[2] !== 0x46) {
+        throw new Error('Not a GIF file');
+    }
+    return parseGIF(bytes.buffer);
+}
+
+/**
+ * Count image frames without decompressing any pixel data
+ */
+export async function countGifFrames(source: string | ArrayBuffer | Blob): Promise<number> {
+    const gif = await parseGifSource(source);
+    return gif.frames.filter(block => 'image' in block).length;
+}
+
+/**
+ * Decode a GIF into fully composited frames
+ * Accepts a URL, a data URL, a Blob or the raw bytes
+ */
+export async function decodeGif(source: string | ArrayBuffer | Blob): Promise<DecodedGif> {
+    const gif = await parseGifSource(source);
+    const parsedFrames = decompressFrames(gif, true);
+
+    if (parsedFrames.length === 0) {
+        throw new Error('No frames found in GIF');
+    }
+
+    const width = gif.lsd.width || parsedFrames[0].dims.width;
+    const height = gif.lsd.height || parsedFrames[0].dims.height;
+
+    // Logical screen that frames are composited onto
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+
+    // Scratch canvas for each frame's patch
+    const patchCanvas = document.createElement('canvas');
+    const patchCtx = patchCanvas.getContext('2d')!;
+
+    const frames: DecodedGifFrame[] = [];
+    let hasTransparency = false;
+
+    for (const frame of parsedFrames) {
+        const { left, top, width: patchWidth, height: patchHeight } = frame.dims;
+        const disposal = frame.disposalType || 0;
+
+        // Snapshot before drawing so "restore to previous" has something to restore
+        const beforeDraw = disposal === 3 ? ctx.getImageData(0, 0, width, height) : null;
+
+        patchCanvas.width = patchWidth;
+        patchCanvas.height = patchHeight;
+        patchCtx.putImageData(
+            new ImageData(new Uint8ClampedArray(frame.patch), patchWidth, patchHeight),
+            0,
+            0
+        );
+
+        // drawImage (not putImageData) so transparent patch pixels let the previous frame show through
+        ctx.drawImage(patchCanvas, left, top);
+
+        const imageData = ctx.getImageData(0, 0, width, height);
+        if (!hasTransparency) {
+            for (let i = 3; i < imageData.data.length; i += 4) {
+                if (imageData.data[i] < 255) {
+                    hasTransparency = true;
+                    break;
+                }
+            }
+        }
+
+        frames.push({
+            imageData,
+            delay: frame.delay || DEFAULT_FRAME_DELAY,
+            disposal,
+        });
+
+        // Disposal applies after the frame has been displayed
+        if (disposal === 2) {
+            ctx.clearRect(left, top, patchWidth, patchHeight);
+        } else if (disposal === 3 && beforeDraw) {
+            ctx.putImageData(beforeDraw, 0, 0);
+        }
+    }
+
+    return {
+        frames,
+        width,
+        height,
+        loopCount: readLoopCount(gif),
+        hasTransparency,
+    };
+}
+
+// =============================================================================
+// ENCODING
+// =============================================================================
+
+/**
+ * Replace semi-transparent pixels with the key colour so gif.js can mark them transparent
+ */
+function keyTransparentPixels(imageData: ImageData): ImageData {
+    const data = new Uint8ClampedArray(imageData.data);
+    const r = (TRANSPARENT_KEY >> 16) & 0xFF;
+    const g = (TRANSPARENT_KEY >> 8) & 0xFF;
+    const b = TRANSPARENT_KEY & 0xFF;
+
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] < 128) {
+            data[i] = r;
+            data[i + 1] = g;
+            data[i + 2] = b;
+        }
+        data[i + 3] = 255;
+    }
+
+    return new ImageData(data, imageData.width, imageData.height);
+}
+
+/**
+ * Encode composited frames into an animated GIF
+ *
+ * Frames are written whole, so the source disposal methods are already baked in.
+ * When transparency is enabled gif.js switches every frame to "restore to background",
+ * which is what whole frames with alpha need.
+ */
+export async function encodeGif(
+    frames: Array<{ imageData: ImageData; delay: number }>,
+    options: EncodeGifOptions
+): Promise<Blob> {
+    const { width, height, loopCount = 0, transparent = false, quality = 10, paletteSize, onProgress } = options;
+    const sharedPalette = options.sharedPalette || paletteSize !== undefined;
+
+    if (frames.length === 0) {
+        throw new Error('Cannot encode a GIF with no frames');
+    }
+
+    // Dynamically import gif.js (it's a UMD module)
+    const GIF = (await import('gif.js')).default;
+
+    const prepared = frames.map(frame => transparent ? keyTransparentPixels(frame.imageData) : frame.imageData);
+    const globalPalette = sharedPalette
+        ? buildSharedPalette(prepared, paletteSize ?? 256, transparent ? TRANSPARENT_KEY : undefined)
+        : undefined;
+
+    return new Promise((resolve, reject) => {
+        const gif = new GIF({
+            workers: 2,
+            quality,
+            width,
+            height,
+            // gif.js uses the same convention as the NETSCAPE extension: 0 = forever, -1 = once
+            repeat: loopCount,
+            transparent: transparent ? TRANSPARENT_KEY : null,
+            globalPalette,
+            workerScript: '/gif.worker.js',
+        });
+
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d')!;
+
+        for (let i = 0; i < frames.length; i++) {
+            const frame = frames[i];
+            const imageData = prepared[i];
+            ctx.clearRect(0, 0, width, height);
+            ctx.putImageData(imageData, 0, 0);
+            gif.addFrame(ctx, { delay: frame.delay || DEFAULT_FRAME_DELAY, copy: true });
+        }
+
+        gif.on('progress', (p: number) => onProgress?.(p * 100));
+        gif.on('finished', (blob: Blob) => resolve(blob));
+        gif.on('error', (err: Error) => reject(err));
+
+        gif.render();
+    });
+}
+
+// =============================================================================
+// PALETTE
+// =============================================================================
+
+// Pixels sampled across all frames when building a shared palette
+const PALETTE_SAMPLE_PIXELS = 60000;
+
+/**
+ * Build one palette for every frame using median cut over pixels sampled from all frames.
+ * Returns a flat [r, g, b, ...] array padded to 256 entries, as gif.js expects.
+ * When `reserve` is given it is added as an exact entry (used for the transparent key).
+ */
+export function buildSharedPalette(frames: ImageData[], size: number = 256, reserve?: number): number[] {
+    const colorCount = Math.max(2, Math.min(256, Math.round(size))) - (reserve !== undefined ? 1 : 0);
+    const totalPixels = frames.reduce((sum, f) => sum + f.width * f.height, 0);
+    const stride = Math.max(1, Math.floor(totalPixels / PALETTE_SAMPLE_PIXELS));
+
+    const samples: number[] = [];
+    let counter = 0;
+    for (const frame of frames) {
+        const data = frame.data;
+        for (let i = 0; i < data.length; i += 4) {
+            if (counter++ % stride !== 0) continue;
+            const rgb = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+            if (rgb === reserve) continue;
+            samples.push(rgb);
+        }
+    }
+
+    // Median cut: repeatedly split the box with the widest channel range at its median
+    type Box = { pixels: number[]; range: number; channel: number };
+    const describe = (pixels: number[]): Box => {
+        let minR = 255, minG = 255, minB = 255, maxR = 0, maxG = 0, maxB = 0;
+        for (const c of pixels) {
+            const r = (c >> 16) & 0xFF, g = (c >> 8) & 0xFF, b = c & 0xFF;
+            if (r < minR) minR = r; if (r > maxR) maxR = r;
+            if (g < minG) minG = g; if (g > maxG) maxG = g;
+            if (b < minB) minB = b; if (b > maxB) maxB = b;
+        }
+        const ranges = [maxR - minR, maxG - minG, maxB - minB];
+        const channel = ranges.indexOf(Math.max(...ranges));
+        return { pixels, range: ranges[channel], channel };
+    };
+
+    const boxes: Box[] = samples.length > 0 ? [describe(samples)] : [];
+    while (boxes.length < colorCount) {
+        let target = -1;
+        for (let i = 0; i < boxes.length; i++) {
+            if (boxes[i].pixels.length > 1 && boxes[i].range > 0 && (target === -1 || boxes[i].range > boxes[target].range)) {
+                target = i;
+            }
+        }
+        if (target === -1) break;
+
+        const { pixels, channel } = boxes[target];
+        const shift = 16 - channel * 8;
+        pixels.sort((a, b) => ((a >> shift) & 0xFF) - ((b >> shift) & 0xFF));
+        const mid = pixels.length >> 1;
+        boxes.splice(target, 1, describe(pixels.slice(0, mid)), describe(pixels.slice(mid)));
+    }
+
+    const palette: number[] = [];
+    for (const box of boxes) {
+        let r = 0, g = 0, b = 0;
+        for (const c of box.pixels) {
+            r += (c >> 16) & 0xFF;
+            g += (c >> 8) & 0xFF;
+            b += c & 0xFF;
+        }
+        const n = box.pixels.length;
+        palette.push(Math.round(r / n), Math.round(g / n), Math.round(b / n));
+    }
+    if (reserve !== undefined) {
+        palette.push((reserve >> 16) & 0xFF, (reserve >> 8) & 0xFF, reserve & 0xFF);
+    }
+
+    // gif.js always writes a 256-entry table
+    while (palette.length < 256 * 3) palette.push(0);
+    return palette;
+}
+
+// =============================================================================
+// ANIMATED WEBP
+// =============================================================================
+
+/**
+ * Split a RIFF/WEBP file into its chunks
+ */
+function readWebpChunks(bytes: Uint8Array): Array<{ fourcc: string; data: Uint8Array }> {
+    const chunks: Array<{ fourcc: string; data: Uint8Array }> = [];
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 12; // Skip "RIFF" + size + "WEBP"
+    while (offset + 8 <= bytes.length) {
+        const fourcc = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+        const size = view.getUint32(offset + 4, true);
+        chunks.push({ fourcc, data: bytes.subarray(offset + 8, offset + 8 + size) });
+        offset += 8 + size + (size & 1);
+    }
+    return chunks;
+}
+
+/**
+ * Serialize a RIFF chunk (with padding byte for odd sizes)
+ */
+function writeChunk(fourcc: string, data: Uint8Array): Uint8Array {
+    const padded = data.length + (data.length & 1);
+    const out = new Uint8Array(8 + padded);
+    for (let i = 0; i < 4; i++) out[i] = fourcc.charCodeAt(i);
+    new DataView(out.buffer).setUint32(4, data.length, true);
+    out.set(data, 8);
+    return out;
+}
+
+function writeUint24(target: Uint8Array, offset: number, value: number): void {
+    target[offset] = value & 0xFF;
+    target[offset + 1] = (value >> 8) & 0xFF;
+    target[offset + 2] = (value >> 16) & 0xFF;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+    const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+}
+
+/**
+ * Encode frames as an animated WebP.
+ *
+ * Browsers can only encode still WebP, so each frame is encoded via canvas.toBlob
+ * and the resulting bitstreams are muxed into ANIM/ANMF chunks.
+ */
+export async function encodeAnimatedWebp(
+    frames: Array<{ imageData: ImageData; delay: number }>,
+    options: EncodeWebpOptions
+): Promise<Blob> {
+    const { width, height, loopCount = 0, quality = 0.8 } = options;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+
+    let hasAlpha = false;
+    const frameChunks: Uint8Array[] = [];
+
+    for (const frame of frames) {
+        ctx.clearRect(0, 0, width, height);
+        ctx.putImageData(frame.imageData, 0, 0);
+
+        const still = await new Promise<Blob>((resolve, reject) => {
+            canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('WebP encoding not supported')), 'image/webp', quality);
+        });
+        if (still.type !== 'image/webp') {
+            throw new Error('WebP encoding not supported in this browser');
+        }
+
+        // Keep only the image bitstream chunks (ALPH + VP8, or VP8L)
+        const imageChunks = readWebpChunks(new Uint8Array(await still.arrayBuffer()))
+            .filter(chunk => chunk.fourcc === 'ALPH' || chunk.fourcc === 'VP8 ' || chunk.fourcc === 'VP8L');
+        if (imageChunks.some(chunk => chunk.fourcc === 'ALPH' || chunk.fourcc === 'VP8L')) {
+            hasAlpha = true;
+        }
+
+        const header = new Uint8Array(16);
+        writeUint24(header, 0, 0);                  // X offset / 2
+        writeUint24(header, 3, 0);                  // Y offset / 2
+        writeUint24(header, 6, width - 1);
+        writeUint24(header, 9, height - 1);
+        writeUint24(header, 12, Math.min(0xFFFFFF, frame.delay || DEFAULT_FRAME_DELAY));
+        header[15] = 0b10;                          // No blending, no disposal (frames are whole)
+
+        frameChunks.push(writeChunk('ANMF', concatBytes([
+            header,
+            ...imageChunks.map(chunk => writeChunk(chunk.fourcc, chunk.data)),
+        ])));
+    }
+
+    const vp8x = new Uint8Array(10);
+    vp8x[0] = 0b10 | (hasAlpha ? 0b10000 : 0); // Animation + alpha flags
+    writeUint24(vp8x, 4, width - 1);
+    writeUint24(vp8x, 7, height - 1);
+
+    const anim = new Uint8Array(6);
+    // Background colour stays transparent black; loop count is little-endian uint16
+    anim[4] = Math.max(0, loopCount) & 0xFF;
+    anim[5] = (Math.max(0, loopCount) >> 8) & 0xFF;
+
+    const body = concatBytes([
+        new TextEncoder().encode('WEBP'),
+        writeChunk('VP8X', vp8x),
+        writeChunk('ANIM', anim),
+        ...frameChunks,
+    ]);
+
+    const riffHeader = new Uint8Array(8);
+    riffHeader.set(new TextEncoder().encode('RIFF'));
+    new DataView(riffHeader.buffer).setUint32(4, body.length, true);
+
+    return new Blob([riffHeader, body], { type: 'image/webp' });
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Convert ImageData to a PNG data URL
+ */
+export function imageDataToDataUrl(imageData: ImageData): string {
+    const canvas = document.createElement('canvas');
+    canvas.width = imageData.width;
+    canvas.height = imageData.height;
+    canvas.getContext('2d')!.putImageData(imageData, 0, 0);
+    return canvas.toDataURL('image/png');
+}
+
+/**
+ * Load an image data URL into ImageData at the given size (scaling if needed)
+ */
+export function dataUrlToImageData(dataUrl: string, width: number, height: number): Promise<ImageData> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = width;
+            canvas.height = height;
+            const ctx = canvas.getContext('2d')!;
+            ctx.drawImage(img, 0, 0, width, height);
+            resolve(ctx.getImageData(0, 0, width, height));
+        };
+        img.onerror = () => reject(new Error('Failed to load frame image'));
+        img.src = dataUrl;
+    });
+}
+
+/**
+ * Convert a Blob to a data URL
+ */
+export function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+    });
+}
@@ -5,6 +5,8 @@
 
 import { GoogleGenAI } from "@google/genai";
 import { getSaucyApiKey } from "./authService";
+import { withUsage } from "./usageService";
+import { decodeGif, imageDataToDataUrl } from "./gifCodec";
 
 interface FrameAnalysis {
     frameIndex: number;
@@ -18,17 +20,74 @@ interface AnalysisResult {
     totalFrames: number;
     analysis: string;
     allFrames: string[];  // base64 of all extracted frames
+    frameScores?: FrameAnalysis[];
 }
 
+export type FrameSamplingStrategy = "even" | "scene";
+
+// Frames are downscaled to this width before scene-change scoring
+const SCENE_SAMPLE_WIDTH = 64;
+
 /**
- * Extract all frames from an animated GIF
+ * Pick `count` indices spread evenly across `total` frames (first and last included)
  */
-export const extractGifFrames = async (
-    gifData: string,
-    maxFrames: number = 10
-): Promise<string[]> => {
+const sampleEvenly = (total: number, count: number): number[] => {
+    if (total <= count) return Array.from({ length: total }, (_, i) => i);
+    if (count === 1) return [0];
+    const indices = new Set<number>();
+    for (let i = 0; i < count; i++) {
+        indices.add(Math.round((i * (total - 1)) / (count - 1)));
+    }
+    return Array.from(indices).sort((a, b) => a - b);
+};
+
+/**
+ * Score how much each frame differs from the previous one (mean absolute
+ * difference on a downscaled copy) and keep the biggest scene changes
+ */
+const sampleBySceneChange = (frames: ImageData[], count: number): number[] => {
+    if (frames.length <= count) return frames.map((_, i) => i);
+
+    const scale = Math.min(1, SCENE_SAMPLE_WIDTH / frames[0].width);
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(frames[0].width * scale));
+    canvas.height = Math.max(1, Math.round(frames[0].height * scale));
+    const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+    const source = document.createElement("canvas");
+    source.width = frames[0].width;
+    source.height = frames[0].height;
+    const sourceCtx = source.getContext("2d")!;
+
+    const thumbnails = frames.map((frame) => {
+        sourceCtx.putImageData(frame, 0, 0);
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+        return ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+    });
+
+    const scores = thumbnails.map((thumb, i) => {
+        if (i === 0) return Infinity; // Always keep the opening frame
+        const prev = thumbnails[i - 1];
+        let diff = 0;
+        for (let p = 0; p < thumb.length; p += 4) {
+            diff += Math.abs(thumb[p] - prev[p]) + Math.abs(thumb[p + 1] - prev[p + 1]) + Math.abs(thumb[p + 2] - prev[p + 2]);
+        }
+        return diff / (thumb.length / 4);
+    });
+
+    return scores
+        .map((score, index) => ({ score, index }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, count)
+        .map((s) => s.index)
+        .sort((a, b) => a - b);
+};
+
+/**
+ * Fallback for non-GIF images: draw the image once and return it as PNG
+ */
+const extractSingleFrame = (imageData: string): Promise<string[]> => {
     return new Promise((resolve) => {
-        const frames: string[] = [];
         const img = new Image();
 
         img.onload = () => {
@@ -38,24 +97,42 @@ export const extractGifFrames = async (
             const ctx = canvas.getContext("2d");
 
             if (!ctx) {
-                resolve([gifData]); // Fallback to original
+                resolve([imageData]); // Fallback to original
                 return;
             }
 
-            // For animated GIFs, we can only extract the first frame with basic canvas
-            // For full frame extraction, we'd need a GIF parsing library
-            // For now, we'll sample the GIF at different time positions using a workaround
             ctx.drawImage(img, 0, 0);
-            frames.push(canvas.toDataURL("image/png"));
-
-            resolve(frames);
+            resolve([canvas.toDataURL("image/png")]);
         };
 
-        img.onerror = () => resolve([gifData]);
-        img.src = gifData;
+        img.onerror = () => resolve([imageData]);
+        img.src = imageData;
     });
 };
 
+/**
+ * Extract up to `maxFrames` frames from an animated GIF
+ * Frames are sampled evenly across the animation, or at the biggest scene changes
+ */
+export const extractGifFrames = async (
+    gifData: string,
+    maxFrames: number = 10,
+    strategy: FrameSamplingStrategy = "even"
+): Promise<string[]> => {
+    try {
+        const { frames } = await decodeGif(gifData);
+        const images = frames.map((f) => f.imageData);
+        const indices = strategy === "scene"
+            ? sampleBySceneChange(images, maxFrames)
+            : sampleEvenly(images.length, maxFrames);
+        return indices.map((i) => imageDataToDataUrl(images[i]));
+    } catch (error) {
+        // Not a GIF (or unreadable) - treat as a single still
+        console.warn("GIF decode failed, using single frame:", error);
+        return extractSingleFrame(gifData);
+    }
+};
+
 /**
  * Use Gemini Vision to analyze frames and pick the best one
  */
@@ -78,49 +155,62 @@ export const analyzeFramesForBestMoment = async (
     try {
         const ai = new GoogleGenAI({ apiKey: key });
 
-        // Analyze the image to understand the content
-        const cleanBase64 = frames[0].includes(",")
-            ? frames[0].split(",")[1]
-            : frames[0];
+        // Label each frame so the model can refer to it by index
+        const parts: any[] = [];
+        frames.forEach((frame, index) => {
+            parts.push({ text: `Frame ${index}:` });
+            parts.push({
+                inlineData: {
+                    mimeType: "image/png",
+                    data: frame.includes(",") ? frame.split(",")[1] : frame,
+                },
+            });
+        });
 
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: [
-                {
-                    role: "user",
-                    parts: [
-                        {
-                            inlineData: {
-                                mimeType: "image/png",
-                                data: cleanBase64,
-                            },
-                        },
-                        {
-                            text: `Analyze this image and describe what makes it a good candidate for a sticker or emoji. 
-              Consider: 
+        parts.push({
+            text: `These are ${frames.length} frames sampled in order from one animated GIF.
+              Pick the single frame that would make the best sticker or emoji.
+              Consider:
               - Facial expression (is it expressive/memorable?)
               - Composition (is the subject well-framed?)
-              - Clarity (is it sharp and clear?)
+              - Clarity (is it sharp, not motion-blurred?)
               - Emotion conveyed
-              
+
               ${context ? `Context: ${context}` : ""}
-              
-              Provide a brief analysis in 2-3 sentences.`,
-                        },
-                    ],
-                },
-            ],
+
+              Respond ONLY with JSON in this format:
+              {
+                "bestFrameIndex": number,
+                "analysis": "2-3 sentences on why this frame wins",
+                "frames": [{ "frameIndex": number, "score": 0-10, "description": "short note" }]
+              }`,
         });
 
-        const analysis = response.candidates?.[0]?.content?.parts?.[0]?.text ||
-            "Frame analyzed successfully";
+        const response = await withUsage("gemini-2.5-flash", 1, (model) => ai.models.generateContent({
+            model,
+            contents: [{ role: "user", parts }],
+        }));
+
+        const text = response.candidates?.[0]?.content?.parts?.[0]?.text || "";
+        const jsonStr = text.match(/\{[\s\S]*\}/)?.[0] || "{}";
+        const parsed = JSON.parse(jsonStr) as {
+            bestFrameIndex?: number;
+            analysis?: string;
+            frames?: FrameAnalysis[];
+        };
+
+        const bestFrameIndex = Number.isInteger(parsed.bestFrameIndex) &&
+            parsed.bestFrameIndex! >= 0 && parsed.bestFrameIndex! < frames.length
+            ? parsed.bestFrameIndex!
+            : 0;
 
         return {
-            bestFrame: frames[0],
-            bestFrameIndex: 0,
+            bestFrame: frames[bestFrameIndex],
+            bestFrameIndex,
             totalFrames: frames.length,
-            analysis,
+            analysis: parsed.analysis || "Frame analyzed successfully",
             allFrames: frames,
+            frameScores: parsed.frames,
         };
     } catch (error) {
         console.error("Frame analysis error:", error);
@@ -134,6 +224,21 @@ export const analyzeFramesForBestMoment = async (
     }
 };
 
+/**
+ * Find the best moment in an animated GIF and pass it to reimagineAsSticker
+ */
+export const reimagineBestMoment = async (
+    gifData: string,
+    style: "cartoon" | "emoji" | "chibi" | "minimalist" = "cartoon",
+    context?: string,
+    maxFrames: number = 8
+): Promise<{ success: boolean; imageData?: string; error?: string; bestFrameIndex: number }> => {
+    const frames = await extractGifFrames(gifData, maxFrames, "scene");
+    const { bestFrame, bestFrameIndex } = await analyzeFramesForBestMoment(frames, context);
+    const result = await reimagineAsSticker(bestFrame, style);
+    return { ...result, bestFrameIndex };
+};
+
 /**
  * Reimagine an image as a stylized sticker using Gemini
  */
@@ -168,8 +273,8 @@ export const reimagineAsSticker = async (
     The result should have a transparent background and be suitable for use as a chat sticker or emoji.
     Make it visually striking and memorable with no text overlays.`;
 
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash-image",
+        const response = await withUsage("gemini-2.5-flash-image", 1, (model) => ai.models.generateContent({
+            model,
             contents: [
                 {
                     role: "user",
@@ -187,7 +292,7 @@ export const reimagineAsSticker = async (
             config: {
                 responseModalities: ["image", "text"],
             } as any,
-        });
+        }));
 
         // Extract the generated image
         const parts = response.candidates?.[0]?.content?.parts || [];
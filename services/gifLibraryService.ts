@@ -3,10 +3,11 @@
  * 
  * Features:
  * - Content ratings (PG, PG-13, R, Unhinged)
- * - Trending scores with time-based periods
+ * - Trending scores with time-based periods (computed by the recomputeTrending function)
  * - Download tracking
  * - Admin approval workflow
  * - GIF of the Day selection
+ * - Perceptual-hash duplicate detection on ingest, with merge
  */
 
 import {
@@ -19,13 +20,19 @@ import {
     orderBy,
     limit,
     updateDoc,
+    setDoc,
     doc,
     Timestamp,
     deleteDoc,
     increment,
-    DocumentData
+    deleteField,
+    writeBatch,
+    DocumentData,
+    QueryDocumentSnapshot
 } from 'firebase/firestore';
-import { db } from './firebaseConfig';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from './firebaseConfig';
+import { computeMediaHash, hammingDistance, hashBands, isPerceptualDuplicate } from './perceptualHash';
 
 // Content rating types
 export type ContentRating = 'pg' | 'pg13' | 'r' | 'unhinged';
@@ -60,6 +67,9 @@ export interface LibraryGIF {
     // Content
     url: string;
     thumbnailUrl?: string;
+    videoUrl?: string;          // MP4/WebM rendition in Storage (e.g. the Veo source) used when links unfurl
+    width?: number;
+    height?: number;
     title?: string;
     description?: string;
     tags: string[];
@@ -81,11 +91,21 @@ export interface LibraryGIF {
     downloads: number;
     shares: number;
     trendingScore: number;
+    // Windowed scores written by the recomputeTrending Cloud Function
+    trendingToday?: number;
+    trendingWeek?: number;
+    trendingMonth?: number;
+    trendingAllTime?: number;
 
     // GIF of the Day
     isGifOfTheDay?: boolean;
     gifOfTheDayDate?: Date;
 
+    // Duplicate detection
+    perceptualHash?: string;  // computeMediaHash, stored with its hashBands for lookups
+    duplicateOf?: string;     // Id of an existing GIF this looks like (pending review)
+    mergedFrom?: string[];    // Ids of duplicates folded into this one
+
     // Metadata
     createdAt: Date;
     updatedAt: Date;
@@ -94,33 +114,56 @@ export interface LibraryGIF {
 // Firestore collection
 const GIF_COLLECTION = 'library_gifs';
 const GOTD_COLLECTION = 'gif_of_the_day';
+const ENGAGEMENT_COLLECTION = 'gif_engagement';
+const WRITE_BATCH_SIZE = 400;   // Firestore caps a batch at 500 writes
+
+// Score field to sort by for each trending period
+export const TRENDING_FIELDS: Record<TrendingPeriod, keyof LibraryGIF> = {
+    today: 'trendingToday',
+    week: 'trendingWeek',
+    month: 'trendingMonth',
+    allTime: 'trendingAllTime'
+};
+
+export type EngagementKind = 'downloads' | 'shares' | 'favorites';
 
 /**
- * Calculate trending score based on recent activity
+ * Record an engagement event into the GIF's hourly bucket
+ * (gif_engagement/{gifId}_{YYYY-MM-DDTHH}), which feeds the windowed trending scores
  */
-function calculateTrendingScore(downloads: number, shares: number, createdAt: Date): number {
-    const ageInHours = (Date.now() - createdAt.getTime()) / (1000 * 60 * 60);
-    const engagement = downloads * 1 + shares * 2;
-    // Decay factor: newer content ranks higher
-    const decayFactor = Math.pow(0.95, ageInHours / 24);
-    return engagement * decayFactor;
+export async function recordEngagement(gifId: string, kind: EngagementKind): Promise<void> {
+    try {
+        const hour = new Date();
+        hour.setUTCMinutes(0, 0, 0);
+        const hourKey = hour.toISOString().substring(0, 13);
+
+        await setDoc(doc(db, ENGAGEMENT_COLLECTION, `${gifId}_${hourKey}`), {
+            gifId,
+            hour: Timestamp.fromDate(hour),
+            [kind]: increment(1)
+        }, { merge: true });
+    } catch (error) {
+        console.error('Error recording engagement:', error);
+    }
 }
 
 /**
  * Get published (approved) GIFs with filters
  */
 export async function getPublishedGifs(options?: {
-    period?: TrendingPeriod;
+    period?: TrendingPeriod;          // Only GIFs created within this period
+    trendingPeriod?: TrendingPeriod;  // Rank by engagement within this period
     rating?: ContentRating;
     source?: ContentSource;
     search?: string;
     limit?: number;
 }): Promise<LibraryGIF[]> {
     try {
+        const sortField = options?.trendingPeriod ? TRENDING_FIELDS[options.trendingPeriod] : 'trendingScore';
         let q = query(
             collection(db, GIF_COLLECTION),
             where('status', '==', 'approved'),
-            orderBy('trendingScore', 'desc'),
+            orderBy(sortField, 'desc'),
             limit(options?.limit || 24)
         );
 
@@ -208,6 +251,7 @@ export async function incrementDownload(gifId: string): Promise<void> {
             downloads: increment(1),
             updatedAt: Timestamp.now()
         });
+        await recordEngagement(gifId, 'downloads');
     } catch (error) {
         console.error('Error incrementing download:', error);
     }
@@ -223,22 +267,82 @@ export async function incrementShare(gifId: string): Promise<void> {
             shares: increment(1),
             updatedAt: Timestamp.now()
         });
+        await recordEngagement(gifId, 'shares');
     } catch (error) {
         console.error('Error incrementing share:', error);
     }
 }
 
+/**
+ * Closest document in `collectionName` whose perceptualHash matches `hash`.
+ * Hamming distance can't be queried, so candidates are the documents sharing a hash band
+ * (stored as `hashBands` next to the hash).
+ */
+export async function findClosestByHash(
+    collectionName: string,
+    hash: string,
+    excludeId?: string
+): Promise<{ doc: QueryDocumentSnapshot; distance: number } | null> {
+    const snapshot = await getDocs(query(
+        collection(db, collectionName),
+        where('hashBands', 'array-contains-any', hashBands(hash))
+    ));
+
+    let best: { doc: QueryDocumentSnapshot; distance: number } | null = null;
+    for (const candidateDoc of snapshot.docs) {
+        if (candidateDoc.id === excludeId) continue;
+        const candidate = candidateDoc.data().perceptualHash as string;
+        if (!isPerceptualDuplicate(hash, candidate)) continue;
+
+        const distance = hammingDistance(hash, candidate);
+        if (!best || distance < best.distance) {
+            best = { doc: candidateDoc, distance };
+        }
+    }
+    return best;
+}
+
+/**
+ * Find the closest existing GIF with a matching perceptual hash
+ */
+export async function findPerceptualDuplicate(
+    hash: string,
+    excludeId?: string
+): Promise<{ gif: LibraryGIF; distance: number } | null> {
+    try {
+        const best = await findClosestByHash(GIF_COLLECTION, hash, excludeId);
+        return best ? { gif: docToGif(best.doc), distance: best.distance } : null;
+    } catch (error) {
+        console.error('Error checking for duplicates:', error);
+        return null;
+    }
+}
+
 /**
  * Add a new GIF to the library (Admin)
+ * Hashes the GIF and flags it with `duplicateOf` if it looks like one we already have.
  */
 export async function addGifToLibrary(gif: Omit<LibraryGIF, 'id' | 'createdAt' | 'updatedAt' | 'downloads' | 'shares' | 'trendingScore'>): Promise<string> {
     try {
         const now = new Date();
+        const perceptualHash = gif.perceptualHash || await computeMediaHash(gif.url);
+        const duplicate = perceptualHash ? await findPerceptualDuplicate(perceptualHash) : null;
+        if (duplicate) {
+            console.log(`Possible duplicate of ${duplicate.gif.id} (distance ${duplicate.distance}): ${gif.url}`);
+        }
+
         const newGif = {
             ...gif,
+            ...(perceptualHash ? { perceptualHash, hashBands: hashBands(perceptualHash) } : {}),
+            ...(duplicate ? { duplicateOf: duplicate.gif.id } : {}),
             downloads: 0,
             shares: 0,
             trendingScore: 0,
+            // Present from the start so period-sorted queries include new GIFs
+            trendingToday: 0,
+            trendingWeek: 0,
+            trendingMonth: 0,
+            trendingAllTime: 0,
             createdAt: Timestamp.fromDate(now),
             updatedAt: Timestamp.fromDate(now)
         };
@@ -310,6 +414,70 @@ export async function deleteGif(gifId: string): Promise<void> {
     }
 }
 
+/**
+ * Get a single GIF by id
+ */
+export async function getGifById(gifId: string): Promise<LibraryGIF | null> {
+    try {
+        const gifDoc = await getDoc(doc(db, GIF_COLLECTION, gifId));
+        return gifDoc.exists() ? docToGif(gifDoc) : null;
+    } catch (error) {
+        console.error('Error fetching GIF:', error);
+        return null;
+    }
+}
+
+/**
+ * Merge a duplicate into the GIF it duplicates (Admin)
+ * Runs in the mergeDuplicateGif function: favorites, showdowns and engagement move to the
+ * kept GIF, which absorbs the duplicate's downloads, shares and tags; the duplicate is deleted.
+ */
+export async function mergeDuplicateGif(duplicateId: string, keepId: string): Promise<void> {
+    try {
+        const merge = httpsCallable<{ duplicateId: string; keepId: string }, unknown>(functions, 'mergeDuplicateGif');
+        await merge({ duplicateId, keepId });
+    } catch (error) {
+        console.error('Error merging duplicate GIF:', error);
+        throw error;
+    }
+}
+
+/**
+ * Add hashBands to hashed GIFs stored before band lookups existed (Admin).
+ * Safe to run repeatedly; returns how many GIFs were updated.
+ */
+export async function backfillHashBands(collectionName: string = GIF_COLLECTION): Promise<number> {
+    const snapshot = await getDocs(query(
+        collection(db, collectionName),
+        where('perceptualHash', '>', '')
+    ));
+    const missing = snapshot.docs.filter(gifDoc => !gifDoc.data().hashBands);
+
+    for (let i = 0; i < missing.length; i += WRITE_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        missing.slice(i, i + WRITE_BATCH_SIZE).forEach(gifDoc => {
+            batch.update(gifDoc.ref, { hashBands: hashBands(gifDoc.data().perceptualHash) });
+        });
+        await batch.commit();
+    }
+    return missing.length;
+}
+
+/**
+ * Clear a false-positive duplicate flag (Admin)
+ */
+export async function dismissDuplicate(gifId: string): Promise<void> {
+    try {
+        await updateDoc(doc(db, GIF_COLLECTION, gifId), {
+            duplicateOf: deleteField(),
+            updatedAt: Timestamp.now()
+        });
+    } catch (error) {
+        console.error('Error dismissing duplicate:', error);
+        throw error;
+    }
+}
+
 /**
  * Get pending review GIFs (Admin)
  */
@@ -380,31 +548,6 @@ export async function setGifOfTheDay(gifId: string, date: Date = new Date()): Pr
     }
 }
 
-/**
- * Recalculate trending scores (scheduled job)
- */
-export async function recalculateTrendingScores(): Promise<void> {
-    try {
-        const snapshot = await getDocs(collection(db, GIF_COLLECTION));
-
-        for (const gifDoc of snapshot.docs) {
-            const data = gifDoc.data();
-            const createdAt = data.createdAt?.toDate() || new Date();
-            const newScore = calculateTrendingScore(
-                data.downloads || 0,
-                data.shares || 0,
-                createdAt
-            );
-
-            await updateDoc(doc(db, GIF_COLLECTION, gifDoc.id), {
-                trendingScore: newScore
-            });
-        }
-    } catch (error) {
-        console.error('Error recalculating trending scores:', error);
-    }
-}
-
 // Helper functions
 
 function docToGif(docSnapshot: DocumentData): LibraryGIF {
@@ -413,6 +556,9 @@ function docToGif(docSnapshot: DocumentData): LibraryGIF {
         id: docSnapshot.id,
         url: data.url,
         thumbnailUrl: data.thumbnailUrl,
+        videoUrl: data.videoUrl,
+        width: data.width,
+        height: data.height,
         title: data.title,
         description: data.description,
         tags: data.tags || [],
@@ -426,8 +572,15 @@ function docToGif(docSnapshot: DocumentData): LibraryGIF {
         downloads: data.downloads || 0,
         shares: data.shares || 0,
         trendingScore: data.trendingScore || 0,
+        trendingToday: data.trendingToday,
+        trendingWeek: data.trendingWeek,
+        trendingMonth: data.trendingMonth,
+        trendingAllTime: data.trendingAllTime,
         isGifOfTheDay: data.isGifOfTheDay,
         gifOfTheDayDate: data.gifOfTheDayDate?.toDate(),
+        perceptualHash: data.perceptualHash,
+        duplicateOf: data.duplicateOf,
+        mergedFrom: data.mergedFrom,
         createdAt: data.createdAt?.toDate() || new Date(),
         updatedAt: data.updatedAt?.toDate() || new Date()
     };
@@ -0,0 +1,330 @@
+/**
+ * GIF Optimizer Service
+ *
+ * Shrinks a ProcessedGif until it fits a platform's upload limit.
+ * Works down a ladder of increasingly lossy steps - frame de-duplication,
+ * palette reduction, lossy colour flattening, frame-rate reduction and
+ * downscaling - re-encoding after each one and stopping as soon as it fits.
+ * Every step taken is reported so the UI can show what was traded away.
+ */
+
+import { decodeGif, encodeGif } from './gifCodec';
+import { ProcessedGif, formatFileSize } from './captionOverlayService';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type OptimizePresetId =
+    | 'slack'
+    | 'slack_emoji'
+    | 'discord'
+    | 'discord_emoji'
+    | 'twitter'
+    | 'imessage';
+
+export interface OptimizePreset {
+    id: OptimizePresetId;
+    label: string;
+    maxBytes: number;
+    maxDimension?: number;  // Longest side in px
+}
+
+export interface OptimizeResult {
+    gif: ProcessedGif;
+    preset: OptimizePreset;
+    fits: boolean;
+    originalSize: number;
+    tradeoffs: string[];    // Human-readable list of what was given up
+    attempts: number;       // Number of re-encodes performed
+}
+
+interface WorkingFrame {
+    imageData: ImageData;
+    delay: number;
+}
+
+type OptimizeStep =
+    | { kind: 'palette'; colors: number }
+    | { kind: 'lossy'; level: number }
+    | { kind: 'fps'; keepEvery: number }
+    | { kind: 'scale'; factor: number };
+
+// =============================================================================
+// PRESETS
+// =============================================================================
+
+export const OPTIMIZE_PRESETS: Record<OptimizePresetId, OptimizePreset> = {
+    slack: { id: 'slack', label: 'Slack (5MB)', maxBytes: 5 * 1024 * 1024 },
+    slack_emoji: { id: 'slack_emoji', label: 'Slack emoji (128KB)', maxBytes: 128 * 1024, maxDimension: 128 },
+    discord: { id: 'discord', label: 'Discord (8MB)', maxBytes: 8 * 1024 * 1024 },
+    discord_emoji: { id: 'discord_emoji', label: 'Discord emoji (256KB)', maxBytes: 256 * 1024, maxDimension: 128 },
+    twitter: { id: 'twitter', label: 'Twitter / X (15MB)', maxBytes: 15 * 1024 * 1024 },
+    // MMS fallback limit used when iMessage isn't available
+    imessage: { id: 'imessage', label: 'iMessage / MMS (1MB)', maxBytes: 1024 * 1024 },
+};
+
+// Order matters: cheapest visual loss first
+const OPTIMIZE_LADDER: OptimizeStep[] = [
+    { kind: 'palette', colors: 128 },
+    { kind: 'lossy', level: 1 },
+    { kind: 'fps', keepEvery: 2 },
+    { kind: 'scale', factor: 0.8 },
+    { kind: 'palette', colors: 64 },
+    { kind: 'lossy', level: 2 },
+    { kind: 'scale', factor: 0.75 },
+    { kind: 'fps', keepEvery: 2 },
+    { kind: 'palette', colors: 32 },
+    { kind: 'scale', factor: 0.75 },
+    { kind: 'lossy', level: 3 },
+    { kind: 'scale', factor: 0.7 },
+    { kind: 'scale', factor: 0.7 },
+];
+
+// Never go below these, even if the target still isn't met
+const MIN_DIMENSION = 48;
+const MAX_FRAME_DELAY = 200;    // ms - keep at least ~5fps so motion still reads
+const DUPLICATE_THRESHOLD = 2;  // Mean per-channel difference treated as "same frame"
+
+// =============================================================================
+// FRAME OPERATIONS
+// =============================================================================
+
+/**
+ * Mean absolute per-channel difference between two frames (sampled)
+ */
+function frameDifference(a: ImageData, b: ImageData): number {
+    const step = 4 * 7; // Sample every 7th pixel - plenty for duplicate detection
+    let diff = 0;
+    let count = 0;
+    for (let i = 0; i < a.data.length; i += step) {
+        diff += Math.abs(a.data[i] - b.data[i]) +
+            Math.abs(a.data[i + 1] - b.data[i + 1]) +
+            Math.abs(a.data[i + 2] - b.data[i + 2]);
+        count += 3;
+    }
+    return count ? diff / count : 0;
+}
+
+/**
+ * Merge consecutive near-identical frames, summing their delays
+ */
+function dedupeFrames(frames: WorkingFrame[]): WorkingFrame[] {
+    const result: WorkingFrame[] = [];
+    for (const frame of frames) {
+        const last = result[result.length - 1];
+        if (last && frameDifference(last.imageData, frame.imageData) <= DUPLICATE_THRESHOLD) {
+            last.delay += frame.delay;
+        } else {
+            result.push({ imageData: frame.imageData, delay: frame.delay });
+        }
+    }
+    return result;
+}
+
+/**
+ * Keep every Nth frame, folding dropped frames' delays into the kept one
+ */
+function dropFrames(frames: WorkingFrame[], keepEvery: number): WorkingFrame[] {
+    const result: WorkingFrame[] = [];
+    frames.forEach((frame, i) => {
+        if (i % keepEvery === 0) {
+            result.push({ imageData: frame.imageData, delay: frame.delay });
+        } else {
+            result[result.length - 1].delay += frame.delay;
+        }
+    });
+    return result;
+}
+
+/**
+ * Resize every frame
+ */
+function scaleFrames(frames: WorkingFrame[], width: number, height: number): WorkingFrame[] {
+    const source = document.createElement('canvas');
+    const target = document.createElement('canvas');
+    target.width = width;
+    target.height = height;
+    const sourceCtx = source.getContext('2d')!;
+    const targetCtx = target.getContext('2d', { willReadFrequently: true })!;
+    targetCtx.imageSmoothingQuality = 'high';
+
+    return frames.map(frame => {
+        source.width = frame.imageData.width;
+        source.height = frame.imageData.height;
+        sourceCtx.putImageData(frame.imageData, 0, 0);
+        targetCtx.clearRect(0, 0, width, height);
+        targetCtx.drawImage(source, 0, 0, width, height);
+        return { imageData: targetCtx.getImageData(0, 0, width, height), delay: frame.delay };
+    });
+}
+
+/**
+ * Lossy colour flattening.
+ * gif.js has no lossy LZW mode, so we get the same effect another way: dropping low
+ * bits per channel and snapping pixels that barely changed since the previous frame
+ * produces longer identical runs, which LZW compresses far better.
+ */
+function applyLossy(frames: WorkingFrame[], level: number): WorkingFrame[] {
+    const bits = level; // Low bits dropped per channel
+    const mask = (0xFF << bits) & 0xFF;
+    const temporalThreshold = level * 6;
+    let previous: Uint8ClampedArray | null = null;
+
+    return frames.map(frame => {
+        const data = new Uint8ClampedArray(frame.imageData.data);
+        for (let i = 0; i < data.length; i += 4) {
+            if (previous &&
+                Math.abs(data[i] - previous[i]) +
+                Math.abs(data[i + 1] - previous[i + 1]) +
+                Math.abs(data[i + 2] - previous[i + 2]) <= temporalThreshold) {
+                data[i] = previous[i];
+                data[i + 1] = previous[i + 1];
+                data[i + 2] = previous[i + 2];
+            } else {
+                data[i] &= mask;
+                data[i + 1] &= mask;
+                data[i + 2] &= mask;
+            }
+        }
+        previous = data;
+        return { imageData: new ImageData(data, frame.imageData.width, frame.imageData.height), delay: frame.delay };
+    });
+}
+
+// =============================================================================
+// OPTIMIZER
+// =============================================================================
+
+/**
+ * Wrap an encoded blob as a ProcessedGif
+ */
+function toProcessedGif(blob: Blob, frames: WorkingFrame[], width: number, height: number): ProcessedGif {
+    return {
+        blob,
+        url: URL.createObjectURL(blob),
+        width,
+        height,
+        frameCount: frames.length,
+        duration: frames.reduce((sum, f) => sum + f.delay, 0),
+        fileSize: blob.size,
+    };
+}
+
+/**
+ * Check if a GIF already fits a preset
+ */
+export function fitsPreset(gif: Pick<ProcessedGif, 'fileSize' | 'width' | 'height'>, presetId: OptimizePresetId): boolean {
+    const preset = OPTIMIZE_PRESETS[presetId];
+    const withinDimension = !preset.maxDimension || Math.max(gif.width, gif.height) <= preset.maxDimension;
+    return gif.fileSize <= preset.maxBytes && withinDimension;
+}
+
+/**
+ * Optimize a GIF to fit a platform preset
+ */
+export async function optimizeGif(
+    gif: ProcessedGif,
+    presetId: OptimizePresetId,
+    onProgress?: (status: string, percent: number) => void
+): Promise<OptimizeResult> {
+    const preset = OPTIMIZE_PRESETS[presetId];
+    const originalSize = gif.fileSize;
+
+    if (fitsPreset(gif, presetId)) {
+        return { gif, preset, fits: true, originalSize, tradeoffs: [], attempts: 0 };
+    }
+
+    onProgress?.('Decoding GIF...', 0);
+    const decoded = await decodeGif(gif.blob);
+    let frames: WorkingFrame[] = decoded.frames.map(f => ({ imageData: f.imageData, delay: f.delay }));
+    let width = decoded.width;
+    let height = decoded.height;
+    let paletteSize = 256;
+    let lossyLevel = 0;
+    const tradeoffs: string[] = [];
+
+    // Lossless first: drop duplicate frames
+    const deduped = dedupeFrames(frames);
+    if (deduped.length < frames.length) {
+        tradeoffs.push(`Merged ${frames.length - deduped.length} duplicate frames`);
+        frames = deduped;
+    }
+
+    // Emoji presets have a hard dimension cap regardless of size
+    if (preset.maxDimension && Math.max(width, height) > preset.maxDimension) {
+        const scale = preset.maxDimension / Math.max(width, height);
+        width = Math.max(1, Math.round(width * scale));
+        height = Math.max(1, Math.round(height * scale));
+        frames = scaleFrames(frames, width, height);
+        tradeoffs.push(`Scaled to ${width}×${height}`);
+    }
+
+    const encode = () => encodeGif(frames, {
+        width,
+        height,
+        loopCount: decoded.loopCount,
+        transparent: decoded.hasTransparency,
+        paletteSize,
+    });
+
+    let attempts = 1;
+    onProgress?.('Encoding...', 5);
+    let blob = await encode();
+
+    for (let i = 0; i < OPTIMIZE_LADDER.length && blob.size > preset.maxBytes; i++) {
+        const step = OPTIMIZE_LADDER[i];
+        let applied: string | null = null;
+
+        switch (step.kind) {
+            case 'palette':
+                if (step.colors < paletteSize) {
+                    paletteSize = step.colors;
+                    applied = `Reduced palette to ${paletteSize} colours`;
+                }
+                break;
+            case 'lossy':
+                if (step.level > lossyLevel) {
+                    lossyLevel = step.level;
+                    frames = applyLossy(frames, step.level);
+                    applied = `Applied lossy compression (level ${lossyLevel})`;
+                }
+                break;
+            case 'fps': {
+                const longestDelay = Math.max(...frames.map(f => f.delay));
+                if (frames.length > 2 && longestDelay * step.keepEvery <= MAX_FRAME_DELAY) {
+                    const before = frames.length;
+                    frames = dropFrames(frames, step.keepEvery);
+                    applied = `Reduced frame rate (${before} → ${frames.length} frames)`;
+                }
+                break;
+            }
+            case 'scale': {
+                const nextWidth = Math.round(width * step.factor);
+                const nextHeight = Math.round(height * step.factor);
+                if (Math.min(nextWidth, nextHeight) >= MIN_DIMENSION) {
+                    width = nextWidth;
+                    height = nextHeight;
+                    frames = scaleFrames(frames, width, height);
+                    applied = `Scaled to ${width}×${height}`;
+                }
+                break;
+            }
+        }
+
+        if (!applied) continue;
+        tradeoffs.push(applied);
+        attempts++;
+        onProgress?.(`${applied}...`, 5 + ((i + 1) / OPTIMIZE_LADDER.length) * 90);
+        blob = await encode();
+    }
+
+    const result = toProcessedGif(blob, frames, width, height);
+    const fits = fitsPreset(result, presetId);
+    if (!fits) {
+        console.warn(`GIF still ${formatFileSize(blob.size)} after optimizing for ${preset.label}`);
+    }
+
+    onProgress?.('Complete!', 100);
+    return { gif: result, preset, fits, originalSize, tradeoffs, attempts };
+}
@@ -1,10 +1,23 @@
 
 import { GoogleGenAI } from "@google/genai";
 import { getSaucyApiKey } from "./authService";
+import { withUsage, checkBudget, formatBudget } from "./usageService";
+import { isGeminiGatewayEnabled, callGateway } from "./geminiGateway";
+import { decodeGif, encodeGif, countGifFrames, imageDataToDataUrl, dataUrlToImageData, blobToDataUrl } from "./gifCodec";
+import { buildTextMask } from "./textMask";
+
+const TEXT_REMOVAL_MODEL = 'gemini-2.5-flash-image';
 
 export interface GifFrame {
-    imageData: string;
-    delay: number;
+    imageData: string;  // PNG data URL of the fully composited frame
+    delay: number;      // Frame delay in ms
+    disposal?: number;  // Source disposal method
+}
+
+export interface ReassembleOptions {
+    loopCount?: number;     // 0 = forever (default), -1 = play once
+    transparent?: boolean;
+    onProgress?: (percent: number) => void;
 }
 
 /**
@@ -35,6 +48,15 @@ export const removeTextFromFrame = async (
     base64Data: string,
     mimeType: string = 'image/png'
 ): Promise<string> => {
+    if (isGeminiGatewayEnabled()) {
+        const image = base64Data.includes(',') ? base64Data.split(',')[1] : base64Data;
+        const result = await withUsage(TEXT_REMOVAL_MODEL, 1, (model) =>
+            callGateway('removeText', model, { image, mimeType, variant: 'frame' }),
+            { serverMetered: true }
+        );
+        return result.image;
+    }
+
     const { key, isDemo } = await getSaucyApiKey();
 
     if (isDemo) {
@@ -45,15 +67,15 @@ export const removeTextFromFrame = async (
     const ai = new GoogleGenAI({ apiKey: key });
     const cleanBase64 = base64Data.includes(',') ? base64Data.split(',')[1] : base64Data;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
+    const response = await withUsage(TEXT_REMOVAL_MODEL, 1, (model) => ai.models.generateContent({
+        model,
         contents: {
             parts: [
                 { inlineData: { data: cleanBase64, mimeType: mimeType } },
                 { text: "Remove all written text and watermarks from this frame. Output ONLY the clean image." },
             ],
         },
-    });
+    }));
 
     if (response.candidates?.[0]?.content?.parts?.[0]?.inlineData) {
         return `data:image/png;base64,${response.candidates[0].content.parts[0].inlineData.data}`;
@@ -62,19 +84,212 @@ export const removeTextFromFrame = async (
 };
 
 export const extractGifFrames = async (gifDataUrl: string): Promise<GifFrame[]> => {
-    return [{ imageData: gifDataUrl, delay: 100 }];
+    const { frames } = await decodeGif(gifDataUrl);
+    return frames.map(frame => ({
+        imageData: imageDataToDataUrl(frame.imageData),
+        delay: frame.delay,
+        disposal: frame.disposal,
+    }));
 };
 
-export const reassembleGif = async (frames: GifFrame[], width: number, height: number): Promise<string> => {
-    return frames[0].imageData;
+export const reassembleGif = async (
+    frames: GifFrame[],
+    width: number,
+    height: number,
+    options: ReassembleOptions = {}
+): Promise<string> => {
+    const decoded = await Promise.all(frames.map(async frame => ({
+        imageData: await dataUrlToImageData(frame.imageData, width, height),
+        delay: frame.delay,
+    })));
+
+    const blob = await encodeGif(decoded, {
+        width,
+        height,
+        loopCount: options.loopCount ?? 0,
+        transparent: options.transparent ?? false,
+        onProgress: options.onProgress,
+    });
+    return blobToDataUrl(blob);
 };
 
-export const checkRateLimit = (): { allowed: boolean; remaining: string } => {
-    return { allowed: true, remaining: "$25.00" };
+/**
+ * Remove text from every frame of an animated GIF and re-encode it,
+ * keeping the original timing, loop count and transparency
+ */
+export const removeTextFromGif = async (
+    gifDataUrl: string,
+    onProgress?: (status: string, percent: number) => void
+): Promise<{ dataUrl: string; frameCount: number }> => {
+    onProgress?.('Decoding frames...', 0);
+    const { frames, width, height, loopCount, hasTransparency } = await decodeGif(gifDataUrl);
+
+    // Check the whole GIF up front so we never bill half an animation
+    const limit = await checkRateLimit(frames.length);
+    if (!limit.allowed) throw new Error(limit.reason);
+
+    const cleanedFrames: Array<{ imageData: ImageData; delay: number }> = [];
+    for (let i = 0; i < frames.length; i++) {
+        onProgress?.(`Cleaning frame ${i + 1}/${frames.length}...`, 5 + (i / frames.length) * 75);
+
+        const source = frames[i].imageData;
+        const cleaned = await removeTextFromFrame(imageDataToDataUrl(source), 'image/png');
+        const imageData = await dataUrlToImageData(cleaned, width, height);
+
+        // Gemini returns opaque images, so carry the source alpha channel across
+        if (hasTransparency) {
+            for (let p = 3; p < imageData.data.length; p += 4) {
+                imageData.data[p] = source.data[p];
+            }
+        }
+
+        cleanedFrames.push({ imageData, delay: frames[i].delay });
+    }
+
+    onProgress?.('Encoding GIF...', 80);
+    const blob = await encodeGif(cleanedFrames, {
+        width,
+        height,
+        loopCount,
+        transparent: hasTransparency,
+        onProgress: p => onProgress?.('Encoding GIF...', 80 + p * 0.2),
+    });
+
+    onProgress?.('Complete!', 100);
+    return { dataUrl: await blobToDataUrl(blob), frameCount: frames.length };
 };
 
-export const incrementUsage = (frameCount: number = 1): void => { };
+export interface TemporalRemovalOptions {
+    keyframeInterval?: number;  // Frames between inpainted keyframes (default 10)
+    maxKeyframes?: number;      // Hard cap on Gemini calls per GIF (default 6)
+    maskThreshold?: number;     // Summed RGB difference that counts as "text changed here" (default 60)
+    maskDilation?: number;      // Pixels to grow the mask by to cover anti-aliased edges (default 3)
+    maxMaskCoverage?: number;   // Share of the frame beyond which a mask isn't trusted (default 0.3)
+}
+
+/**
+ * Pick evenly spaced keyframe indices, always including the first and last frame
+ */
+const pickKeyframes = (frameCount: number, interval: number, maxKeyframes: number): number[] => {
+    if (frameCount <= 1) return [0];
+    const count = Math.min(maxKeyframes, Math.max(2, Math.ceil((frameCount - 1) / interval) + 1), frameCount);
+    const indices = new Set<number>();
+    for (let i = 0; i < count; i++) {
+        indices.add(Math.round((i * (frameCount - 1)) / (count - 1)));
+    }
+    return Array.from(indices).sort((a, b) => a - b);
+};
+
+/**
+ * Temporal-consistency text removal for animated GIFs.
+ *
+ * Only a handful of keyframes are sent to Gemini. Their diffs against the source
+ * are merged into one shared text mask, and every frame keeps its original pixels
+ * outside that mask while the masked area is blended from the nearest clean keyframes.
+ * This removes the per-frame shimmer of independent inpainting and cuts API calls
+ * from one per frame to `maxKeyframes` at most.
+ *
+ * Keyframes Gemini redrew wholesale are left out of the mask (see textMask). If none
+ * localise the text, every frame is cleaned on its own instead (removeTextFromGif).
+ */
+export const removeTextFromGifTemporal = async (
+    gifDataUrl: string,
+    options: TemporalRemovalOptions = {},
+    onProgress?: (status: string, percent: number) => void
+): Promise<{ dataUrl: string; frameCount: number; apiCalls: number }> => {
+    const {
+        keyframeInterval = 10,
+        maxKeyframes = 6,
+        maskThreshold = 60,
+        maskDilation = 3,
+        maxMaskCoverage = 0.3,
+    } = options;
+
+    onProgress?.('Decoding frames...', 0);
+    const { frames, width, height, loopCount, hasTransparency } = await decodeGif(gifDataUrl);
+    const keyframes = pickKeyframes(frames.length, keyframeInterval, maxKeyframes);
+
+    const limit = await checkRateLimit(keyframes.length);
+    if (!limit.allowed) throw new Error(limit.reason);
+
+    // 1. Inpaint keyframes only
+    const cleanedKeyframes = new Map<number, ImageData>();
+    for (let k = 0; k < keyframes.length; k++) {
+        const index = keyframes[k];
+        onProgress?.(`Cleaning keyframe ${k + 1}/${keyframes.length}...`, 5 + (k / keyframes.length) * 65);
+        const cleaned = await removeTextFromFrame(imageDataToDataUrl(frames[index].imageData), 'image/png');
+        cleanedKeyframes.set(index, await dataUrlToImageData(cleaned, width, height));
+    }
+
+    // 2. Shared text mask across all keyframes (covers text that drifts between them)
+    onProgress?.('Building text mask...', 72);
+    const mask = buildTextMask(
+        keyframes.map(index => ({ original: frames[index].imageData, cleaned: cleanedKeyframes.get(index)! })),
+        width,
+        height,
+        { threshold: maskThreshold, dilation: maskDilation, maxCoverage: maxMaskCoverage }
+    );
+    if (!mask) {
+        console.warn('Temporal text removal: no keyframe gave a local text mask, cleaning every frame');
+        const fallback = await removeTextFromGif(gifDataUrl, onProgress);
+        return { ...fallback, apiCalls: keyframes.length + fallback.frameCount };
+    }
+
+    // 3. Propagate clean pixels into every frame
+    onProgress?.('Propagating clean pixels...', 78);
+    const outputFrames: Array<{ imageData: ImageData; delay: number }> = frames.map((frame, i) => {
+        // Keyframes always include the first and last frame, so a surrounding pair exists
+        const next = keyframes.findIndex(k => k >= i);
+        const after = keyframes[next];
+        const before = after === i ? after : keyframes[next - 1];
+        const t = after === before ? 0 : (i - before) / (after - before);
+
+        const src = frame.imageData.data;
+        const cleanBefore = cleanedKeyframes.get(before)!.data;
+        const cleanAfter = cleanedKeyframes.get(after)!.data;
+        const out = new Uint8ClampedArray(src);
+
+        for (let p = 0, j = 0; p < mask.length; p++, j += 4) {
+            if (!mask[p]) continue;
+            out[j] = cleanBefore[j] + (cleanAfter[j] - cleanBefore[j]) * t;
+            out[j + 1] = cleanBefore[j + 1] + (cleanAfter[j + 1] - cleanBefore[j + 1]) * t;
+            out[j + 2] = cleanBefore[j + 2] + (cleanAfter[j + 2] - cleanBefore[j + 2]) * t;
+            // Alpha stays as the source so transparency survives
+        }
+
+        return { imageData: new ImageData(out, width, height), delay: frame.delay };
+    });
+
+    onProgress?.('Encoding GIF...', 80);
+    const blob = await encodeGif(outputFrames, {
+        width,
+        height,
+        loopCount,
+        transparent: hasTransparency,
+        onProgress: p => onProgress?.('Encoding GIF...', 80 + p * 0.2),
+    });
+
+    onProgress?.('Complete!', 100);
+    return { dataUrl: await blobToDataUrl(blob), frameCount: frames.length, apiCalls: keyframes.length };
+};
+
+/**
+ * Pre-flight budget check for cleaning `frameCount` frames.
+ * Usage itself is recorded per frame by removeTextFromFrame.
+ */
+export const checkRateLimit = async (
+    frameCount: number = 1
+): Promise<{ allowed: boolean; remaining: string; reason?: string }> => {
+    const check = await checkBudget(TEXT_REMOVAL_MODEL, frameCount);
+    return { allowed: check.allowed, remaining: formatBudget(check.remaining), reason: check.reason };
+};
 
 export const isAnimatedGif = async (dataUrl: string): Promise<boolean> => {
-    return dataUrl.includes('image/gif');
+    if (!dataUrl.includes('image/gif')) return false;
+    try {
+        return (await countGifFrames(dataUrl)) > 1;
+    } catch (err) {
+        console.warn('GIF decode failed, treating as static:', err);
+        return false;
+    }
 };
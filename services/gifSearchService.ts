@@ -0,0 +1,411 @@
+/**
+ * GIF Search Service - Multi-provider search aggregator
+ *
+ * Fans a search out to every available provider (Klipy, GIPHY, Tenor and our own
+ * library_gifs), each under its own timeout, then merges the results:
+ * - De-duplicates across providers by perceptual hash, not just id/URL
+ * - Ranks with weighted reciprocal-rank fusion, so items several providers agree
+ *   on float to the top
+ *
+ * Providers are plain objects implementing GifSearchProvider, so alternative or fake
+ * providers (tests/unit/fakeProviders.ts) can be passed straight to aggregateSearch().
+ * getGiphyGif() and getTenorGif() look up single GIFs by id (e.g. for links pasted into
+ * an import).
+ *
+ * GIPHY and Tenor are called through the gifProviderProxy function (functions/src/gifProviders.ts),
+ * which holds their keys. Paging is per provider: each one returns an opaque cursor for its
+ * next page (Tenor's `next` token, an offset for the rest), and aggregateSearch() hands back
+ * all of them together as the `next` cursor for the following page.
+ */
+
+import { searchKlipy, KlipyItem } from './klipyService';
+import { getPublishedGifs } from './gifLibraryService';
+import { computeImageHash, isPerceptualDuplicate } from './perceptualHash';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type SearchProviderId = 'klipy' | 'giphy' | 'tenor' | 'library' | (string & {});
+
+export interface ProviderSearchOptions {
+    limit: number;
+    cursor: string | null;  // The `next` of the provider's previous page, null for the first
+    signal: AbortSignal;
+}
+
+export interface ProviderPage {
+    items: KlipyItem[];
+    next: string | null;    // null when there are no more pages
+}
+
+export interface GifSearchProvider {
+    id: SearchProviderId;
+    label: string;
+    weight: number;      // Ranking multiplier
+    timeoutMs: number;
+    isAvailable(): boolean;
+    search(term: string, options: ProviderSearchOptions): Promise<ProviderPage>;
+}
+
+export interface SearchResultItem extends KlipyItem {
+    provider: SearchProviderId;
+    alsoFoundOn: SearchProviderId[];
+    score: number;
+    hash?: string | null;
+}
+
+export type ProviderStatus = 'ok' | 'timeout' | 'error' | 'skipped';
+
+export interface ProviderOutcome {
+    id: SearchProviderId;
+    status: ProviderStatus;
+    count: number;
+    elapsedMs: number;
+    error?: string;
+}
+
+// Each provider's cursor for its next page; null once it has no more
+export type SearchCursor = Record<string, string | null>;
+
+export interface AggregateSearchOptions {
+    limit?: number;
+    cursor?: SearchCursor;  // `next` from the previous page
+    providers?: GifSearchProvider[];
+    // Override perceptual hashing (e.g. deterministic hashes for fake providers)
+    hasher?: (item: KlipyItem) => Promise<string | null>;
+    hashBudgetMs?: number;  // Total time allowed for hashing before falling back to URL dedupe
+}
+
+export interface AggregateSearchResult {
+    items: SearchResultItem[];
+    providers: ProviderOutcome[];
+    next: SearchCursor | null;  // null when every provider is exhausted
+}
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+// GIPHY and Tenor requests go through the gifProviderProxy function so the keys stay server-side.
+// Defaults to the same-origin hosting rewrite; point at the functions emulator in dev.
+const GIF_PROXY_URL = (import.meta.env.VITE_GIF_PROXY_URL || '/api/gifs').replace(/\/$/, '');
+// Proxied providers with a key configured on the function, e.g. "giphy,tenor"
+const PROXIED_PROVIDERS = (import.meta.env.VITE_GIF_PROVIDERS || '')
+    .split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter(Boolean);
+
+const DEFAULT_TIMEOUT_MS = 4000;
+const DEFAULT_HASH_BUDGET_MS = 2500;
+// Reciprocal-rank fusion damping: higher = flatter contribution across ranks
+const RRF_K = 10;
+// Over-fetch per provider so de-duplication doesn't leave the page short. Pages aren't cut
+// back to `limit` afterwards: the cursors have already moved past everything fetched.
+const OVERFETCH = 1.5;
+// Library search filters client-side, so pull a wider slice to match against
+const LIBRARY_SCAN_LIMIT = 200;
+
+// =============================================================================
+// PROVIDERS
+// =============================================================================
+
+/**
+ * Offset-paged sources carry the offset as their cursor
+ */
+const toOffset = (cursor: string | null): number => Math.max(0, parseInt(cursor || '0', 10) || 0);
+
+const offsetPage = (items: KlipyItem[], offset: number, limit: number): ProviderPage => ({
+    items,
+    next: items.length >= limit ? String(offset + items.length) : null,
+});
+
+/**
+ * One page from a provider behind gifProviderProxy (items arrive already normalized)
+ */
+async function searchProxy(
+    provider: 'giphy' | 'tenor',
+    term: string,
+    { limit, cursor, signal }: ProviderSearchOptions
+): Promise<ProviderPage> {
+    const params = new URLSearchParams({ q: term, limit: String(limit) });
+    if (cursor) params.set('cursor', cursor);
+
+    const response = await fetch(`${GIF_PROXY_URL}/${provider}/search?${params}`, { signal });
+    if (!response.ok) throw new Error(`${provider} proxy error: ${response.status}`);
+
+    const data = await response.json();
+    return { items: data.data || [], next: data.next || null };
+}
+
+export const klipyProvider: GifSearchProvider = {
+    id: 'klipy',
+    label: 'Klipy',
+    weight: 1,
+    timeoutMs: DEFAULT_TIMEOUT_MS,
+    isAvailable: () => true,
+    // Klipy ids are kept as-is so existing /gif/:id share links keep resolving
+    search: async (term, { limit, cursor }) => {
+        const offset = toOffset(cursor);
+        return offsetPage(await searchKlipy(term, { limit, offset, fallback: false }), offset, limit);
+    },
+};
+
+export const giphyProvider: GifSearchProvider = {
+    id: 'giphy',
+    label: 'GIPHY',
+    weight: 1,
+    timeoutMs: DEFAULT_TIMEOUT_MS,
+    isAvailable: () => PROXIED_PROVIDERS.includes('giphy'),
+    search: (term, options) => searchProxy('giphy', term, options),
+};
+
+export const tenorProvider: GifSearchProvider = {
+    id: 'tenor',
+    label: 'Tenor',
+    weight: 0.9,
+    timeoutMs: DEFAULT_TIMEOUT_MS,
+    isAvailable: () => PROXIED_PROVIDERS.includes('tenor'),
+    // The cursor is the opaque `next` token from Tenor's previous page
+    search: (term, options) => searchProxy('tenor', term, options),
+};
+
+export const libraryProvider: GifSearchProvider = {
+    id: 'library',
+    label: 'Saucy Library',
+    weight: 1.2,  // Our own curated content gets a nudge
+    timeoutMs: DEFAULT_TIMEOUT_MS,
+    isAvailable: () => true,
+    search: async (term, { limit, cursor }) => {
+        const offset = toOffset(cursor);
+        const gifs = await getPublishedGifs({ search: term, limit: LIBRARY_SCAN_LIMIT });
+        const items = gifs.slice(offset, offset + limit).map((gif): KlipyItem => ({
+            id: `library_${gif.id}`,
+            url: gif.url,
+            preview_url: gif.thumbnailUrl || gif.url,
+            width: 480,
+            height: 270,
+            type: 'gif',
+            title: gif.title || '',
+            tags: gif.tags,
+        }));
+        return offsetPage(items, offset, limit);
+    },
+};
+
+/**
+ * Default provider set, in tie-break order
+ */
+export function getSearchProviders(): GifSearchProvider[] {
+    return [libraryProvider, klipyProvider, giphyProvider, tenorProvider];
+}
+
+// =============================================================================
+// LOOKUPS
+// =============================================================================
+
+async function getProxiedItem(provider: 'giphy' | 'tenor', id: string): Promise<KlipyItem | null> {
+    if (!PROXIED_PROVIDERS.includes(provider)) return null;
+    const response = await fetch(`${GIF_PROXY_URL}/${provider}/item?id=${encodeURIComponent(id)}`);
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.data || null;
+}
+
+/**
+ * Fetch one GIPHY GIF by its id (null when GIPHY isn't configured or it doesn't exist)
+ */
+export async function getGiphyGif(giphyId: string): Promise<KlipyItem | null> {
+    return getProxiedItem('giphy', giphyId);
+}
+
+/**
+ * Fetch one Tenor post by its numeric id (null when Tenor isn't configured or it doesn't exist)
+ */
+export async function getTenorGif(tenorId: string): Promise<KlipyItem | null> {
+    return getProxiedItem('tenor', tenorId);
+}
+
+// =============================================================================
+// FAN-OUT
+// =============================================================================
+
+/**
+ * Run one provider under its timeout, never throwing. A failed page keeps its cursor
+ * so the next page retries it.
+ */
+async function runProvider(
+    provider: GifSearchProvider,
+    term: string,
+    limit: number,
+    cursor: string | null
+): Promise<{ outcome: ProviderOutcome; items: KlipyItem[]; next: string | null }> {
+    const started = Date.now();
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+            reject(new Error(`Timed out after ${provider.timeoutMs}ms`));
+        }, provider.timeoutMs);
+    });
+
+    try {
+        const page = await Promise.race([
+            provider.search(term, { limit, cursor, signal: controller.signal }),
+            timeout,
+        ]);
+        return {
+            outcome: { id: provider.id, status: 'ok', count: page.items.length, elapsedMs: Date.now() - started },
+            items: page.items.filter(item => item.url),
+            next: page.next,
+        };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`Search provider ${provider.id} ${timedOut ? 'timed out' : 'failed'}:`, message);
+        return {
+            outcome: {
+                id: provider.id,
+                status: timedOut ? 'timeout' : 'error',
+                count: 0,
+                elapsedMs: Date.now() - started,
+                error: message,
+            },
+            items: [],
+            next: cursor,
+        };
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+// =============================================================================
+// MERGE & RANK
+// =============================================================================
+
+/**
+ * Strip query strings and size variants so the same asset compares equal
+ */
+function normalizeUrl(url: string): string {
+    return url.split('?')[0].replace(/^https?:\/\//, '').toLowerCase();
+}
+
+/**
+ * Hash every item's preview, giving up on stragglers once the budget runs out
+ */
+async function hashItems(
+    items: KlipyItem[],
+    hasher: (item: KlipyItem) => Promise<string | null>,
+    budgetMs: number
+): Promise<(string | null)[]> {
+    const hashes: (string | null)[] = items.map(() => null);
+    const work = Promise.all(items.map(async (item, i) => {
+        hashes[i] = await hasher(item).catch(() => null);
+    }));
+    await Promise.race([work, new Promise(resolve => setTimeout(resolve, budgetMs))]);
+    return hashes;
+}
+
+/**
+ * Search all providers and merge the results into one ranked, de-duplicated list.
+ * Pass the result's `next` as `cursor` for the following page; providers that have run
+ * out are skipped.
+ */
+export async function aggregateSearch(
+    term: string,
+    options: AggregateSearchOptions = {}
+): Promise<AggregateSearchResult> {
+    const {
+        limit = 48,
+        cursor = {},
+        providers = getSearchProviders(),
+        hasher = (item: KlipyItem) => computeImageHash(item.preview_url || item.url),
+        hashBudgetMs = DEFAULT_HASH_BUDGET_MS,
+    } = options;
+
+    const exhausted = (p: GifSearchProvider) => p.id in cursor && cursor[p.id] === null;
+    const active = providers.filter(p => p.isAvailable() && !exhausted(p));
+    const skipped: ProviderOutcome[] = providers
+        .filter(p => !active.includes(p))
+        .map(p => ({ id: p.id, status: 'skipped', count: 0, elapsedMs: 0 }));
+
+    if (active.length === 0) {
+        return { items: [], providers: skipped, next: null };
+    }
+
+    const perProvider = Math.ceil((limit / active.length) * OVERFETCH);
+
+    const runs = await Promise.all(active.map(p => runProvider(p, term, perProvider, cursor[p.id] ?? null)));
+    const next: SearchCursor = { ...cursor };
+    active.forEach((p, i) => {
+        // A failed first page leaves the provider unstarted (no cursor), not exhausted
+        if (runs[i].outcome.status === 'ok' || p.id in cursor) next[p.id] = runs[i].next;
+    });
+
+    // Flatten with each item's provider rank contribution
+    const candidates = runs.flatMap((run, providerIndex) => {
+        const provider = active[providerIndex];
+        return run.items.map((item, rank) => ({
+            item,
+            provider,
+            providerIndex,
+            contribution: provider.weight / (RRF_K + rank),
+        }));
+    });
+
+    const hashes = await hashItems(candidates.map(c => c.item), hasher, hashBudgetMs);
+
+    // Cluster duplicates; the first provider in tie-break order owns the cluster
+    const clusters: SearchResultItem[] = [];
+    const urlIndex = new Map<string, number>();
+    const clusterOrder: number[] = [];
+
+    candidates
+        .map((candidate, i) => ({ ...candidate, hash: hashes[i] }))
+        .sort((a, b) => a.providerIndex - b.providerIndex)
+        .forEach(candidate => {
+            const urlKey = normalizeUrl(candidate.item.url);
+            let clusterIndex = urlIndex.get(urlKey);
+            if (clusterIndex === undefined && candidate.hash) {
+                clusterIndex = clusters.findIndex(c => isPerceptualDuplicate(c.hash, candidate.hash));
+                if (clusterIndex < 0) clusterIndex = undefined;
+            }
+
+            if (clusterIndex === undefined) {
+                clusters.push({
+                    ...candidate.item,
+                    provider: candidate.provider.id,
+                    alsoFoundOn: [],
+                    score: candidate.contribution,
+                    hash: candidate.hash,
+                });
+                clusterIndex = clusters.length - 1;
+                clusterOrder.push(candidate.providerIndex);
+            } else {
+                const cluster = clusters[clusterIndex];
+                cluster.score += candidate.contribution;
+                if (cluster.provider !== candidate.provider.id && !cluster.alsoFoundOn.includes(candidate.provider.id)) {
+                    cluster.alsoFoundOn.push(candidate.provider.id);
+                }
+                // Fill in metadata the owning provider didn't have
+                if (!cluster.tags?.length && candidate.item.tags?.length) cluster.tags = candidate.item.tags;
+                if (!cluster.title && candidate.item.title) cluster.title = candidate.item.title;
+                if (!cluster.hash && candidate.hash) cluster.hash = candidate.hash;
+            }
+            urlIndex.set(urlKey, clusterIndex);
+        });
+
+    const items = clusters
+        .map((cluster, i) => ({ cluster, order: clusterOrder[i] }))
+        .sort((a, b) => b.cluster.score - a.cluster.score || a.order - b.order)
+        .map(({ cluster }) => cluster);
+
+    return {
+        items,
+        providers: [...runs.map(r => r.outcome), ...skipped],
+        next: active.some(p => next[p.id] !== null) ? next : null,
+    };
+}
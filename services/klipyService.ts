@@ -3,6 +3,9 @@
  * 
  * KLIPY is a free GIF API (alternative to Tenor/Giphy premium tiers).
  * Register at: https://partner.klipy.com to get your free API key.
+ *
+ * All calls go through the klipyProxy Cloud Function (functions/src/index.ts),
+ * which holds the key, normalizes responses and owns the search_cache collection.
  * 
  * Endpoints:
  * - /gifs/trending - Get trending GIFs
@@ -11,14 +14,12 @@
  * - /stickers/search - Search stickers
  * - /memes/trending - Get trending memes
  * - /memes/search - Search memes
+ * - /gifs/{id} - A single item by id or slug
  */
 
-import { db } from './firebaseConfig';
-import { doc, getDoc, setDoc, serverTimestamp } from 'firebase/firestore';
-
-// API Configuration
-const KLIPY_API_KEY = import.meta.env.VITE_KLIPY_API_KEY || '';
-const KLIPY_BASE_URL = 'https://api.klipy.com/api/v1';
+// Requests go through the klipyProxy Cloud Function so the API key stays server-side.
+// Defaults to the same-origin hosting rewrite; point at the functions emulator in dev.
+const KLIPY_PROXY_URL = (import.meta.env.VITE_KLIPY_PROXY_URL || '/api/klipy').replace(/\/$/, '');
 
 // Types
 export interface KlipyMediaFormat {
@@ -50,10 +51,9 @@ export interface KlipyItem {
 export interface KlipySearchResult {
     data: KlipyItem[];
     pagination?: {
-        total_count: number;
         count: number;
         offset: number;
-        next?: string;
+        has_next: boolean;
     };
 }
 
@@ -67,53 +67,31 @@ export interface KlipyCategory {
 type ContentType = 'gifs' | 'stickers' | 'memes' | 'clips';
 
 /**
- * Check if Klipy API key is configured
+ * Check if the Klipy proxy is configured
  */
 export function isKlipyConfigured(): boolean {
-    return !!KLIPY_API_KEY && KLIPY_API_KEY.length > 0;
+    return KLIPY_PROXY_URL.length > 0;
 }
 
 /**
- * Build API URL with key
+ * Build proxy URL with query params
  */
-function buildApiUrl(endpoint: string): string {
-    if (!KLIPY_API_KEY) {
-        console.warn('Klipy API key not configured. Add VITE_KLIPY_API_KEY to your .env file.');
-        throw new Error('Klipy API key not configured');
-    }
-    return `${KLIPY_BASE_URL}/${KLIPY_API_KEY}${endpoint}`;
+function buildApiUrl(endpoint: string, params: Record<string, string | number> = {}): string {
+    const query = new URLSearchParams(
+        Object.entries(params).map(([key, value]) => [key, String(value)])
+    ).toString();
+    return `${KLIPY_PROXY_URL}${endpoint}${query ? `?${query}` : ''}`;
 }
 
 /**
- * Transform API response to our format
+ * GET from the proxy. Responses are already normalized and cached server-side.
  */
-function transformKlipyResponse(item: any, type: ContentType): KlipyItem {
-    // Klipy returns items with structure: { id, slug, title, file: { hd: { gif: { url, width, height } }, sd: {...} } }
-    const file = item.file || {};
-    const hdGif = file.hd?.gif || file.hd?.webp || {};
-    const sdGif = file.sd?.gif || file.sd?.webp || {};
-    const previewGif = file.preview?.gif || file.preview?.webp || file.thumbnail?.gif || {};
-
-    // Also check for old/alternative formats
-    const mediaFormats = item.media_formats || item.media || {};
-    const gifFormat = mediaFormats.gif || mediaFormats.original || {};
-    const previewFormat = mediaFormats.thumbnail || mediaFormats.preview || mediaFormats.tinygif || {};
-
-    // Build the URL - try HD first, then SD, then fallback formats
-    const url = hdGif.url || sdGif.url || item.url || gifFormat.url || item.gif?.url || '';
-    const preview_url = previewGif.url || sdGif.url || item.preview_url || previewFormat.url || item.thumbnail?.url || url || '';
-
-    return {
-        id: String(item.id || item._id || Math.random()),
-        url,
-        preview_url,
-        width: hdGif.width || sdGif.width || item.width || gifFormat.width || 480,
-        height: hdGif.height || sdGif.height || item.height || gifFormat.height || 270,
-        type: type === 'gifs' ? 'gif' : type === 'stickers' ? 'sticker' : type === 'memes' ? 'meme' : 'clip',
-        title: item.title || item.content_description || item.slug?.replace(/-/g, ' ') || '',
-        tags: item.tags || [],
-        media_formats: file
-    };
+async function fetchFromProxy<T>(endpoint: string, params: Record<string, string | number>): Promise<T> {
+    const response = await fetch(buildApiUrl(endpoint, params));
+    if (!response.ok) {
+        throw new Error(`Klipy proxy error: ${response.status}`);
+    }
+    return response.json();
 }
 
 /**
@@ -126,89 +104,23 @@ export async function searchKlipy(
         limit?: number;
         offset?: number;
         locale?: string;
+        fallback?: boolean;  // Serve canned results on failure (default) or throw
     } = {}
 ): Promise<KlipyItem[]> {
-    const { type = 'gifs', limit = 24, offset = 0, locale = 'en' } = options;
+    const { type = 'gifs', limit = 24, offset = 0, locale = 'en', fallback = true } = options;
 
     if (!query.trim()) {
         return getTrendingKlipy({ type, limit, locale });
     }
 
-    // Check Cache first
-    const cacheKey = `search_${type}_${query.toLowerCase().trim()}_${limit}`;
-    try {
-        const cacheRef = doc(db, 'search_cache', cacheKey);
-        const cacheSnap = await getDoc(cacheRef);
-
-        if (cacheSnap.exists()) {
-            const cacheData = cacheSnap.data();
-            const updatedAt = cacheData.updatedAt?.toDate() || new Date(0);
-            const ageInHours = (Date.now() - updatedAt.getTime()) / (1000 * 60 * 60);
-
-            // Cache valid for 24 hours
-            if (ageInHours < 24) {
-                console.log(`Klipy Cache Hit: "${query}"`);
-                return cacheData.results;
-            }
-        }
-    } catch (e) {
-        console.warn('Cache check failed:', e);
-    }
-
     try {
-        const endpoint = `/${type}/search?q=${encodeURIComponent(query)}&limit=${limit}&offset=${offset}&locale=${locale}`;
-        const url = buildApiUrl(endpoint);
-
         console.log(`Klipy search: "${query}" (${type})`);
-
-        const response = await fetch(url);
-
-        if (!response.ok) {
-            console.error(`Klipy API error: ${response.status}`);
-            return fallbackSearch(query, type, limit);
-        }
-
-        const data = await response.json();
-        console.log('Klipy API raw response:', JSON.stringify(data).substring(0, 500));
-
-        // Handle various possible response formats
-        // Klipy returns: { result: true, data: { data: [...] } }
-        let items: any[] = [];
-        if (Array.isArray(data)) {
-            items = data;
-        } else if (data.data && Array.isArray(data.data)) {
-            items = data.data;
-        } else if (data.data && data.data.data && Array.isArray(data.data.data)) {
-            // Nested format: { result: true, data: { data: [...] } }
-            items = data.data.data;
-        } else if (data.results && Array.isArray(data.results)) {
-            items = data.results;
-        } else if (data.gifs && Array.isArray(data.gifs)) {
-            items = data.gifs;
-        } else {
-            console.warn('Unexpected Klipy response format:', typeof data, Object.keys(data || {}));
-            return fallbackSearch(query, type, limit);
-        }
-
-        console.log(`Klipy returned ${items.length} items`);
-        const transformedResults = items.map((item: any) => transformKlipyResponse(item, type));
-
-        // Save to Cache (Background)
-        try {
-            setDoc(doc(db, 'search_cache', cacheKey), {
-                term: query.toLowerCase().trim(),
-                results: transformedResults,
-                updatedAt: serverTimestamp()
-            }).catch(e => {
-                console.warn('Cache save failed:', e);
-            });
-        } catch (e) {
-            // Non-blocking
-        }
-
-        return transformedResults;
+        const result = await fetchFromProxy<KlipySearchResult>('/search', { q: query.trim(), type, limit, offset, locale });
+        console.log(`Klipy returned ${result.data.length} items`);
+        return result.data;
     } catch (error) {
         console.error('Klipy search failed:', error);
+        if (!fallback) throw error;
         return fallbackSearch(query, type, limit);
     }
 }
@@ -226,47 +138,31 @@ export async function getTrendingKlipy(
     const { type = 'gifs', limit = 24, locale = 'en' } = options;
 
     try {
-        const endpoint = `/${type}/trending?limit=${limit}&locale=${locale}`;
-        const url = buildApiUrl(endpoint);
-
         console.log(`Klipy trending: ${type}`);
-
-        const response = await fetch(url);
-
-        if (!response.ok) {
-            console.error(`Klipy API error: ${response.status}`);
-            return fallbackTrending(type, limit);
-        }
-
-        const data = await response.json();
-        console.log('Klipy trending raw response:', JSON.stringify(data).substring(0, 500));
-
-        // Handle various possible response formats
-        // Klipy returns: { result: true, data: { data: [...] } }
-        let items: any[] = [];
-        if (Array.isArray(data)) {
-            items = data;
-        } else if (data.data && Array.isArray(data.data)) {
-            items = data.data;
-        } else if (data.data && data.data.data && Array.isArray(data.data.data)) {
-            // Nested format: { result: true, data: { data: [...] } }
-            items = data.data.data;
-        } else if (data.results && Array.isArray(data.results)) {
-            items = data.results;
-        } else if (data.gifs && Array.isArray(data.gifs)) {
-            items = data.gifs;
-        } else {
-            console.warn('Unexpected Klipy trending response format:', typeof data, Object.keys(data || {}));
-            return fallbackTrending(type, limit);
-        }
-
-        return items.map((item: any) => transformKlipyResponse(item, type));
+        const result = await fetchFromProxy<KlipySearchResult>('/trending', { type, limit, locale });
+        return result.data;
     } catch (error) {
         console.error('Klipy trending failed:', error);
         return fallbackTrending(type, limit);
     }
 }
 
+/**
+ * Look up a single item by id or slug (null when Klipy doesn't know it)
+ */
+export async function getKlipyItem(
+    idOrSlug: string,
+    type: ContentType = 'gifs'
+): Promise<KlipyItem | null> {
+    try {
+        const result = await fetchFromProxy<KlipySearchResult>('/item', { id: idOrSlug, type });
+        return result.data[0] || null;
+    } catch (error) {
+        console.error(`Klipy item lookup failed: ${idOrSlug}`, error);
+        return null;
+    }
+}
+
 /**
  * Get content categories
  */
@@ -274,17 +170,8 @@ export async function getKlipyCategories(
     type: ContentType = 'gifs'
 ): Promise<KlipyCategory[]> {
     try {
-        const endpoint = `/${type}/categories`;
-        const url = buildApiUrl(endpoint);
-
-        const response = await fetch(url);
-
-        if (!response.ok) {
-            return getDefaultCategories();
-        }
-
-        const data = await response.json();
-        return data.categories || data.data || data || [];
+        const result = await fetchFromProxy<{ data: KlipyCategory[] }>('/categories', { type });
+        return result.data.length > 0 ? result.data : getDefaultCategories();
     } catch (error) {
         console.error('Failed to fetch categories:', error);
         return getDefaultCategories();
@@ -299,10 +186,7 @@ export async function recordKlipyShare(
     type: ContentType = 'gifs'
 ): Promise<void> {
     try {
-        const endpoint = `/${type}/share`;
-        const url = buildApiUrl(endpoint);
-
-        await fetch(url, {
+        await fetch(buildApiUrl('/share', { type }), {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ id: itemId })
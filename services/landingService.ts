@@ -4,11 +4,13 @@
  * Features:
  * - VS Mode: Parses "X vs Y" to fetch and interleave GIFs from both topics
  * - AI Mode: Uses Gemini to interpret natural language and generate optimal search terms
+ * - Every term is searched across all GIF providers via gifSearchService
  */
 
 import { GoogleGenAI } from "@google/genai";
 import { getSaucyApiKey } from './authService';
 import { searchKlipy, KlipyItem } from './klipyService';
+import { aggregateSearch } from './gifSearchService';
 
 /**
  * Type for parsed search query
@@ -117,6 +119,15 @@ RESPOND ONLY WITH JSON.`;
     return parseSearchQuery(prompt);
 };
 
+/**
+ * Search one term across all providers (first page).
+ * If every provider comes back empty, fall back to Klipy's canned results.
+ */
+const searchAllProviders = async (term: string, limit: number): Promise<KlipyItem[]> => {
+    const { items } = await aggregateSearch(term, { limit });
+    return items.length > 0 ? items.slice(0, limit) : searchKlipy(term, { limit });
+};
+
 /**
  * Fetch GIFs based on a parsed query
  * - For single: Just search with the term
@@ -125,25 +136,23 @@ RESPOND ONLY WITH JSON.`;
  */
 export const fetchSmartGifs = async (
     query: ParsedQuery,
-    options: { limit?: number; offset?: number } = {}
+    options: { limit?: number } = {}
 ): Promise<{ items: KlipyItem[]; query: ParsedQuery }> => {
     const limit = options.limit || 48;
-    const offset = options.offset || 0;
 
     if (query.type === 'single') {
         // Simple single-term search
-        const items = await searchKlipy(query.terms[0], { limit, offset });
+        const items = await searchAllProviders(query.terms[0], limit);
         return { items, query };
     }
 
     if (query.type === 'vs') {
         // VS mode: Fetch from both terms and interleave
         const perTerm = Math.ceil(limit / 2);
-        const perTermOffset = Math.floor(offset / 2);
 
         const [resultsA, resultsB] = await Promise.all([
-            searchKlipy(query.terms[0], { limit: perTerm, offset: perTermOffset }),
-            searchKlipy(query.terms[1], { limit: perTerm, offset: perTermOffset })
+            searchAllProviders(query.terms[0], perTerm),
+            searchAllProviders(query.terms[1], perTerm)
         ]);
 
         // Interleave results for a nice mix
@@ -170,10 +179,9 @@ export const fetchSmartGifs = async (
     if (query.type === 'ai') {
         // AI multi-term mode: Fetch from all terms and merge
         const perTerm = Math.ceil(limit / query.terms.length);
-        const perTermOffset = Math.floor(offset / query.terms.length);
 
         const results = await Promise.all(
-            query.terms.map(term => searchKlipy(term, { limit: perTerm, offset: perTermOffset }))
+            query.terms.map(term => searchAllProviders(term, perTerm))
         );
 
         // Interleave all results
@@ -199,7 +207,7 @@ export const fetchSmartGifs = async (
     }
 
     // Fallback
-    const items = await searchKlipy(query.originalQuery, { limit, offset });
+    const items = await searchAllProviders(query.originalQuery, limit);
     return { items, query };
 };
 
@@ -208,20 +216,20 @@ export const fetchSmartGifs = async (
  */
 export const processLandingQuery = async (
     rawQuery: string,
-    options: { useAi?: boolean; limit?: number; offset?: number } = {}
+    options: { useAi?: boolean; limit?: number } = {}
 ): Promise<{
     items: KlipyItem[];
     query: ParsedQuery;
     searchTermsUsed: string[];
 }> => {
-    const { useAi = true, limit = 48, offset = 0 } = options;
+    const { useAi = true, limit = 48 } = options;
 
     // First, try simple VS detection
     const simpleQuery = parseSearchQuery(rawQuery);
 
     // If simple parsing found VS mode, use it directly
     if (simpleQuery.type === 'vs') {
-        const result = await fetchSmartGifs(simpleQuery, { limit, offset });
+        const result = await fetchSmartGifs(simpleQuery, { limit });
         return {
             items: result.items,
             query: result.query,
@@ -232,7 +240,7 @@ export const processLandingQuery = async (
     // If AI is enabled and query looks complex, use AI to optimize
     if (useAi && rawQuery.length > 10) {
         const aiQuery = await generateAISearchTerms(rawQuery);
-        const result = await fetchSmartGifs(aiQuery, { limit, offset });
+        const result = await fetchSmartGifs(aiQuery, { limit });
         return {
             items: result.items,
             query: result.query,
@@ -241,7 +249,7 @@ export const processLandingQuery = async (
     }
 
     // Default: Simple single-term search
-    const result = await fetchSmartGifs(simpleQuery, { limit, offset });
+    const result = await fetchSmartGifs(simpleQuery, { limit });
     return {
         items: result.items,
         query: result.query,
@@ -16,6 +16,8 @@ import {
     deleteDoc
 } from 'firebase/firestore';
 import { db } from './firebaseConfig';
+import { computeMediaHash, hashBands } from './perceptualHash';
+import { findClosestByHash, backfillHashBands } from './gifLibraryService';
 
 export interface LibraryItem {
     id?: string;
@@ -32,6 +34,8 @@ export interface LibraryItem {
     upvotes: number;
     source: 'giphy' | 'upload' | 'url';
     mimeType?: string;
+    perceptualHash?: string;
+    hashBands?: string[];       // Bands of perceptualHash, queried to find duplicates
 }
 
 const LIBRARY_COLLECTION = 'gif_library';
@@ -102,6 +106,16 @@ export async function addToLibrary(
             return existing.docs[0].id;
         }
 
+        // Same media from a different URL/CDN counts as already added
+        const perceptualHash = await computeMediaHash(base64Thumbnail);
+        if (perceptualHash) {
+            const duplicate = await findClosestByHash(LIBRARY_COLLECTION, perceptualHash);
+            if (duplicate) {
+                console.log('Perceptual duplicate already in library:', duplicate.doc.id);
+                return duplicate.doc.id;
+            }
+        }
+
         // Create a small thumbnail to fit Firestore limits
         let thumbnail: string;
         try {
@@ -115,14 +129,15 @@ export async function addToLibrary(
             url,
             base64Thumbnail: thumbnail,
             status: 'pending',
-            hasText: null, // Will be set by AI detection
+            hasText: null, // Set once by text detection; admins approve
             textRemoved: false,
             addedBy: userId || 'anonymous',
             addedAt: new Date(),
             tags: [],
             upvotes: 0,
             source,
-            mimeType
+            mimeType,
+            ...(perceptualHash ? { perceptualHash, hashBands: hashBands(perceptualHash) } : {})
         };
 
         const docRef = await addDoc(collection(db, LIBRARY_COLLECTION), {
@@ -144,6 +159,11 @@ export async function addToLibrary(
     }
 }
 
+/**
+ * Add hashBands to community items hashed before band lookups existed (Admin)
+ */
+export const backfillLibraryHashBands = (): Promise<number> => backfillHashBands(LIBRARY_COLLECTION);
+
 /**
  * Get library items with optional filters
  */
@@ -294,15 +314,12 @@ async function detectTextClientSide(base64: string): Promise<boolean> {
 }
 
 /**
- * Update text detection result
+ * Record the text detection result. The item stays pending - only admins approve or flag it.
  */
 async function updateTextDetection(docId: string, hasText: boolean): Promise<void> {
     try {
         const docRef = doc(db, LIBRARY_COLLECTION, docId);
-        await updateDoc(docRef, {
-            hasText,
-            status: hasText ? 'flagged' : 'approved'
-        });
+        await updateDoc(docRef, { hasText });
         console.log('Text detection updated:', docId, hasText ? 'HAS TEXT' : 'NO TEXT');
     } catch (error) {
         console.error('Error updating text detection:', error);
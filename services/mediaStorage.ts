@@ -0,0 +1,73 @@
+/**
+ * Media Storage - GIFs and video renditions in Firebase Storage
+ *
+ * Files are written once under a fresh name and served by their download URL, which is
+ * what gets stored on Firestore documents. Paths and who may write them live in
+ * storage.rules:
+ * - library/{id}.{ext} - library media (admins)
+ * - users/{uid}/uploads/{id}.{ext} - GIFs a user imported from their own files (that user)
+ */
+
+import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { storage } from './firebaseConfig';
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+const LIBRARY_PATH = 'library';
+const USERS_PATH = 'users';
+
+// Matches the size cap in storage.rules
+export const MAX_USER_UPLOAD_BYTES = 15 * 1024 * 1024;
+
+// Browsers cache these aggressively; the names are never reused
+const CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+const EXTENSIONS: Record<string, string> = {
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'video/mp4': 'mp4',
+    'video/webm': 'webm',
+};
+
+// =============================================================================
+// UPLOADS
+// =============================================================================
+
+/**
+ * Upload a blob to `path` and return its download URL
+ */
+export async function uploadMedia(path: string, blob: Blob, contentType: string = blob.type): Promise<string> {
+    const fileRef = ref(storage, path);
+    await uploadBytes(fileRef, blob, { contentType, cacheControl: CACHE_CONTROL });
+    return getDownloadURL(fileRef);
+}
+
+const freshName = (contentType: string): string => {
+    const extension = EXTENSIONS[contentType];
+    if (!extension) {
+        throw new Error(`Unsupported media type: ${contentType || 'unknown'}`);
+    }
+    return `${crypto.randomUUID()}.${extension}`;
+};
+
+/**
+ * Upload library media (admins only) under a fresh name
+ */
+export async function uploadLibraryMedia(blob: Blob, contentType: string = blob.type): Promise<string> {
+    return uploadMedia(`${LIBRARY_PATH}/${freshName(contentType)}`, blob, contentType);
+}
+
+/**
+ * Upload an image the signed-in user brought in themselves, under a fresh name
+ */
+export async function uploadUserMedia(userId: string, blob: Blob, contentType: string = blob.type): Promise<string> {
+    if (!contentType.startsWith('image/')) {
+        throw new Error(`Unsupported media type: ${contentType || 'unknown'}`);
+    }
+    if (blob.size > MAX_USER_UPLOAD_BYTES) {
+        throw new Error('File is too large');
+    }
+    return uploadMedia(`${USERS_PATH}/${userId}/uploads/${freshName(contentType)}`, blob, contentType);
+}
@@ -0,0 +1,82 @@
+/**
+ * Meme Document Service - saved meme drafts in Firestore
+ *
+ * Documents live at users/{uid}/memes/{memeId} as the plain MemeDocument shape,
+ * so anything memeEngine can render can be saved and re-opened for editing.
+ */
+
+import {
+    doc,
+    collection,
+    addDoc,
+    updateDoc,
+    deleteDoc,
+    query,
+    orderBy,
+    limit,
+    getDocs,
+    serverTimestamp
+} from 'firebase/firestore';
+import { db } from './firebaseConfig';
+import { MemeDocument, parseMemeDocument, toPlainDocument } from './memeEngine';
+
+/**
+ * Save a meme document; returns its id (new documents get one assigned)
+ */
+export const saveMemeDocument = async (uid: string, meme: MemeDocument): Promise<string> => {
+    const plain = toPlainDocument(meme);
+    const title = meme.title.trim()
+        || meme.layers.find(layer => layer.text.trim())?.text.trim().slice(0, 60)
+        || 'Untitled meme';
+
+    if (meme.id) {
+        // updateDoc keeps createdAt and replaces each top-level field whole (a merge would
+        // deep-merge `source` and leave the previous source's keys behind)
+        await updateDoc(doc(db, 'users', uid, 'memes', meme.id), {
+            ...plain,
+            title,
+            updatedAt: serverTimestamp()
+        });
+        return meme.id;
+    }
+
+    const docRef = await addDoc(collection(db, 'users', uid, 'memes'), {
+        ...plain,
+        title,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+    });
+    return docRef.id;
+};
+
+/**
+ * Get the user's saved memes, most recently edited first
+ */
+export const getMemeDocuments = async (uid: string, limitCount: number = 20): Promise<MemeDocument[]> => {
+    const memesRef = collection(db, 'users', uid, 'memes');
+    const q = query(memesRef, orderBy('updatedAt', 'desc'), limit(limitCount));
+    const snapshot = await getDocs(q);
+
+    const memes: MemeDocument[] = [];
+    snapshot.docs.forEach(snap => {
+        try {
+            const data = snap.data();
+            memes.push({
+                ...parseMemeDocument(data),
+                id: snap.id,
+                createdAt: data.createdAt?.toDate() || new Date(),
+                updatedAt: data.updatedAt?.toDate() || new Date()
+            });
+        } catch (error) {
+            console.warn(`Skipping unreadable meme ${snap.id}:`, error);
+        }
+    });
+    return memes;
+};
+
+/**
+ * Delete a saved meme
+ */
+export const deleteMemeDocument = async (uid: string, memeId: string): Promise<void> => {
+    await deleteDoc(doc(db, 'users', uid, 'memes', memeId));
+};
@@ -0,0 +1,286 @@
+/**
+ * Meme Engine
+ *
+ * One rendering path for every meme surface: the user-facing MemeEditor and the
+ * admin GifCreator both describe their work as a MemeDocument and render, preview
+ * and export it through here, so the same document always produces the same pixels.
+ *
+ * A MemeDocument is plain serializable data (source GIF reference, text layers,
+ * fonts and styles) - the frames themselves are re-decoded from the source URL
+ * when a saved document is re-opened.
+ */
+
+import {
+    extractFramesFromGif,
+    getCaptionFonts,
+    overlayTextOnFrame,
+    renderCaptionedGif,
+    CaptionTimeline,
+    GifFrame,
+    ProcessedGif,
+    TimelineCaption
+} from './captionOverlayService';
+import { imageDataToDataUrl } from './gifCodec';
+import { ensureFontsReady, loadFont, DEFAULT_FONT_FAMILY } from './fontRegistry';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+// A text layer is a timeline caption: text, style, frame range, effects and motion
+export type MemeLayer = TimelineCaption;
+
+export interface MemeSource {
+    url: string;
+    width: number;
+    height: number;
+    frameCount: number;
+}
+
+export interface MemeDocument {
+    version: number;
+    id?: string;
+    title: string;
+    source: MemeSource;
+    layers: MemeLayer[];
+    fonts: string[];            // Font families the layers use, so they can be loaded before rendering
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+// Decoded pixels for a document's source - never serialized
+export interface MemeFrames {
+    frames: GifFrame[];
+    width: number;
+    height: number;
+    loopCount: number;
+}
+
+export const MEME_DOCUMENT_VERSION = 1;
+
+const MAX_LAYERS = 10;
+
+// =============================================================================
+// DOCUMENTS & LAYERS
+// =============================================================================
+
+/**
+ * Default caption size for a frame: roughly a tenth of its height
+ */
+export const defaultFontSize = (height: number): number => Math.max(16, Math.round(height / 10));
+
+/**
+ * Outline width that stays proportional to the text size
+ */
+export const strokeForSize = (fontSize: number): number => Math.max(2, Math.round(fontSize / 9));
+
+/**
+ * A classic white-on-black layer centered at (x, y)%, spanning every frame
+ */
+export function createMemeLayer(id: string, frameCount: number, overrides: Partial<MemeLayer> = {}): MemeLayer {
+    const fontSize = overrides.fontSize ?? 36;
+    return {
+        id,
+        text: '',
+        style: 'classic',
+        position: 'center',
+        anchor: { x: 50, y: 15 },
+        fontSize,
+        fontFamily: DEFAULT_FONT_FAMILY,
+        textColor: '#ffffff',
+        strokeColor: '#000000',
+        strokeWidth: strokeForSize(fontSize),
+        startFrame: 0,
+        endFrame: Math.max(0, frameCount - 1),
+        enter: 'none',
+        exit: 'none',
+        keyframes: [],
+        ...overrides,
+    };
+}
+
+/**
+ * Start a document for a decoded source
+ */
+export function createMemeDocument(url: string, decoded: MemeFrames, layers: MemeLayer[] = []): MemeDocument {
+    return fitDocumentToFrames({
+        version: MEME_DOCUMENT_VERSION,
+        title: '',
+        source: { url, width: decoded.width, height: decoded.height, frameCount: decoded.frames.length },
+        layers,
+        fonts: [],
+    }, decoded);
+}
+
+/**
+ * Match a document to the frames actually decoded for it (sources can change between saves)
+ */
+export function fitDocumentToFrames(doc: MemeDocument, decoded: MemeFrames): MemeDocument {
+    const lastFrame = Math.max(0, decoded.frames.length - 1);
+    return {
+        ...doc,
+        source: { ...doc.source, width: decoded.width, height: decoded.height, frameCount: decoded.frames.length },
+        layers: doc.layers.map(layer => {
+            const startFrame = Math.min(layer.startFrame, lastFrame);
+            return { ...layer, startFrame, endFrame: Math.max(startFrame, Math.min(layer.endFrame, lastFrame)) };
+        }),
+    };
+}
+
+/**
+ * The caption timeline for a document - empty layers draw nothing
+ */
+export function documentToTimeline(doc: MemeDocument): CaptionTimeline {
+    return { captions: doc.layers.filter(layer => layer.text.trim()) };
+}
+
+export const hasLayerText = (doc: MemeDocument): boolean => doc.layers.some(layer => layer.text.trim());
+
+// =============================================================================
+// FRAMES
+// =============================================================================
+
+/**
+ * Decode a source into frames; sources that aren't decodable GIFs fall back to one still frame
+ */
+export async function loadMemeFrames(url: string): Promise<MemeFrames> {
+    try {
+        const decoded = await extractFramesFromGif(url);
+        if (decoded.frames.length > 0) return decoded;
+    } catch (error) {
+        console.warn('GIF decode failed, falling back to a still frame:', error);
+    }
+
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    await new Promise<void>((resolve, reject) => {
+        img.onload = () => resolve();
+        img.onerror = () => reject(new Error('Failed to load image'));
+        img.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth || 400;
+    canvas.height = img.naturalHeight || 400;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+    return {
+        frames: [{ imageData: ctx.getImageData(0, 0, canvas.width, canvas.height), delay: 100 }],
+        width: canvas.width,
+        height: canvas.height,
+        loopCount: 0,
+    };
+}
+
+// =============================================================================
+// RENDERING
+// =============================================================================
+
+/**
+ * Render one frame of a document to a PNG data URL (previews and still exports)
+ */
+export function renderMemeFrame(doc: MemeDocument, decoded: MemeFrames, frameIndex: number): string {
+    const index = Math.max(0, Math.min(frameIndex, decoded.frames.length - 1));
+    return imageDataToDataUrl(overlayTextOnFrame(decoded.frames[index].imageData, documentToTimeline(doc), index));
+}
+
+/**
+ * Start loading every font a document uses (e.g. right after re-opening a draft)
+ */
+export function preloadDocumentFonts(doc: MemeDocument): Promise<void> {
+    const families = new Set([...doc.fonts, ...getCaptionFonts(documentToTimeline(doc)).map(f => f.family)]);
+    return Promise.all([...families].map(family => loadFont(family).catch(() => undefined))).then(() => undefined);
+}
+
+/**
+ * Render one frame as a PNG once its fonts are ready (previews may still be on fallbacks)
+ */
+export async function exportMemePng(doc: MemeDocument, decoded: MemeFrames, frameIndex: number): Promise<string> {
+    await ensureFontsReady(getCaptionFonts(documentToTimeline(doc)));
+    return renderMemeFrame(doc, decoded, frameIndex);
+}
+
+/**
+ * Render every frame of a document and encode an animated GIF (waits for fonts first)
+ */
+export function exportMemeGif(
+    doc: MemeDocument,
+    decoded: MemeFrames,
+    onProgress?: (status: string, percent: number) => void
+): Promise<ProcessedGif> {
+    return renderCaptionedGif(
+        decoded.frames,
+        decoded.width,
+        decoded.height,
+        documentToTimeline(doc),
+        onProgress,
+        decoded.loopCount
+    );
+}
+
+// =============================================================================
+// SERIALIZATION
+// =============================================================================
+
+/**
+ * Plain JSON-safe copy of a document, with its font list refreshed from the layers
+ */
+export function toPlainDocument(doc: MemeDocument): Omit<MemeDocument, 'id' | 'createdAt' | 'updatedAt'> {
+    const fonts = [...new Set(doc.layers.map(layer => layer.fontFamily).filter((f): f is string => !!f))];
+    const { id, createdAt, updatedAt, ...rest } = doc;
+    // JSON round trip drops undefined optionals, which Firestore rejects
+    return JSON.parse(JSON.stringify({ ...rest, version: MEME_DOCUMENT_VERSION, fonts }));
+}
+
+// Optional styling (size, colours, anchor) is kept as stored - absent means "use the preset"
+function normalizeLayer(layer: Record<string, any>, index: number, frameCount: number): MemeLayer {
+    const { id, text, style, position, startFrame, endFrame, keyframes, ...rest } = layer;
+    return {
+        ...rest,
+        id: typeof id === 'string' ? id : `layer-${index + 1}`,
+        text: typeof text === 'string' ? text : '',
+        style: style === 'modern' ? 'modern' : 'classic',
+        position: position === 'top' || position === 'bottom' ? position : 'center',
+        startFrame: Number.isFinite(startFrame) ? startFrame : 0,
+        endFrame: Number.isFinite(endFrame) ? endFrame : frameCount - 1,
+        keyframes: Array.isArray(keyframes) ? keyframes : [],
+    };
+}
+
+export const serializeMemeDocument = (doc: MemeDocument): string => JSON.stringify(toPlainDocument(doc));
+
+/**
+ * Validate and normalise a stored document (JSON string or parsed object)
+ */
+export function parseMemeDocument(input: string | Record<string, any>): MemeDocument {
+    const raw = typeof input === 'string' ? JSON.parse(input) : input;
+
+    if (!raw || typeof raw !== 'object') {
+        throw new Error('Not a meme document');
+    }
+    if (typeof raw.version !== 'number' || raw.version > MEME_DOCUMENT_VERSION) {
+        throw new Error(`Unsupported meme document version: ${raw.version}`);
+    }
+    if (!raw.source || typeof raw.source.url !== 'string' || !Array.isArray(raw.layers)) {
+        throw new Error('Meme document is missing its source or layers');
+    }
+
+    const frameCount = Number(raw.source.frameCount) || 1;
+    const layers = raw.layers.slice(0, MAX_LAYERS).map((layer: Record<string, any>, i: number) =>
+        normalizeLayer(layer, i, frameCount)
+    );
+
+    return {
+        version: MEME_DOCUMENT_VERSION,
+        title: typeof raw.title === 'string' ? raw.title : '',
+        source: {
+            url: raw.source.url,
+            width: Number(raw.source.width) || 0,
+            height: Number(raw.source.height) || 0,
+            frameCount,
+        },
+        layers,
+        fonts: Array.isArray(raw.fonts) ? raw.fonts.filter((f: unknown) => typeof f === 'string') : [],
+    };
+}
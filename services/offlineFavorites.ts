@@ -0,0 +1,388 @@
+/**
+ * Offline Favorites - keeps the Sauce Box usable without a connection
+ *
+ * An IndexedDB database (saucy-offline) holds three stores:
+ * - favorites: the last known Sauce Box of each signed-in user (metadata only)
+ * - gifs: GIF bytes keyed by URL, with their size and when they were last used
+ * - pending: favorite/unfavorite taps made while offline, replayed on reconnect
+ *
+ * The service worker (public/sw.js) answers image requests from the gifs store, so
+ * <img src={gifUrl}> keeps working offline without components swapping URLs; it's told to
+ * reload its list of cached URLs whenever the gifs store changes. The
+ * store is capped at MAX_CACHE_BYTES; the least recently used GIFs are evicted first.
+ */
+
+import { LibraryGIF } from './gifLibraryService';
+import { FavoriteGif, setFavorited } from './favoritesService';
+
+// Shared with public/sw.js - bump both together
+const DB_NAME = 'saucy-offline';
+const DB_VERSION = 1;
+const FAVORITES_STORE = 'favorites';
+const GIFS_STORE = 'gifs';
+const PENDING_STORE = 'pending';
+
+export const MAX_CACHE_BYTES = 150 * 1024 * 1024;
+const MAX_GIF_BYTES = 15 * 1024 * 1024;    // Skip anything bigger than this
+const PREFETCH_CONCURRENCY = 3;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface CachedGif {
+    url: string;
+    blob: Blob;
+    size: number;
+    lastAccessed: number;
+}
+
+interface PendingToggle {
+    key: string;                    // {userId}_{gifId} - later taps replace earlier ones
+    userId: string;
+    gif: Pick<LibraryGIF, 'id' | 'url' | 'thumbnailUrl' | 'title'>;
+    favorited: boolean;
+    queuedAt: number;
+}
+
+// =============================================================================
+// INDEXEDDB HELPERS
+// =============================================================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(FAVORITES_STORE)) {
+                    db.createObjectStore(FAVORITES_STORE, { keyPath: 'userId' });
+                }
+                if (!db.objectStoreNames.contains(GIFS_STORE)) {
+                    const gifs = db.createObjectStore(GIFS_STORE, { keyPath: 'url' });
+                    gifs.createIndex('lastAccessed', 'lastAccessed');
+                }
+                if (!db.objectStoreNames.contains(PENDING_STORE)) {
+                    const pending = db.createObjectStore(PENDING_STORE, { keyPath: 'key' });
+                    pending.createIndex('userId', 'userId');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function withStore<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+    const db = await openDb();
+    return promisify(run(db.transaction(storeName, mode).objectStore(storeName)));
+}
+
+// =============================================================================
+// CONNECTIVITY
+// =============================================================================
+
+export const isOffline = (): boolean =>
+    typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/**
+ * Subscribe to online/offline changes; returns an unsubscribe function
+ */
+export function onConnectivityChange(callback: (offline: boolean) => void): () => void {
+    const handle = () => callback(isOffline());
+    window.addEventListener('online', handle);
+    window.addEventListener('offline', handle);
+    return () => {
+        window.removeEventListener('online', handle);
+        window.removeEventListener('offline', handle);
+    };
+}
+
+// =============================================================================
+// FAVORITE METADATA
+// =============================================================================
+
+/**
+ * Remember a user's Sauce Box and download any GIFs that aren't cached yet
+ * (most recently used first, until the cache is full)
+ */
+export async function cacheFavorites(userId: string, favorites: FavoriteGif[]): Promise<void> {
+    try {
+        const saved = favorites.filter(f => !f.unsaved);
+        await withStore(FAVORITES_STORE, 'readwrite', store =>
+            store.put({ userId, favorites: saved, updatedAt: Date.now() })
+        );
+        await prefetchGifs(saved);
+    } catch (error) {
+        console.error('Error caching favorites for offline use:', error);
+    }
+}
+
+/**
+ * The last Sauce Box cached for this user, with offline taps applied on top
+ */
+export async function getCachedFavorites(userId: string): Promise<FavoriteGif[]> {
+    try {
+        const entry = await withStore<{ favorites: FavoriteGif[] } | undefined>(
+            FAVORITES_STORE, 'readonly', store => store.get(userId)
+        );
+        const favorites = entry?.favorites || [];
+        const pending = await getPendingToggles(userId);
+        if (pending.length === 0) return favorites;
+
+        const byGif = new Map<string, FavoriteGif>(favorites.map(f => [f.gifId, f]));
+        for (const toggle of pending) {
+            if (!toggle.favorited) {
+                byGif.delete(toggle.gif.id);
+            } else if (!byGif.has(toggle.gif.id)) {
+                byGif.set(toggle.gif.id, {
+                    id: `${userId}_${toggle.gif.id}`,
+                    userId,
+                    gifId: toggle.gif.id,
+                    gifUrl: toggle.gif.url,
+                    gifThumbnail: toggle.gif.thumbnailUrl || toggle.gif.url,
+                    gifTitle: toggle.gif.title || '',
+                    tags: [],
+                    note: '',
+                    order: -toggle.queuedAt,
+                    useCount: 0,
+                    collectionIds: [],
+                    createdAt: new Date(toggle.queuedAt)
+                });
+            }
+        }
+        return [...byGif.values()];
+    } catch (error) {
+        console.error('Error reading cached favorites:', error);
+        return [];
+    }
+}
+
+/**
+ * Offline stand-in for isFavorited()
+ */
+export async function isCachedFavorite(userId: string, gifId: string): Promise<boolean> {
+    const favorites = await getCachedFavorites(userId);
+    return favorites.some(f => f.gifId === gifId);
+}
+
+// =============================================================================
+// GIF BYTES (LRU)
+// =============================================================================
+
+async function getCacheSize(): Promise<number> {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        let total = 0;
+        const request = db.transaction(GIFS_STORE, 'readonly').objectStore(GIFS_STORE).openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) {
+                resolve(total);
+                return;
+            }
+            total += (cursor.value as CachedGif).size;
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Evict least recently used GIFs until the cache fits in maxBytes
+ */
+async function enforceBudget(maxBytes: number = MAX_CACHE_BYTES): Promise<void> {
+    let excess = (await getCacheSize()) - maxBytes;
+    if (excess <= 0) return;
+
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(GIFS_STORE, 'readwrite');
+        const request = tx.objectStore(GIFS_STORE).index('lastAccessed').openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor || excess <= 0) return;
+            excess -= (cursor.value as CachedGif).size;
+            cursor.delete();
+            cursor.continue();
+        };
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+}
+
+/**
+ * Tell the service worker the set of cached URLs changed, so it reloads its copy
+ */
+const notifyWorker = (): void => {
+    navigator.serviceWorker?.controller?.postMessage({ type: 'gif-cache-changed' });
+};
+
+async function fetchGif(url: string): Promise<CachedGif | null> {
+    const response = await fetch(url, { mode: 'cors', credentials: 'omit' });
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    if (blob.size === 0 || blob.size > MAX_GIF_BYTES) return null;
+    return { url, blob, size: blob.size, lastAccessed: Date.now() };
+}
+
+/**
+ * Cache one GIF right away (e.g. one the user just opened), evicting older ones if needed
+ */
+export async function cacheGif(url: string): Promise<void> {
+    try {
+        const existing = await withStore<CachedGif | undefined>(GIFS_STORE, 'readonly', store => store.get(url));
+        if (existing) {
+            await withStore(GIFS_STORE, 'readwrite', store =>
+                store.put({ ...existing, lastAccessed: Date.now() })
+            );
+            return;
+        }
+        const entry = await fetchGif(url);
+        if (!entry) return;
+        await withStore(GIFS_STORE, 'readwrite', store => store.put(entry));
+        await enforceBudget();
+        notifyWorker();
+    } catch (error) {
+        console.warn('Could not cache GIF for offline use:', url, error);
+    }
+}
+
+/**
+ * Cached bytes for a GIF, if we have them (used for offline downloads)
+ */
+export async function getCachedGifBlob(url: string): Promise<Blob | null> {
+    try {
+        const entry = await withStore<CachedGif | undefined>(GIFS_STORE, 'readonly', store => store.get(url));
+        return entry?.blob || null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Background-fill the cache with favorites. Prefetching only uses free space - it never
+ * evicts, so a Sauce Box bigger than the budget doesn't churn the cache on every visit.
+ */
+async function prefetchGifs(favorites: FavoriteGif[]): Promise<void> {
+    if (isOffline()) return;
+
+    const db = await openDb();
+    const cachedUrls = new Set<string>(
+        (await promisify(db.transaction(GIFS_STORE, 'readonly').objectStore(GIFS_STORE).getAllKeys()))
+            .map(key => String(key))
+    );
+
+    const recency = (f: FavoriteGif) => (f.lastUsedAt || f.createdAt)?.getTime() || 0;
+    const queue = [...favorites]
+        .sort((a, b) => recency(b) - recency(a))
+        .flatMap(f => f.gifThumbnail && f.gifThumbnail !== f.gifUrl ? [f.gifThumbnail, f.gifUrl] : [f.gifUrl])
+        .filter(url => !!url && !cachedUrls.has(url));
+    if (queue.length === 0) return;
+
+    let used = await getCacheSize();
+    const worker = async () => {
+        while (queue.length > 0 && used < MAX_CACHE_BYTES && !isOffline()) {
+            const url = queue.shift()!;
+            try {
+                const entry = await fetchGif(url);
+                if (!entry || used + entry.size > MAX_CACHE_BYTES) continue;
+                await withStore(GIFS_STORE, 'readwrite', store => store.put(entry));
+                used += entry.size;
+            } catch {
+                // CDN without CORS or a dead link - it just won't be available offline
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: PREFETCH_CONCURRENCY }, worker));
+    notifyWorker();
+}
+
+// =============================================================================
+// OFFLINE TOGGLES
+// =============================================================================
+
+async function getPendingToggles(userId: string): Promise<PendingToggle[]> {
+    const pending = await withStore<PendingToggle[]>(PENDING_STORE, 'readonly', store =>
+        store.index('userId').getAll(userId)
+    );
+    return pending.sort((a, b) => a.queuedAt - b.queuedAt);
+}
+
+/**
+ * Record a favorite/unfavorite made while offline; returns the new favorite state
+ */
+export async function queueFavoriteToggle(userId: string, gif: LibraryGIF, favorited: boolean): Promise<boolean> {
+    const toggle: PendingToggle = {
+        key: `${userId}_${gif.id}`,
+        userId,
+        gif: { id: gif.id, url: gif.url, thumbnailUrl: gif.thumbnailUrl, title: gif.title },
+        favorited,
+        queuedAt: Date.now()
+    };
+    await withStore(PENDING_STORE, 'readwrite', store => store.put(toggle));
+    return favorited;
+}
+
+// One replay at a time - the app and the Sauce Box page both sync on reconnect
+let syncing: Promise<number> | null = null;
+
+/**
+ * Replay offline toggles against Firestore. Each one sets the final state the user
+ * chose, so replaying after a toggle on another device is harmless.
+ */
+export function syncPendingToggles(userId: string): Promise<number> {
+    if (isOffline()) return Promise.resolve(0);
+    if (!syncing) {
+        syncing = replayToggles(userId).finally(() => { syncing = null; });
+    }
+    return syncing;
+}
+
+async function replayToggles(userId: string): Promise<number> {
+    let synced = 0;
+    try {
+        for (const toggle of await getPendingToggles(userId)) {
+            await setFavorited(userId, toggle.gif as LibraryGIF, toggle.favorited);
+            await withStore(PENDING_STORE, 'readwrite', store => store.delete(toggle.key));
+            synced++;
+        }
+    } catch (error) {
+        console.error('Error syncing offline favorites:', error);
+    }
+    return synced;
+}
+
+/**
+ * Flush queued toggles now and whenever the connection comes back.
+ * Returns an unsubscribe function.
+ */
+export function startOfflineSync(userId: string, onSynced?: (count: number) => void): () => void {
+    const flush = async () => {
+        const count = await syncPendingToggles(userId);
+        if (count > 0) onSynced?.(count);
+    };
+    flush();
+    return onConnectivityChange(offline => {
+        if (!offline) flush();
+    });
+}
@@ -0,0 +1,204 @@
+/**
+ * Perceptual Hash Service
+ *
+ * Difference hashes (dHash) for spotting the same GIF served from different URLs,
+ * providers or re-encodes. Each frame is shrunk to 9×8 greyscale and hashed to 64 bits
+ * (a 16-char hex segment), so it survives resizing, recompression and palette changes.
+ *
+ * - computeMediaHash(): the hash stored on library GIFs - 48 chars, one segment each for
+ *   the first, middle and last frames, so a GIF only matches another with the same motion
+ *   (stills repeat their single segment)
+ * - computeImageHash(): one 16-char segment for a single rendered image, used to
+ *   de-duplicate search results by preview
+ *
+ * Compare hashes of the same length with isPerceptualDuplicate(). hashBands() turns a
+ * hash into exact-match keys, so near-duplicates can be found with a Firestore query
+ * instead of scanning every stored hash.
+ */
+
+import { decodeGif } from './gifCodec';
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+const HASH_WIDTH = 9;   // One extra column so each row yields 8 comparisons
+const HASH_HEIGHT = 8;
+const LOAD_TIMEOUT_MS = 5000;
+const SEGMENT_LENGTH = 16;  // Hex chars per 64-bit frame hash
+const GIF_SAMPLE_FRAMES = 3;
+const BAND_LENGTH = 3;      // Hex chars (12 bits) per hashBands() key
+
+// Hamming distance per 64-bit segment at or below which two hashes are the same image
+export const DUPLICATE_HASH_DISTANCE = 8;
+
+// Hashes by source URL - the same previews get hashed repeatedly across searches
+const hashCache = new Map<string, Promise<string | null>>();
+
+// =============================================================================
+// HASHING
+// =============================================================================
+
+/**
+ * Load an image for pixel access. Remote images need CORS headers, otherwise
+ * the canvas is tainted and hashing fails.
+ */
+function loadImage(src: string, timeoutMs: number): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        const timer = setTimeout(() => {
+            img.src = '';
+            reject(new Error('Image load timed out'));
+        }, timeoutMs);
+
+        img.crossOrigin = 'anonymous';
+        img.onload = () => {
+            clearTimeout(timer);
+            resolve(img);
+        };
+        img.onerror = () => {
+            clearTimeout(timer);
+            reject(new Error('Image failed to load'));
+        };
+        img.src = src;
+    });
+}
+
+/**
+ * Compute the dHash of an image's pixels
+ */
+export function hashImageData(imageData: ImageData): string {
+    const canvas = document.createElement('canvas');
+    canvas.width = imageData.width;
+    canvas.height = imageData.height;
+    canvas.getContext('2d')!.putImageData(imageData, 0, 0);
+    return hashDrawable(canvas);
+}
+
+/**
+ * Shrink to 9×8 greyscale and compare each pixel with its right neighbour
+ */
+function hashDrawable(source: CanvasImageSource): string {
+    const canvas = document.createElement('canvas');
+    canvas.width = HASH_WIDTH;
+    canvas.height = HASH_HEIGHT;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.imageSmoothingQuality = 'high';
+    // Transparent areas hash as white so stickers match regardless of background
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, HASH_WIDTH, HASH_HEIGHT);
+    ctx.drawImage(source, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+    const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+    const grey = new Array<number>(HASH_WIDTH * HASH_HEIGHT);
+    for (let i = 0; i < grey.length; i++) {
+        grey[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+    }
+
+    let hex = '';
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+        let byte = 0;
+        for (let x = 0; x < HASH_WIDTH - 1; x++) {
+            const left = grey[y * HASH_WIDTH + x];
+            const right = grey[y * HASH_WIDTH + x + 1];
+            byte = (byte << 1) | (left > right ? 1 : 0);
+        }
+        hex += byte.toString(16).padStart(2, '0');
+    }
+    return hex;
+}
+
+/**
+ * Compute the perceptual hash of an image URL (or data URL).
+ * Returns null when the image can't be loaded or read (e.g. no CORS headers).
+ */
+export function computeImageHash(src: string, timeoutMs: number = LOAD_TIMEOUT_MS): Promise<string | null> {
+    if (!src) return Promise.resolve(null);
+
+    const cached = hashCache.get(src);
+    if (cached) return cached;
+
+    const pending = loadImage(src, timeoutMs)
+        .then(img => hashDrawable(img))
+        .catch(error => {
+            console.warn('Perceptual hash failed:', src.substring(0, 80), error);
+            // Don't cache failures - a later attempt may succeed
+            hashCache.delete(src);
+            return null;
+        });
+
+    hashCache.set(src, pending);
+    return pending;
+}
+
+/**
+ * Multi-frame hash for a GIF: first, middle and last composited frames.
+ * Stills (and anything that isn't a GIF) repeat their single-frame hash so every
+ * media hash has the same length and can be compared directly.
+ */
+export async function computeMediaHash(src: string | Blob): Promise<string | null> {
+    try {
+        const { frames } = await decodeGif(src);
+        const picks = Array.from({ length: GIF_SAMPLE_FRAMES }, (_, i) =>
+            frames[Math.round((i * (frames.length - 1)) / (GIF_SAMPLE_FRAMES - 1))]
+        );
+        return picks.map(frame => hashImageData(frame.imageData)).join('');
+    } catch (error) {
+        if (typeof src !== 'string') {
+            console.warn('Media hash failed:', error);
+            return null;
+        }
+        // Not a GIF (or not fetchable as bytes) - hash it as a still image
+        const still = await computeImageHash(src);
+        return still ? still.repeat(GIF_SAMPLE_FRAMES) : null;
+    }
+}
+
+// =============================================================================
+// COMPARISON
+// =============================================================================
+
+/**
+ * Number of differing bits between two hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+    if (a.length !== b.length) return Infinity;
+
+    let distance = 0;
+    for (let i = 0; i < a.length; i += 2) {
+        let diff = parseInt(a.substring(i, i + 2), 16) ^ parseInt(b.substring(i, i + 2), 16);
+        while (diff) {
+            distance += diff & 1;
+            diff >>= 1;
+        }
+    }
+    return distance;
+}
+
+/**
+ * Exact-match keys for a hash: 12-bit bands, each prefixed with its position
+ * ("0:a3f", "1:07c", ...). A 48-char media hash gives 16 bands, so two media hashes within
+ * 15 bits of each other always share one (and closer ones share several); pairs further
+ * apart but still under the duplicate threshold are only found when a band happens to match.
+ * Store them as `hashBands` and query with array-contains-any.
+ */
+export function hashBands(hash: string): string[] {
+    const bands: string[] = [];
+    for (let i = 0; i < hash.length; i += BAND_LENGTH) {
+        bands.push(`${i / BAND_LENGTH}:${hash.substring(i, i + BAND_LENGTH)}`);
+    }
+    return bands;
+}
+
+/**
+ * Check whether two hashes describe the same image.
+ * `maxDistance` is per 64-bit segment, so it applies to single and multi-frame hashes alike.
+ */
+export function isPerceptualDuplicate(
+    a: string | null | undefined,
+    b: string | null | undefined,
+    maxDistance: number = DUPLICATE_HASH_DISTANCE
+): boolean {
+    if (!a || !b) return false;
+    return hammingDistance(a, b) <= maxDistance * (a.length / SEGMENT_LENGTH);
+}
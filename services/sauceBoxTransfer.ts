@@ -0,0 +1,541 @@
+/**
+ * Sauce Box Transfer - export favorites and bring GIFs in from elsewhere
+ *
+ * Export: a ZIP with every GIF under gifs/ plus a manifest.json (title, tags, note,
+ * source, original URL), so the same archive is a backup and an import file.
+ *
+ * Import accepts:
+ * - a Saucy export (.zip) or its manifest.json
+ * - a folder of GIFs - an unzipped export is matched up through its manifest; loose files
+ *   are uploaded to the user's own storage (users/{uid}/uploads) when they're imported
+ * - a list of GIPHY / Tenor / Klipy (or Saucy /gif/:id) links
+ *
+ * Everything resolves to LibraryGIF-shaped favorites, then goes through duplicate
+ * detection against the Sauce Box and the rest of the import: same id, same URL, or
+ * perceptually the same picture. Loose files are previewed from object URLs; call
+ * releaseCandidates once a preview is done with.
+ */
+
+import { LibraryGIF, getGifById } from './gifLibraryService';
+import { FavoriteGif, importFavorites } from './favoritesService';
+import { getKlipyItem, KlipyItem } from './klipyService';
+import { getGiphyGif, getTenorGif } from './gifSearchService';
+import { computeImageHash, isPerceptualDuplicate } from './perceptualHash';
+import { getCachedGifBlob } from './offlineFavorites';
+import { uploadUserMedia, MAX_USER_UPLOAD_BYTES } from './mediaStorage';
+import { createZip, readZip, ZipEntryInput } from './zipArchive';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type GifSource = 'klipy' | 'giphy' | 'tenor' | 'library' | 'url' | 'upload';
+
+export interface ManifestEntry {
+    id: string;
+    file: string | null;            // Path inside the export, null if the GIF couldn't be downloaded
+    title: string;
+    tags: string[];
+    note: string;
+    source: GifSource;
+    originalUrl: string;
+    thumbnailUrl: string;
+    savedAt: string | null;         // ISO date
+}
+
+export interface SauceBoxManifest {
+    format: typeof MANIFEST_FORMAT;
+    version: number;
+    exportedAt: string;
+    gifs: ManifestEntry[];
+}
+
+export type ImportStatus = 'new' | 'duplicate' | 'failed';
+
+export interface ImportCandidate {
+    origin: string;                 // What the user gave us: a link, a file name or a manifest title
+    status: ImportStatus;
+    gif?: LibraryGIF;
+    note?: string;
+    duplicateOf?: string;           // Title of the favorite (or earlier import) it matches
+    error?: string;
+    file?: File;                    // A loose file from a folder, uploaded on import
+}
+
+export interface TransferProgress {
+    done: number;
+    total: number;
+}
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+const MANIFEST_FORMAT = 'saucy-sauce-box';
+const MANIFEST_VERSION = 1;
+const MANIFEST_NAME = 'manifest.json';
+
+const DOWNLOAD_CONCURRENCY = 3;
+const RESOLVE_CONCURRENCY = 4;
+const MAX_URLS = 500;
+const DEFAULT_HASH_BUDGET_MS = 8000;
+
+const GIF_FILE_PATTERN = /\.(gif|webp)$/i;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Which provider a favorite's gifId came from (search results prefix all but Klipy)
+ */
+export function sourceOf(gifId: string): GifSource {
+    const prefix = gifId.split('_')[0];
+    if (prefix === 'giphy' || prefix === 'tenor' || prefix === 'library' || prefix === 'url' || prefix === 'upload') {
+        return prefix;
+    }
+    return 'klipy';
+}
+
+/**
+ * Build a LibraryGIF from the handful of fields an imported favorite actually has
+ */
+function toLibraryGif(fields: { id: string; url: string; thumbnailUrl?: string; title?: string; tags?: string[] }): LibraryGIF {
+    return {
+        ...fields,
+        thumbnailUrl: fields.thumbnailUrl || fields.url,
+        title: fields.title || '',
+        tags: fields.tags || [],
+        rating: 'pg',
+        status: 'approved',
+        source: 'manual',
+        downloads: 0,
+        shares: 0,
+        trendingScore: 0,
+        createdAt: new Date(),
+        updatedAt: new Date()
+    };
+}
+
+const fromKlipyItem = (item: KlipyItem): LibraryGIF => toLibraryGif({
+    id: item.id,
+    url: item.url,
+    thumbnailUrl: item.preview_url,
+    title: item.title,
+    tags: item.tags
+});
+
+/**
+ * Stable id for a GIF we only know by its URL (Firestore ids can't contain '/')
+ */
+function urlId(url: string): string {
+    let hash = 5381;
+    const key = normalizeUrl(url);
+    for (let i = 0; i < key.length; i++) {
+        hash = ((hash << 5) + hash + key.charCodeAt(i)) >>> 0;
+    }
+    return `url_${hash.toString(36)}${key.length.toString(36)}`;
+}
+
+function normalizeUrl(url: string): string {
+    return url.split(/[?#]/)[0].replace(/^https?:\/\//, '').toLowerCase();
+}
+
+function slugify(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+}
+
+function extensionFor(blob: Blob): string {
+    if (blob.type.includes('webp')) return 'webp';
+    if (blob.type.includes('mp4')) return 'mp4';
+    return 'gif';
+}
+
+/**
+ * Run async work over a list with at most `concurrency` tasks in flight
+ */
+async function mapLimit<T, R>(items: T[], concurrency: number, run: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await run(items[index], index);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+    return results;
+}
+
+const failed = (origin: string, error: string): ImportCandidate => ({ origin, status: 'failed', error });
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+export const exportFileName = (date: Date = new Date()): string =>
+    `saucy-sauce-box-${date.toISOString().slice(0, 10)}.zip`;
+
+/**
+ * Bundle favorites into a ZIP of GIF files plus manifest.json.
+ * GIFs that can't be downloaded still get a manifest entry (with file: null) so they re-import by URL.
+ */
+export async function exportSauceBox(
+    favorites: FavoriteGif[],
+    onProgress?: (progress: TransferProgress) => void
+): Promise<Blob> {
+    let done = 0;
+    const files: ZipEntryInput[] = [];
+
+    const gifs = await mapLimit(favorites, DOWNLOAD_CONCURRENCY, async (favorite, i): Promise<ManifestEntry> => {
+        let file: string | null = null;
+        try {
+            const blob = (await getCachedGifBlob(favorite.gifUrl))
+                || await fetch(favorite.gifUrl).then(response => {
+                    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+                    return response.blob();
+                });
+            const name = `${String(i + 1).padStart(4, '0')}-${slugify(favorite.gifTitle) || 'gif'}`;
+            file = `gifs/${name}.${extensionFor(blob)}`;
+            files.push({ name: file, data: blob, modifiedAt: favorite.createdAt });
+        } catch (error) {
+            console.warn(`Export: couldn't download ${favorite.gifUrl}`, error);
+        }
+        onProgress?.({ done: ++done, total: favorites.length });
+
+        return {
+            id: favorite.gifId,
+            file,
+            title: favorite.gifTitle,
+            tags: favorite.tags,
+            note: favorite.note,
+            source: sourceOf(favorite.gifId),
+            originalUrl: favorite.gifUrl,
+            thumbnailUrl: favorite.gifThumbnail,
+            savedAt: favorite.createdAt?.toISOString() || null
+        };
+    });
+
+    const manifest: SauceBoxManifest = {
+        format: MANIFEST_FORMAT,
+        version: MANIFEST_VERSION,
+        exportedAt: new Date().toISOString(),
+        gifs
+    };
+
+    files.sort((a, b) => a.name.localeCompare(b.name));
+    return createZip([{ name: MANIFEST_NAME, data: JSON.stringify(manifest, null, 2) }, ...files]);
+}
+
+// =============================================================================
+// IMPORT: MANIFEST
+// =============================================================================
+
+function parseManifest(text: string): SauceBoxManifest {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The manifest isn\'t valid JSON');
+    }
+    if (data?.format !== MANIFEST_FORMAT || !Array.isArray(data.gifs)) {
+        throw new Error('This isn\'t a Saucy Sauce Box export');
+    }
+    if (typeof data.version === 'number' && data.version > MANIFEST_VERSION) {
+        throw new Error('This export was made by a newer version of Saucy');
+    }
+    return data as SauceBoxManifest;
+}
+
+function candidateFromEntry(entry: Partial<ManifestEntry>): ImportCandidate {
+    const origin = entry.title || entry.originalUrl || entry.file || 'Untitled';
+    if (!entry.originalUrl || !/^https?:\/\//.test(entry.originalUrl)) {
+        return failed(origin, 'No original URL in the manifest');
+    }
+    const id = entry.id && /^[\w.-]+$/.test(entry.id) ? entry.id : urlId(entry.originalUrl);
+    return {
+        origin,
+        status: 'new',
+        gif: toLibraryGif({
+            id,
+            url: entry.originalUrl,
+            thumbnailUrl: entry.thumbnailUrl,
+            title: entry.title,
+            tags: Array.isArray(entry.tags) ? entry.tags.filter(tag => typeof tag === 'string') : []
+        }),
+        note: typeof entry.note === 'string' ? entry.note : ''
+    };
+}
+
+/**
+ * Read a Saucy export - the .zip itself or its manifest.json
+ */
+export async function candidatesFromFile(file: File): Promise<ImportCandidate[]> {
+    if (/\.zip$/i.test(file.name) || file.type.includes('zip')) {
+        const entries = await readZip(file);
+        const manifest = entries.find(entry => entry.name.split('/').pop() === MANIFEST_NAME);
+        if (!manifest) throw new Error('No manifest.json in this ZIP - is it a Sauce Box export?');
+        return parseManifest(await (await manifest.read()).text()).gifs.map(candidateFromEntry);
+    }
+    return parseManifest(await file.text()).gifs.map(candidateFromEntry);
+}
+
+// =============================================================================
+// IMPORT: FOLDER
+// =============================================================================
+
+const relativePath = (file: File): string =>
+    (file as File & { webkitRelativePath?: string }).webkitRelativePath || file.name;
+
+const fileContentType = (file: File): string =>
+    file.type || (/\.webp$/i.test(file.name) ? 'image/webp' : 'image/gif');
+
+/**
+ * Import a folder of GIFs. With a manifest (an unzipped export), every listed GIF comes
+ * back with its metadata. Loose files become new GIFs of their own, previewed locally and
+ * uploaded when imported; markDuplicates still catches the ones already in the Sauce Box.
+ */
+export async function candidatesFromFolder(files: File[]): Promise<ImportCandidate[]> {
+    const manifestFile = files.find(file => file.name === MANIFEST_NAME);
+    const manifest = manifestFile ? parseManifest(await manifestFile.text()) : null;
+    const listed = new Set<string>((manifest?.gifs || []).map(entry => entry.file || '').filter(Boolean));
+
+    const candidates: ImportCandidate[] = (manifest?.gifs || []).map(candidateFromEntry);
+    const loose = files.filter(file =>
+        GIF_FILE_PATTERN.test(file.name) && ![...listed].some(path => relativePath(file).endsWith(path))
+    );
+
+    const looseCandidates = loose.map((file): ImportCandidate => {
+        if (file.size > MAX_USER_UPLOAD_BYTES) {
+            return failed(file.name, `Too big to upload (max ${MAX_USER_UPLOAD_BYTES / (1024 * 1024)}MB)`);
+        }
+        const url = URL.createObjectURL(file);
+        return {
+            origin: file.name,
+            status: 'new',
+            gif: toLibraryGif({
+                id: `upload_${crypto.randomUUID()}`,
+                url,
+                title: file.name.replace(GIF_FILE_PATTERN, '').replace(/[-_]+/g, ' ').trim()
+            }),
+            file
+        };
+    });
+    return [...candidates, ...looseCandidates];
+}
+
+// =============================================================================
+// IMPORT: LINKS
+// =============================================================================
+
+const GIPHY_PAGE = /giphy\.com\/(?:gifs|stickers|clips|embed)\/(?:[^/?#]*-)?([a-zA-Z0-9]+)\/?(?:[?#]|$)/;
+const GIPHY_MEDIA = /giphy\.com\/media\/(?:v1\.[^/]+\/)?([a-zA-Z0-9]+)\//;
+const GIPHY_SHORT = /i\.giphy\.com\/([a-zA-Z0-9]+)\.(?:gif|webp)/;
+const TENOR_PAGE = /tenor\.com\/(?:[a-zA-Z-]+\/)?view\/[^?#]*?(\d+)\/?(?:[?#]|$)/;
+const KLIPY_PAGE = /klipy\.com\/(gifs|stickers|memes|clips)\/([\w-]+)\/?(?:[?#]|$)/;
+const SAUCY_PAGE = /\/gif\/([^/?#]+)/;
+const DIRECT_MEDIA = /\.(gif|webp)(?:[?#]|$)/i;
+
+function giphyFallback(giphyId: string): LibraryGIF {
+    return toLibraryGif({
+        id: `giphy_${giphyId}`,
+        url: `https://media.giphy.com/media/${giphyId}/giphy.gif`,
+        thumbnailUrl: `https://media.giphy.com/media/${giphyId}/200w.gif`
+    });
+}
+
+async function resolveGiphy(giphyId: string): Promise<LibraryGIF> {
+    const item = await getGiphyGif(giphyId).catch(() => null);
+    // Without an API key the CDN URL still works, we just don't get a title
+    return item ? fromKlipyItem(item) : giphyFallback(giphyId);
+}
+
+async function resolveTenor(tenorId: string): Promise<LibraryGIF> {
+    const item = await getTenorGif(tenorId).catch(() => null);
+    if (!item) throw new Error('Couldn\'t look up this Tenor GIF - try its media.tenor.com link');
+    return fromKlipyItem(item);
+}
+
+async function resolveKlipy(idOrSlug: string, type: 'gifs' | 'stickers' | 'memes' | 'clips' = 'gifs'): Promise<LibraryGIF> {
+    const item = await getKlipyItem(idOrSlug, type);
+    if (!item) throw new Error('Klipy doesn\'t know this GIF');
+    return fromKlipyItem(item);
+}
+
+/**
+ * A Saucy share link (/gif/:id) carries the same ids favorites use
+ */
+async function resolveSaucyId(gifId: string): Promise<LibraryGIF> {
+    const source = sourceOf(gifId);
+    const rawId = gifId.slice(source.length + 1);
+    if (source === 'library') {
+        const gif = await getGifById(rawId);
+        if (!gif) throw new Error('This GIF is no longer in the Saucy library');
+        return { ...gif, id: gifId };
+    }
+    if (source === 'giphy') return resolveGiphy(rawId);
+    if (source === 'tenor') return resolveTenor(rawId);
+    if (source === 'url') throw new Error('This Saucy link doesn\'t point at a known source');
+    return resolveKlipy(gifId);
+}
+
+/**
+ * Turn one pasted link into a LibraryGIF-shaped favorite
+ */
+export async function resolveGifUrl(raw: string): Promise<LibraryGIF> {
+    let url: URL;
+    try {
+        url = new URL(raw.trim());
+    } catch {
+        throw new Error('Not a link');
+    }
+    const href = url.href;
+    const host = url.hostname.toLowerCase();
+
+    if (host.endsWith('giphy.com')) {
+        const match = href.match(GIPHY_MEDIA) || href.match(GIPHY_SHORT) || href.match(GIPHY_PAGE);
+        if (match) return resolveGiphy(match[1]);
+    }
+    if (host.endsWith('tenor.com') && !host.startsWith('media')) {
+        const match = href.match(TENOR_PAGE);
+        if (match) return resolveTenor(match[1]);
+    }
+    if (host.endsWith('klipy.com') && !DIRECT_MEDIA.test(href)) {
+        const match = href.match(KLIPY_PAGE);
+        if (match) return resolveKlipy(match[2], match[1] as 'gifs' | 'stickers' | 'memes' | 'clips');
+    }
+    if (host === window.location.hostname || host.endsWith('saucy-ai.web.app') || host === 'saucy.app') {
+        const match = url.pathname.match(SAUCY_PAGE);
+        if (match) return resolveSaucyId(decodeURIComponent(match[1]));
+    }
+    if (DIRECT_MEDIA.test(href)) {
+        return toLibraryGif({ id: urlId(href), url: href });
+    }
+    throw new Error('Not a GIPHY, Tenor or Klipy GIF link');
+}
+
+/**
+ * Resolve a pasted list of links (one per line, or separated by spaces/commas)
+ */
+export async function candidatesFromUrls(
+    text: string,
+    onProgress?: (progress: TransferProgress) => void
+): Promise<ImportCandidate[]> {
+    const urls = [...new Set(text.split(/[\s,]+/).map(part => part.trim()).filter(Boolean))];
+    if (urls.length > MAX_URLS) {
+        throw new Error(`Paste at most ${MAX_URLS} links at a time`);
+    }
+
+    let done = 0;
+    return mapLimit(urls, RESOLVE_CONCURRENCY, async (url): Promise<ImportCandidate> => {
+        try {
+            const gif = await resolveGifUrl(url);
+            return gif.url ? { origin: url, status: 'new', gif } : failed(url, 'No GIF at this link');
+        } catch (error) {
+            return failed(url, error instanceof Error ? error.message : 'Couldn\'t resolve this link');
+        } finally {
+            onProgress?.({ done: ++done, total: urls.length });
+        }
+    });
+}
+
+// =============================================================================
+// DUPLICATE DETECTION
+// =============================================================================
+
+/**
+ * Hash every image, giving up on stragglers once the budget runs out
+ */
+async function hashAll(urls: string[], budgetMs: number): Promise<(string | null)[]> {
+    const hashes: (string | null)[] = urls.map(() => null);
+    const work = Promise.all(urls.map(async (url, i) => {
+        hashes[i] = await computeImageHash(url).catch(() => null);
+    }));
+    await Promise.race([work, new Promise(resolve => setTimeout(resolve, budgetMs))]);
+    return hashes;
+}
+
+/**
+ * Mark candidates that are already in the Sauce Box (or earlier in the same import)
+ * by id, by URL, or - within the hashing budget - by picture
+ */
+export async function markDuplicates(
+    candidates: ImportCandidate[],
+    favorites: FavoriteGif[],
+    hashBudgetMs: number = DEFAULT_HASH_BUDGET_MS
+): Promise<ImportCandidate[]> {
+    const byId = new Map<string, string>(favorites.map(f => [f.gifId, f.gifTitle || 'a saved GIF']));
+    const byUrl = new Map<string, string>(favorites.map(f => [normalizeUrl(f.gifUrl), f.gifTitle || 'a saved GIF']));
+
+    const marked = candidates.map(candidate => {
+        if (candidate.status !== 'new' || !candidate.gif) return candidate;
+        const gif = candidate.gif;
+        const match = byId.get(gif.id) ?? byUrl.get(normalizeUrl(gif.url));
+        if (match !== undefined) return { ...candidate, status: 'duplicate' as const, duplicateOf: match };
+
+        const label = gif.title || candidate.origin;
+        byId.set(gif.id, label);
+        byUrl.set(normalizeUrl(gif.url), label);
+        return candidate;
+    });
+
+    const fresh = marked.filter(c => c.status === 'new' && c.gif);
+    if (fresh.length === 0 || hashBudgetMs <= 0) return marked;
+
+    // Same picture under a different id/URL (e.g. a GIPHY copy of a Klipy favorite)
+    const started = Date.now();
+    const favoriteHashes = await hashAll(favorites.map(f => f.gifThumbnail || f.gifUrl), hashBudgetMs);
+    const remaining = Math.max(0, hashBudgetMs - (Date.now() - started));
+    const freshHashes = await hashAll(fresh.map(c => c.gif!.thumbnailUrl || c.gif!.url), remaining);
+
+    const seen: { hash: string; label: string }[] = favorites
+        .map((f, i) => ({ hash: favoriteHashes[i] || '', label: f.gifTitle || 'a saved GIF' }))
+        .filter(entry => entry.hash);
+    const pictureMatches = new Map<ImportCandidate, string>();
+    fresh.forEach((candidate, i) => {
+        const hash = freshHashes[i];
+        if (!hash) return;
+        const match = seen.find(entry => isPerceptualDuplicate(entry.hash, hash));
+        if (match) {
+            pictureMatches.set(candidate, match.label);
+        } else {
+            seen.push({ hash, label: candidate.gif!.title || candidate.origin });
+        }
+    });
+
+    return marked.map(candidate => pictureMatches.has(candidate)
+        ? { ...candidate, status: 'duplicate' as const, duplicateOf: pictureMatches.get(candidate) }
+        : candidate);
+}
+
+/**
+ * Favorite every candidate still marked new, uploading loose files first; returns how many were saved.
+ * A file that fails to upload is skipped rather than failing the whole import.
+ */
+export async function importCandidates(userId: string, candidates: ImportCandidate[]): Promise<number> {
+    const fresh = candidates.filter(c => c.status === 'new' && c.gif);
+    const gifs = await mapLimit(fresh, RESOLVE_CONCURRENCY, async (c): Promise<LibraryGIF | null> => {
+        if (!c.file) return c.gif!;
+        try {
+            const url = await uploadUserMedia(userId, c.file, fileContentType(c.file));
+            return { ...c.gif!, url, thumbnailUrl: url };
+        } catch (error) {
+            console.warn(`Import: couldn't upload ${c.origin}`, error);
+            return null;
+        }
+    });
+
+    const entries = fresh
+        .map((c, i) => ({ gif: gifs[i], note: c.note }))
+        .filter((entry): entry is { gif: LibraryGIF; note: string | undefined } => entry.gif !== null);
+    return entries.length > 0 ? importFavorites(userId, entries) : 0;
+}
+
+/**
+ * Free the object URLs behind loose-file previews
+ */
+export function releaseCandidates(candidates: ImportCandidate[]): void {
+    candidates.forEach(c => {
+        if (c.file && c.gif) URL.revokeObjectURL(c.gif.url);
+    });
+}
@@ -7,11 +7,10 @@ import {
     collection,
     addDoc,
     Timestamp,
-    getDocs,
-    query,
-    limit
+    getDocs
 } from 'firebase/firestore';
 import { db } from './firebaseConfig';
+import { computeMediaHash, hashBands, isPerceptualDuplicate } from './perceptualHash';
 
 // Sample GIF data from Giphy
 const SEED_GIFS = [
@@ -201,30 +200,41 @@ const SEED_GIFS = [
 
 /**
  * Seed the library with initial GIFs
+ * Skips any seed GIF already in the library, by URL or by perceptual hash.
  */
 export async function seedLibrary(): Promise<{ added: number; skipped: number }> {
     const collectionRef = collection(db, 'library_gifs');
 
-    // Check if library already has content
-    const existing = await getDocs(query(collectionRef, limit(1)));
-    if (!existing.empty) {
-        console.log('Library already has content, skipping seed');
-        return { added: 0, skipped: SEED_GIFS.length };
-    }
+    const existing = await getDocs(collectionRef);
+    const existingUrls = new Set<string>(existing.docs.map(d => d.data().url));
+    const existingHashes: string[] = existing.docs
+        .map(d => d.data().perceptualHash)
+        .filter(Boolean);
 
     let added = 0;
     const now = new Date();
 
     for (const gif of SEED_GIFS) {
+        if (existingUrls.has(gif.url)) continue;
+
         try {
+            const perceptualHash = await computeMediaHash(gif.url);
+            if (perceptualHash && existingHashes.some(hash => isPerceptualDuplicate(hash, perceptualHash))) {
+                console.log(`Skipped duplicate: ${gif.title}`);
+                continue;
+            }
+
             await addDoc(collectionRef, {
                 ...gif,
+                ...(perceptualHash ? { perceptualHash, hashBands: hashBands(perceptualHash) } : {}),
                 createdAt: Timestamp.fromDate(now),
                 updatedAt: Timestamp.fromDate(now),
                 approvedAt: Timestamp.fromDate(now),
                 approvedBy: 'system'
             });
             added++;
+            existingUrls.add(gif.url);
+            if (perceptualHash) existingHashes.push(perceptualHash);
             console.log(`Added: ${gif.title}`);
         } catch (error) {
             console.error(`Failed to add ${gif.title}:`, error);
@@ -3,7 +3,9 @@ import {
     doc,
     getDoc,
     setDoc,
+    addDoc,
     updateDoc,
+    deleteDoc,
     increment,
     onSnapshot,
     query,
@@ -12,9 +14,16 @@ import {
     limit,
     getDocs,
     Timestamp,
-    runTransaction
+    runTransaction,
+    writeBatch,
+    startAfter,
+    documentId,
+    QueryDocumentSnapshot
 } from 'firebase/firestore';
-import { db } from './firebaseConfig';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from './firebaseConfig';
+import { getPublishedGifs, TrendingPeriod } from './gifLibraryService';
+import { aggregateSearch } from './gifSearchService';
 
 // ============================================================================
 // TYPES
@@ -25,6 +34,8 @@ export interface ShowdownGIF {
     title: string;
     url: string;
     votes: number;
+    // Sum of vote weights (see castShowdownVote) - decides the daily winner
+    weightedVotes?: number;
 }
 
 export interface Showdown {
@@ -47,6 +58,12 @@ export interface UserSauceStats {
     sauceSenseScore: number;
     totalVotes: number;
     correctPicks: number;
+    streak: number;
+    bestStreak: number;
+    // Bracket predictions, scored by the advanceTournaments function
+    bracketPoints: number;
+    bracketCorrectPicks: number;
+    bracketsPlayed: number;
 }
 
 // ============================================================================
@@ -61,6 +78,8 @@ const getTodayId = (): string => {
     return today.toISOString().split('T')[0]; // "2026-01-26"
 };
 
+const toDate = (value: any): Date | null => value?.toDate?.() || null;
+
 /**
  * Get the current active showdown
  */
@@ -118,71 +137,44 @@ export const subscribeToShowdown = (
     });
 };
 
+const DEVICE_ID_KEY = 'saucy_device_id';
+
 /**
- * Cast a vote in the current showdown
- * Now accepts email and displayName to store directly in vote record
+ * Random per-browser ID sent with votes so the server can spot one device voting as many accounts
  */
-export const castVote = async (
-    userId: string,
-    choice: 'A' | 'B',
-    userEmail?: string,
-    userDisplayName?: string
-): Promise<{ success: boolean; message: string }> => {
+const getDeviceId = (): string => {
     try {
-        const todayId = getTodayId();
-        const voteId = `${todayId}_${userId}`;
-        const voteRef = doc(db, 'showdownVotes', voteId);
-
-        // Check if user already voted
-        const existingVote = await getDoc(voteRef);
-        if (existingVote.exists()) {
-            return { success: false, message: 'You already voted today!' };
+        let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+        if (!deviceId) {
+            deviceId = crypto.randomUUID();
+            localStorage.setItem(DEVICE_ID_KEY, deviceId);
         }
+        return deviceId;
+    } catch {
+        return '';
+    }
+};
 
-        // Record vote and increment counter atomically
-        await runTransaction(db, async (transaction) => {
-            const showdownRef = doc(db, 'showdowns', todayId);
-            const showdownSnap = await transaction.get(showdownRef);
-
-            if (!showdownSnap.exists()) {
-                throw new Error('No active showdown');
-            }
-
-            const showdownData = showdownSnap.data();
-
-            // Check if showdown has ended
-            const endsAt = showdownData.endsAt?.toDate?.() || showdownData.endsAt;
-            if (endsAt && new Date() > endsAt) {
-                throw new Error('Showdown has ended');
-            }
-
-            // Check if showdown is already completed
-            if (showdownData.status === 'completed') {
-                throw new Error('Showdown has ended');
-            }
-
-            // Record user's vote with email and displayName for reliable lookup
-            transaction.set(voteRef, {
-                odId: userId,
-                votedFor: choice,
-                timestamp: Timestamp.now(),
-                // Store user info directly in vote record for reliable lookup
-                email: userEmail || '',
-                displayName: userDisplayName || ''
-            });
-
-            // Increment vote count
-            const voteField = choice === 'A' ? 'gifA.votes' : 'gifB.votes';
-            transaction.update(showdownRef, {
-                [voteField]: increment(1)
-            });
-        });
-
-        return { success: true, message: 'Vote recorded!' };
+/**
+ * Cast a vote in the current showdown.
+ * Goes through the castShowdownVote function, which weights the vote by account age/activity
+ * and flags suspicious network/device patterns for admin review.
+ */
+export const castVote = async (
+    choice: 'A' | 'B'
+): Promise<{ success: boolean; message: string }> => {
+    try {
+        const vote = httpsCallable<{ choice: 'A' | 'B'; deviceId: string }, { message: string }>(
+            functions,
+            'castShowdownVote'
+        );
+        const { data } = await vote({ choice, deviceId: getDeviceId() });
+        return { success: true, message: data.message };
     } catch (error: any) {
         console.error('Error casting vote:', error);
-        if (error.message === 'Showdown has ended') {
-            return { success: false, message: 'This showdown has ended!' };
+        // Callable errors carry the function's reason (already voted, showdown ended, ...)
+        if (error?.code === 'functions/already-exists' || error?.code === 'functions/failed-precondition') {
+            return { success: false, message: error.message };
         }
         return { success: false, message: 'Failed to record vote' };
     }
@@ -204,66 +196,97 @@ export const hasUserVoted = async (userId: string): Promise<boolean> => {
     }
 };
 
+export type VoteFlagReason = 'new_account' | 'network_volume' | 'device_volume' | 'burst';
+
 export interface VoterInfo {
+    voteId: string;
     odId: string;
     votedFor: 'A' | 'B';
     timestamp: Date;
     email?: string;
     displayName?: string;
+    // Set by castShowdownVote
+    weight: number;
+    flagged: boolean;
+    flagReasons: VoteFlagReason[];
+    voided: boolean;
 }
 
+const VOTER_PAGE_SIZE = 200;
+
 /**
- * Get all voters for today's showdown with user details (Admin only)
- * Now prefers email/displayName stored directly in vote record (for new votes)
- * Falls back to user profile lookup for older votes that don't have this info
+ * Profile email/name for a voter, for votes that didn't store them
  */
-export const getShowdownVoters = async (): Promise<VoterInfo[]> => {
+const getVoterProfile = async (odId: string): Promise<{ email: string; displayName: string }> => {
     try {
-        const todayId = getTodayId();
+        const userSnap = await getDoc(doc(db, 'users', odId));
+        if (userSnap.exists()) {
+            const userData = userSnap.data();
+            return { email: userData.email || '', displayName: userData.displayName || userData.name || '' };
+        }
+    } catch (e) {
+        // User profile not found, continue
+    }
+    return { email: '', displayName: '' };
+};
+
+/**
+ * Get all voters for a showdown day (today by default) with user details and integrity flags (Admin only).
+ * Votes are keyed {dayId}_{userId}, so the day is read by id prefix, page by page, like listShowdownVotes.
+ * Older votes stored email/displayName on the vote record; newer ones are looked up from the profile
+ */
+export const getShowdownVoters = async (
+    options: { dayId?: string; flaggedOnly?: boolean } = {}
+): Promise<VoterInfo[]> => {
+    try {
+        const dayId = options.dayId || getTodayId();
         const votesRef = collection(db, 'showdownVotes');
-        const q = query(
-            votesRef,
-            where('timestamp', '>=', Timestamp.fromDate(new Date(todayId + 'T00:00:00'))),
-            orderBy('timestamp', 'desc'),
-            limit(100)
-        );
+        const constraints = [
+            where(documentId(), '>=', `${dayId}_`),
+            where(documentId(), '<', `${dayId}_\uf8ff`),
+            ...(options.flaggedOnly ? [where('flagged', '==', true)] : []),
+            orderBy(documentId()),
+            limit(VOTER_PAGE_SIZE)
+        ];
 
-        const snapshot = await getDocs(q);
         const voters: VoterInfo[] = [];
-
-        for (const voteDoc of snapshot.docs) {
-            const data = voteDoc.data();
-            const odId = data.odId;
-
-            // First, check if email/displayName are stored directly in the vote record (new format)
-            let email = data.email || '';
-            let displayName = data.displayName || '';
-
-            // If not found in vote record, fall back to user profile lookup (old format)
-            if (!email && !displayName) {
-                try {
-                    const userRef = doc(db, 'users', odId);
-                    const userSnap = await getDoc(userRef);
-                    if (userSnap.exists()) {
-                        const userData = userSnap.data();
-                        email = userData.email || '';
-                        displayName = userData.displayName || userData.name || '';
-                    }
-                } catch (e) {
-                    // User profile not found, continue
-                }
-            }
-
-            voters.push({
-                odId,
-                votedFor: data.votedFor,
-                timestamp: data.timestamp?.toDate?.() || new Date(),
-                email,
-                displayName
-            });
+        let lastDoc: QueryDocumentSnapshot | null = null;
+
+        while (true) {
+            const q = lastDoc
+                ? query(votesRef, ...constraints, startAfter(lastDoc))
+                : query(votesRef, ...constraints);
+            const snapshot = await getDocs(q);
+
+            const page = await Promise.all(snapshot.docs.map(async (voteDoc): Promise<VoterInfo> => {
+                const data = voteDoc.data();
+                const odId = data.odId;
+
+                // Legacy vote records carry email/displayName directly
+                const profile = data.email || data.displayName
+                    ? { email: data.email || '', displayName: data.displayName || '' }
+                    : await getVoterProfile(odId);
+
+                return {
+                    voteId: voteDoc.id,
+                    odId,
+                    votedFor: data.votedFor,
+                    timestamp: data.timestamp?.toDate?.() || new Date(),
+                    ...profile,
+                    weight: typeof data.weight === 'number' ? data.weight : 1,
+                    flagged: !!data.flagged,
+                    flagReasons: data.flagReasons || [],
+                    voided: !!data.voided
+                };
+            }));
+            voters.push(...page);
+
+            if (snapshot.docs.length < VOTER_PAGE_SIZE) break;
+            lastDoc = snapshot.docs[snapshot.docs.length - 1];
         }
 
-        return voters;
+        // Newest first
+        return voters.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
     } catch (error) {
         console.error('Error fetching voters:', error);
         return [];
@@ -291,8 +314,19 @@ export const getUserVote = async (userId: string): Promise<'A' | 'B' | null> =>
     }
 };
 
+const EMPTY_SAUCE_STATS: UserSauceStats = {
+    sauceSenseScore: 0,
+    totalVotes: 0,
+    correctPicks: 0,
+    streak: 0,
+    bestStreak: 0,
+    bracketPoints: 0,
+    bracketCorrectPicks: 0,
+    bracketsPlayed: 0
+};
+
 /**
- * Get user's Sauce Sense stats
+ * Get user's Sauce Sense stats (scored by the rotateShowdown function)
  */
 export const getUserSauceStats = async (userId: string): Promise<UserSauceStats> => {
     try {
@@ -300,18 +334,23 @@ export const getUserSauceStats = async (userId: string): Promise<UserSauceStats>
         const userSnap = await getDoc(userRef);
 
         if (!userSnap.exists()) {
-            return { sauceSenseScore: 0, totalVotes: 0, correctPicks: 0 };
+            return EMPTY_SAUCE_STATS;
         }
 
         const data = userSnap.data();
         return {
             sauceSenseScore: data.sauceSenseScore || 0,
             totalVotes: data.showdownVotes || 0,
-            correctPicks: data.sauceSenseScore || 0
+            correctPicks: data.correctPicks || 0,
+            streak: data.sauceStreak || 0,
+            bestStreak: data.bestSauceStreak || 0,
+            bracketPoints: data.bracketPoints || 0,
+            bracketCorrectPicks: data.bracketCorrectPicks || 0,
+            bracketsPlayed: data.bracketsPlayed || 0
         };
     } catch (error) {
         console.error('Error getting sauce stats:', error);
-        return { sauceSenseScore: 0, totalVotes: 0, correctPicks: 0 };
+        return EMPTY_SAUCE_STATS;
     }
 };
 
@@ -349,6 +388,8 @@ export const createShowdown = async (
             endsAt: Timestamp.fromDate(endOfDay),
             status: 'active',
             winner: null,
+            // The rotateShowdown function settles it and credits voters
+            credited: false,
             createdAt: Timestamp.now()
         });
 
@@ -397,7 +438,9 @@ export const resetShowdownVotes = async (): Promise<{ success: boolean; message:
         // Reset vote counts to 0
         await updateDoc(showdownRef, {
             'gifA.votes': 0,
-            'gifB.votes': 0
+            'gifA.weightedVotes': 0,
+            'gifB.votes': 0,
+            'gifB.weightedVotes': 0
         });
 
         // Note: Individual vote records in showdownVotes collection are kept for audit
@@ -411,7 +454,8 @@ export const resetShowdownVotes = async (): Promise<{ success: boolean; message:
 };
 
 /**
- * End the current showdown early and optionally declare a winner (Admin only)
+ * End the current showdown early and optionally declare a winner (Admin only).
+ * Voters are credited on the next rotateShowdown run.
  */
 export const endShowdownEarly = async (
     winner?: 'A' | 'B'
@@ -427,11 +471,11 @@ export const endShowdownEarly = async (
 
         const data = showdownSnap.data();
 
-        // If no winner specified, determine by votes
+        // If no winner specified, determine by weighted votes
         let finalWinner: 'A' | 'B' | null = winner || null;
         if (!finalWinner) {
-            const votesA = data.gifA?.votes || 0;
-            const votesB = data.gifB?.votes || 0;
+            const votesA = data.gifA?.weightedVotes ?? data.gifA?.votes ?? 0;
+            const votesB = data.gifB?.weightedVotes ?? data.gifB?.votes ?? 0;
             if (votesA > votesB) finalWinner = 'A';
             else if (votesB > votesA) finalWinner = 'B';
             // If tied, no winner
@@ -455,6 +499,25 @@ export const endShowdownEarly = async (
     }
 };
 
+/**
+ * Void votes in today's showdown and recount its tallies without them (Admin only)
+ */
+export const voidShowdownVotes = async (
+    voteIds: string[]
+): Promise<{ success: boolean; message: string }> => {
+    try {
+        const voidVotes = httpsCallable<{ dayId: string; voteIds: string[] }, { message: string }>(
+            functions,
+            'voidShowdownVotes'
+        );
+        const { data } = await voidVotes({ dayId: getTodayId(), voteIds });
+        return { success: true, message: data.message };
+    } catch (error: any) {
+        console.error('Error voiding votes:', error);
+        return { success: false, message: error?.message || 'Failed to void votes' };
+    }
+};
+
 /**
  * Update the GIFs in the current showdown (Admin only)
  */
@@ -493,3 +556,712 @@ export const updateShowdownGifs = async (
         return { success: false, message: 'Failed to update GIFs' };
     }
 };
+
+// ============================================================================
+// SAUCE SENSE
+// ============================================================================
+//
+// Scored by the rotateShowdown function when a showdown settles: 10 points for
+// backing the winner, doubled for calling it while that side was trailing, plus
+// a streak bonus. Results land in users/{uid}/sauceHistory and in the weekly and
+// all-time leaderboards under sauce_leaderboards/{periodId}/entries.
+
+export type LeaderboardPeriod = 'week' | 'allTime';
+
+export interface LeaderboardEntry {
+    uid: string;
+    displayName: string;
+    photoURL: string;
+    points: number;
+    correctPicks: number;
+    votes: number;
+}
+
+export interface LeaderboardPage {
+    entries: LeaderboardEntry[];
+    cursor: QueryDocumentSnapshot | null;
+    hasMore: boolean;
+}
+
+export interface SauceHistoryEntry {
+    showdownId: string;
+    votedFor: 'A' | 'B';
+    winner: 'A' | 'B' | null;
+    correct: boolean;
+    underdog: boolean;
+    streak: number;
+    points: number;
+    settledAt: Date;
+}
+
+const LEADERBOARD_COLLECTION = 'sauce_leaderboards';
+
+/**
+ * ISO week ID for the weekly leaderboard, e.g. "2026-W42" (UTC, Monday to Sunday)
+ */
+export const getWeekId = (date: Date = new Date()): string => {
+    const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    thursday.setUTCDate(thursday.getUTCDate() + 4 - (thursday.getUTCDay() || 7));
+    const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+    const week = Math.ceil(((thursday.getTime() - yearStart) / 86400000 + 1) / 7);
+    return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+};
+
+/**
+ * One page of a leaderboard, highest score first. Pass the previous page's cursor for the next.
+ */
+export const getSauceLeaderboard = async (
+    period: LeaderboardPeriod,
+    pageSize: number = 20,
+    cursor: QueryDocumentSnapshot | null = null
+): Promise<LeaderboardPage> => {
+    try {
+        const periodId = period === 'week' ? getWeekId() : 'allTime';
+        const entriesRef = collection(db, LEADERBOARD_COLLECTION, periodId, 'entries');
+        // One extra tells us whether there's another page
+        const q = cursor
+            ? query(entriesRef, orderBy('points', 'desc'), startAfter(cursor), limit(pageSize + 1))
+            : query(entriesRef, orderBy('points', 'desc'), limit(pageSize + 1));
+        const snapshot = await getDocs(q);
+
+        const docs = snapshot.docs.slice(0, pageSize);
+        return {
+            entries: docs.map(d => ({
+                uid: d.id,
+                displayName: d.data().displayName || 'Anonymous',
+                photoURL: d.data().photoURL || '',
+                points: d.data().points || 0,
+                correctPicks: d.data().correctPicks || 0,
+                votes: d.data().votes || 0
+            })),
+            cursor: docs[docs.length - 1] || null,
+            hasMore: snapshot.docs.length > pageSize
+        };
+    } catch (error) {
+        console.error('Error fetching leaderboard:', error);
+        return { entries: [], cursor: null, hasMore: false };
+    }
+};
+
+/**
+ * A user's recent Sauce Sense results, newest first
+ */
+export const getSauceHistory = async (
+    userId: string,
+    maxResults: number = 20
+): Promise<SauceHistoryEntry[]> => {
+    try {
+        const q = query(
+            collection(db, 'users', userId, 'sauceHistory'),
+            orderBy('settledAt', 'desc'),
+            limit(maxResults)
+        );
+        const snapshot = await getDocs(q);
+        return snapshot.docs.map(d => {
+            const data = d.data();
+            return {
+                showdownId: data.showdownId || d.id,
+                votedFor: data.votedFor,
+                winner: data.winner || null,
+                correct: !!data.correct,
+                underdog: !!data.underdog,
+                streak: data.streak || 0,
+                points: data.points || 0,
+                settledAt: toDate(data.settledAt) || new Date()
+            };
+        });
+    } catch (error) {
+        console.error('Error fetching sauce history:', error);
+        return [];
+    }
+};
+
+// ============================================================================
+// MATCHUP QUEUE
+// ============================================================================
+//
+// The rotateShowdown function settles each day's showdown and creates the next
+// one, taking the oldest queued matchup first and falling back to trending
+// library GIFs that haven't featured recently.
+
+export interface QueuedShowdown {
+    id: string;
+    gifA: Omit<ShowdownGIF, 'votes'>;
+    gifB: Omit<ShowdownGIF, 'votes'>;
+    createdAt: Date;
+}
+
+const QUEUE_COLLECTION = 'showdown_queue';
+
+/**
+ * Queue a matchup for an upcoming day (Admin only)
+ */
+export const queueShowdown = async (
+    gifA: Omit<ShowdownGIF, 'votes'>,
+    gifB: Omit<ShowdownGIF, 'votes'>
+): Promise<{ success: boolean; message: string }> => {
+    try {
+        await addDoc(collection(db, QUEUE_COLLECTION), {
+            gifA,
+            gifB,
+            createdAt: Timestamp.now()
+        });
+        return { success: true, message: 'Matchup queued for an upcoming day!' };
+    } catch (error) {
+        console.error('Error queueing showdown:', error);
+        return { success: false, message: 'Failed to queue matchup' };
+    }
+};
+
+/**
+ * Queued matchups, next up first (Admin only)
+ */
+export const getShowdownQueue = async (): Promise<QueuedShowdown[]> => {
+    try {
+        const q = query(collection(db, QUEUE_COLLECTION), orderBy('createdAt', 'asc'));
+        const snapshot = await getDocs(q);
+        return snapshot.docs.map(d => ({
+            id: d.id,
+            gifA: d.data().gifA,
+            gifB: d.data().gifB,
+            createdAt: d.data().createdAt.toDate()
+        }));
+    } catch (error) {
+        console.error('Error fetching showdown queue:', error);
+        return [];
+    }
+};
+
+/**
+ * Drop a queued matchup (Admin only)
+ */
+export const removeQueuedShowdown = async (
+    entryId: string
+): Promise<{ success: boolean; message: string }> => {
+    try {
+        await deleteDoc(doc(db, QUEUE_COLLECTION, entryId));
+        return { success: true, message: 'Matchup removed from queue' };
+    } catch (error) {
+        console.error('Error removing queued showdown:', error);
+        return { success: false, message: 'Failed to remove matchup' };
+    }
+};
+
+// ============================================================================
+// TOURNAMENTS
+// ============================================================================
+//
+// Bracket tournaments live alongside the daily showdown:
+// - tournaments/{id}: bracket settings and progress
+// - tournaments/{id}/matches/{r{round}m{slot}}: one A-vs-B match with its own vote window
+// - tournaments/{id}/votes/{matchId}_{userId}: one vote per user per match
+// - tournaments/{id}/predictions/{userId}: the user's picked winners, locked at startsAt
+//
+// Rounds are settled and the next one opened by the advanceTournaments Cloud Function.
+
+export type BracketSize = 8 | 16 | 32;
+
+export const BRACKET_SIZES: BracketSize[] = [8, 16, 32];
+
+export type TournamentSeedSource =
+    | { type: 'trending'; period: TrendingPeriod }
+    | { type: 'category'; query: string };
+
+export interface BracketGIF extends ShowdownGIF {
+    seed: number;   // 1 = top seed; breaks ties
+}
+
+export interface BracketMatch {
+    id: string;
+    round: number;  // 0 = first round
+    slot: number;   // Position within the round, top to bottom
+    gifA: BracketGIF | null;
+    gifB: BracketGIF | null;
+    winner: 'A' | 'B' | null;
+    opensAt: Date | null;   // Null until the round before it is settled
+    closesAt: Date | null;
+}
+
+export interface Tournament {
+    id: string;
+    name: string;
+    size: BracketSize;
+    seedSource: TournamentSeedSource;
+    status: 'active' | 'completed' | 'cancelled';
+    currentRound: number;
+    roundCount: number;
+    roundDurationHours: number;
+    startsAt: Date;
+    championId: string | null;
+    createdAt: Date;
+}
+
+export interface BracketPrediction {
+    userId: string;
+    picks: Record<string, string>;  // matchId -> id of the GIF picked to win it
+    points: number;
+    correctPicks: number;
+    submittedAt: Date;
+}
+
+const TOURNAMENT_COLLECTION = 'tournaments';
+
+/**
+ * Document id for a bracket match
+ */
+export const getMatchId = (round: number, slot: number): string => `r${round}m${slot}`;
+
+/**
+ * Points for a correct pick - later rounds are worth more (1, 2, 4, 8...)
+ */
+export const getRoundPoints = (round: number): number => Math.pow(2, round);
+
+/**
+ * Display name for a round
+ */
+export const getRoundName = (round: number, roundCount: number): string => {
+    const remaining = roundCount - round;
+    if (remaining === 1) return 'Final';
+    if (remaining === 2) return 'Semifinals';
+    if (remaining === 3) return 'Quarterfinals';
+    return `Round of ${Math.pow(2, remaining)}`;
+};
+
+/**
+ * Standard seeding order, so the top seeds can only meet in the late rounds
+ * (8 -> 1,8,4,5,2,7,3,6)
+ */
+const getSeedOrder = (size: number): number[] => {
+    let order = [1, 2];
+    while (order.length < size) {
+        const next = order.length * 2 + 1;
+        order = order.flatMap(seed => [seed, next - seed]);
+    }
+    return order;
+};
+
+/**
+ * Lay out every match of a bracket. `gifs` must be in seed order (best first);
+ * only first-round matches get participants and a vote window.
+ */
+export const buildBracket = (
+    gifs: Omit<ShowdownGIF, 'votes'>[],
+    size: BracketSize,
+    startsAt: Date,
+    roundDurationHours: number
+): BracketMatch[] => {
+    const order = getSeedOrder(size);
+    const roundCount = Math.log2(size);
+    const closesAt = new Date(startsAt.getTime() + roundDurationHours * 60 * 60 * 1000);
+    const entrant = (seed: number): BracketGIF => ({ ...gifs[seed - 1], votes: 0, seed });
+
+    const matches: BracketMatch[] = [];
+    for (let round = 0; round < roundCount; round++) {
+        const matchCount = size / Math.pow(2, round + 1);
+        for (let slot = 0; slot < matchCount; slot++) {
+            const isFirstRound = round === 0;
+            matches.push({
+                id: getMatchId(round, slot),
+                round,
+                slot,
+                gifA: isFirstRound ? entrant(order[slot * 2]) : null,
+                gifB: isFirstRound ? entrant(order[slot * 2 + 1]) : null,
+                winner: null,
+                opensAt: isFirstRound ? startsAt : null,
+                closesAt: isFirstRound ? closesAt : null
+            });
+        }
+    }
+    return matches;
+};
+
+/**
+ * Work out who a prediction has meeting in every match: first-round matches use the
+ * real entrants, later ones the GIFs picked to win the two feeder matches.
+ */
+export const resolvePredictedMatchups = (
+    matches: BracketMatch[],
+    picks: Record<string, string>
+): Record<string, { gifA: BracketGIF | null; gifB: BracketGIF | null }> => {
+    const byId = new Map(matches.map(m => [m.id, m]));
+    const resolved: Record<string, { gifA: BracketGIF | null; gifB: BracketGIF | null }> = {};
+
+    const pickedWinner = (matchId: string): BracketGIF | null => {
+        const matchup = resolved[matchId];
+        const pick = picks[matchId];
+        if (!matchup || !pick) return null;
+        if (matchup.gifA?.id === pick) return matchup.gifA;
+        if (matchup.gifB?.id === pick) return matchup.gifB;
+        return null;
+    };
+
+    const ordered = [...matches].sort((a, b) => a.round - b.round || a.slot - b.slot);
+    for (const match of ordered) {
+        if (match.round === 0) {
+            resolved[match.id] = { gifA: match.gifA, gifB: match.gifB };
+            continue;
+        }
+        const feederA = byId.get(getMatchId(match.round - 1, match.slot * 2));
+        const feederB = byId.get(getMatchId(match.round - 1, match.slot * 2 + 1));
+        resolved[match.id] = {
+            gifA: feederA ? pickedWinner(feederA.id) : null,
+            gifB: feederB ? pickedWinner(feederB.id) : null
+        };
+    }
+    return resolved;
+};
+
+/**
+ * Drop picks that no longer fit the predicted bracket - e.g. a semifinal pick for a GIF
+ * the user has since picked to lose in the quarterfinals
+ */
+export const prunePredictionPicks = (
+    matches: BracketMatch[],
+    picks: Record<string, string>
+): Record<string, string> => {
+    let current = { ...picks };
+    for (let pass = 0; pass < matches.length; pass++) {
+        const matchups = resolvePredictedMatchups(matches, current);
+        const next = Object.fromEntries(
+            Object.entries(current).filter(([matchId, gifId]) =>
+                matchups[matchId]?.gifA?.id === gifId || matchups[matchId]?.gifB?.id === gifId
+            )
+        );
+        if (Object.keys(next).length === Object.keys(current).length) return next;
+        current = next;
+    }
+    return current;
+};
+
+/**
+ * Fetch bracket entrants in seed order from trending library GIFs or a category search
+ */
+export const fetchTournamentSeeds = async (
+    source: TournamentSeedSource,
+    size: BracketSize
+): Promise<Omit<ShowdownGIF, 'votes'>[]> => {
+    const seeds: Omit<ShowdownGIF, 'votes'>[] = [];
+    const seen = new Set<string>();
+    const add = (id: string, title: string | undefined, url: string) => {
+        if (!url || seen.has(id) || seeds.length >= size) return;
+        seen.add(id);
+        seeds.push({ id, title: title || 'Untitled', url });
+    };
+
+    if (source.type === 'trending') {
+        const gifs = await getPublishedGifs({ trendingPeriod: source.period, limit: size * 2 });
+        gifs.forEach(gif => add(gif.id, gif.title, gif.url));
+    } else {
+        const { items } = await aggregateSearch(source.query, { limit: size * 2 });
+        items.forEach(item => add(item.id, item.title, item.url));
+    }
+    return seeds;
+};
+
+const docToTournament = (id: string, data: any): Tournament => ({
+    id,
+    name: data.name,
+    size: data.size,
+    seedSource: data.seedSource,
+    status: data.status,
+    currentRound: data.currentRound || 0,
+    roundCount: data.roundCount,
+    roundDurationHours: data.roundDurationHours,
+    startsAt: data.startsAt.toDate(),
+    championId: data.championId || null,
+    createdAt: data.createdAt.toDate()
+});
+
+const docToMatch = (id: string, data: any): BracketMatch => ({
+    id,
+    round: data.round,
+    slot: data.slot,
+    gifA: data.gifA || null,
+    gifB: data.gifB || null,
+    winner: data.winner || null,
+    opensAt: toDate(data.opensAt),
+    closesAt: toDate(data.closesAt)
+});
+
+/**
+ * Create a bracket tournament (Admin only)
+ */
+export const createTournament = async (options: {
+    name: string;
+    size: BracketSize;
+    seedSource: TournamentSeedSource;
+    gifs: Omit<ShowdownGIF, 'votes'>[];
+    startsAt: Date;
+    roundDurationHours: number;
+}): Promise<{ success: boolean; message: string; id?: string }> => {
+    const { name, size, seedSource, gifs, startsAt, roundDurationHours } = options;
+
+    if (gifs.length < size) {
+        return { success: false, message: `Need ${size} GIFs, only found ${gifs.length}` };
+    }
+    if (roundDurationHours <= 0) {
+        return { success: false, message: 'Rounds need a vote window' };
+    }
+
+    try {
+        const tournamentRef = doc(collection(db, TOURNAMENT_COLLECTION));
+        const matches = buildBracket(gifs, size, startsAt, roundDurationHours);
+        const batch = writeBatch(db);
+
+        batch.set(tournamentRef, {
+            name: name.trim() || `${size}-GIF Bracket`,
+            size,
+            seedSource,
+            status: 'active',
+            currentRound: 0,
+            roundCount: Math.log2(size),
+            roundDurationHours,
+            startsAt: Timestamp.fromDate(startsAt),
+            championId: null,
+            // Rounds whose predictions advanceTournaments has credited
+            scoredRounds: [],
+            createdAt: Timestamp.now()
+        });
+
+        for (const match of matches) {
+            batch.set(doc(tournamentRef, 'matches', match.id), {
+                ...match,
+                opensAt: match.opensAt ? Timestamp.fromDate(match.opensAt) : null,
+                closesAt: match.closesAt ? Timestamp.fromDate(match.closesAt) : null
+            });
+        }
+
+        await batch.commit();
+        return { success: true, message: 'Tournament created!', id: tournamentRef.id };
+    } catch (error) {
+        console.error('Error creating tournament:', error);
+        return { success: false, message: 'Failed to create tournament' };
+    }
+};
+
+/**
+ * Most recent tournaments, newest first (Admin)
+ */
+export const getRecentTournaments = async (maxResults: number = 5): Promise<Tournament[]> => {
+    try {
+        const q = query(
+            collection(db, TOURNAMENT_COLLECTION),
+            orderBy('createdAt', 'desc'),
+            limit(maxResults)
+        );
+        const snapshot = await getDocs(q);
+        return snapshot.docs.map(d => docToTournament(d.id, d.data()));
+    } catch (error) {
+        console.error('Error fetching tournaments:', error);
+        return [];
+    }
+};
+
+/**
+ * Subscribe to the newest active tournament (null when none is running)
+ */
+export const subscribeToActiveTournament = (
+    callback: (tournament: Tournament | null) => void
+): (() => void) => {
+    const q = query(
+        collection(db, TOURNAMENT_COLLECTION),
+        where('status', '==', 'active'),
+        orderBy('createdAt', 'desc'),
+        limit(1)
+    );
+
+    return onSnapshot(q, (snapshot) => {
+        const first = snapshot.docs[0];
+        callback(first ? docToTournament(first.id, first.data()) : null);
+    }, (error) => {
+        console.error('Error subscribing to tournaments:', error);
+        callback(null);
+    });
+};
+
+/**
+ * Subscribe to every match in a tournament, ordered by round then slot
+ */
+export const subscribeToBracket = (
+    tournamentId: string,
+    callback: (matches: BracketMatch[]) => void
+): (() => void) => {
+    const matchesRef = collection(db, TOURNAMENT_COLLECTION, tournamentId, 'matches');
+
+    return onSnapshot(matchesRef, (snapshot) => {
+        const matches = snapshot.docs
+            .map(d => docToMatch(d.id, d.data()))
+            .sort((a, b) => a.round - b.round || a.slot - b.slot);
+        callback(matches);
+    });
+};
+
+/**
+ * Is a match taking votes right now?
+ */
+export const isMatchOpen = (match: BracketMatch, now: Date = new Date()): boolean =>
+    !match.winner && !!match.opensAt && !!match.closesAt &&
+    now >= match.opensAt && now < match.closesAt;
+
+/**
+ * Cast a vote in a bracket match
+ */
+export const castBracketVote = async (
+    tournamentId: string,
+    matchId: string,
+    userId: string,
+    choice: 'A' | 'B'
+): Promise<{ success: boolean; message: string }> => {
+    try {
+        const matchRef = doc(db, TOURNAMENT_COLLECTION, tournamentId, 'matches', matchId);
+        const voteRef = doc(db, TOURNAMENT_COLLECTION, tournamentId, 'votes', `${matchId}_${userId}`);
+
+        await runTransaction(db, async (transaction) => {
+            const [matchSnap, voteSnap] = await Promise.all([
+                transaction.get(matchRef),
+                transaction.get(voteRef)
+            ]);
+
+            if (!matchSnap.exists()) {
+                throw new Error('Match not found');
+            }
+            if (voteSnap.exists()) {
+                throw new Error('Already voted');
+            }
+            if (!isMatchOpen(docToMatch(matchSnap.id, matchSnap.data()))) {
+                throw new Error('Match is closed');
+            }
+
+            transaction.set(voteRef, {
+                odId: userId,
+                matchId,
+                votedFor: choice,
+                timestamp: Timestamp.now()
+            });
+
+            const voteField = choice === 'A' ? 'gifA.votes' : 'gifB.votes';
+            transaction.update(matchRef, {
+                [voteField]: increment(1)
+            });
+        });
+
+        return { success: true, message: 'Vote recorded!' };
+    } catch (error: any) {
+        console.error('Error casting bracket vote:', error);
+        if (error.message === 'Already voted') {
+            return { success: false, message: 'You already voted in this match!' };
+        }
+        if (error.message === 'Match is closed') {
+            return { success: false, message: 'Voting for this match is closed!' };
+        }
+        return { success: false, message: 'Failed to record vote' };
+    }
+};
+
+/**
+ * The user's votes in a tournament, by match id
+ */
+export const getUserBracketVotes = async (
+    tournamentId: string,
+    userId: string
+): Promise<Record<string, 'A' | 'B'>> => {
+    try {
+        const q = query(
+            collection(db, TOURNAMENT_COLLECTION, tournamentId, 'votes'),
+            where('odId', '==', userId)
+        );
+        const snapshot = await getDocs(q);
+        const votes: Record<string, 'A' | 'B'> = {};
+        snapshot.docs.forEach(d => {
+            const data = d.data();
+            votes[data.matchId] = data.votedFor;
+        });
+        return votes;
+    } catch (error) {
+        console.error('Error getting bracket votes:', error);
+        return {};
+    }
+};
+
+/**
+ * The user's bracket prediction, if they made one
+ */
+export const getBracketPrediction = async (
+    tournamentId: string,
+    userId: string
+): Promise<BracketPrediction | null> => {
+    try {
+        const snap = await getDoc(doc(db, TOURNAMENT_COLLECTION, tournamentId, 'predictions', userId));
+        if (!snap.exists()) return null;
+
+        const data = snap.data();
+        return {
+            userId: data.userId,
+            picks: data.picks || {},
+            points: data.points || 0,
+            correctPicks: data.correctPicks || 0,
+            submittedAt: data.submittedAt.toDate()
+        };
+    } catch (error) {
+        console.error('Error getting bracket prediction:', error);
+        return null;
+    }
+};
+
+/**
+ * Save the user's picks. Can be changed freely until the tournament starts.
+ */
+export const submitBracketPrediction = async (
+    tournament: Tournament,
+    userId: string,
+    picks: Record<string, string>
+): Promise<{ success: boolean; message: string }> => {
+    if (new Date() >= tournament.startsAt) {
+        return { success: false, message: 'Predictions are locked - the bracket has started!' };
+    }
+
+    try {
+        await setDoc(doc(db, TOURNAMENT_COLLECTION, tournament.id, 'predictions', userId), {
+            userId,
+            picks,
+            points: 0,
+            correctPicks: 0,
+            submittedAt: Timestamp.now()
+        });
+        return { success: true, message: 'Bracket locked in! 🔥' };
+    } catch (error) {
+        console.error('Error saving bracket prediction:', error);
+        return { success: false, message: 'Failed to save your bracket' };
+    }
+};
+
+/**
+ * Settle the current round now instead of waiting for its window to close (Admin only)
+ */
+export const forceAdvanceTournament = async (
+    tournamentId: string
+): Promise<{ success: boolean; message: string }> => {
+    try {
+        const advance = httpsCallable<{ tournamentId: string }, { message: string }>(functions, 'forceAdvanceTournament');
+        const { data } = await advance({ tournamentId });
+        return { success: true, message: data.message };
+    } catch (error: any) {
+        console.error('Error advancing tournament:', error);
+        return { success: false, message: error?.message || 'Failed to advance tournament' };
+    }
+};
+
+/**
+ * Stop a tournament; its bracket stays readable (Admin only)
+ */
+export const cancelTournament = async (
+    tournamentId: string
+): Promise<{ success: boolean; message: string }> => {
+    try {
+        await updateDoc(doc(db, TOURNAMENT_COLLECTION, tournamentId), { status: 'cancelled' });
+        return { success: true, message: 'Tournament cancelled' };
+    } catch (error) {
+        console.error('Error cancelling tournament:', error);
+        return { success: false, message: 'Failed to cancel tournament' };
+    }
+};
@@ -0,0 +1,91 @@
+/**
+ * Text masks for temporal text removal
+ *
+ * A keyframe's mask is where Gemini's cleaned version differs from the source. Gemini
+ * regenerates the whole frame, so a keyframe whose diff isn't local (it covers more than
+ * `maxCoverage` of the frame) says nothing about where the text was and is left out.
+ * Pure functions over pixel buffers so they can be checked without a browser.
+ */
+
+export interface TextMaskOptions {
+    threshold: number;      // Summed RGB difference that counts as "text changed here"
+    dilation: number;       // Pixels to grow the mask by to cover anti-aliased edges
+    maxCoverage: number;    // Largest share of the frame a usable mask may cover (0-1)
+}
+
+// Only the pixels are read, so plain buffers work where ImageData doesn't exist
+export type Pixels = Pick<ImageData, 'data'>;
+
+/**
+ * Mark the pixels where `cleaned` differs from `original` by more than `threshold`
+ */
+export const diffMask = (original: Pixels, cleaned: Pixels, threshold: number, mask: Uint8Array): void => {
+    const a = original.data;
+    const b = cleaned.data;
+    for (let p = 0, i = 0; p < mask.length; p++, i += 4) {
+        const diff = Math.abs(a[i] - b[i]) + Math.abs(a[i + 1] - b[i + 1]) + Math.abs(a[i + 2] - b[i + 2]);
+        if (diff > threshold) mask[p] = 1;
+    }
+};
+
+/**
+ * Grow a mask by `radius` pixels (separable box dilation)
+ */
+export const dilateMask = (mask: Uint8Array, width: number, height: number, radius: number): Uint8Array => {
+    if (radius <= 0) return mask;
+    const horizontal = new Uint8Array(mask.length);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!mask[y * width + x]) continue;
+            const from = Math.max(0, x - radius);
+            const to = Math.min(width - 1, x + radius);
+            for (let nx = from; nx <= to; nx++) horizontal[y * width + nx] = 1;
+        }
+    }
+    const result = new Uint8Array(mask.length);
+    for (let x = 0; x < width; x++) {
+        for (let y = 0; y < height; y++) {
+            if (!horizontal[y * width + x]) continue;
+            const from = Math.max(0, y - radius);
+            const to = Math.min(height - 1, y + radius);
+            for (let ny = from; ny <= to; ny++) result[ny * width + x] = 1;
+        }
+    }
+    return result;
+};
+
+/**
+ * Share of the frame a mask covers (0-1)
+ */
+export const maskCoverage = (mask: Uint8Array): number => {
+    let covered = 0;
+    for (let p = 0; p < mask.length; p++) covered += mask[p];
+    return mask.length ? covered / mask.length : 0;
+};
+
+/**
+ * One text mask shared by every frame, merged from the keyframes whose diffs stay local.
+ * Null when no keyframe gives a usable mask, or the merged mask is itself too large -
+ * the caller can't tell text from regeneration noise then.
+ */
+export const buildTextMask = (
+    pairs: Array<{ original: Pixels; cleaned: Pixels }>,
+    width: number,
+    height: number,
+    options: TextMaskOptions
+): Uint8Array | null => {
+    const merged = new Uint8Array(width * height);
+    let usable = 0;
+
+    for (const { original, cleaned } of pairs) {
+        const mask = new Uint8Array(width * height);
+        diffMask(original, cleaned, options.threshold, mask);
+        if (maskCoverage(mask) > options.maxCoverage) continue;
+        for (let p = 0; p < mask.length; p++) merged[p] |= mask[p];
+        usable++;
+    }
+    if (usable === 0) return null;
+
+    const mask = dilateMask(merged, width, height, options.dilation);
+    return maskCoverage(mask) > options.maxCoverage ? null : mask;
+};
@@ -0,0 +1,344 @@
+/**
+ * Usage Service - Metering and budget enforcement for AI calls
+ *
+ * Every Gemini/Veo call records into a per-user, per-day ledger broken down by model.
+ * Before a call goes out, a pre-flight check compares its estimated cost against the
+ * caller's daily role quota and either lets it through, degrades it to a cheaper
+ * model, or blocks it.
+ *
+ * Stores in Firestore:
+ * - usage_ledger/{userId}_{YYYY-MM-DD} (daily ledger per user)
+ * - settings/usageConfig (optional cost table / quota overrides)
+ *
+ * Anonymous visitors are metered in localStorage.
+ */
+
+import { auth, db } from './firebaseConfig';
+import { onIdTokenChanged } from 'firebase/auth';
+import {
+    doc,
+    getDoc,
+    setDoc,
+    increment,
+    serverTimestamp
+} from 'firebase/firestore';
+import { getCurrentUser } from './authService';
+import { getUserProfile, UserProfile } from './userProfileService';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type UsageUnit = 'call' | 'image' | 'second';
+export type UsageRole = UserProfile['role'] | 'anonymous';
+
+export interface ModelCost {
+    unit: UsageUnit;
+    costPerUnit: number;     // USD
+    fallback?: string;       // Cheaper model to degrade to when over budget
+}
+
+export interface UsageConfig {
+    modelCosts: Record<string, ModelCost>;
+    roleQuotas: Record<UsageRole, number | null>;  // Daily USD budget, null = unlimited
+}
+
+export interface ModelUsage {
+    calls: number;
+    units: number;
+    cost: number;
+}
+
+export interface DailyUsage {
+    date: string;
+    totalCost: number;
+    totalCalls: number;
+    models: Record<string, ModelUsage>;
+}
+
+export interface BudgetCheck {
+    allowed: boolean;
+    model: string;           // Model to actually use (may be a degraded fallback)
+    degraded: boolean;
+    estimatedCost: number;
+    remaining: number | null; // USD left today, null = unlimited
+    reason?: string;
+}
+
+export class BudgetExceededError extends Error {
+    constructor(public check: BudgetCheck) {
+        super(check.reason || 'Daily AI budget exceeded');
+        this.name = 'BudgetExceededError';
+    }
+}
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+const LEDGER_COLLECTION = 'usage_ledger';
+const CONFIG_DOC = { collection: 'settings', id: 'usageConfig' };
+const LOCAL_LEDGER_PREFIX = 'saucy_usage_';
+const CONFIG_CACHE_TTL = 5 * 60 * 1000;
+
+// Approximate list prices - override per model in settings/usageConfig
+export const DEFAULT_MODEL_COSTS: Record<string, ModelCost> = {
+    'gemini-3-pro-image-preview': { unit: 'image', costPerUnit: 0.134, fallback: 'gemini-2.5-flash-image' },
+    'gemini-2.5-flash-image': { unit: 'image', costPerUnit: 0.039 },
+    'gemini-3-pro-preview': { unit: 'call', costPerUnit: 0.01, fallback: 'gemini-2.5-flash' },
+    'gemini-2.5-flash': { unit: 'call', costPerUnit: 0.002 },
+    'gemini-2.0-flash': { unit: 'call', costPerUnit: 0.001 },
+    'gemini-1.5-flash': { unit: 'call', costPerUnit: 0.001 },
+    'veo-3.1-fast-generate-preview': { unit: 'second', costPerUnit: 0.15 },
+};
+
+// Unknown models are charged conservatively rather than for free
+const UNKNOWN_MODEL_COST: ModelCost = { unit: 'call', costPerUnit: 0.05 };
+
+export const DEFAULT_ROLE_QUOTAS: Record<UsageRole, number | null> = {
+    anonymous: 0.25,
+    user: 2,
+    admin: 25,
+    owner: null,
+};
+
+let cachedConfig: { config: UsageConfig; fetchedAt: number } | null = null;
+let cachedRole: { uid: string; role: UsageRole } | null = null;
+
+// Sign-in, sign-out and token refreshes (which is how a role change arrives) all drop
+// the cached role, so the next check never uses the previous user's or the old role
+onIdTokenChanged(auth, () => {
+    cachedRole = null;
+});
+
+/**
+ * Get the effective usage config (defaults merged with Firestore overrides)
+ */
+export const getUsageConfig = async (): Promise<UsageConfig> => {
+    if (cachedConfig && Date.now() - cachedConfig.fetchedAt < CONFIG_CACHE_TTL) {
+        return cachedConfig.config;
+    }
+
+    const config: UsageConfig = {
+        modelCosts: { ...DEFAULT_MODEL_COSTS },
+        roleQuotas: { ...DEFAULT_ROLE_QUOTAS },
+    };
+
+    try {
+        const snap = await getDoc(doc(db, CONFIG_DOC.collection, CONFIG_DOC.id));
+        if (snap.exists()) {
+            const overrides = snap.data() as Partial<UsageConfig>;
+            Object.assign(config.modelCosts, overrides.modelCosts || {});
+            Object.assign(config.roleQuotas, overrides.roleQuotas || {});
+        }
+    } catch (error) {
+        console.warn('Usage config fetch failed, using defaults:', error);
+    }
+
+    cachedConfig = { config, fetchedAt: Date.now() };
+    return config;
+};
+
+/**
+ * Update cost table / quota overrides (admin only)
+ */
+export const updateUsageConfig = async (updates: Partial<UsageConfig>): Promise<void> => {
+    await setDoc(doc(db, CONFIG_DOC.collection, CONFIG_DOC.id), updates, { merge: true });
+    cachedConfig = null;
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const getToday = (): string => new Date().toISOString().split('T')[0];
+
+const emptyUsage = (date: string): DailyUsage => ({ date, totalCost: 0, totalCalls: 0, models: {} });
+
+/**
+ * Resolve the role used for quota lookup for the signed-in user
+ */
+const getUsageRole = async (uid: string | null): Promise<UsageRole> => {
+    if (!uid) return 'anonymous';
+    if (cachedRole?.uid === uid) return cachedRole.role;
+
+    try {
+        const profile = await getUserProfile(uid);
+        const role: UsageRole = profile?.role || 'user';
+        cachedRole = { uid, role };
+        return role;
+    } catch (error) {
+        console.warn('Could not resolve role for usage quota:', error);
+        return 'user';
+    }
+};
+
+/**
+ * Estimate the cost of a call in USD
+ */
+export const estimateCost = (model: string, units: number, config: UsageConfig): number => {
+    const cost = config.modelCosts[model] || UNKNOWN_MODEL_COST;
+    return cost.costPerUnit * units;
+};
+
+/**
+ * Format a remaining budget for display
+ */
+export const formatBudget = (remaining: number | null): string => {
+    return remaining === null ? 'Unlimited' : `$${Math.max(0, remaining).toFixed(2)}`;
+};
+
+// =============================================================================
+// LEDGER
+// =============================================================================
+
+/**
+ * Get today's usage for the current user (or anonymous visitor)
+ */
+export const getTodayUsage = async (): Promise<DailyUsage> => {
+    const date = getToday();
+    const user = getCurrentUser();
+
+    if (!user) {
+        const stored = localStorage.getItem(`${LOCAL_LEDGER_PREFIX}${date}`);
+        return stored ? JSON.parse(stored) : emptyUsage(date);
+    }
+
+    try {
+        const snap = await getDoc(doc(db, LEDGER_COLLECTION, `${user.uid}_${date}`));
+        if (snap.exists()) {
+            const data = snap.data();
+            return {
+                date,
+                totalCost: data.totalCost || 0,
+                totalCalls: data.totalCalls || 0,
+                models: data.models || {},
+            };
+        }
+    } catch (error) {
+        console.warn('Usage ledger fetch failed:', error);
+    }
+    return emptyUsage(date);
+};
+
+/**
+ * Record a completed AI call into the ledger
+ */
+export const recordUsage = async (model: string, units: number = 1): Promise<void> => {
+    const config = await getUsageConfig();
+    const cost = estimateCost(model, units, config);
+    const date = getToday();
+    const user = getCurrentUser();
+
+    if (!user) {
+        const key = `${LOCAL_LEDGER_PREFIX}${date}`;
+        const usage: DailyUsage = JSON.parse(localStorage.getItem(key) || 'null') || emptyUsage(date);
+        const modelUsage = usage.models[model] || { calls: 0, units: 0, cost: 0 };
+        usage.models[model] = {
+            calls: modelUsage.calls + 1,
+            units: modelUsage.units + units,
+            cost: modelUsage.cost + cost,
+        };
+        usage.totalCost += cost;
+        usage.totalCalls += 1;
+        localStorage.setItem(key, JSON.stringify(usage));
+        return;
+    }
+
+    try {
+        await setDoc(doc(db, LEDGER_COLLECTION, `${user.uid}_${date}`), {
+            userId: user.uid,
+            date,
+            role: await getUsageRole(user.uid),
+            totalCost: increment(cost),
+            totalCalls: increment(1),
+            models: {
+                [model]: {
+                    calls: increment(1),
+                    units: increment(units),
+                    cost: increment(cost),
+                },
+            },
+            updatedAt: serverTimestamp(),
+        }, { merge: true });
+    } catch (error) {
+        console.error('Failed to record usage:', error);
+    }
+};
+
+// =============================================================================
+// BUDGET ENFORCEMENT
+// =============================================================================
+
+/**
+ * Pre-flight check: can the current user afford this call?
+ * Falls back along the model's `fallback` chain before blocking.
+ */
+export const checkBudget = async (model: string, units: number = 1): Promise<BudgetCheck> => {
+    const config = await getUsageConfig();
+    const user = getCurrentUser();
+    const role = await getUsageRole(user?.uid || null);
+    const quota = config.roleQuotas[role];
+    const estimatedCost = estimateCost(model, units, config);
+
+    if (quota === null || quota === undefined) {
+        return { allowed: true, model, degraded: false, estimatedCost, remaining: null };
+    }
+
+    const usage = await getTodayUsage();
+    const remaining = quota - usage.totalCost;
+
+    // Walk the fallback chain until something fits
+    let candidate: string | undefined = model;
+    const visited = new Set<string>();
+    while (candidate && !visited.has(candidate)) {
+        visited.add(candidate);
+        const cost = estimateCost(candidate, units, config);
+        if (cost <= remaining) {
+            return {
+                allowed: true,
+                model: candidate,
+                degraded: candidate !== model,
+                estimatedCost: cost,
+                remaining,
+            };
+        }
+        candidate = config.modelCosts[candidate]?.fallback;
+    }
+
+    return {
+        allowed: false,
+        model,
+        degraded: false,
+        estimatedCost,
+        remaining,
+        reason: `Daily AI budget reached (${formatBudget(remaining)} left, this needs ~$${estimatedCost.toFixed(2)}). Try again tomorrow.`,
+    };
+};
+
+/**
+ * Run an AI call under budget enforcement and record it on success.
+ * `fn` receives the model to use, which may be a cheaper fallback.
+ * Calls that go through the Gemini gateway are checked and recorded by the function
+ * itself (`serverMetered`), so only the pre-flight check runs here.
+ */
+export const withUsage = async <T>(
+    model: string,
+    units: number,
+    fn: (model: string) => Promise<T>,
+    options: { serverMetered?: boolean } = {}
+): Promise<T> => {
+    const check = await checkBudget(model, units);
+    if (!check.allowed) {
+        throw new BudgetExceededError(check);
+    }
+    if (check.degraded) {
+        console.warn(`Budget: degrading ${model} -> ${check.model}`);
+    }
+
+    const result = await fn(check.model);
+    if (!options.serverMetered) {
+        await recordUsage(check.model, units);
+    }
+    return result;
+};
@@ -15,6 +15,7 @@ import {
     serverTimestamp
 } from 'firebase/firestore';
 import { db } from './firebaseConfig';
+import { isGeminiGatewayEnabled, saveGatewayKey } from './geminiGateway';
 
 export interface UserPreferences {
     defaultSize?: string;
@@ -31,9 +32,16 @@ export interface SavedCreation {
 }
 
 /**
- * Save user's API key to Firestore (encrypted storage)
+ * Save user's API key
+ * With the Gemini gateway enabled the key is encrypted and stored server-side
+ * (user_secrets/{uid}) and never written to the user's document.
  */
 export const saveUserApiKey = async (uid: string, apiKey: string): Promise<void> => {
+    if (isGeminiGatewayEnabled()) {
+        await saveGatewayKey(apiKey);
+        return;
+    }
+
     const userRef = doc(db, 'users', uid);
     await setDoc(userRef, {
         apiKey,
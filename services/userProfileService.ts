@@ -1,5 +1,8 @@
 /**
  * User Profile Service - Firestore persistence for Saucy user profiles
+ *
+ * Roles live in the `role` custom claim, set only by the setUserRole / syncRoleClaim
+ * functions. users/{uid}.role mirrors the claim for display and listing.
  */
 
 import {
@@ -11,11 +14,11 @@ import {
     getDocs,
     orderBy,
     limit,
-    addDoc,
     serverTimestamp,
     Timestamp
 } from 'firebase/firestore';
-import { db } from './firebaseConfig';
+import { httpsCallable } from 'firebase/functions';
+import { auth, db, functions } from './firebaseConfig';
 
 export interface UserProfile {
     uid: string;
@@ -23,6 +26,7 @@ export interface UserProfile {
     displayName: string;
     photoURL: string;
     role: 'user' | 'admin' | 'owner';
+    brand?: boolean;            // Mirror of the `brand` claim (custom fonts)
 
     // Referrals (track now, reward later)
     referralCode: string;
@@ -33,14 +37,9 @@ export interface UserProfile {
     updatedAt: Timestamp;
 }
 
-// Owner - Brian Taylor has ultimate authority over everything
-const OWNER_EMAIL = 'brntay956@gmail.com';
+type Role = UserProfile['role'];
 
-// Admin emails list - can be moved to Firestore later
-const ADMIN_EMAILS = [
-    'admin@saucy.com',
-    'ted@432labs.io', // Ted Samuels
-];
+const ROLES: Role[] = ['user', 'admin', 'owner'];
 
 /**
  * Generate a unique referral code for a user
@@ -54,6 +53,42 @@ const generateReferralCode = (displayName: string): string => {
     return `SAUCY-${cleanName}${randomDigits}`;
 };
 
+// ============================================
+// ROLE CLAIMS
+// ============================================
+
+/**
+ * Role from the signed-in user's ID token claim (null if none has been set yet)
+ */
+export const getRoleClaim = async (forceRefresh: boolean = false): Promise<Role | null> => {
+    const user = auth.currentUser;
+    if (!user) return null;
+    const { claims } = await user.getIdTokenResult(forceRefresh);
+    return ROLES.includes(claims.role as Role) ? claims.role as Role : null;
+};
+
+/**
+ * Whether the signed-in user is a brand account (the `brand` claim set by setBrandAccount)
+ */
+export const getBrandClaim = async (forceRefresh: boolean = false): Promise<boolean> => {
+    const user = auth.currentUser;
+    if (!user) return false;
+    const { claims } = await user.getIdTokenResult(forceRefresh);
+    return claims.brand === true;
+};
+
+/**
+ * Ask the server to bootstrap/confirm the caller's role claim, refreshing the ID token if it changed
+ */
+export const syncRoleClaim = async (): Promise<Role> => {
+    const sync = httpsCallable<void, { role: Role; refreshed: boolean }>(functions, 'syncRoleClaim');
+    const { data } = await sync();
+    if (data.refreshed) {
+        await auth.currentUser?.getIdToken(true);
+    }
+    return data.role;
+};
+
 /**
  * Create a new user profile on first sign-in
  */
@@ -72,13 +107,8 @@ export const createUserProfile = async (
         return existingDoc.data() as UserProfile;
     }
 
-    // Determine role based on email (owner > admin > user)
-    const emailLower = email.toLowerCase();
-    const role = emailLower === OWNER_EMAIL
-        ? 'owner'
-        : ADMIN_EMAILS.includes(emailLower)
-            ? 'admin'
-            : 'user';
+    // Mirror whatever the claim says; a brand new account has none yet
+    const role = (await getRoleClaim()) || 'user';
 
     const profile: Omit<UserProfile, 'createdAt' | 'updatedAt'> & { createdAt: any; updatedAt: any } = {
         uid,
@@ -93,13 +123,9 @@ export const createUserProfile = async (
         updatedAt: serverTimestamp(),
     };
 
+    // The referrer is credited by the creditReferral function once this profile exists
     await setDoc(userRef, profile);
 
-    // If referred by someone, increment their referral count
-    if (referredBy) {
-        await incrementReferralCount(referredBy);
-    }
-
     // Fetch the created profile to get proper timestamps
     const createdDoc = await getDoc(userRef);
     return createdDoc.data() as UserProfile;
@@ -151,28 +177,25 @@ export const updateUserProfile = async (
  * Check if a user is an admin (or owner - owners have all admin privileges)
  */
 export const isUserAdmin = async (uid: string): Promise<boolean> => {
-    const profile = await getUserProfile(uid);
-    return profile?.role === 'admin' || profile?.role === 'owner';
+    const role = await getRoleFor(uid);
+    return role === 'admin' || role === 'owner';
 };
 
 /**
  * Check if a user is the owner (ultimate authority)
  */
 export const isUserOwner = async (uid: string): Promise<boolean> => {
-    const profile = await getUserProfile(uid);
-    return profile?.role === 'owner';
+    return (await getRoleFor(uid)) === 'owner';
 };
 
 /**
- * Increment a user's referral count
+ * The signed-in user's role comes from their claim; anyone else's from the profile mirror
  */
-const incrementReferralCount = async (uid: string): Promise<void> => {
-    const profile = await getUserProfile(uid);
-    if (profile) {
-        await updateUserProfile(uid, {
-            referralCount: (profile.referralCount || 0) + 1,
-        });
+const getRoleFor = async (uid: string): Promise<Role | undefined> => {
+    if (auth.currentUser?.uid === uid) {
+        return (await getRoleClaim()) || 'user';
     }
+    return (await getUserProfile(uid))?.role;
 };
 
 /**
@@ -200,32 +223,28 @@ export const ensureUserProfile = async (
     }
 
     const existing = await getUserProfile(uid);
+    let profile: UserProfile;
     if (existing) {
-        // Determine what role the user SHOULD have based on email
-        const emailLower = email.toLowerCase();
-        const correctRole = emailLower === OWNER_EMAIL
-            ? 'owner'
-            : ADMIN_EMAILS.includes(emailLower)
-                ? 'admin'
-                : existing.role; // Keep their current role if not owner/admin
-
-        // Update basic info and role if needed
-        const needsUpdate =
-            existing.displayName !== displayName ||
-            existing.photoURL !== photoURL ||
-            existing.role !== correctRole;
-
-        if (needsUpdate) {
-            await updateUserProfile(uid, {
-                displayName,
-                photoURL,
-                role: correctRole
-            });
-            console.log(`Updated user ${email} role from '${existing.role}' to '${correctRole}'`);
+        // Update basic info if needed - the role is only ever written server-side
+        if (existing.displayName !== displayName || existing.photoURL !== photoURL) {
+            await updateUserProfile(uid, { displayName, photoURL });
+        }
+        profile = { ...existing, displayName, photoURL };
+    } else {
+        profile = await createUserProfile(uid, email, displayName, photoURL);
+    }
+
+    // The server owns the role: bootstraps the claim and mirrors it onto the profile
+    try {
+        const role = await syncRoleClaim();
+        if (role !== profile.role) {
+            console.log(`Synced user ${email} role from '${profile.role}' to '${role}'`);
         }
-        return { ...existing, displayName, photoURL, role: correctRole };
+        return { ...profile, role };
+    } catch (error) {
+        console.warn('Role claim sync failed, using token claim:', error);
+        return { ...profile, role: (await getRoleClaim()) || 'user' };
     }
-    return createUserProfile(uid, email, displayName, photoURL);
 };
 
 // ============================================
@@ -261,77 +280,45 @@ export const getAllUsers = async (maxResults: number = 100): Promise<UserProfile
 };
 
 /**
- * Change a user's role (owner only can change admins, admins can change regular users)
+ * Change a user's role via the setUserRole function, which enforces the hierarchy
+ * (only the owner manages admins, owners can't be changed) and writes the audit entry
  */
 export const changeUserRole = async (
     targetUid: string,
     newRole: UserProfile['role'],
-    changedByUid: string,
     reason?: string
 ): Promise<{ success: boolean; message: string }> => {
     try {
-        // Get the admin making the change
-        const adminProfile = await getUserProfile(changedByUid);
-        if (!adminProfile) {
-            return { success: false, message: 'Admin profile not found' };
-        }
-
-        // Only owners and admins can change roles
-        if (adminProfile.role !== 'owner' && adminProfile.role !== 'admin') {
-            return { success: false, message: 'Insufficient permissions' };
-        }
-
-        // Get target user
-        const targetProfile = await getUserProfile(targetUid);
-        if (!targetProfile) {
-            return { success: false, message: 'Target user not found' };
-        }
-
-        // Only owner can modify admin roles or create new owners
-        if (newRole === 'owner' || targetProfile.role === 'admin' || newRole === 'admin') {
-            if (adminProfile.role !== 'owner') {
-                return { success: false, message: 'Only owner can modify admin roles' };
-            }
-        }
-
-        // Cannot change owner's role
-        if (targetProfile.role === 'owner') {
-            return { success: false, message: 'Cannot change owner role' };
-        }
-
-        // Cannot demote yourself if you're owner
-        if (targetUid === changedByUid && adminProfile.role === 'owner') {
-            return { success: false, message: 'Owner cannot demote themselves' };
-        }
-
-        const previousRole = targetProfile.role;
-
-        // Update user role
-        await updateUserProfile(targetUid, { role: newRole });
-
-        // Create audit log entry
-        const auditEntry: Omit<RoleChangeAudit, 'id' | 'timestamp'> & { timestamp: any } = {
-            targetUid,
-            targetEmail: targetProfile.email,
-            previousRole,
-            newRole,
-            changedByUid,
-            changedByEmail: adminProfile.email,
-            reason,
-            timestamp: serverTimestamp()
-        };
-
-        await addDoc(collection(db, 'role_change_audit'), auditEntry);
-
-        console.log(`Role changed: ${targetProfile.email} from '${previousRole}' to '${newRole}' by ${adminProfile.email}`);
-
-        return {
-            success: true,
-            message: `Changed ${targetProfile.displayName}'s role from ${previousRole} to ${newRole}`
-        };
-    } catch (error) {
+        const setRole = httpsCallable<
+            { targetUid: string; newRole: UserProfile['role']; reason?: string },
+            { role: UserProfile['role']; message: string }
+        >(functions, 'setUserRole');
+        const { data } = await setRole({ targetUid, newRole, ...(reason ? { reason } : {}) });
+        return { success: true, message: data.message };
+    } catch (error: any) {
         console.error('Failed to change user role:', error);
-        return { success: false, message: 'Failed to change role' };
+        // Callable errors carry the function's reason (e.g. 'Only owner can modify admin roles')
+        return { success: false, message: error?.message || 'Failed to change role' };
+    }
+};
+
+/**
+ * Turn brand features (custom caption fonts) on or off for a user via the setBrandAccount function
+ */
+export const setBrandAccount = async (
+    targetUid: string,
+    brand: boolean
+): Promise<{ success: boolean; message: string }> => {
+    try {
+        const setBrand = httpsCallable<
+            { targetUid: string; brand: boolean },
+            { brand: boolean; message: string }
+        >(functions, 'setBrandAccount');
+        const { data } = await setBrand({ targetUid, brand });
+        return { success: true, message: data.message };
+    } catch (error: any) {
+        console.error('Failed to change brand account:', error);
+        return { success: false, message: error?.message || 'Failed to change brand account' };
     }
 };
 
@@ -5,6 +5,13 @@
 
 import { GoogleGenAI } from "@google/genai";
 import { getSaucyApiKey } from "./authService";
+import { withUsage, checkBudget, recordUsage } from "./usageService";
+import { isGeminiGatewayEnabled, callGateway } from "./geminiGateway";
+import { encodeGif, encodeAnimatedWebp } from "./gifCodec";
+
+// Veo 3.1 clips are 8 seconds; Veo is billed per generated second
+const VEO_MODEL = "veo-3.1-fast-generate-preview";
+const VEO_CLIP_SECONDS = 8;
 
 interface ReferenceImage {
     image: { imageBytes: string; mimeType: string };
@@ -68,6 +75,11 @@ export const generateAnimation = async (
         };
     }
 
+    const budget = await checkBudget(VEO_MODEL, VEO_CLIP_SECONDS);
+    if (!budget.allowed) {
+        return { success: false, error: budget.reason };
+    }
+
     try {
         const ai = new GoogleGenAI({ apiKey: key });
 
@@ -88,7 +100,7 @@ export const generateAnimation = async (
 
         // Start the video generation
         let operation = await (ai.models as any).generateVideos({
-            model: "veo-3.1-fast-generate-preview", // Using fast version for quicker results
+            model: VEO_MODEL, // Using fast version for quicker results
             prompt: prompt,
             config: {
                 referenceImages: references,
@@ -125,6 +137,7 @@ export const generateAnimation = async (
             };
         }
 
+        await recordUsage(VEO_MODEL, VEO_CLIP_SECONDS);
         onProgress?.("Video generated! Preparing download...");
 
         // Return the video URL or data
@@ -158,53 +171,142 @@ export const generateAnimation = async (
     }
 };
 
+export interface VideoToGifOptions {
+    fps?: number;           // Frames sampled per second (default 12)
+    startTime?: number;     // Trim start in seconds (default 0)
+    endTime?: number;       // Trim end in seconds (default: end of video)
+    maxSize?: number;       // Longest side in px (default 512 for Slack emoji)
+    loopCount?: number;     // 0 = forever (default)
+    paletteSize?: number;   // Shared palette colours (default 256)
+    includeWebp?: boolean;  // Also produce an animated WebP
+}
+
+export interface VideoGifResult {
+    gifUrl: string;         // Object URL for the GIF
+    gifBlob: Blob;
+    webpUrl?: string;
+    webpBlob?: Blob;
+    width: number;
+    height: number;
+    frameCount: number;
+}
+
+// Hard cap so long clips can't exhaust memory; longer trims are sampled at a lower fps
+const MAX_GIF_FRAMES = 150;
+
 /**
  * Convert a video (MP4) to an animated GIF
- * This is a client-side conversion using canvas
+ * Samples frames at a fixed fps over the trim range (lowered if the range would need more
+ * than MAX_GIF_FRAMES), quantizes them to one shared palette and encodes a real animated GIF
+ * (plus optional animated WebP) client-side. The caller owns the returned object URLs -
+ * release them with revokeGifResult.
  */
 export const videoToGif = async (
     videoUrl: string,
-    onProgress?: (status: string) => void
-): Promise<string> => {
-    onProgress?.("Converting video to GIF...");
+    onProgress?: (status: string) => void,
+    options: VideoToGifOptions = {}
+): Promise<VideoGifResult> => {
+    const {
+        fps = 12,
+        maxSize = 512,
+        loopCount = 0,
+        paletteSize = 256,
+        includeWebp = false,
+    } = options;
+
+    onProgress?.("Loading video...");
+
+    const video = document.createElement("video");
+    video.crossOrigin = "anonymous";
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = "auto";
+
+    await new Promise<void>((resolve, reject) => {
+        video.onloadedmetadata = () => resolve();
+        video.onerror = () => reject(new Error("Failed to load video"));
+        video.src = videoUrl;
+        video.load();
+    });
 
-    return new Promise((resolve, reject) => {
-        const video = document.createElement("video");
-        video.crossOrigin = "anonymous";
-        video.muted = true;
-        video.playsInline = true;
+    const canvas = document.createElement("canvas");
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error("Could not get canvas context");
+    }
 
-        video.onloadedmetadata = async () => {
-            const canvas = document.createElement("canvas");
-            const ctx = canvas.getContext("2d");
-            if (!ctx) {
-                reject(new Error("Could not get canvas context"));
-                return;
-            }
+    // Set canvas size (max 512px for Slack emoji)
+    const scale = Math.min(1, maxSize / video.videoWidth, maxSize / video.videoHeight);
+    canvas.width = Math.floor(video.videoWidth * scale);
+    canvas.height = Math.floor(video.videoHeight * scale);
 
-            // Set canvas size (max 512px for Slack emoji)
-            const maxSize = 512;
-            const scale = Math.min(maxSize / video.videoWidth, maxSize / video.videoHeight);
-            canvas.width = Math.floor(video.videoWidth * scale);
-            canvas.height = Math.floor(video.videoHeight * scale);
+    const start = Math.max(0, options.startTime ?? 0);
+    const end = Math.min(video.duration, options.endTime ?? video.duration);
+    if (!(end > start)) {
+        throw new Error("Trim range is empty");
+    }
 
-            // For now, just capture frames and return as animated webp/gif
-            // A full GIF encoder would be needed for proper animated GIF output
-            // This is a simplified version that returns the first frame
-            video.currentTime = 0;
+    // Cover the whole trim: drop the sampling rate rather than the tail
+    const sampleFps = Math.min(fps, MAX_GIF_FRAMES / (end - start));
+    const frameDelay = Math.round(1000 / sampleFps);
+    const frameCount = Math.min(MAX_GIF_FRAMES, Math.max(1, Math.floor((end - start) * sampleFps)));
+    const frames: Array<{ imageData: ImageData; delay: number }> = [];
 
-            await new Promise<void>((r) => {
-                video.onseeked = () => r();
-            });
+    for (let i = 0; i < frameCount; i++) {
+        onProgress?.(`Capturing frame ${i + 1}/${frameCount}...`);
+        const seeked = new Promise<void>((r) => {
+            video.onseeked = () => r();
+        });
+        video.currentTime = Math.min(end, start + i / sampleFps);
+        await seeked;
 
-            ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-            resolve(canvas.toDataURL("image/png"));
-        };
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        frames.push({ imageData: ctx.getImageData(0, 0, canvas.width, canvas.height), delay: frameDelay });
+    }
 
-        video.onerror = () => reject(new Error("Failed to load video"));
-        video.src = videoUrl;
-        video.load();
+    onProgress?.("Encoding GIF...");
+    const gifBlob = await encodeGif(frames, {
+        width: canvas.width,
+        height: canvas.height,
+        loopCount,
+        paletteSize,
+        onProgress: (p) => onProgress?.(`Encoding GIF... ${Math.round(p)}%`),
     });
+
+    const result: VideoGifResult = {
+        gifUrl: URL.createObjectURL(gifBlob),
+        gifBlob,
+        width: canvas.width,
+        height: canvas.height,
+        frameCount: frames.length,
+    };
+
+    if (includeWebp) {
+        onProgress?.("Encoding WebP...");
+        try {
+            const webpBlob = await encodeAnimatedWebp(frames, {
+                width: canvas.width,
+                height: canvas.height,
+                loopCount,
+            });
+            result.webpBlob = webpBlob;
+            result.webpUrl = URL.createObjectURL(webpBlob);
+        } catch (error) {
+            console.warn("Animated WebP encoding failed, returning GIF only:", error);
+        }
+    }
+
+    return result;
+};
+
+/**
+ * Release the object URLs created by videoToGif
+ */
+export const revokeGifResult = (result: VideoGifResult): void => {
+    URL.revokeObjectURL(result.gifUrl);
+    if (result.webpUrl) {
+        URL.revokeObjectURL(result.webpUrl);
+    }
 };
 
 // ============================================
@@ -224,14 +326,14 @@ export async function enhancePromptWithGemini(prompt: string): Promise<string> {
     try {
         const genAI = new GoogleGenAI({ apiKey: key });
 
-        const response = await genAI.models.generateContent({
-            model: 'gemini-2.0-flash',
+        const response = await withUsage('gemini-2.0-flash', 1, (model) => genAI.models.generateContent({
+            model,
             contents: `You are a video prompt engineer. Enhance this prompt for AI video generation, making it more descriptive and visually specific. Keep it under 200 characters.
 
 Original prompt: "${prompt}"
 
 Enhanced prompt:`,
-        });
+        }));
 
         const enhanced = response.text?.trim() || prompt;
         console.log(`Prompt enhanced: "${prompt}" -> "${enhanced}"`);
@@ -262,15 +364,15 @@ export async function generateGifIdeas(
 
         const styleInstruction = style ? `Style: ${style} GIFs.` : '';
 
-        const response = await genAI.models.generateContent({
-            model: 'gemini-2.0-flash',
+        const response = await withUsage('gemini-2.0-flash', 1, (model) => genAI.models.generateContent({
+            model,
             contents: `Generate ${count} creative GIF ideas for the topic: "${topic}". ${styleInstruction}
 
 Each idea should be a short, vivid description that would make a great looping GIF animation.
 Format: Return only the ideas, one per line, no numbering.
 
 Ideas:`,
-        });
+        }));
 
         const text = response.text || '';
         const ideas = text.split('\n')
@@ -290,6 +392,19 @@ Ideas:`,
  * Generate tags for a GIF using Gemini
  */
 export async function generateTags(description: string): Promise<string[]> {
+    if (isGeminiGatewayEnabled()) {
+        try {
+            const { tags } = await withUsage('gemini-2.0-flash', 1, (model) =>
+                callGateway('tags', model, { description }),
+                { serverMetered: true }
+            );
+            return tags.length > 3 ? tags : extractBasicTags(description);
+        } catch (error) {
+            console.warn('Tag generation failed:', error);
+            return extractBasicTags(description);
+        }
+    }
+
     const { key, isDemo } = await getSaucyApiKey();
 
     if (isDemo || !key) {
@@ -299,14 +414,14 @@ export async function generateTags(description: string): Promise<string[]> {
     try {
         const genAI = new GoogleGenAI({ apiKey: key });
 
-        const response = await genAI.models.generateContent({
-            model: 'gemini-2.0-flash',
+        const response = await withUsage('gemini-2.0-flash', 1, (model) => genAI.models.generateContent({
+            model,
             contents: `Generate 8-10 relevant search tags for this GIF description. Include emotion words, actions, and common search terms.
 
 Description: "${description}"
 
 Return only the tags, comma-separated, lowercase:`,
-        });
+        }));
 
         const text = response.text || '';
         const tags = text.split(',')
@@ -336,8 +451,8 @@ export async function classifyContentRating(
     try {
         const genAI = new GoogleGenAI({ apiKey: key });
 
-        const response = await genAI.models.generateContent({
-            model: 'gemini-2.0-flash',
+        const response = await withUsage('gemini-2.0-flash', 1, (model) => genAI.models.generateContent({
+            model,
             contents: `Classify the content rating for this GIF description. Choose exactly one:
 - pg: Family-friendly, no adult content
 - pg13: Mild crude humor, mild language
@@ -347,7 +462,7 @@ export async function classifyContentRating(
 Description: "${description}"
 
 Rating (one word only):`,
-        });
+        }));
 
         const rating = response.text?.toLowerCase().trim() || 'pg';
 
@@ -376,14 +491,14 @@ export async function generateTitle(description: string): Promise<string> {
     try {
         const genAI = new GoogleGenAI({ apiKey: key });
 
-        const response = await genAI.models.generateContent({
-            model: 'gemini-2.0-flash',
+        const response = await withUsage('gemini-2.0-flash', 1, (model) => genAI.models.generateContent({
+            model,
             contents: `Create a short, catchy title (3-5 words) for this GIF:
 
 Description: "${description}"
 
 Title:`,
-        });
+        }));
 
         return response.text?.trim() || description.split(' ').slice(0, 3).join(' ');
 
@@ -397,6 +512,18 @@ Title:`,
  * Perform real-time AI moderation on a prompt
  */
 export async function checkContentSafety(prompt: string): Promise<{ isSafe: boolean; reason?: string }> {
+    if (isGeminiGatewayEnabled()) {
+        try {
+            return await withUsage('gemini-2.0-flash', 1, (model) =>
+                callGateway('safety', model, { prompt }),
+                { serverMetered: true }
+            );
+        } catch (error) {
+            console.warn('Safety check failed, defaulting to safe:', error);
+            return { isSafe: true };
+        }
+    }
+
     const { key, isDemo } = await getSaucyApiKey();
 
     if (isDemo || !key) {
@@ -406,8 +533,8 @@ export async function checkContentSafety(prompt: string): Promise<{ isSafe: bool
     try {
         const genAI = new GoogleGenAI({ apiKey: key });
 
-        const response = await genAI.models.generateContent({
-            model: 'gemini-2.0-flash',
+        const response = await withUsage('gemini-2.0-flash', 1, (model) => genAI.models.generateContent({
+            model,
             contents: `As an AI moderator for a GIF search engine called Saucy, evaluate the following prompt for safety. 
 Check for: explicit adult content, hate speech, severe violence, or harassment.
 
@@ -415,7 +542,7 @@ Prompt: "${prompt}"
 
 Return your decision in JSON format:
 { "isSafe": boolean, "reason": "brief explanation if unsafe" }`,
-        });
+        }));
 
         const text = response.text || '';
         const jsonMatch = text.match(/\{[\s\S]*\}/);
@@ -478,6 +605,19 @@ export async function generateCaptionSuggestions(
     mood?: CaptionMood,
     count: number = 5
 ): Promise<string[]> {
+    if (isGeminiGatewayEnabled()) {
+        try {
+            const { captions } = await withUsage('gemini-2.0-flash', 1, (model) =>
+                callGateway('captions', model, { context, mood, count }),
+                { serverMetered: true }
+            );
+            return captions.length > 0 ? captions : getDefaultCaptions(context, mood, count);
+        } catch (error) {
+            console.error('Caption generation failed:', error);
+            return getDefaultCaptions(context, mood, count);
+        }
+    }
+
     const { key, isDemo } = await getSaucyApiKey();
 
     if (isDemo || !key) {
@@ -491,8 +631,8 @@ export async function generateCaptionSuggestions(
             ? `The captions should have a ${mood} vibe.`
             : 'Mix different vibes: funny, relatable, sarcastic.';
 
-        const response = await genAI.models.generateContent({
-            model: 'gemini-2.0-flash',
+        const response = await withUsage('gemini-2.0-flash', 1, (model) => genAI.models.generateContent({
+            model,
             contents: `You are a meme caption writer for GIFs. Generate ${count} short, punchy captions for a GIF showing: "${context}"
 
 ${moodInstruction}
@@ -506,7 +646,7 @@ Rules:
 
 Return ONLY a JSON array of strings, no explanation:
 ["caption 1", "caption 2", ...]`,
-        });
+        }));
 
         const text = response.text || '';
         const jsonMatch = text.match(/\[[\s\S]*\]/);
@@ -550,8 +690,8 @@ export async function refineCaption(
             more_wholesome: 'Make it more positive and heartwarming',
         };
 
-        const response = await genAI.models.generateContent({
-            model: 'gemini-2.0-flash',
+        const response = await withUsage('gemini-2.0-flash', 1, (model) => genAI.models.generateContent({
+            model,
             contents: `Refine this meme caption. Original: "${originalCaption}"
 
 Instruction: ${refinementInstructions[refinement]}
@@ -562,7 +702,7 @@ Rules:
 - Maintain the reaction-GIF vibe
 
 Return ONLY the new caption, no quotes or explanation.`,
-        });
+        }));
 
         const text = response.text?.trim() || '';
         // Clean up any quotes
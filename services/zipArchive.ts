@@ -0,0 +1,222 @@
+/**
+ * ZIP Archive Service
+ *
+ * Minimal ZIP writer/reader for Sauce Box exports. Entries are written uncompressed
+ * (GIFs are already LZW-compressed, so deflate buys almost nothing); the reader also
+ * handles deflated entries via DecompressionStream, so archives that were unzipped
+ * and re-zipped by the OS still import.
+ *
+ * No ZIP64: archives are limited to 4 GB and 65,535 entries.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ZipEntryInput {
+    name: string;           // Path inside the archive, '/'-separated
+    data: Blob | Uint8Array | string;
+    modifiedAt?: Date;
+}
+
+export interface ZipEntry {
+    name: string;
+    size: number;
+    read(): Promise<Blob>;
+}
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const MAX_ENTRIES = 0xffff;
+const MAX_OFFSET = 0xffffffff;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * MS-DOS date/time fields (2-second resolution, years 1980-2107)
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+    const year = Math.min(Math.max(date.getFullYear(), 1980), 2107);
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+    };
+}
+
+async function toBytes(data: Blob | Uint8Array | string): Promise<Uint8Array> {
+    if (typeof data === 'string') return new TextEncoder().encode(data);
+    if (data instanceof Uint8Array) return data;
+    return new Uint8Array(await data.arrayBuffer());
+}
+
+// =============================================================================
+// WRITE
+// =============================================================================
+
+/**
+ * Build a ZIP archive from the given entries
+ */
+export async function createZip(entries: ZipEntryInput[]): Promise<Blob> {
+    if (entries.length > MAX_ENTRIES) {
+        throw new Error(`Too many files for one archive (max ${MAX_ENTRIES})`);
+    }
+
+    const encoder = new TextEncoder();
+    const parts: BlobPart[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name.replace(/^\/+/, ''));
+        const bytes = await toBytes(entry.data);
+        const crc = crc32(bytes);
+        const stamp = dosDateTime(entry.modifiedAt || new Date());
+
+        if (offset + 30 + name.length + bytes.length > MAX_OFFSET) {
+            throw new Error('Archive is too large (max 4 GB)');
+        }
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+        local.setUint16(4, 20, true);                   // Version needed
+        local.setUint16(6, UTF8_FLAG, true);
+        local.setUint16(8, METHOD_STORE, true);
+        local.setUint16(10, stamp.time, true);
+        local.setUint16(12, stamp.date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, bytes.length, true);        // Compressed size
+        local.setUint32(22, bytes.length, true);        // Uncompressed size
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);                   // Extra field length
+
+        const header = new DataView(new ArrayBuffer(46));
+        header.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+        header.setUint16(4, 20, true);                  // Version made by
+        header.setUint16(6, 20, true);                  // Version needed
+        header.setUint16(8, UTF8_FLAG, true);
+        header.setUint16(10, METHOD_STORE, true);
+        header.setUint16(12, stamp.time, true);
+        header.setUint16(14, stamp.date, true);
+        header.setUint32(16, crc, true);
+        header.setUint32(20, bytes.length, true);
+        header.setUint32(24, bytes.length, true);
+        header.setUint16(28, name.length, true);
+        header.setUint32(42, offset, true);             // Local header offset
+
+        parts.push(local.buffer, name, bytes);
+        central.push(new Uint8Array(header.buffer), name);
+        offset += 30 + name.length + bytes.length;
+    }
+
+    const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+    end.setUint16(8, entries.length, true);             // Entries on this disk
+    end.setUint16(10, entries.length, true);            // Entries total
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);                    // Central directory offset
+
+    return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+}
+
+// =============================================================================
+// READ
+// =============================================================================
+
+async function inflateRaw(data: Blob): Promise<Blob> {
+    if (typeof DecompressionStream === 'undefined') {
+        throw new Error('This browser cannot read compressed ZIP entries');
+    }
+    const stream = data.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Response(stream).blob();
+}
+
+/**
+ * List the files in a ZIP archive. Entry contents are only read when asked for.
+ */
+export async function readZip(archive: Blob): Promise<ZipEntry[]> {
+    // The end-of-central-directory record sits in the last 22 bytes plus up to 64 KB of comment
+    const tailStart = Math.max(0, archive.size - 22 - 0xffff);
+    const tail = new DataView(await archive.slice(tailStart).arrayBuffer());
+    let endOffset = -1;
+    for (let i = tail.byteLength - 22; i >= 0; i--) {
+        if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+            endOffset = i;
+            break;
+        }
+    }
+    if (endOffset < 0) throw new Error('Not a ZIP file');
+
+    const count = tail.getUint16(endOffset + 10, true);
+    const centralSize = tail.getUint32(endOffset + 12, true);
+    const centralOffset = tail.getUint32(endOffset + 16, true);
+    const directory = new DataView(await archive.slice(centralOffset, centralOffset + centralSize).arrayBuffer());
+    const decoder = new TextDecoder();
+
+    const entries: ZipEntry[] = [];
+    let pos = 0;
+    for (let i = 0; i < count; i++) {
+        if (directory.getUint32(pos, true) !== CENTRAL_HEADER_SIGNATURE) {
+            throw new Error('Corrupt ZIP directory');
+        }
+        const method = directory.getUint16(pos + 10, true);
+        const compressedSize = directory.getUint32(pos + 20, true);
+        const size = directory.getUint32(pos + 24, true);
+        const nameLength = directory.getUint16(pos + 28, true);
+        const extraLength = directory.getUint16(pos + 30, true);
+        const commentLength = directory.getUint16(pos + 32, true);
+        const localOffset = directory.getUint32(pos + 42, true);
+        const name = decoder.decode(new Uint8Array(directory.buffer, pos + 46, nameLength));
+        pos += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) continue;   // Directory entry
+
+        entries.push({
+            name,
+            size,
+            read: async () => {
+                // The local header's name/extra lengths can differ from the central copy
+                const local = new DataView(await archive.slice(localOffset, localOffset + 30).arrayBuffer());
+                if (local.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+                    throw new Error(`Corrupt ZIP entry: ${name}`);
+                }
+                const start = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+                const data = archive.slice(start, start + compressedSize);
+                if (method === METHOD_STORE) return data;
+                if (method === METHOD_DEFLATE) return inflateRaw(data);
+                throw new Error(`Unsupported ZIP compression in ${name}`);
+            }
+        });
+    }
+    return entries;
+}
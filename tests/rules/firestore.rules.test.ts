@@ -0,0 +1,592 @@
+/**
+ * Firestore security rules - allow/deny cases for every rule block
+ *
+ * Runs against the local Firestore emulator: `npm run test:rules` (the Firebase CLI starts
+ * the emulator and sets FIRESTORE_EMULATOR_HOST). Function-owned writes are seeded with the
+ * rules disabled, the way the Admin SDK bypasses them.
+ */
+
+import { readFileSync } from 'fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+    assertFails,
+    assertSucceeds,
+    initializeTestEnvironment,
+    RulesTestEnvironment
+} from '@firebase/rules-unit-testing';
+import firebase from 'firebase/compat/app';
+import 'firebase/compat/firestore';
+
+type Firestore = firebase.firestore.Firestore;
+
+const { serverTimestamp, increment } = firebase.firestore.FieldValue;
+const { Timestamp, Blob } = firebase.firestore;
+
+const HOUR = 60 * 60 * 1000;
+const TODAY = new Date().toISOString().split('T')[0];
+
+let env: RulesTestEnvironment;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const as = (uid: string, claims: Record<string, unknown> = {}): Firestore =>
+    env.authenticatedContext(uid, claims).firestore();
+const anon = (): Firestore => env.unauthenticatedContext().firestore();
+const alice = () => as('alice');
+const bob = () => as('bob');
+const carol = () => as('carol');
+const dave = () => as('dave');
+const admin = () => as('boss', { role: 'admin' });
+
+/**
+ * Write documents with the rules off (what the functions / Admin SDK do)
+ */
+async function seed(docs: Record<string, Record<string, unknown>>): Promise<void> {
+    await env.withSecurityRulesDisabled(async (ctx) => {
+        const db = ctx.firestore();
+        for (const [path, data] of Object.entries(docs)) {
+            await db.doc(path).set(data);
+        }
+    });
+}
+
+const profile = (uid: string, overrides: Record<string, unknown> = {}) => ({
+    uid,
+    email: `${uid}@example.com`,
+    displayName: uid,
+    role: 'user',
+    referralCode: `SAUCY-${uid.toUpperCase()}`,
+    referralCount: 0,
+    ...overrides
+});
+
+beforeAll(async () => {
+    env = await initializeTestEnvironment({
+        projectId: 'demo-saucy',
+        firestore: { rules: readFileSync('firestore.rules', 'utf8') }
+    });
+});
+
+beforeEach(async () => {
+    await env.clearFirestore();
+});
+
+afterAll(async () => {
+    await env?.cleanup();
+});
+
+// =============================================================================
+// USERS
+// =============================================================================
+
+describe('users', () => {
+    it('lets users read their own profile, and admins read anyone', async () => {
+        await seed({ 'users/alice': profile('alice') });
+        await assertSucceeds(alice().doc('users/alice').get());
+        await assertSucceeds(admin().doc('users/alice').get());
+        await assertFails(bob().doc('users/alice').get());
+        await assertFails(anon().doc('users/alice').get());
+    });
+
+    it('creates a profile whose role mirrors the claim, with no stats or referrals', async () => {
+        await assertSucceeds(alice().doc('users/alice').set(profile('alice')));
+        await assertFails(bob().doc('users/bob').set(profile('bob', { role: 'admin' })));
+        await assertFails(bob().doc('users/bob').set(profile('bob', { referralCount: 5 })));
+        await assertFails(bob().doc('users/bob').set(profile('bob', { sauceSenseScore: 100 })));
+        await assertFails(bob().doc('users/alice').set(profile('alice')));
+        await assertSucceeds(as('boss', { role: 'admin' }).doc('users/boss').set(profile('boss', { role: 'admin' })));
+    });
+
+    it('lets users edit their profile but not their role, stats or referral count', async () => {
+        await seed({ 'users/alice': profile('alice') });
+        await assertSucceeds(alice().doc('users/alice').update({ displayName: 'Alice' }));
+        await assertFails(alice().doc('users/alice').update({ role: 'owner' }));
+        await assertFails(alice().doc('users/alice').update({ sauceStreak: 30 }));
+        await assertFails(alice().doc('users/alice').update({ referralCount: 1 }));
+    });
+
+    it("doesn't let anyone credit someone else's referrals or delete a profile", async () => {
+        await seed({ 'users/alice': profile('alice') });
+        await assertFails(bob().doc('users/alice').update({ referralCount: 1 }));
+        await assertFails(alice().doc('users/alice').delete());
+    });
+
+    it('keeps creations and memes private to their owner', async () => {
+        for (const sub of ['creations', 'memes']) {
+            await assertSucceeds(alice().doc(`users/alice/${sub}/one`).set({ title: 'mine' }));
+            await assertSucceeds(alice().doc(`users/alice/${sub}/one`).get());
+            await assertFails(bob().doc(`users/alice/${sub}/one`).get());
+            await assertFails(bob().doc(`users/alice/${sub}/two`).set({ title: 'theirs' }));
+        }
+    });
+
+    it('only lets brand accounts upload fonts, within the size and format limits', async () => {
+        const font = (size: number, format = 'woff2') => ({
+            data: Blob.fromUint8Array(new Uint8Array(size)),
+            format
+        });
+        await assertSucceeds(as('brandy', { brand: true }).doc('users/brandy/fonts/a').set(font(1024)));
+        await assertFails(as('brandy', { brand: true }).doc('users/brandy/fonts/b').set(font(800000)));
+        await assertFails(as('brandy', { brand: true }).doc('users/brandy/fonts/c').set(font(1024, 'exe')));
+        await assertFails(alice().doc('users/alice/fonts/a').set(font(1024)));
+    });
+
+    it('lets users read but never write their Sauce Sense history', async () => {
+        await seed({ [`users/alice/sauceHistory/${TODAY}`]: { correct: true } });
+        await assertSucceeds(alice().doc(`users/alice/sauceHistory/${TODAY}`).get());
+        await assertFails(bob().doc(`users/alice/sauceHistory/${TODAY}`).get());
+        await assertFails(alice().doc(`users/alice/sauceHistory/${TODAY}`).set({ correct: true }));
+    });
+
+    it('keeps referral credits and the role audit log function-only', async () => {
+        await seed({ 'referral_credits/bob': { referrerUid: 'alice' }, 'role_change_audit/1': { targetUid: 'bob' } });
+        await assertFails(alice().doc('referral_credits/bob').get());
+        await assertFails(alice().doc('referral_credits/carol').set({ referrerUid: 'alice' }));
+        await assertSucceeds(admin().doc('role_change_audit/1').get());
+        await assertFails(alice().doc('role_change_audit/1').get());
+        await assertFails(admin().doc('role_change_audit/2').set({ targetUid: 'bob' }));
+    });
+});
+
+// =============================================================================
+// LIBRARY
+// =============================================================================
+
+describe('gif_library', () => {
+    const pending = { url: 'https://example.com/a.gif', status: 'pending', hasText: null, upvotes: 0 };
+
+    it('accepts community contributions only as pending', async () => {
+        await assertSucceeds(anon().doc('gif_library/a').set(pending));
+        await assertFails(anon().doc('gif_library/b').set({ ...pending, status: 'approved' }));
+        await assertFails(anon().doc('gif_library/c').set({ ...pending, hasText: false }));
+        await assertFails(anon().doc('gif_library/d').set({ ...pending, upvotes: 50 }));
+    });
+
+    it('records text detection once without moving the item out of pending', async () => {
+        await seed({ 'gif_library/a': pending });
+        await assertFails(anon().doc('gif_library/a').update({ hasText: false, status: 'approved' }));
+        await assertSucceeds(anon().doc('gif_library/a').update({ hasText: false }));
+        await assertFails(anon().doc('gif_library/a').update({ hasText: true }));
+    });
+
+    it('lets only admins moderate and delete', async () => {
+        await seed({ 'gif_library/a': pending });
+        await assertFails(alice().doc('gif_library/a').update({ status: 'approved' }));
+        await assertSucceeds(admin().doc('gif_library/a').update({ status: 'approved' }));
+        await assertFails(alice().doc('gif_library/a').delete());
+        await assertSucceeds(admin().doc('gif_library/a').delete());
+    });
+
+    it('only lets upvotes go up by one', async () => {
+        await seed({ 'gif_library/a': pending });
+        await assertSucceeds(anon().doc('gif_library/a').update({ upvotes: 1 }));
+        await assertFails(anon().doc('gif_library/a').update({ upvotes: 10 }));
+    });
+});
+
+describe('library_gifs', () => {
+    beforeEach(async () => {
+        await seed({
+            'library_gifs/live': { title: 'Live', status: 'approved', downloads: 0, shares: 0 },
+            'library_gifs/draft': { title: 'Draft', status: 'pending', downloads: 0, shares: 0 }
+        });
+    });
+
+    it('shows approved GIFs to everyone and the rest to admins', async () => {
+        await assertSucceeds(anon().doc('library_gifs/live').get());
+        await assertFails(anon().doc('library_gifs/draft').get());
+        await assertSucceeds(admin().doc('library_gifs/draft').get());
+    });
+
+    it('lets anyone bump download/share counters by one, and only admins curate', async () => {
+        await assertSucceeds(anon().doc('library_gifs/live').update({ downloads: 1 }));
+        await assertFails(anon().doc('library_gifs/live').update({ downloads: 1000 }));
+        await assertFails(anon().doc('library_gifs/live').update({ title: 'Mine now' }));
+        await assertFails(anon().doc('library_gifs/draft').update({ downloads: 1 }));
+        await assertFails(alice().doc('library_gifs/new').set({ title: 'New', status: 'approved' }));
+        await assertSucceeds(admin().doc('library_gifs/new').set({ title: 'New', status: 'approved' }));
+        await assertSucceeds(admin().doc('library_gifs/live').delete());
+    });
+});
+
+describe('gif_engagement', () => {
+    const bucket = { gifId: 'g1', hour: Timestamp.now(), downloads: 1 };
+
+    it('lets anyone open a bucket for its GIF with fresh counters', async () => {
+        await assertSucceeds(anon().doc('gif_engagement/g1_2026101912').set(bucket));
+        await assertFails(anon().doc('gif_engagement/other_2026101912').set(bucket));
+        await assertFails(anon().doc('gif_engagement/g1_2026101913').set({ ...bucket, downloads: 50 }));
+    });
+
+    it('only counts up by one, and only admins read', async () => {
+        await seed({ 'gif_engagement/g1_2026101912': bucket });
+        await assertSucceeds(anon().doc('gif_engagement/g1_2026101912').update({ downloads: 2 }));
+        await assertFails(anon().doc('gif_engagement/g1_2026101912').update({ downloads: 0 }));
+        await assertFails(anon().doc('gif_engagement/g1_2026101912').delete());
+        await assertFails(alice().doc('gif_engagement/g1_2026101912').get());
+        await assertSucceeds(admin().doc('gif_engagement/g1_2026101912').get());
+    });
+});
+
+describe('gif_of_the_day', () => {
+    it('is public to read and admin-only to write', async () => {
+        await seed({ [`gif_of_the_day/${TODAY}`]: { gifId: 'g1' } });
+        await assertSucceeds(anon().doc(`gif_of_the_day/${TODAY}`).get());
+        await assertFails(alice().doc(`gif_of_the_day/${TODAY}`).set({ gifId: 'g2' }));
+        await assertSucceeds(admin().doc(`gif_of_the_day/${TODAY}`).set({ gifId: 'g2' }));
+    });
+});
+
+// =============================================================================
+// ANALYTICS
+// =============================================================================
+
+describe('analytics', () => {
+    const zeros = { totalDownloads: 0, totalViews: 0, totalShares: 0, totalSearches: 0 };
+
+    it('starts the stats document at zero and only counts up by one', async () => {
+        await assertFails(anon().doc('analytics/stats').set({ ...zeros, totalViews: 500 }));
+        await assertSucceeds(anon().doc('analytics/stats').set(zeros));
+        await assertSucceeds(anon().doc('analytics/stats').update({ totalViews: 1 }));
+        await assertFails(anon().doc('analytics/stats').update({ totalViews: 0 }));
+        await assertFails(anon().doc('analytics/stats').update({ totalDownloads: 99 }));
+        await assertFails(anon().doc('analytics/stats').delete());
+    });
+
+    it('hides analytics from everyone but admins', async () => {
+        await seed({ 'analytics/stats': zeros, 'analytics/other': { x: 1 } });
+        await assertFails(alice().doc('analytics/stats').get());
+        await assertSucceeds(admin().doc('analytics/stats').get());
+        await assertFails(alice().doc('analytics/other').set({ x: 2 }));
+        await assertSucceeds(admin().doc('analytics/other').set({ x: 2 }));
+    });
+
+    it('counts searches one at a time', async () => {
+        await assertSucceeds(anon().doc('analytics_searches/cats').set({ term: 'cats', count: 1 }));
+        await assertFails(anon().doc('analytics_searches/dogs').set({ term: 'dogs', count: 9 }));
+        await assertFails(anon().doc('analytics_searches/owls').set({ term: 'cats', count: 1 }));
+        await assertSucceeds(anon().doc('analytics_searches/cats').update({ count: 2 }));
+        await assertFails(anon().doc('analytics_searches/cats').update({ count: 0 }));
+        await assertFails(alice().doc('analytics_searches/cats').get());
+    });
+
+    it('opens a daily document with fresh counters and only counts up by one', async () => {
+        await assertSucceeds(anon().doc(`analytics_daily/${TODAY}`).set({ date: TODAY, views: 1 }));
+        await assertFails(anon().doc('analytics_daily/2026-01-01').set({ date: TODAY, views: 1 }));
+        await assertFails(anon().doc('analytics_daily/2026-01-02').set({ date: '2026-01-02', views: 40 }));
+        await assertSucceeds(anon().doc(`analytics_daily/${TODAY}`).update({ views: 2 }));
+        await assertFails(anon().doc(`analytics_daily/${TODAY}`).update({ views: 0 }));
+    });
+
+    it('appends download events under the caller only', async () => {
+        await assertSucceeds(anon().collection('analytics_downloads').add({ userId: null, gifId: 'g1' }));
+        await assertSucceeds(alice().doc('analytics_downloads/a').set({ userId: 'alice', gifId: 'g1' }));
+        await assertFails(alice().doc('analytics_downloads/b').set({ userId: 'bob', gifId: 'g1' }));
+        await assertFails(alice().doc('analytics_downloads/a').update({ gifId: 'g2' }));
+        await assertFails(alice().doc('analytics_downloads/a').get());
+    });
+});
+
+// =============================================================================
+// PRIVATE / FUNCTION-OWNED
+// =============================================================================
+
+describe('function-owned caches and secrets', () => {
+    it('are closed to every client, admins included', async () => {
+        await seed({ 'user_secrets/alice': { last4: '1234' }, 'search_cache/k': { v: 1 }, 'unfurl_cache/g1': { gif: null } });
+        for (const path of ['user_secrets/alice', 'search_cache/k', 'unfurl_cache/g1']) {
+            await assertFails(alice().doc(path).get());
+            await assertFails(admin().doc(path).get());
+            await assertFails(admin().doc(path).set({ v: 2 }));
+        }
+    });
+});
+
+describe('favorites', () => {
+    it('keeps favorites private to their owner', async () => {
+        await assertSucceeds(alice().doc('favorites/alice_g1').set({ userId: 'alice', gifId: 'g1' }));
+        await assertSucceeds(alice().doc('favorites/alice_g1').get());
+        await assertFails(bob().doc('favorites/alice_g1').get());
+        await assertFails(bob().doc('favorites/alice_g2').set({ userId: 'bob', gifId: 'g2' }));
+    });
+});
+
+// =============================================================================
+// COLLECTIONS AND TEAMS
+// =============================================================================
+
+describe('sauce_collections', () => {
+    const shared = {
+        ownerId: 'alice',
+        name: 'Reactions',
+        visibility: 'private',
+        members: { bob: 'editor', carol: 'viewer' },
+        memberIds: ['bob', 'carol']
+    };
+    const item = { gifId: 'g1', gifTitle: 'Wave', gifThumbnail: 'https://example.com/g1.gif', addedBy: 'alice' };
+
+    beforeEach(async () => {
+        await seed({ 'sauce_collections/c1': shared });
+    });
+
+    it('shows a collection to its members, and to everyone once public', async () => {
+        await assertSucceeds(bob().doc('sauce_collections/c1').get());
+        await assertSucceeds(carol().doc('sauce_collections/c1').get());
+        await assertFails(dave().doc('sauce_collections/c1').get());
+        await seed({ 'sauce_collections/c2': { ...shared, visibility: 'public' } });
+        await assertSucceeds(anon().doc('sauce_collections/c2').get());
+    });
+
+    it('creates private, unshared collections only', async () => {
+        await assertSucceeds(alice().doc('sauce_collections/new').set({ ownerId: 'alice', name: 'Mine', visibility: 'private' }));
+        await assertFails(alice().doc('sauce_collections/pub').set({ ownerId: 'alice', name: 'Mine', visibility: 'public' }));
+        await assertFails(alice().doc('sauce_collections/theirs').set({ ownerId: 'bob', name: 'Mine' }));
+    });
+
+    it('lets managers rename and delete; editors only touch updatedAt; sharing is function-only', async () => {
+        await assertSucceeds(alice().doc('sauce_collections/c1').update({ name: 'Renamed' }));
+        await assertFails(bob().doc('sauce_collections/c1').update({ name: 'Mine now' }));
+        await assertSucceeds(bob().doc('sauce_collections/c1').update({ updatedAt: serverTimestamp() }));
+        await assertFails(alice().doc('sauce_collections/c1').update({ visibility: 'public' }));
+        await assertFails(bob().doc('sauce_collections/c1').delete());
+        await assertSucceeds(alice().doc('sauce_collections/c1').delete());
+    });
+
+    it('lets editors add items under their own name', async () => {
+        await assertSucceeds(bob().doc('sauce_collections/c1/items/g1').set({ ...item, addedBy: 'bob' }));
+        await assertFails(bob().doc('sauce_collections/c1/items/g2').set({ ...item, gifId: 'g2', addedBy: 'alice' }));
+        await assertFails(carol().doc('sauce_collections/c1/items/g3').set({ ...item, gifId: 'g3', addedBy: 'carol' }));
+        await assertSucceeds(carol().doc('sauce_collections/c1/items/g1').get());
+        await assertFails(dave().doc('sauce_collections/c1/items/g1').get());
+        await assertFails(bob().doc('sauce_collections/c1/items/g1').update({ addedBy: 'alice' }));
+        await assertSucceeds(bob().doc('sauce_collections/c1/items/g1').update({ order: 5 }));
+    });
+
+    it('accepts activity entries only alongside the item write they describe', async () => {
+        const db = bob();
+        const entry = (type: string) => ({
+            type,
+            actorId: 'bob',
+            actorName: 'bob',
+            gifId: 'g1',
+            gifTitle: item.gifTitle,
+            gifThumbnail: item.gifThumbnail,
+            createdAt: serverTimestamp()
+        });
+
+        // Forged: nothing was added
+        await assertFails(db.collection('sauce_collections/c1/activity').add(entry('added')));
+
+        const add = db.batch();
+        add.set(db.doc('sauce_collections/c1/items/g1'), { ...item, addedBy: 'bob', addedAt: serverTimestamp() });
+        add.set(db.collection('sauce_collections/c1/activity').doc(), entry('added'));
+        await assertSucceeds(add.commit());
+
+        // Forged: nothing was removed, or the title doesn't match
+        await assertFails(db.collection('sauce_collections/c1/activity').add(entry('removed')));
+        const mislabelled = db.batch();
+        mislabelled.delete(db.doc('sauce_collections/c1/items/g1'));
+        mislabelled.set(db.collection('sauce_collections/c1/activity').doc(), { ...entry('removed'), gifTitle: 'Something else' });
+        await assertFails(mislabelled.commit());
+
+        const remove = db.batch();
+        remove.delete(db.doc('sauce_collections/c1/items/g1'));
+        remove.set(db.collection('sauce_collections/c1/activity').doc(), entry('removed'));
+        await assertSucceeds(remove.commit());
+
+        await assertSucceeds(carol().collection('sauce_collections/c1/activity').get());
+        await assertFails(dave().collection('sauce_collections/c1/activity').get());
+    });
+
+    it('lets only managers create invites', async () => {
+        const invite = (createdBy: string) => ({ role: 'viewer', createdBy, expiresAt: Timestamp.fromMillis(Date.now() + HOUR) });
+        await assertSucceeds(alice().doc('sauce_collections/c1/invites/t1').set(invite('alice')));
+        await assertFails(bob().doc('sauce_collections/c1/invites/t2').set(invite('bob')));
+        await assertFails(alice().doc('sauce_collections/c1/invites/t3').set({ ...invite('alice'), role: 'owner' }));
+    });
+});
+
+describe('teams', () => {
+    const team = {
+        name: 'Crew',
+        ownerId: 'alice',
+        members: { alice: 'admin' },
+        memberIds: ['alice'],
+        memberNames: { alice: 'alice' },
+        collectionIds: []
+    };
+
+    it('creates a team with only its creator as admin', async () => {
+        await assertSucceeds(alice().doc('teams/t1').set(team));
+        await assertFails(alice().doc('teams/t2').set({ ...team, members: { alice: 'admin', bob: 'admin' }, memberIds: ['alice', 'bob'] }));
+        await assertFails(bob().doc('teams/t3').set(team));
+    });
+
+    it('shows a team to members and lets admins rename it and invite', async () => {
+        await seed({ 'teams/t1': { ...team, members: { alice: 'admin', bob: 'member' }, memberIds: ['alice', 'bob'] } });
+        await assertSucceeds(bob().doc('teams/t1').get());
+        await assertFails(dave().doc('teams/t1').get());
+        await assertSucceeds(alice().doc('teams/t1').update({ name: 'Renamed' }));
+        await assertFails(bob().doc('teams/t1').update({ name: 'Mine now' }));
+        await assertFails(alice().doc('teams/t1').update({ memberIds: ['alice', 'bob', 'dave'] }));
+
+        const invite = (createdBy: string) => ({ role: 'member', createdBy, expiresAt: Timestamp.fromMillis(Date.now() + HOUR) });
+        await assertSucceeds(alice().doc('teams/t1/invites/i1').set(invite('alice')));
+        await assertFails(bob().doc('teams/t1/invites/i2').set(invite('bob')));
+    });
+});
+
+// =============================================================================
+// USAGE LEDGER
+// =============================================================================
+
+describe('usage_ledger', () => {
+    const ledgerId = `alice_${TODAY}`;
+    const record = (cost: number) => ({
+        userId: 'alice',
+        date: TODAY,
+        role: 'user',
+        totalCost: increment(cost),
+        totalCalls: increment(1),
+        models: { 'gemini-2.0-flash': { calls: increment(1), units: increment(1), cost: increment(cost) } },
+        updatedAt: serverTimestamp()
+    });
+
+    it('lets users record usage into their own ledger only', async () => {
+        await assertSucceeds(alice().doc(`usage_ledger/${ledgerId}`).set(record(0.001), { merge: true }));
+        await assertSucceeds(alice().doc(`usage_ledger/${ledgerId}`).set(record(0.001), { merge: true }));
+        await assertFails(alice().doc(`usage_ledger/bob_${TODAY}`).set({ ...record(0.001), userId: 'bob' }, { merge: true }));
+        await assertFails(alice().doc(`usage_ledger/alice_2020-01-01`).set(record(0.001), { merge: true }));
+    });
+
+    it("doesn't let users lower, reset or delete a day's totals", async () => {
+        await seed({ [`usage_ledger/${ledgerId}`]: { userId: 'alice', date: TODAY, role: 'user', totalCost: 1.5, totalCalls: 20, models: {} } });
+        await assertFails(alice().doc(`usage_ledger/${ledgerId}`).update({ totalCost: 0 }));
+        await assertFails(alice().doc(`usage_ledger/${ledgerId}`).update({ totalCalls: 0 }));
+        await assertFails(alice().doc(`usage_ledger/${ledgerId}`).delete());
+    });
+
+    it('shows a ledger to its owner and admins', async () => {
+        await seed({ [`usage_ledger/${ledgerId}`]: { userId: 'alice', date: TODAY, totalCost: 0, totalCalls: 0 } });
+        await assertSucceeds(alice().doc(`usage_ledger/${ledgerId}`).get());
+        await assertSucceeds(admin().doc(`usage_ledger/${ledgerId}`).get());
+        await assertFails(bob().doc(`usage_ledger/${ledgerId}`).get());
+    });
+});
+
+// =============================================================================
+// ADMIN
+// =============================================================================
+
+describe('admin collections', () => {
+    it('keeps campaigns and kanban tasks admin-only', async () => {
+        for (const path of ['campaigns/c1', 'kanban_tasks/k1']) {
+            await assertFails(alice().doc(path).set({ title: 'x' }));
+            await assertSucceeds(admin().doc(path).set({ title: 'x' }));
+            await assertFails(alice().doc(path).get());
+        }
+    });
+
+    it('makes settings public to read and admin-only to write', async () => {
+        await seed({ 'settings/usageConfig': { roleQuotas: { user: 2 } } });
+        await assertSucceeds(anon().doc('settings/usageConfig').get());
+        await assertFails(alice().doc('settings/usageConfig').set({ roleQuotas: { user: 1000 } }));
+        await assertSucceeds(admin().doc('settings/usageConfig').set({ roleQuotas: { user: 3 } }));
+    });
+});
+
+// =============================================================================
+// SAUCE SHOWDOWN
+// =============================================================================
+
+describe('showdowns', () => {
+    it('are public to read, admin-only to write', async () => {
+        await seed({ [`showdowns/${TODAY}`]: { gifA: { votes: 0 }, gifB: { votes: 0 } } });
+        await assertSucceeds(anon().doc(`showdowns/${TODAY}`).get());
+        await assertFails(alice().doc(`showdowns/${TODAY}`).update({ 'gifA.votes': 100 }));
+        await assertSucceeds(admin().doc(`showdowns/${TODAY}`).update({ 'gifA.votes': 0 }));
+        await assertFails(alice().doc('showdown_queue/q1').get());
+        await assertSucceeds(admin().doc('showdown_queue/q1').set({ gifA: 'a', gifB: 'b' }));
+    });
+
+    it('lets voters read their own vote record and nobody write one', async () => {
+        await assertSucceeds(alice().doc(`showdownVotes/${TODAY}_alice`).get());
+        await assertFails(alice().doc(`showdownVotes/${TODAY}_bob`).get());
+        await assertSucceeds(admin().doc(`showdownVotes/${TODAY}_bob`).get());
+        await assertFails(alice().doc(`showdownVotes/${TODAY}_alice`).set({ votedFor: 'A' }));
+        await assertFails(admin().doc(`vote_signals/${TODAY}_net`).get());
+    });
+
+    it('publishes leaderboards read-only', async () => {
+        await seed({ 'sauce_leaderboards/allTime/entries/alice': { score: 10 } });
+        await assertSucceeds(anon().doc('sauce_leaderboards/allTime/entries/alice').get());
+        await assertFails(alice().doc('sauce_leaderboards/allTime/entries/alice').set({ score: 9999 }));
+    });
+});
+
+describe('tournaments', () => {
+    const open = {
+        round: 1,
+        slot: 0,
+        gifA: { id: 'a', votes: 0 },
+        gifB: { id: 'b', votes: 0 },
+        winner: null,
+        opensAt: Timestamp.fromMillis(Date.now() - HOUR),
+        closesAt: Timestamp.fromMillis(Date.now() + HOUR)
+    };
+    const vote = (uid: string, votedFor = 'A') => ({ odId: uid, matchId: 'm1', votedFor, timestamp: Timestamp.now() });
+
+    beforeEach(async () => {
+        await seed({
+            'tournaments/t1': { name: 'Cup', status: 'active', startsAt: Timestamp.fromMillis(Date.now() + HOUR) },
+            'tournaments/t1/matches/m1': open,
+            'tournaments/t1/matches/closed': { ...open, closesAt: Timestamp.fromMillis(Date.now() - 1000) }
+        });
+    });
+
+    it('are public to read, admin-only to build', async () => {
+        await assertSucceeds(anon().doc('tournaments/t1').get());
+        await assertFails(alice().doc('tournaments/t1').update({ status: 'complete' }));
+        await assertSucceeds(admin().doc('tournaments/t1').update({ name: 'Grand Cup' }));
+        await assertFails(alice().doc('tournaments/t1/matches/m1').update({ winner: 'A' }));
+    });
+
+    it("lets a voter check for a vote that doesn't exist yet inside the vote transaction", async () => {
+        const db = alice();
+        await assertSucceeds(db.runTransaction(async (tx) => {
+            await tx.get(db.doc('tournaments/t1/matches/m1'));
+            await tx.get(db.doc('tournaments/t1/votes/m1_alice'));
+        }));
+        await assertFails(db.doc('tournaments/t1/votes/m1_bob').get());
+    });
+
+    it('takes one vote per user while the match is open', async () => {
+        const db = alice();
+        const cast = (matchId: string, record: Record<string, unknown>) => {
+            const batch = db.batch();
+            batch.set(db.doc(`tournaments/t1/votes/${matchId}_alice`), record);
+            batch.update(db.doc(`tournaments/t1/matches/${matchId}`), { 'gifA.votes': increment(1) });
+            return batch.commit();
+        };
+
+        await assertFails(cast('m1', { ...vote('alice'), email: 'alice@example.com' }));
+        await assertFails(cast('m1', vote('alice', 'B')));
+        await assertSucceeds(cast('m1', vote('alice')));
+        await assertFails(db.doc('tournaments/t1/matches/m1').update({ 'gifA.votes': increment(1) }));
+        await assertFails(cast('closed', { ...vote('alice'), matchId: 'closed' }));
+        await assertSucceeds(db.collection('tournaments/t1/votes').where('odId', '==', 'alice').get());
+    });
+
+    it('takes predictions before the bracket starts, with no points', async () => {
+        const prediction = (uid: string) => ({ userId: uid, picks: { m1: 'A' }, points: 0, correctPicks: 0 });
+        await assertSucceeds(alice().doc('tournaments/t1/predictions/alice').set(prediction('alice')));
+        await assertFails(alice().doc('tournaments/t1/predictions/bob').set(prediction('bob')));
+        await assertFails(bob().doc('tournaments/t1/predictions/bob').set({ ...prediction('bob'), points: 50 }));
+        await assertFails(bob().doc('tournaments/t1/predictions/alice').get());
+
+        await seed({ 'tournaments/t1': { name: 'Cup', status: 'active', startsAt: Timestamp.fromMillis(Date.now() - HOUR) } });
+        await assertFails(alice().doc('tournaments/t1/predictions/alice').set(prediction('alice')));
+    });
+});
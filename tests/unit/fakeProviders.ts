@@ -0,0 +1,69 @@
+/**
+ * In-memory search providers for driving aggregateSearch() in tests
+ */
+
+import type { KlipyItem } from '../../services/klipyService';
+import type { GifSearchProvider, SearchProviderId } from '../../services/gifSearchService';
+
+/**
+ * A GIF item; the preview URL carries the id so a test hasher can map it to a hash
+ */
+export const gif = (id: string, fields: Partial<KlipyItem> = {}): KlipyItem => ({
+    id,
+    url: `https://media.example/${id}.gif`,
+    preview_url: `https://media.example/${id}-preview.gif`,
+    width: 480,
+    height: 270,
+    type: 'gif',
+    title: id,
+    tags: [],
+    ...fields,
+});
+
+/**
+ * Build an in-memory provider. Items are matched against the term by title/tags and paged
+ * by offset; `delayMs` and `fail` simulate slow and broken upstreams.
+ */
+export function createFakeProvider(
+    id: SearchProviderId,
+    items: KlipyItem[],
+    options: { weight?: number; timeoutMs?: number; delayMs?: number; fail?: boolean } = {}
+): GifSearchProvider & { calls: number; aborted: boolean } {
+    const { weight = 1, timeoutMs = 1000, delayMs = 0, fail = false } = options;
+
+    const provider = {
+        id,
+        label: `Fake ${id}`,
+        weight,
+        timeoutMs,
+        calls: 0,
+        aborted: false,
+        isAvailable: () => true,
+        search: (term: string, { limit, cursor, signal }: { limit: number; cursor: string | null; signal: AbortSignal }) =>
+            new Promise<{ items: KlipyItem[]; next: string | null }>((resolve, reject) => {
+                provider.calls++;
+                const timer = setTimeout(() => {
+                    if (fail) {
+                        reject(new Error(`${id} failed`));
+                        return;
+                    }
+                    const needle = term.toLowerCase();
+                    const matches = items.filter(item =>
+                        !needle ||
+                        item.title?.toLowerCase().includes(needle) ||
+                        item.tags?.some(tag => tag.toLowerCase().includes(needle))
+                    );
+                    const offset = Math.max(0, parseInt(cursor || '0', 10) || 0);
+                    const page = matches.slice(offset, offset + limit);
+                    resolve({ items: page, next: offset + page.length < matches.length ? String(offset + page.length) : null });
+                }, delayMs);
+
+                signal.addEventListener('abort', () => {
+                    provider.aborted = true;
+                    clearTimeout(timer);
+                    reject(new Error('Aborted'));
+                });
+            }),
+    };
+    return provider;
+}
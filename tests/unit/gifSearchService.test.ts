@@ -0,0 +1,146 @@
+/**
+ * Multi-provider search aggregation - timeouts, cross-provider de-duplication, ranking
+ * and per-provider paging, driven with in-memory providers
+ *
+ * `npm test`
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import type { KlipyItem } from '../../services/klipyService';
+import { aggregateSearch } from '../../services/gifSearchService';
+import { createFakeProvider, gif } from './fakeProviders';
+
+// The real providers talk to Klipy and Firestore; these tests only pass fakes
+vi.mock('../../services/klipyService', () => ({ searchKlipy: vi.fn() }));
+vi.mock('../../services/gifLibraryService', () => ({ getPublishedGifs: vi.fn() }));
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+// 64-bit hashes: CAT_2 is one bit off CAT (same picture, re-encoded), DOG is unrelated
+const CAT = 'f0f0f0f0f0f0f0f0';
+const CAT_2 = 'f0f0f0f0f0f0f0f1';
+const DOG = '0f0f0f0f0f0f0f0f';
+
+/**
+ * Deterministic hasher: hashes by item id, no hash for anything unlisted
+ */
+const hasherFor = (hashes: Record<string, string>) =>
+    async (item: KlipyItem): Promise<string | null> => hashes[item.id] ?? null;
+
+const ids = (items: { id: string }[]) => items.map(item => item.id);
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('aggregateSearch', () => {
+    it('merges a GIF found on two providers into one result, even under different URLs', async () => {
+        const klipy = createFakeProvider('klipy', [gif('k-cat', { title: 'cat' })]);
+        const giphy = createFakeProvider('giphy', [gif('g-cat', { title: 'cat', tags: ['cat', 'funny'] })]);
+
+        const result = await aggregateSearch('cat', {
+            providers: [klipy, giphy],
+            hasher: hasherFor({ 'k-cat': CAT, 'g-cat': CAT_2 }),
+        });
+
+        expect(ids(result.items)).toEqual(['k-cat']);
+        expect(result.items[0].provider).toBe('klipy');
+        expect(result.items[0].alsoFoundOn).toEqual(['giphy']);
+        // Metadata the owning provider lacked comes from the duplicate
+        expect(result.items[0].tags).toEqual(['cat', 'funny']);
+    });
+
+    it('keeps different pictures apart', async () => {
+        const klipy = createFakeProvider('klipy', [gif('k-cat', { title: 'pet' })]);
+        const giphy = createFakeProvider('giphy', [gif('g-dog', { title: 'pet' })]);
+
+        const result = await aggregateSearch('pet', {
+            providers: [klipy, giphy],
+            hasher: hasherFor({ 'k-cat': CAT, 'g-dog': DOG }),
+        });
+
+        expect(ids(result.items).sort()).toEqual(['g-dog', 'k-cat']);
+    });
+
+    it('de-duplicates by URL when hashing runs out of time', async () => {
+        const shared = { url: 'https://media.example/shared.gif?size=small', title: 'cat' };
+        const klipy = createFakeProvider('klipy', [gif('k-cat', shared)]);
+        const giphy = createFakeProvider('giphy', [gif('g-cat', { ...shared, url: 'http://MEDIA.example/shared.gif' })]);
+
+        const result = await aggregateSearch('cat', {
+            providers: [klipy, giphy],
+            hasher: () => new Promise(() => {}),
+            hashBudgetMs: 20,
+        });
+
+        expect(ids(result.items)).toEqual(['k-cat']);
+        expect(result.items[0].alsoFoundOn).toEqual(['giphy']);
+    });
+
+    it('ranks GIFs that several providers agree on above single finds', async () => {
+        const klipy = createFakeProvider('klipy', [gif('k-1', { title: 'cat' }), gif('k-cat', { title: 'cat' })]);
+        const giphy = createFakeProvider('giphy', [gif('g-1', { title: 'cat' }), gif('g-cat', { title: 'cat' })]);
+
+        const result = await aggregateSearch('cat', {
+            providers: [klipy, giphy],
+            hasher: hasherFor({ 'k-cat': CAT, 'g-cat': CAT_2 }),
+        });
+
+        // Second on both lists beats first on one
+        expect(ids(result.items)).toEqual(['k-cat', 'k-1', 'g-1']);
+    });
+
+    it('weights providers and breaks ties in provider order', async () => {
+        const library = createFakeProvider('library', [gif('l-1', { title: 'cat' })], { weight: 1.2 });
+        const klipy = createFakeProvider('klipy', [gif('k-1', { title: 'cat' })]);
+        const giphy = createFakeProvider('giphy', [gif('g-1', { title: 'cat' })]);
+
+        const result = await aggregateSearch('cat', { providers: [library, klipy, giphy], hasher: hasherFor({}) });
+
+        expect(ids(result.items)).toEqual(['l-1', 'k-1', 'g-1']);
+    });
+
+    it('returns the other providers\' results when one times out, and aborts it', async () => {
+        const klipy = createFakeProvider('klipy', [gif('k-cat', { title: 'cat' })]);
+        const slow = createFakeProvider('tenor', [gif('t-cat', { title: 'cat' })], { timeoutMs: 30, delayMs: 1000 });
+
+        const result = await aggregateSearch('cat', { providers: [klipy, slow], hasher: hasherFor({}) });
+
+        expect(ids(result.items)).toEqual(['k-cat']);
+        expect(result.providers.find(p => p.id === 'tenor')?.status).toBe('timeout');
+        expect(slow.aborted).toBe(true);
+        // Tenor hasn't served a page yet, so the next page tries it again
+        expect(result.next).toEqual({ klipy: null });
+    });
+
+    it('reports a failing provider without failing the search', async () => {
+        const klipy = createFakeProvider('klipy', [gif('k-cat', { title: 'cat' })]);
+        const broken = createFakeProvider('giphy', [], { fail: true });
+
+        const result = await aggregateSearch('cat', { providers: [klipy, broken], hasher: hasherFor({}) });
+
+        expect(ids(result.items)).toEqual(['k-cat']);
+        expect(result.providers.find(p => p.id === 'giphy')).toMatchObject({ status: 'error', error: 'giphy failed' });
+    });
+
+    it('pages each provider by its own cursor and skips exhausted ones', async () => {
+        const many = Array.from({ length: 5 }, (_, i) => gif(`k-${i}`, { title: 'cat' }));
+        const klipy = createFakeProvider('klipy', many);
+        const giphy = createFakeProvider('giphy', [gif('g-0', { title: 'cat' })]);
+        const options = { providers: [klipy, giphy], hasher: hasherFor({}), limit: 2 };
+
+        // Two providers, limit 2: each is asked for ceil(2 / 2 * 1.5) = 2
+        const first = await aggregateSearch('cat', options);
+        expect(ids(first.items).sort()).toEqual(['g-0', 'k-0', 'k-1']);
+        expect(first.next).toEqual({ klipy: '2', giphy: null });
+
+        // Only klipy is left, so it gets the whole over-fetch: ceil(2 * 1.5) = 3
+        const second = await aggregateSearch('cat', { ...options, cursor: first.next! });
+        expect(ids(second.items)).toEqual(['k-2', 'k-3', 'k-4']);
+        expect(giphy.calls).toBe(1);
+        expect(second.providers.find(p => p.id === 'giphy')?.status).toBe('skipped');
+        expect(second.next).toBeNull();
+    });
+});
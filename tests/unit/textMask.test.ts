@@ -0,0 +1,86 @@
+/**
+ * Text masks for temporal text removal - the mask has to stay on the text
+ *
+ * `npm test`
+ */
+
+import { describe, expect, it } from 'vitest';
+import { buildTextMask, maskCoverage, Pixels, TextMaskOptions } from '../../services/textMask';
+
+const WIDTH = 100;
+const HEIGHT = 100;
+const OPTIONS: TextMaskOptions = { threshold: 60, dilation: 3, maxCoverage: 0.3 };
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const frame = (pixel: (x: number, y: number) => number): Pixels => {
+    const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+    for (let y = 0; y < HEIGHT; y++) {
+        for (let x = 0; x < WIDTH; x++) {
+            const i = (y * WIDTH + x) * 4;
+            data[i] = data[i + 1] = data[i + 2] = pixel(x, y);
+            data[i + 3] = 255;
+        }
+    }
+    return { data } as Pixels;
+};
+
+// A gradient background, with a white caption band at y 80-89, x 20-79 when captioned
+const inCaption = (x: number, y: number) => y >= 80 && y < 90 && x >= 20 && x < 80;
+const background = (x: number, y: number) => (x + y) % 128;
+const captioned = frame((x, y) => (inCaption(x, y) ? 255 : background(x, y)));
+
+// Gemini's clean frame: caption gone, and small regeneration noise everywhere else
+const cleaned = frame((x, y) => background(x, y) + ((x * 7 + y * 13) % 9));
+const CAPTION_COVERAGE = (66 * 16) / (WIDTH * HEIGHT);
+
+const covered = (mask: Uint8Array, x: number, y: number) => mask[y * WIDTH + x] === 1;
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('buildTextMask', () => {
+    it('covers the caption and nothing far from it', () => {
+        const mask = buildTextMask([{ original: captioned, cleaned }], WIDTH, HEIGHT, OPTIONS)!;
+
+        expect(mask).not.toBeNull();
+        expect(covered(mask, 50, 85)).toBe(true);
+        expect(covered(mask, 50, 20)).toBe(false);
+        expect(covered(mask, 5, 85)).toBe(false);
+        // Exactly the 60x10 caption grown by 3px on each side: 66x16 of 100x100
+        expect(maskCoverage(mask)).toBeCloseTo(CAPTION_COVERAGE);
+    });
+
+    it('leaves out a keyframe Gemini redrew wholesale', () => {
+        const redrawn = frame((x, y) => 255 - background(x, y));
+        const mask = buildTextMask(
+            [{ original: captioned, cleaned }, { original: captioned, cleaned: redrawn }],
+            WIDTH,
+            HEIGHT,
+            OPTIONS
+        )!;
+
+        expect(mask).not.toBeNull();
+        expect(maskCoverage(mask)).toBeCloseTo(CAPTION_COVERAGE);
+    });
+
+    it('gives up when no keyframe localises the text', () => {
+        const redrawn = frame((x, y) => 255 - background(x, y));
+        expect(buildTextMask([{ original: captioned, cleaned: redrawn }], WIDTH, HEIGHT, OPTIONS)).toBeNull();
+    });
+
+    it('gives up when the merged mask grows past the cap', () => {
+        // Each keyframe changed a different fifth of the frame: fine alone, too much together
+        const band = (from: number) => frame((x, y) => (y >= from && y < from + 20 ? 255 : background(x, y)));
+        const pairs = [0, 20, 40].map(from => ({ original: band(from), cleaned: frame(background) }));
+        expect(buildTextMask(pairs, WIDTH, HEIGHT, OPTIONS)).toBeNull();
+    });
+
+    it('is empty when nothing changed', () => {
+        const mask = buildTextMask([{ original: cleaned, cleaned }], WIDTH, HEIGHT, OPTIONS)!;
+        expect(maskCoverage(mask)).toBe(0);
+    });
+});
@@ -2,7 +2,11 @@
 
 interface ImportMetaEnv {
     readonly VITE_KLIPY_API_KEY: string;
+    readonly VITE_KLIPY_PROXY_URL?: string;
+    readonly VITE_GIF_PROXY_URL?: string;
+    readonly VITE_GIF_PROVIDERS?: string;
     readonly VITE_GEMINI_API_KEY: string;
+    readonly VITE_GEMINI_GATEWAY?: string;
     readonly VITE_GOOGLE_CLOUD_PROJECT: string;
     readonly VITE_GOOGLE_CLOUD_LOCATION: string;
     readonly VITE_FIREBASE_API_KEY: string;